@@ -6,26 +6,49 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import ChatBot from "./components/ChatBot";
+import CellTypeProvider from "./components/CellTypeProvider";
 import Quiz from "./pages/Quiz";
 import Members from "./pages/Members";
+import GeneticCode from "./pages/GeneticCode";
+import OrfFinder from "./pages/OrfFinder";
+import MutationPlayground from "./pages/MutationPlayground";
+import SequenceAlignment from "./pages/SequenceAlignment";
+import SequenceStats from "./pages/SequenceStats";
+import ProteinAnalysis from "./pages/ProteinAnalysis";
+import StructureExplorer from "./pages/StructureExplorer";
+import TranslationKinetics from "./pages/TranslationKinetics";
+import GeneRegulation from "./pages/GeneRegulation";
+import CaseStudies from "./pages/CaseStudies";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/quiz" element={<Quiz />} />
-          <Route path="/members" element={<Members />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-        <ChatBot />
-      </BrowserRouter>
+      <CellTypeProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/quiz" element={<Quiz />} />
+            <Route path="/members" element={<Members />} />
+            <Route path="/regulation" element={<GeneRegulation />} />
+            <Route path="/genetic-code" element={<GeneticCode />} />
+            <Route path="/tools/orf" element={<OrfFinder />} />
+            <Route path="/tools/mutations" element={<MutationPlayground />} />
+            <Route path="/tools/alignment" element={<SequenceAlignment />} />
+            <Route path="/tools/stats" element={<SequenceStats />} />
+            <Route path="/tools/protein" element={<ProteinAnalysis />} />
+            <Route path="/tools/structures" element={<StructureExplorer />} />
+            <Route path="/tools/kinetics" element={<TranslationKinetics />} />
+            <Route path="/case-studies" element={<CaseStudies />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+          <ChatBot />
+        </BrowserRouter>
+      </CellTypeProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,101 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { formatAlignment, type AlignmentColumnKind, type AlignmentResult } from '@/lib/alignment';
+
+interface AlignmentViewerProps {
+  result: AlignmentResult;
+  labelA: string;
+  labelB: string;
+  width?: number;
+  className?: string;
+}
+
+// Columns per block, as in EMBOSS output
+const BLOCK_WIDTH = 50;
+
+const KIND_STYLES: Record<AlignmentColumnKind, string> = {
+  match: 'bg-green-500/30 text-white',
+  similar: 'bg-yellow-500/25 text-white',
+  mismatch: 'bg-red-500/40 text-white font-bold',
+  gap: 'text-white/40',
+};
+
+const KIND_LABELS: Record<AlignmentColumnKind, string> = {
+  match: 'Identical',
+  similar: 'Similar (positive score)',
+  mismatch: 'Mismatch',
+  gap: 'Gap',
+};
+
+// Residue number of the last residue at or before column `end`, for the right-hand ruler
+const lastPosition = (positions: (number | null)[], end: number, fallback: number) => {
+  for (let i = end; i >= 0; i--) {
+    if (positions[i] !== null) return positions[i] as number;
+  }
+  return fallback;
+};
+
+// A pairwise alignment in blocks: sequence A, the match line, sequence B, with residue numbers either side
+const AlignmentViewer: React.FC<AlignmentViewerProps> = ({ result, labelA, labelB, width = BLOCK_WIDTH, className }) => {
+  const { columns } = result;
+  const [, midline] = formatAlignment(columns);
+  const positionsA = columns.map(({ positionA }) => positionA);
+  const positionsB = columns.map(({ positionB }) => positionB);
+  const blocks = [...Array(Math.ceil(columns.length / width))].map((_, i) => i * width);
+
+  const renderRow = (label: string, key: 'a' | 'b', positions: (number | null)[], start: number, first: number) => {
+    const end = Math.min(start + width, columns.length) - 1;
+    const before = lastPosition(positions, start - 1, first - 1);
+    return (
+      <div className="flex items-center">
+        <span className="w-24 shrink-0 truncate text-muted-foreground" title={label}>{label}</span>
+        <span className="w-10 shrink-0 text-right pr-2 text-white/40">{before + 1}</span>
+        <div className="flex">
+          {columns.slice(start, end + 1).map((column, k) => (
+            <span key={start + k} className={cn('w-4 text-center', KIND_STYLES[column.kind])}>
+              {column[key]}
+            </span>
+          ))}
+        </div>
+        <span className="w-10 shrink-0 pl-2 text-white/40">{lastPosition(positions, end, before)}</span>
+      </div>
+    );
+  };
+
+  if (columns.length === 0) {
+    return <p className={cn('text-muted-foreground', className)}>No alignment scores above zero.</p>;
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="space-y-3 overflow-x-auto font-mono text-xs">
+        {blocks.map(start => (
+          <div key={start} className="space-y-0.5">
+            {renderRow(labelA, 'a', positionsA, start, result.startA)}
+            <div className="flex items-center">
+              <span className="w-24 shrink-0" />
+              <span className="w-10 shrink-0" />
+              <div className="flex text-white/60">
+                {midline.slice(start, start + width).split('').map((symbol, k) => (
+                  <span key={start + k} className="w-4 text-center">{symbol}</span>
+                ))}
+              </div>
+            </div>
+            {renderRow(labelB, 'b', positionsB, start, result.startB)}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-white/80">
+        {(Object.keys(KIND_LABELS) as AlignmentColumnKind[]).map(kind => (
+          <div key={kind} className="flex items-center gap-1">
+            <span className={cn('w-3 h-3 rounded-sm border border-white/20', KIND_STYLES[kind])} />
+            {KIND_LABELS[kind]}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AlignmentViewer;
@@ -0,0 +1,29 @@
+import React, { useEffect, useState } from 'react';
+import { CellTypeContext, type CellType } from '@/hooks/use-cell-type';
+
+const STORAGE_KEY = 'cell_type';
+
+// Whether the animations show a eukaryotic cell (nucleus, mRNA processing) or a bacterium
+const CellTypeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [cellType, setCellType] = useState<CellType>(() => {
+    if (typeof window !== 'undefined' && localStorage.getItem(STORAGE_KEY) === 'prokaryote') {
+      return 'prokaryote';
+    }
+    return 'eukaryote';
+  });
+
+  // Remember the choice between visits
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, cellType);
+    }
+  }, [cellType]);
+
+  return (
+    <CellTypeContext.Provider value={{ cellType, setCellType }}>
+      {children}
+    </CellTypeContext.Provider>
+  );
+};
+
+export default CellTypeProvider;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { useCellType, type CellType } from '@/hooks/use-cell-type';
+
+interface CellTypeToggleProps {
+  className?: string;
+}
+
+const options: { id: CellType; label: string }[] = [
+  { id: 'eukaryote', label: 'Eukaryote' },
+  { id: 'prokaryote', label: 'Prokaryote' },
+];
+
+// Switches every animation on the site between a eukaryotic cell and a bacterium
+const CellTypeToggle: React.FC<CellTypeToggleProps> = ({ className }) => {
+  const { cellType, setCellType } = useCellType();
+
+  return (
+    <div className={cn('inline-flex p-1 rounded-full bg-muted/30 border border-primary/20', className)}>
+      {options.map((option) => (
+        <button
+          key={option.id}
+          onClick={() => setCellType(option.id)}
+          aria-pressed={cellType === option.id}
+          className={cn(
+            'px-4 py-1 rounded-full text-sm font-medium transition-colors',
+            cellType === option.id ? 'bg-primary/50 text-white' : 'text-white/60 hover:text-white'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default CellTypeToggle;
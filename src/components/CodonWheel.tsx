@@ -0,0 +1,187 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { ALL_CODONS, AMINO_ACIDS, getGeneticCode, RNA_BASES, START_CODON } from '@/lib/genetic-code';
+import { PROPERTY_COLORS } from '@/lib/protein-properties';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+interface CodonWheelProps {
+  tableId?: number;
+  activeCodon?: string | null;
+  highlighted?: string[]; // codons drawn at full strength while the rest fade
+  onHover?: (codon: string | null) => void;
+  onSelect?: (codon: string) => void;
+  variant?: 'screen' | 'print'; // print: dark text on white, for worksheets
+  size?: number;
+  className?: string;
+}
+
+const BASE_COLORS: Record<string, string> = {
+  A: '#E11D48',
+  U: '#22C55E',
+  G: '#F59E0B',
+  C: '#3B82F6',
+};
+
+const STOP_COLOR = '#64748B';
+
+// Ring radii, centre outwards: first base, second base, third base, amino acid
+const RINGS = [28, 70, 108, 136, 192];
+
+const CODON_ANGLE = 360 / ALL_CODONS.length;
+
+const polar = (radius: number, angle: number) => {
+  const radians = ((angle - 90) * Math.PI) / 180;
+  return [radius * Math.cos(radians), radius * Math.sin(radians)];
+};
+
+// Ring segment between two radii, clockwise from angle `from` to `to` (degrees from 12 o'clock)
+const sector = (inner: number, outer: number, from: number, to: number) => {
+  const large = to - from > 180 ? 1 : 0;
+  const [x1, y1] = polar(outer, from);
+  const [x2, y2] = polar(outer, to);
+  const [x3, y3] = polar(inner, to);
+  const [x4, y4] = polar(inner, from);
+  return `M ${x1} ${y1} A ${outer} ${outer} 0 ${large} 1 ${x2} ${y2} L ${x3} ${y3} A ${inner} ${inner} 0 ${large} 0 ${x4} ${y4} Z`;
+};
+
+// Runs of neighbouring codons that share an amino acid, labelled once on the outer ring
+const aminoAcidGroups = (code: Record<string, string>) => {
+  const groups: { aminoAcid: string; first: number; count: number }[] = [];
+  ALL_CODONS.forEach((codon, i) => {
+    const last = groups[groups.length - 1];
+    if (last && last.aminoAcid === code[codon]) last.count++;
+    else groups.push({ aminoAcid: code[codon], first: i, count: 1 });
+  });
+  return groups;
+};
+
+// The genetic code as a wheel: read a codon from the centre outwards, first base to third, to reach its amino acid
+const CodonWheel: React.FC<CodonWheelProps> = ({
+  tableId = STANDARD_TABLE_ID,
+  activeCodon = null,
+  highlighted = [],
+  onHover,
+  onSelect,
+  variant = 'screen',
+  size = 400,
+  className,
+}) => {
+  const code = getGeneticCode(tableId);
+  const print = variant === 'print';
+  const text = print ? '#0F172A' : '#FFFFFF';
+  const dimmed = highlighted.length > 0;
+  const isHighlighted = (codon: string) => !dimmed || highlighted.includes(codon);
+  const aminoAcidColor = (aminoAcid: string) =>
+    aminoAcid === '*' ? STOP_COLOR : PROPERTY_COLORS[AMINO_ACIDS[aminoAcid]?.property ?? 'special'];
+
+  return (
+    <svg
+      viewBox="-200 -200 400 400"
+      width={size}
+      height={size}
+      className={cn('max-w-full h-auto', className)}
+      fontFamily="ui-sans-serif, system-ui, sans-serif"
+      role="img"
+      aria-label="Codon wheel"
+    >
+      {print && <rect x={-200} y={-200} width={400} height={400} fill="#FFFFFF" />}
+
+      {/* First and second bases */}
+      {RNA_BASES.map((first, i) => {
+        const from = i * 16 * CODON_ANGLE;
+        const [x, y] = polar((RINGS[0] + RINGS[1]) / 2, from + 8 * CODON_ANGLE);
+        return (
+          <g key={first}>
+            <path d={sector(RINGS[0], RINGS[1], from, from + 16 * CODON_ANGLE)} fill={BASE_COLORS[first]} fillOpacity={print ? 0.25 : 0.45} stroke={text} strokeOpacity={0.3} />
+            <text x={x} y={y} fill={text} fontSize={20} fontWeight="bold" textAnchor="middle" dominantBaseline="central">{first}</text>
+            {RNA_BASES.map((second, j) => {
+              const start = from + j * 4 * CODON_ANGLE;
+              const [sx, sy] = polar((RINGS[1] + RINGS[2]) / 2, start + 2 * CODON_ANGLE);
+              return (
+                <g key={second}>
+                  <path d={sector(RINGS[1], RINGS[2], start, start + 4 * CODON_ANGLE)} fill={BASE_COLORS[second]} fillOpacity={print ? 0.2 : 0.35} stroke={text} strokeOpacity={0.3} />
+                  <text x={sx} y={sy} fill={text} fontSize={13} fontWeight="bold" textAnchor="middle" dominantBaseline="central">{second}</text>
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+
+      {/* Third bases, one per codon */}
+      {ALL_CODONS.map((codon, i) => {
+        const from = i * CODON_ANGLE;
+        const [x, y] = polar((RINGS[2] + RINGS[3]) / 2, from + CODON_ANGLE / 2);
+        return (
+          <g key={codon} opacity={isHighlighted(codon) ? 1 : 0.3}>
+            <path d={sector(RINGS[2], RINGS[3], from, from + CODON_ANGLE)} fill={BASE_COLORS[codon[2]]} fillOpacity={print ? 0.15 : 0.25} stroke={text} strokeOpacity={0.25} />
+            <text x={x} y={y} fill={text} fontSize={9} textAnchor="middle" dominantBaseline="central">{codon[2]}</text>
+          </g>
+        );
+      })}
+
+      {/* Amino acids */}
+      {aminoAcidGroups(code).map(({ aminoAcid, first, count }) => {
+        const from = first * CODON_ANGLE;
+        const mid = from + (count * CODON_ANGLE) / 2;
+        const [x, y] = polar((RINGS[3] + RINGS[4]) / 2, mid);
+        const codons = ALL_CODONS.slice(first, first + count);
+        // Labels run along the radius and are turned over on the left so they never read upside down
+        const rotation = mid < 180 ? mid - 90 : mid + 90;
+        return (
+          <g key={first} opacity={codons.some(isHighlighted) ? 1 : 0.3}>
+            <path d={sector(RINGS[3], RINGS[4], from, from + count * CODON_ANGLE)} fill={aminoAcidColor(aminoAcid)} fillOpacity={print ? 0.35 : 0.5} stroke={text} strokeOpacity={0.4} />
+            <text
+              x={x}
+              y={y}
+              fill={text}
+              fontSize={count > 1 ? 12 : 9}
+              fontWeight="bold"
+              textAnchor="middle"
+              dominantBaseline="central"
+              transform={`rotate(${rotation} ${x} ${y})`}
+            >
+              {AMINO_ACIDS[aminoAcid]?.threeLetter}
+            </text>
+          </g>
+        );
+      })}
+
+      {/* The start codon gets a marker outside the ring */}
+      {(() => {
+        const i = ALL_CODONS.indexOf(START_CODON);
+        const [x, y] = polar(RINGS[4] + 4, (i + 0.5) * CODON_ANGLE);
+        return <circle cx={x} cy={y} r={3} fill="#22C55E" />;
+      })()}
+
+      {/* Active codon outline and invisible hit areas, drawn last so they sit on top */}
+      {activeCodon && ALL_CODONS.includes(activeCodon) && (
+        <path
+          d={sector(RINGS[2], RINGS[4], ALL_CODONS.indexOf(activeCodon) * CODON_ANGLE, (ALL_CODONS.indexOf(activeCodon) + 1) * CODON_ANGLE)}
+          fill="none"
+          stroke={text}
+          strokeWidth={2}
+        />
+      )}
+      {!print && ALL_CODONS.map((codon, i) => (
+        <path
+          key={codon}
+          d={sector(RINGS[2], RINGS[4], i * CODON_ANGLE, (i + 1) * CODON_ANGLE)}
+          fill="transparent"
+          className="cursor-pointer"
+          onMouseEnter={() => onHover?.(codon)}
+          onMouseLeave={() => onHover?.(null)}
+          onClick={() => onSelect?.(codon)}
+        >
+          <title>{`${codon} → ${AMINO_ACIDS[code[codon]]?.name}`}</title>
+        </path>
+      ))}
+
+      <circle r={RINGS[0]} fill={print ? '#FFFFFF' : 'transparent'} stroke={text} strokeOpacity={0.3} />
+      <text y={-5} fill={text} fillOpacity={0.7} fontSize={8} textAnchor="middle">5′ → 3′</text>
+      <text y={6} fill={text} fillOpacity={0.7} fontSize={8} textAnchor="middle">start here</text>
+    </svg>
+  );
+};
+
+export default CodonWheel;
@@ -1,209 +1,288 @@
-
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
+import { complementDNA, normalizeDNA } from '@/lib/dna';
 
 interface DNAModelProps {
   className?: string;
+  sequence?: string; // one strand, read 5'→3'; its partner is built by complementary pairing
+  showLegend?: boolean;
 }
 
-const DNAModel: React.FC<DNAModelProps> = ({ className = '' }) => {
+const DEFAULT_SEQUENCE = 'ATGGCTAGCAAAGGAGAAGAACTTTTCACT';
+
+// Longest duplex we build; anything longer is trimmed to keep the scene light
+const MAX_BASE_PAIRS = 60;
+
+// B-DNA: 10.5 bp per turn, 3.4 Å rise and ~10 Å radius, so rise = 0.34 × radius
+const BASE_PAIRS_PER_TURN = 10.5;
+const HELIX_RADIUS = 5;
+const RISE_PER_BASE_PAIR = HELIX_RADIUS * 0.34;
+
+// The two sugars of a base pair sit ~144° apart around the axis rather than 180°,
+// which opens a wide major groove on one side and a narrow minor groove on the other
+const MINOR_GROOVE_ANGLE = Math.PI * 0.8;
+
+const baseColors: Record<string, number> = {
+  A: 0xE11D48, // Adenine
+  T: 0x22C55E, // Thymine
+  G: 0xF59E0B, // Guanine
+  C: 0x3B82F6, // Cytosine
+  N: 0x64748B, // Any IUPAC ambiguity code
+};
+
+// A–T pairs share two hydrogen bonds, G–C pairs three
+const hydrogenBonds = (base: string) => (base === 'G' || base === 'C' ? 3 : 2);
+
+const DNAModel: React.FC<DNAModelProps> = ({
+  className = '',
+  sequence = DEFAULT_SEQUENCE,
+  showLegend = false
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  
+
+  const strand1 = useMemo(() => normalizeDNA(sequence).slice(0, MAX_BASE_PAIRS), [sequence]);
+  const strand2 = useMemo(() => complementDNA(strand1), [strand1]);
+
   useEffect(() => {
     if (!containerRef.current) return;
-    
+
     // Set up scene
     const scene = new THREE.Scene();
-    
+
     // Set up camera
     const camera = new THREE.PerspectiveCamera(
-      50, 
-      containerRef.current.clientWidth / containerRef.current.clientHeight, 
-      0.1, 
+      50,
+      containerRef.current.clientWidth / containerRef.current.clientHeight,
+      0.1,
       1000
     );
-    camera.position.z = 30;
-    
+
+    // Pull back for long duplexes so the whole helix stays in view
+    const helixHeight = strand1.length * RISE_PER_BASE_PAIR;
+    camera.position.z = Math.max(30, helixHeight * 1.1);
+
     // Set up renderer
-    const renderer = new THREE.WebGLRenderer({ 
+    const renderer = new THREE.WebGLRenderer({
       alpha: true,
       antialias: true
     });
     renderer.setSize(containerRef.current.clientWidth, containerRef.current.clientHeight);
     renderer.setClearColor(0x000000, 0);
     containerRef.current.appendChild(renderer.domElement);
-    
+
     // Add ambient light
     const ambientLight = new THREE.AmbientLight(0x404040, 1);
     scene.add(ambientLight);
-    
+
     // Add directional light (like sunlight)
     const directionalLight = new THREE.DirectionalLight(0xffffff, 1.5);
     directionalLight.position.set(1, 1, 1);
     scene.add(directionalLight);
-    
+
     // Add point lights for dramatic effect
     const purpleLight = new THREE.PointLight(0x8B5CF6, 3, 50);
     purpleLight.position.set(-10, 10, 10);
     scene.add(purpleLight);
-    
+
     const blueLight = new THREE.PointLight(0x0EA5E9, 3, 50);
     blueLight.position.set(10, -10, 10);
     scene.add(blueLight);
-    
+
     // Create DNA helix
     const dna = new THREE.Group();
     scene.add(dna);
-    
+
     // Parameters for the DNA
-    const helixRadius = 8;
-    const helixHeight = 40;
-    const helixTurns = 4;
-    const helixSegments = 100;
-    const nucleotideSize = 0.6;
+    const nucleotideSize = 0.45;
     const backboneSize = 0.3;
-    
+
     // Materials
-    const backboneMaterial1 = new THREE.MeshPhongMaterial({ 
+    const backboneMaterial1 = new THREE.MeshPhongMaterial({
       color: 0x8B5CF6,
       emissive: 0x8B5CF6,
       emissiveIntensity: 0.2,
       shininess: 100
     });
-    
-    const backboneMaterial2 = new THREE.MeshPhongMaterial({ 
+
+    const backboneMaterial2 = new THREE.MeshPhongMaterial({
       color: 0x0EA5E9,
       emissive: 0x0EA5E9,
       emissiveIntensity: 0.2,
       shininess: 100
     });
-    
-    const nucleotideMaterials = [
-      new THREE.MeshPhongMaterial({ color: 0xE11D48 }), // Adenine
-      new THREE.MeshPhongMaterial({ color: 0x22C55E }), // Thymine
-      new THREE.MeshPhongMaterial({ color: 0xF59E0B }), // Guanine
-      new THREE.MeshPhongMaterial({ color: 0x3B82F6 })  // Cytosine
-    ];
-    
+
+    const nucleotideMaterials: Record<string, THREE.MeshPhongMaterial> = Object.fromEntries(
+      Object.entries(baseColors).map(([base, color]) => [base, new THREE.MeshPhongMaterial({ color })])
+    );
+
     // Create spheres for backbone
     const backboneGeometry = new THREE.SphereGeometry(backboneSize, 12, 12);
-    
+
     // Create spheres for nucleotides
     const nucleotideGeometry = new THREE.SphereGeometry(nucleotideSize, 12, 12);
-    
+
     // Create cylinder for connections
-    const connectionGeometry = new THREE.CylinderGeometry(0.15, 0.15, 1, 6);
+    const connectionGeometry = new THREE.CylinderGeometry(1, 1, 1, 6);
     connectionGeometry.rotateX(Math.PI / 2);
-    const connectionMaterial = new THREE.MeshPhongMaterial({ 
+    connectionGeometry.translate(0, 0, 0.5);
+    const hydrogenBondMaterial = new THREE.MeshPhongMaterial({
       color: 0xffffff,
       transparent: true,
-      opacity: 0.5
+      opacity: 0.7
     });
-    
-    // Generate DNA structure
-    for (let i = 0; i < helixSegments; i++) {
-      const ratio = i / helixSegments;
-      const angle1 = ratio * Math.PI * 2 * helixTurns;
-      const angle2 = angle1 + Math.PI; // Opposite side
-      const y = helixHeight * (0.5 - ratio) - helixHeight/4; // Center and shift down
-      
+
+    // Stretch a unit cylinder from one point to another
+    const addConnection = (
+      from: THREE.Vector3,
+      to: THREE.Vector3,
+      radius: number,
+      material: THREE.Material
+    ) => {
+      const connection = new THREE.Mesh(connectionGeometry, material);
+      connection.position.copy(from);
+      connection.lookAt(to);
+      connection.scale.set(radius, radius, from.distanceTo(to));
+      dna.add(connection);
+    };
+
+    const backbonePoints1: THREE.Vector3[] = [];
+    const backbonePoints2: THREE.Vector3[] = [];
+
+    // Generate DNA structure, one base pair per step
+    for (let i = 0; i < strand1.length; i++) {
+      const angle1 = (i / BASE_PAIRS_PER_TURN) * Math.PI * 2;
+      const angle2 = angle1 + MINOR_GROOVE_ANGLE;
+      const y = helixHeight / 2 - i * RISE_PER_BASE_PAIR;
+
       // First backbone
       const backbone1 = new THREE.Mesh(backboneGeometry, backboneMaterial1);
       backbone1.position.set(
-        helixRadius * Math.cos(angle1),
+        HELIX_RADIUS * Math.cos(angle1),
         y,
-        helixRadius * Math.sin(angle1)
+        HELIX_RADIUS * Math.sin(angle1)
       );
       dna.add(backbone1);
-      
+      backbonePoints1.push(backbone1.position.clone());
+
       // Second backbone
       const backbone2 = new THREE.Mesh(backboneGeometry, backboneMaterial2);
       backbone2.position.set(
-        helixRadius * Math.cos(angle2),
+        HELIX_RADIUS * Math.cos(angle2),
         y,
-        helixRadius * Math.sin(angle2)
+        HELIX_RADIUS * Math.sin(angle2)
       );
       dna.add(backbone2);
-      
-      // Add nucleotides only to some positions for better performance
-      if (i % 3 === 0) {
-        // First nucleotide
-        const nucleotide1 = new THREE.Mesh(
-          nucleotideGeometry, 
-          nucleotideMaterials[i % 4]
-        );
-        nucleotide1.position.set(
-          helixRadius * 0.6 * Math.cos(angle1),
-          y,
-          helixRadius * 0.6 * Math.sin(angle1)
-        );
-        dna.add(nucleotide1);
-        
-        // Second nucleotide (complementary base pair)
-        const nucleotide2 = new THREE.Mesh(
-          nucleotideGeometry, 
-          nucleotideMaterials[(i + 1) % 4]
-        );
-        nucleotide2.position.set(
-          helixRadius * 0.6 * Math.cos(angle2),
-          y,
-          helixRadius * 0.6 * Math.sin(angle2)
-        );
-        dna.add(nucleotide2);
-        
-        // Connection between nucleotides
-        const dist = nucleotide1.position.distanceTo(nucleotide2.position);
-        const connection = new THREE.Mesh(
-          connectionGeometry.clone(),
-          connectionMaterial
+      backbonePoints2.push(backbone2.position.clone());
+
+      // Bases meet across the chord between the two sugars
+      const base1 = strand1[i];
+      const base2 = strand2[i];
+      const basePosition1 = new THREE.Vector3().lerpVectors(backbone1.position, backbone2.position, 0.38);
+      const basePosition2 = new THREE.Vector3().lerpVectors(backbone1.position, backbone2.position, 0.62);
+
+      const nucleotide1 = new THREE.Mesh(nucleotideGeometry, nucleotideMaterials[base1] ?? nucleotideMaterials.N);
+      nucleotide1.position.copy(basePosition1);
+      dna.add(nucleotide1);
+      addConnection(backbone1.position, basePosition1, 0.18, nucleotideMaterials[base1] ?? nucleotideMaterials.N);
+
+      const nucleotide2 = new THREE.Mesh(nucleotideGeometry, nucleotideMaterials[base2] ?? nucleotideMaterials.N);
+      nucleotide2.position.copy(basePosition2);
+      dna.add(nucleotide2);
+      addConnection(backbone2.position, basePosition2, 0.18, nucleotideMaterials[base2] ?? nucleotideMaterials.N);
+
+      // Hydrogen bonds, stacked along the helix axis so two and three are easy to tell apart
+      const bonds = hydrogenBonds(base1);
+      for (let b = 0; b < bonds; b++) {
+        const offset = new THREE.Vector3(0, (b - (bonds - 1) / 2) * 0.28, 0);
+        addConnection(
+          basePosition1.clone().add(offset),
+          basePosition2.clone().add(offset),
+          0.05,
+          hydrogenBondMaterial
         );
-        connection.position.copy(nucleotide1.position);
-        connection.lookAt(nucleotide2.position);
-        connection.scale.set(1, 1, dist);
-        dna.add(connection);
       }
     }
-    
+
+    // Sugar-phosphate backbones as continuous tubes
+    if (strand1.length > 1) {
+      [
+        { points: backbonePoints1, material: backboneMaterial1 },
+        { points: backbonePoints2, material: backboneMaterial2 },
+      ].forEach(({ points, material }) => {
+        const tube = new THREE.Mesh(
+          new THREE.TubeGeometry(new THREE.CatmullRomCurve3(points), points.length * 4, 0.15, 6),
+          material
+        );
+        dna.add(tube);
+      });
+    }
+
     // Animation loop
+    let animationId = 0;
     const animate = () => {
-      requestAnimationFrame(animate);
-      
+      animationId = requestAnimationFrame(animate);
+
       // Rotate the DNA
       dna.rotation.y += 0.003;
-      
+
       // Move point lights for dynamic effect
       const time = Date.now() * 0.001;
       purpleLight.position.x = Math.sin(time * 0.7) * 15;
       purpleLight.position.y = Math.cos(time * 0.5) * 15;
       blueLight.position.x = Math.cos(time * 0.3) * 15;
       blueLight.position.y = Math.sin(time * 0.5) * 15;
-      
+
       renderer.render(scene, camera);
     };
-    
+
     animate();
-    
+
     // Handle window resize
     const handleResize = () => {
       if (!containerRef.current) return;
-      
+
       camera.aspect = containerRef.current.clientWidth / containerRef.current.clientHeight;
       camera.updateProjectionMatrix();
       renderer.setSize(containerRef.current.clientWidth, containerRef.current.clientHeight);
     };
-    
+
     window.addEventListener('resize', handleResize);
-    
+
     // Clean up
     return () => {
+      cancelAnimationFrame(animationId);
       if (containerRef.current && containerRef.current.contains(renderer.domElement)) {
         containerRef.current.removeChild(renderer.domElement);
       }
+      renderer.dispose();
       window.removeEventListener('resize', handleResize);
     };
-  }, []);
-  
-  return <div ref={containerRef} className={`${className} w-full h-full`}></div>;
+  }, [strand1, strand2]);
+
+  return (
+    <div className={`${className} relative w-full h-full`}>
+      <div ref={containerRef} className="absolute inset-0"></div>
+
+      {showLegend && (
+        <div className="absolute top-3 left-3 bg-popover/50 backdrop-blur-sm p-2 rounded-lg border border-primary/20 text-xs text-white/80 space-y-1">
+          <div className="text-white/90 font-medium">Base Pairs</div>
+          <div className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-full bg-[#E11D48]"></span>A
+            <span className="mx-1">=</span>
+            <span className="w-3 h-3 rounded-full bg-[#22C55E]"></span>T
+            <span className="ml-2 text-white/60">2 H-bonds</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-full bg-[#F59E0B]"></span>G
+            <span className="mx-1">≡</span>
+            <span className="w-3 h-3 rounded-full bg-[#3B82F6]"></span>C
+            <span className="ml-2 text-white/60">3 H-bonds</span>
+          </div>
+          <div className="text-white/60">10.5 bp per turn · major and minor grooves</div>
+        </div>
+      )}
+    </div>
+  );
 };
 
 export default DNAModel;
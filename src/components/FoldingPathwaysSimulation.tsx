@@ -0,0 +1,301 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+import {
+  CHAPERONE_CAPACITY,
+  DEFAULT_FOLDING_CONDITIONS,
+  FOLDING_STATE_COLORS,
+  FOLDING_STATES,
+  simulateFolding,
+  type FoldingConditions,
+  type FoldingState,
+} from '@/lib/folding-pathways';
+
+interface FoldingPathwaysSimulationProps {
+  isActive?: boolean;
+  className?: string;
+}
+
+const STATE_LABELS: Record<FoldingState, string> = {
+  unfolded: 'Unfolded',
+  native: 'Native',
+  misfolded: 'Misfolded',
+  chaperone: 'Chaperone (GroEL)',
+  aggregated: 'Amyloid aggregate',
+};
+
+// Where each population sits in the 600 × 300 scene
+const ZONES: Record<FoldingState, { x: number; y: number; width: number; height: number }> = {
+  unfolded: { x: 20, y: 90, width: 150, height: 120 },
+  chaperone: { x: 225, y: 10, width: 150, height: 80 },
+  native: { x: 430, y: 20, width: 150, height: 120 },
+  misfolded: { x: 225, y: 200, width: 150, height: 90 },
+  aggregated: { x: 430, y: 170, width: 150, height: 120 },
+};
+
+// Arrows for the possible transitions; heat denaturation is dashed
+const PATHWAYS: { from: FoldingState; to: FoldingState; dashed?: boolean }[] = [
+  { from: 'unfolded', to: 'native' },
+  { from: 'unfolded', to: 'misfolded' },
+  { from: 'misfolded', to: 'chaperone' },
+  { from: 'chaperone', to: 'unfolded' },
+  { from: 'misfolded', to: 'aggregated' },
+  { from: 'native', to: 'unfolded', dashed: true },
+];
+
+const STEP_MS = 400;
+const STEPS = 60;
+
+const chartConfig = Object.fromEntries(
+  FOLDING_STATES.map(state => [state, { label: STATE_LABELS[state], color: FOLDING_STATE_COLORS[state] }])
+) satisfies ChartConfig;
+
+const DISEASE_EXAMPLES = [
+  {
+    name: "Alzheimer's disease",
+    text: 'Fragments cut from the amyloid precursor protein (Aβ) misfold into β-sheet-rich fibrils that build up as ' +
+      'plaques between neurons, while the protein tau forms tangles inside them. The risk climbs with age, as ' +
+      'chaperones and protein clearance slowly decline — much like switching the chaperones off above.',
+  },
+  {
+    name: 'Prion diseases',
+    text: 'In Creutzfeldt-Jakob disease, kuru and "mad cow" disease (BSE), the prion protein PrP refolds from its ' +
+      'normal helical shape into a β-sheet form that converts normal PrP on contact. The misfolded protein itself ' +
+      'is infectious — the seeding in this model, where every aggregate speeds up the next, taken to the extreme.',
+  },
+];
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const zoneCenter = (state: FoldingState) => {
+  const zone = ZONES[state];
+  return { x: zone.x + zone.width / 2, y: zone.y + zone.height / 2 };
+};
+
+// Position of the k-th chain in a zone; aggregates stack tightly, like strands in a fibril
+const slotPosition = (state: FoldingState, k: number) => {
+  const zone = ZONES[state];
+  const columns = state === 'aggregated' ? 8 : 6;
+  const spacingX = zone.width / columns;
+  const spacingY = state === 'aggregated' ? 8 : 18;
+  return {
+    x: zone.x + spacingX * ((k % columns) + 0.5),
+    y: zone.y + (state === 'aggregated' ? zone.height - 12 - Math.floor(k / columns) * spacingY : 30 + Math.floor(k / columns) * spacingY),
+  };
+};
+
+const ChainGlyph: React.FC<{ state: FoldingState }> = ({ state }) => {
+  const color = FOLDING_STATE_COLORS[state];
+  switch (state) {
+    case 'unfolded':
+      return <path d="M -8 0 Q -4 -6 0 0 T 8 0" fill="none" stroke={color} strokeWidth={2} />;
+    case 'native':
+      return <circle r={6} fill={color} stroke="white" strokeOpacity={0.6} />;
+    case 'misfolded':
+      return <path d="M -6 -3 L 4 -5 L -3 1 L 6 3 L -5 5" fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />;
+    case 'chaperone':
+      return <circle r={5} fill={color} />;
+    case 'aggregated':
+      return <rect x={-8} y={-2} width={16} height={4} rx={1} fill={color} />;
+  }
+};
+
+// A population of new chains folding, misfolding, being rescued by chaperones or lost to aggregates
+const FoldingPathwaysSimulation: React.FC<FoldingPathwaysSimulationProps> = ({ isActive = true, className }) => {
+  const [conditions, setConditions] = useState<FoldingConditions>(DEFAULT_FOLDING_CONDITIONS);
+  const [seed, setSeed] = useState(1);
+  const [step, setStep] = useState(0);
+
+  const simulation = useMemo(() => simulateFolding(conditions, { steps: STEPS, seed }), [conditions, seed]);
+
+  // New conditions start a fresh batch of chains
+  useEffect(() => {
+    setStep(0);
+  }, [simulation]);
+
+  useEffect(() => {
+    if (!isActive || step >= STEPS) return;
+    const timer = setTimeout(() => setStep(current => current + 1), STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isActive, step]);
+
+  const states = simulation.states[step];
+  const counts = simulation.counts[step];
+  const slots = useMemo(() => {
+    const seen: Partial<Record<FoldingState, number>> = {};
+    return states.map(state => {
+      const k = seen[state] ?? 0;
+      seen[state] = k + 1;
+      return slotPosition(state, k);
+    });
+  }, [states]);
+
+  const update = (changes: Partial<FoldingConditions>) => setConditions(current => ({ ...current, ...changes }));
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className="grid md:grid-cols-2 gap-6">
+        <div>
+          <div className="flex justify-between text-white mb-3">
+            <span className="font-bold">Temperature</span>
+            <span className="font-mono text-secondary">{conditions.temperature} °C</span>
+          </div>
+          <Slider
+            value={[conditions.temperature]}
+            min={25}
+            max={55}
+            step={1}
+            onValueChange={([value]) => update({ temperature: value })}
+          />
+        </div>
+        <div>
+          <div className="flex justify-between text-white mb-3">
+            <span className="font-bold">Crowding</span>
+            <span className="font-mono text-secondary">{Math.round(conditions.crowding * 100)}% of the volume</span>
+          </div>
+          <Slider
+            value={[conditions.crowding * 100]}
+            min={0}
+            max={40}
+            step={5}
+            onValueChange={([value]) => update({ crowding: value / 100 })}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant={conditions.chaperones ? 'default' : 'outline'} onClick={() => update({ chaperones: true })}>
+          Chaperones on
+        </Button>
+        <Button size="sm" variant={conditions.chaperones ? 'outline' : 'default'} onClick={() => update({ chaperones: false })}>
+          Chaperones off
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setSeed(current => current + 1)}>
+          New batch
+        </Button>
+        <span className="text-sm text-white/70 ml-auto font-mono">
+          Step {step}/{STEPS}
+        </span>
+      </div>
+
+      <div className="rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background">
+        <svg viewBox="0 0 600 300" className="w-full h-auto">
+          <defs>
+            <marker id="pathway-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="white" fillOpacity={0.4} />
+            </marker>
+          </defs>
+
+          {PATHWAYS.map(({ from, to, dashed }) => {
+            const start = zoneCenter(from);
+            const end = zoneCenter(to);
+            // Stop short of the zone centres so the arrows run between the boxes
+            return (
+              <line
+                key={`${from}-${to}`}
+                x1={lerp(start.x, end.x, 0.3)}
+                y1={lerp(start.y, end.y, 0.3)}
+                x2={lerp(start.x, end.x, 0.7)}
+                y2={lerp(start.y, end.y, 0.7)}
+                stroke="white"
+                strokeOpacity={0.3}
+                strokeDasharray={dashed ? '4 4' : undefined}
+                markerEnd="url(#pathway-arrow)"
+              />
+            );
+          })}
+
+          {FOLDING_STATES.map(state => {
+            const zone = ZONES[state];
+            return (
+              <g key={state}>
+                <rect
+                  x={zone.x}
+                  y={zone.y}
+                  width={zone.width}
+                  height={zone.height}
+                  rx={10}
+                  fill={FOLDING_STATE_COLORS[state]}
+                  fillOpacity={0.08}
+                  stroke={FOLDING_STATE_COLORS[state]}
+                  strokeOpacity={0.4}
+                />
+                {/* GroEL: two stacked rings with a GroES lid */}
+                {state === 'chaperone' && (
+                  <g stroke={FOLDING_STATE_COLORS.chaperone} strokeOpacity={0.5} fill="none">
+                    <rect x={zone.x + 10} y={zone.y + 22} width={zone.width - 20} height={24} rx={6} />
+                    <rect x={zone.x + 10} y={zone.y + 48} width={zone.width - 20} height={24} rx={6} />
+                    <path d={`M ${zone.x + 20} ${zone.y + 22} Q ${zone.x + zone.width / 2} ${zone.y + 8} ${zone.x + zone.width - 20} ${zone.y + 22}`} />
+                  </g>
+                )}
+                <text x={zone.x + 8} y={zone.y + 15} fill="white" fillOpacity={0.8} fontSize={11} fontWeight="bold">
+                  {STATE_LABELS[state]} · {counts[state]}
+                  {state === 'chaperone' && ` / ${CHAPERONE_CAPACITY}`}
+                </text>
+              </g>
+            );
+          })}
+
+          {states.map((state, i) => (
+            <motion.g
+              key={i}
+              initial={false}
+              animate={{ x: slots[i].x, y: slots[i].y }}
+              transition={{ duration: STEP_MS / 1000 - 0.05, ease: 'easeInOut' }}
+            >
+              <ChainGlyph state={state} />
+            </motion.g>
+          ))}
+        </svg>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+        <AreaChart data={simulation.counts.slice(0, step + 1)}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="step" type="number" domain={[0, STEPS]} tickLine={false} axisLine={false} />
+          <YAxis tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Step ${payload[0]?.payload.step}`} />} />
+          {FOLDING_STATES.map(state => (
+            <Area
+              key={state}
+              dataKey={state}
+              stackId="chains"
+              type="stepAfter"
+              stroke={`var(--color-${state})`}
+              fill={`var(--color-${state})`}
+              fillOpacity={0.5}
+              isAnimationActive={false}
+            />
+          ))}
+        </AreaChart>
+      </ChartContainer>
+
+      <p className="text-muted-foreground text-sm">
+        Heat makes chains misfold and, near their melting point, unfold again. Crowding pushes exposed sticky
+        patches together, and every aggregate seeds the next. Chaperones catch misfolded chains and give them
+        another try, but there are only {CHAPERONE_CAPACITY} — at high temperature they are overwhelmed, as in a
+        heat shock.
+      </p>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {DISEASE_EXAMPLES.map(disease => (
+          <div key={disease.name} className="p-4 rounded-lg border border-red-500/20 bg-red-500/5">
+            <p className="font-medium text-white mb-1">{disease.name}</p>
+            <p className="text-white/70 text-sm">{disease.text}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FoldingPathwaysSimulation;
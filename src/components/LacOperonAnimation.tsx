@@ -0,0 +1,278 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { formatExpression, LAC_REGIONS, lacOperonState, type LacConditions } from '@/lib/lac-operon';
+import { TRANSCRIPTION_COLORS as colors } from '@/lib/transcription';
+
+interface LacOperonAnimationProps {
+  conditions: LacConditions;
+  onConditionsChange: (conditions: LacConditions) => void;
+  isActive?: boolean;
+  className?: string;
+}
+
+// Regulatory sites are tiny next to the genes, so they get a fixed share of the scene to stay visible
+const REGULATORY_WIDTH: Record<string, number> = { cap: 7, promoter: 10, operator: 7 };
+const DNA_START = 4;
+const DNA_END = 96;
+
+const regionColors: Record<string, string> = {
+  cap: 'border-sky-400/70 bg-sky-400/10 text-sky-300',
+  promoter: 'border-yellow-400/70 bg-yellow-400/10 text-yellow-400',
+  operator: 'border-rose-400/70 bg-rose-400/10 text-rose-300',
+  lacZ: 'border-pink-400/70 bg-pink-400/30 text-white',
+  lacY: 'border-lime-400/70 bg-lime-400/30 text-white',
+  lacA: 'border-violet-400/70 bg-violet-400/30 text-white',
+};
+
+const proteinColors: Record<string, string> = {
+  lacZ: 'bg-pink-400/80',
+  lacY: 'bg-lime-400/80',
+  lacA: 'bg-violet-400/80',
+};
+
+// Left edge and width of every region, as percentages of the scene width
+const layoutRegions = () => {
+  const regulatory = LAC_REGIONS.filter(region => region.kind === 'regulatory');
+  const genes = LAC_REGIONS.filter(region => region.kind === 'gene');
+  const regulatoryWidth = regulatory.reduce((sum, region) => sum + REGULATORY_WIDTH[region.id], 0);
+  const geneLength = genes.reduce((sum, region) => sum + region.length, 0);
+  const geneSpan = DNA_END - DNA_START - regulatoryWidth;
+
+  let left = DNA_START;
+  return LAC_REGIONS.map(region => {
+    const width = region.kind === 'gene' ? (region.length / geneLength) * geneSpan : REGULATORY_WIDTH[region.id];
+    const placed = { ...region, left, width };
+    left += width;
+    return placed;
+  });
+};
+
+const REGIONS = layoutRegions();
+const REGION_BY_ID = Object.fromEntries(REGIONS.map(region => [region.id, region]));
+const GENES = REGIONS.filter(region => region.kind === 'gene');
+
+const SugarToggle: React.FC<{ label: string; present: boolean; color: string; onToggle: () => void }> = ({
+  label,
+  present,
+  color,
+  onToggle,
+}) => (
+  <button
+    onClick={onToggle}
+    className={cn(
+      'px-3 py-1 rounded-full text-white text-xs font-medium transition-colors flex items-center gap-2',
+      present ? 'bg-primary/50' : 'bg-primary/20 hover:bg-primary/40'
+    )}
+  >
+    <span className={cn('w-3 h-3 rotate-45 rounded-sm', present ? color : 'bg-white/20')} />
+    {label} {present ? 'present' : 'absent'}
+  </button>
+);
+
+const LacOperonAnimation: React.FC<LacOperonAnimationProps> = ({
+  conditions,
+  onConditionsChange,
+  isActive = true,
+  className = '',
+}) => {
+  const state = lacOperonState(conditions);
+  const promoterLeft = REGION_BY_ID.promoter.left + 1;
+  const operonEnd = DNA_END - 4;
+  // Share of each run spent crossing the promoter and operator before any mRNA appears
+  const leadIn = (REGION_BY_ID.lacZ.left - promoterLeft) / (operonEnd - promoterLeft);
+
+  // One polymerase run across the genes; a strong promoter fires again almost at once
+  const transcribing = state.polymerase !== 'blocked' && isActive;
+  const runSeconds = 4;
+  const repeatDelay = state.polymerase === 'strong' ? 0.4 : 5;
+  const ribosomesPerGene = state.polymerase === 'strong' ? 3 : state.polymerase === 'weak' ? 1 : 0;
+
+  return (
+    <div className={cn('relative flex flex-col', className)}>
+      {/* Growth medium */}
+      <div className="flex flex-wrap gap-2 mb-3">
+        <SugarToggle
+          label="Lactose"
+          present={conditions.lactose}
+          color="bg-pink-400"
+          onToggle={() => onConditionsChange({ ...conditions, lactose: !conditions.lactose })}
+        />
+        <SugarToggle
+          label="Glucose"
+          present={conditions.glucose}
+          color="bg-sky-400"
+          onToggle={() => onConditionsChange({ ...conditions, glucose: !conditions.glucose })}
+        />
+      </div>
+
+      <div className="relative w-full flex-1 min-h-[22rem] bg-gradient-to-b from-popover to-background rounded-lg overflow-hidden">
+        {/* What the cell is doing */}
+        <motion.div
+          key={state.summary}
+          className="absolute top-3 left-1/2 -translate-x-1/2 w-[90%] text-center px-4 py-1 bg-primary/20 rounded-full text-white text-xs sm:text-sm font-medium"
+          initial={{ y: -10, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+        >
+          {state.summary}
+        </motion.div>
+
+        {/* Second messenger level */}
+        <div className="absolute top-14 right-3 bg-popover/50 backdrop-blur-sm p-2 rounded-lg border border-primary/20 text-xs text-white/80">
+          cAMP <span className={state.cAMPHigh ? 'text-sky-300 font-bold' : 'text-white/50'}>{state.cAMPHigh ? 'high' : 'low'}</span>
+          {' · '}allolactose <span className={state.allolactose ? 'text-pink-300 font-bold' : 'text-white/50'}>{state.allolactose ? 'yes' : 'no'}</span>
+        </div>
+
+        {/* DNA */}
+        <div className="absolute top-[42%] left-0 right-0 h-8">
+          <div className="absolute top-1/3 h-2 bg-gradient-to-r from-purple-500/80 to-blue-500/80 rounded-full" style={{ left: `${DNA_START}%`, right: `${100 - DNA_END}%` }} />
+          <div className="absolute bottom-1/3 h-2 bg-gradient-to-r from-blue-500/80 to-purple-500/80 rounded-full" style={{ left: `${DNA_START}%`, right: `${100 - DNA_END}%` }} />
+          <div className="absolute -top-4 text-white/60 text-xs font-mono" style={{ left: `${DNA_START - 3}%` }}>5'</div>
+          <div className="absolute -top-4 text-white/60 text-xs font-mono" style={{ left: `${DNA_END + 1}%` }}>3'</div>
+
+          {REGIONS.map(region => (
+            <div
+              key={region.id}
+              title={region.role}
+              className={cn(
+                'absolute top-1/2 -translate-y-1/2 h-10 rounded-md border-2 flex items-center justify-center text-[10px] font-bold overflow-hidden',
+                region.kind === 'gene' && 'italic',
+                regionColors[region.id]
+              )}
+              style={{ left: `${region.left}%`, width: `${region.width}%` }}
+            >
+              {region.kind === 'gene' ? region.name : ''}
+            </div>
+          ))}
+
+          {/* Labels for the small regulatory sites */}
+          {REGIONS.filter(region => region.kind === 'regulatory').map(region => (
+            <div
+              key={`label-${region.id}`}
+              className="absolute top-12 text-[10px] text-white/70 text-center leading-tight"
+              style={{ left: `${region.left}%`, width: `${region.width}%` }}
+            >
+              {region.name}
+            </div>
+          ))}
+
+          {/* CAP-cAMP: on the CAP site only when cAMP is high */}
+          <motion.div
+            className="absolute w-10 h-10 rounded-full bg-sky-500/80 z-20 flex items-center justify-center text-white text-[10px] font-bold"
+            style={{ left: `calc(${REGION_BY_ID.cap.left + REGION_BY_ID.cap.width / 2}% - 1.25rem)`, boxShadow: '0 0 12px rgba(14, 165, 233, 0.5)' }}
+            animate={state.capBound ? { top: '-1.5rem', opacity: 1 } : { top: '-5.5rem', opacity: 0.35 }}
+            transition={{ duration: 1, type: 'spring' }}
+          >
+            CAP
+            {state.cAMPHigh && (
+              <span className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-sky-200 border border-sky-500" title="cAMP" />
+            )}
+          </motion.div>
+
+          {/* LacI repressor: lifted off the operator by allolactose */}
+          <motion.div
+            className="absolute w-12 h-10 rounded-xl bg-rose-500/80 z-20 flex items-center justify-center text-white text-[10px] font-bold"
+            style={{ left: `calc(${REGION_BY_ID.operator.left + REGION_BY_ID.operator.width / 2}% - 1.5rem)`, boxShadow: '0 0 12px rgba(244, 63, 94, 0.5)' }}
+            animate={state.repressorBound ? { top: '-1rem', opacity: 1, rotate: 0 } : { top: '-6rem', opacity: 0.6, rotate: -12 }}
+            transition={{ duration: 1, type: 'spring' }}
+          >
+            LacI
+            {state.allolactose && (
+              <>
+                <span className="absolute -bottom-1 -left-1 w-3 h-3 rotate-45 rounded-sm bg-pink-400" title="Allolactose" />
+                <span className="absolute -bottom-1 -right-1 w-3 h-3 rotate-45 rounded-sm bg-pink-400" title="Allolactose" />
+              </>
+            )}
+          </motion.div>
+
+          {/* RNA polymerase: stuck at the promoter, or sweeping across the genes */}
+          <motion.div
+            key={`${state.polymerase}-${isActive}`}
+            className="absolute w-12 h-16 -top-4 bg-green-500/40 border-2 border-green-400/70 rounded-2xl z-10 flex items-end justify-center pb-1"
+            style={{ boxShadow: '0 0 15px rgba(16, 185, 129, 0.5)' }}
+            initial={{ left: `${promoterLeft}%`, opacity: state.polymerase === 'weak' ? 0.7 : 1 }}
+            animate={
+              transcribing
+                ? { left: [`${promoterLeft}%`, `${operonEnd}%`] }
+                : state.polymerase === 'blocked' && isActive
+                  ? { x: [0, 6, 0] }
+                  : {}
+            }
+            transition={
+              transcribing
+                ? { duration: runSeconds, ease: 'linear', repeat: Infinity, repeatDelay }
+                : { duration: 0.6, repeat: Infinity, repeatDelay: 1 }
+            }
+          >
+            <div className="text-white text-[10px] font-bold text-center leading-tight">
+              RNA<br/>Pol
+            </div>
+          </motion.div>
+
+          {/* Transcript growing behind the polymerase */}
+          {transcribing && (
+            <motion.div
+              key={`mrna-${state.polymerase}`}
+              className="absolute top-12 h-1.5 rounded-full"
+              style={{ left: `${REGION_BY_ID.lacZ.left}%`, backgroundColor: colors.mrna }}
+              animate={{ width: ['0%', `${operonEnd - REGION_BY_ID.lacZ.left}%`] }}
+              transition={{
+                duration: runSeconds * (1 - leadIn),
+                delay: runSeconds * leadIn,
+                ease: 'linear',
+                repeat: Infinity,
+                repeatDelay: repeatDelay + runSeconds * leadIn,
+              }}
+            />
+          )}
+        </div>
+
+        {/* Polycistronic mRNA, translated gene by gene */}
+        <div className="absolute top-[70%] left-0 right-0 h-10">
+          {ribosomesPerGene > 0 ? (
+            <>
+              <div
+                className="absolute top-1/2 -translate-y-1/2 h-1.5 rounded-full"
+                style={{ left: `${REGION_BY_ID.lacZ.left}%`, right: `${100 - operonEnd}%`, backgroundColor: colors.mrna }}
+              />
+              <div className="absolute -top-3 text-[10px] font-mono" style={{ left: `${REGION_BY_ID.lacZ.left - 3}%`, color: colors.mrna }}>5'</div>
+              {GENES.map(gene => [...Array(ribosomesPerGene)].map((_, i) => (
+                <motion.div
+                  key={`${gene.id}-${i}`}
+                  className="absolute top-1/2 -translate-y-1/2 w-5 h-5 rounded-full bg-purple-500/80 border border-purple-300/60"
+                  animate={isActive ? { left: [`${gene.left}%`, `${gene.left + gene.width - 2}%`] } : { left: `${gene.left}%` }}
+                  transition={{ duration: 3, ease: 'linear', repeat: Infinity, delay: (i * 3) / ribosomesPerGene }}
+                />
+              )))}
+            </>
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center text-white/50 text-xs">
+              No lac mRNA — nothing for ribosomes to translate
+            </div>
+          )}
+        </div>
+
+        {/* Output */}
+        <div className="absolute bottom-3 left-3 right-3 grid grid-cols-3 gap-3">
+          {GENES.map(gene => (
+            <div key={gene.id} title={gene.role}>
+              <div className="flex justify-between text-[10px] text-white/80 mb-1">
+                <span className="italic">{gene.name}</span>
+                <span className="font-mono">{formatExpression(state.expression)}</span>
+              </div>
+              <div className="h-2 w-full rounded-full bg-muted/40 overflow-hidden">
+                <motion.div
+                  className={cn('h-full rounded-full', proteinColors[gene.id])}
+                  animate={{ width: `${Math.max(state.expression * 100, 0.5)}%` }}
+                  transition={{ duration: 1 }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LacOperonAnimation;
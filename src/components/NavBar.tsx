@@ -21,7 +21,18 @@ const NavBar: React.FC<NavBarProps> = ({ activeSection, onSectionChange }) => {
     { id: 'transcription', label: 'Transcription' },
     { id: 'translation', label: 'Translation' },
     { id: 'folding', label: 'Folding' },
+    { id: 'modification', label: 'Modification' },
+    { id: 'regulation', label: 'Regulation' },
     { id: 'videos', label: 'Videos' },
+    { id: 'genetic-code', label: 'Genetic Code', isExternalPage: true, path: '/genetic-code' },
+    { id: 'orf', label: 'ORF Finder', isExternalPage: true, path: '/tools/orf' },
+    { id: 'mutations', label: 'Mutations', isExternalPage: true, path: '/tools/mutations' },
+    { id: 'alignment', label: 'Alignment', isExternalPage: true, path: '/tools/alignment' },
+    { id: 'stats', label: 'Statistics', isExternalPage: true, path: '/tools/stats' },
+    { id: 'protein', label: 'Protein', isExternalPage: true, path: '/tools/protein' },
+    { id: 'structures', label: 'Structures', isExternalPage: true, path: '/tools/structures' },
+    { id: 'kinetics', label: 'Kinetics', isExternalPage: true, path: '/tools/kinetics' },
+    { id: 'case-studies', label: 'Case Studies', isExternalPage: true, path: '/case-studies' },
     { id: 'quiz', label: 'Quiz', isExternalPage: true, path: '/quiz' },
     { id: 'members', label: 'Members', isExternalPage: true, path: '/members' },
   ];
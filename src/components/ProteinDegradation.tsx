@@ -0,0 +1,346 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { AMINO_ACIDS } from '@/lib/genetic-code';
+import { normalizeProtein } from '@/lib/protein-properties';
+import {
+  DEGRADATION_STAGES,
+  estimateHalfLife,
+  formatHalfLife,
+  MIN_UBIQUITIN_CHAIN,
+  N_END_CLASSES,
+  N_END_RULE,
+  ORGANISMS,
+  proteasomeDigest,
+  ubiquitinationSite,
+  type DegradationStage,
+  type NEndClass,
+  type Organism,
+} from '@/lib/degradation';
+
+interface ProteinDegradationProps {
+  sequence: string;
+  isActive?: boolean;
+  className?: string;
+}
+
+type Point = [number, number];
+
+const STAGE_MS = 2600;
+
+// Peptides drawn leaving the proteasome; the full digest is listed below the scene
+const SCENE_PEPTIDES = 6;
+
+const UBIQUITIN_COLOR = '#FACC15';
+
+const CLASS_COLORS: Record<NEndClass, string> = {
+  primary: '#EF4444',
+  secondary: '#F97316',
+  tertiary: '#EAB308',
+  stabilising: '#22C55E',
+};
+
+// Positions in the 600 × 260 scene
+const E1_AT: Point = [70, 60];
+const E2_AT: Record<DegradationStage, Point> = {
+  e1: [170, 50],
+  e2: [170, 70],
+  e3: [214, 118],
+  chain: [214, 118],
+  recognition: [170, 70],
+  unfolding: [170, 70],
+  cleavage: [170, 70],
+};
+const SUBSTRATE_AT: Record<DegradationStage, Point> = {
+  e1: [270, 160],
+  e2: [270, 160],
+  e3: [270, 160],
+  chain: [270, 160],
+  recognition: [450, 62],
+  unfolding: [450, 62],
+  cleavage: [450, 62],
+};
+const PROTEASOME_X = 450;
+
+// Ubiquitins on the target at each stage
+const CHAIN_LENGTH: Record<DegradationStage, number> = {
+  e1: 0,
+  e2: 0,
+  e3: 1,
+  chain: MIN_UBIQUITIN_CHAIN,
+  recognition: MIN_UBIQUITIN_CHAIN,
+  unfolding: 0,
+  cleavage: 0,
+};
+
+const STAGE_TRANSITION = { duration: 0.9, ease: 'easeInOut' } as const;
+
+// Colour for a half-life on a log scale, from 2 minutes (red) to 100 hours (green)
+const halfLifeColor = (hours: number) => {
+  const t = Math.min(1, Math.max(0, (Math.log10(hours) - Math.log10(2 / 60)) / (Math.log10(100) - Math.log10(2 / 60))));
+  return `hsl(${Math.round(t * 120)}, 70%, 50%)`;
+};
+
+// The end of a protein: ubiquitin tagging by E1, E2 and E3, then unfolding and cutting up by the proteasome
+const ProteinDegradation: React.FC<ProteinDegradationProps> = ({ sequence, isActive = true, className }) => {
+  const [organism, setOrganism] = useState<Organism>('mammalian');
+  const [exposed, setExposed] = useState<string | null>(null);
+  const [stageIndex, setStageIndex] = useState(0);
+
+  const protein = normalizeProtein(sequence);
+  const estimate = estimateHalfLife(protein, organism, exposed ?? undefined);
+  const lysine = ubiquitinationSite(protein);
+  const peptides = useMemo(() => proteasomeDigest(protein), [protein]);
+  const stage = DEGRADATION_STAGES[stageIndex];
+  const chainLength = CHAIN_LENGTH[stage.id];
+  const [sx, sy] = SUBSTRATE_AT[stage.id];
+  const unfolded = stage.id === 'unfolding' || stage.id === 'cleavage';
+  const ubiquitinOnE1 = stage.id === 'e1';
+  const ubiquitinOnE2 = stage.id === 'e2';
+
+  useEffect(() => {
+    setStageIndex(0);
+  }, [protein]);
+
+  useEffect(() => {
+    if (!isActive || stageIndex >= DEGRADATION_STAGES.length - 1) return;
+    const timer = setTimeout(() => setStageIndex(current => current + 1), STAGE_MS);
+    return () => clearTimeout(timer);
+  }, [isActive, stageIndex]);
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* N-end rule */}
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {ORGANISMS.map(option => (
+            <Button
+              key={option.id}
+              size="sm"
+              variant={organism === option.id ? 'default' : 'outline'}
+              onClick={() => setOrganism(option.id)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid md:grid-cols-[200px_1fr] gap-4 items-start">
+          <div className="p-4 rounded-lg border border-primary/10 bg-muted/20 text-center">
+            <div className="text-xs uppercase tracking-wide text-muted-foreground">Estimated half-life</div>
+            <div className="text-3xl font-bold text-white my-1">{formatHalfLife(estimate.halfLife)}</div>
+            <div className="text-xs text-muted-foreground">
+              {ORGANISMS.find(({ id }) => id === organism)?.note}
+            </div>
+          </div>
+          <div className="text-sm text-white/80 space-y-2">
+            <p>
+              N-terminal residue:{' '}
+              <span className="font-bold text-white">
+                {AMINO_ACIDS[estimate.residue]?.name ?? estimate.residue} ({estimate.residue})
+              </span>
+              {exposed
+                ? ', exposed by fusing ubiquitin in front of it and letting deubiquitinases cut it off.'
+                : estimate.metRemoved
+                  ? `. Methionine aminopeptidase removed the starting Met, because residue 2 (${estimate.residue}) is small.`
+                  : protein[0] === 'M'
+                    ? '. The starting Met stays on, because residue 2 is too large for methionine aminopeptidase.'
+                    : '.'}
+            </p>
+            <p>
+              <span className="font-medium" style={{ color: CLASS_COLORS[estimate.nEndClass] }}>
+                {N_END_CLASSES[estimate.nEndClass].label}.
+              </span>{' '}
+              {N_END_CLASSES[estimate.nEndClass].description}
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <div className="text-xs text-muted-foreground mb-2">
+            Pick a residue to expose at the N-terminus, as in Varshavsky's ubiquitin-fusion experiments:
+          </div>
+          <div className="grid grid-cols-10 gap-1">
+            {Object.entries(N_END_RULE).map(([residue, halfLives]) => {
+              const halfLife = halfLives[organism];
+              return (
+                <button
+                  key={residue}
+                  onClick={() => setExposed(current => (current === residue ? null : residue))}
+                  title={`${AMINO_ACIDS[residue]?.name}: ${formatHalfLife(halfLife)}`}
+                  className={cn(
+                    'rounded py-1 text-xs font-mono text-white transition-opacity',
+                    estimate.residue === residue ? 'ring-2 ring-white' : 'opacity-70 hover:opacity-100'
+                  )}
+                  style={{ backgroundColor: halfLife ? halfLifeColor(halfLife.hours) : '#475569' }}
+                >
+                  <div className="font-bold">{residue}</div>
+                  <div className="text-[10px]">{formatHalfLife(halfLife)}</div>
+                </button>
+              );
+            })}
+          </div>
+          {exposed && (
+            <button
+              onClick={() => setExposed(null)}
+              className="mt-2 text-xs underline text-secondary hover:text-white transition-colors"
+            >
+              Back to this protein's own N-terminus
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Ubiquitin-proteasome scene */}
+      <div className="rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background">
+        <svg viewBox="0 0 600 260" className="w-full h-auto" fontFamily="ui-sans-serif, system-ui, sans-serif">
+          {/* E1 */}
+          <g transform={`translate(${E1_AT[0]} ${E1_AT[1]})`}>
+            <ellipse rx={34} ry={24} fill="#6366F1" fillOpacity={0.5} stroke="#818CF8" />
+            <text y={4} fill="white" fontSize={12} fontWeight="bold" textAnchor="middle">E1</text>
+            {ubiquitinOnE1 && <text y={40} fill="#38BDF8" fontSize={9} textAnchor="middle">ATP → AMP + PPi</text>}
+          </g>
+
+          {/* E2, shuttling the ubiquitin from E1 to the E3 */}
+          <motion.g initial={false} animate={{ x: E2_AT[stage.id][0], y: E2_AT[stage.id][1] }} transition={STAGE_TRANSITION}>
+            <ellipse rx={22} ry={16} fill="#0EA5E9" fillOpacity={0.5} stroke="#38BDF8" />
+            <text y={4} fill="white" fontSize={11} fontWeight="bold" textAnchor="middle">E2</text>
+          </motion.g>
+
+          {/* E3 ligase, bound to the target's degron */}
+          <motion.g
+            initial={false}
+            animate={{ opacity: stage.id === 'e3' || stage.id === 'chain' ? 1 : 0 }}
+            transition={STAGE_TRANSITION}
+          >
+            <path d="M 200 140 Q 220 118 246 136 L 246 168 Q 222 178 200 160 Z" fill="#A855F7" fillOpacity={0.5} stroke="#C084FC" />
+            <text x={222} y={160} fill="white" fontSize={11} fontWeight="bold" textAnchor="middle">E3</text>
+          </motion.g>
+
+          {/* Free ubiquitin on its way */}
+          <motion.circle
+            r={7}
+            fill={UBIQUITIN_COLOR}
+            initial={false}
+            animate={{
+              cx: ubiquitinOnE1 ? E1_AT[0] + 30 : E2_AT.e2[0] + 18,
+              cy: ubiquitinOnE1 ? E1_AT[1] - 18 : E2_AT.e2[1] - 14,
+              opacity: ubiquitinOnE1 || ubiquitinOnE2 ? 1 : 0,
+            }}
+            transition={STAGE_TRANSITION}
+          />
+
+          {/* 26S proteasome: 19S caps on a 20S core of four rings */}
+          <g>
+            <rect x={PROTEASOME_X - 42} y={88} width={84} height={22} rx={10} fill="#EC4899" fillOpacity={0.45} stroke="#F472B6" />
+            {[0, 1, 2, 3].map(ring => (
+              <rect
+                key={ring}
+                x={PROTEASOME_X - 34}
+                y={112 + ring * 20}
+                width={68}
+                height={18}
+                rx={6}
+                fill={ring === 1 || ring === 2 ? '#64748B' : '#94A3B8'}
+                fillOpacity={0.5}
+                stroke="#CBD5E1"
+                strokeOpacity={0.5}
+              />
+            ))}
+            <rect x={PROTEASOME_X - 42} y={194} width={84} height={22} rx={10} fill="#EC4899" fillOpacity={0.45} stroke="#F472B6" />
+            <text x={PROTEASOME_X + 50} y={103} fill="white" fillOpacity={0.6} fontSize={9}>19S cap</text>
+            <text x={PROTEASOME_X + 42} y={155} fill="white" fillOpacity={0.6} fontSize={9}>20S core</text>
+          </g>
+
+          {/* The target protein with its ubiquitin chain, folded until the proteasome unfolds it */}
+          <motion.g initial={false} animate={{ x: sx, y: sy }} transition={STAGE_TRANSITION}>
+            {unfolded ? (
+              <path d="M -30 -6 Q -15 -16 0 -6 L 0 40" fill="none" stroke="#A3E635" strokeWidth={3} />
+            ) : (
+              <path d="M -18 -4 Q -16 -20 0 -18 Q 18 -18 18 -2 Q 20 16 2 18 Q -18 18 -18 -4 Z" fill="#A3E635" fillOpacity={0.85} stroke="white" />
+            )}
+            {Array.from({ length: chainLength }, (_, i) => (
+              <g key={i}>
+                {i > 0 && <line x1={18 + (i - 1) * 10} y1={-20 - (i - 1) * 12} x2={18 + i * 10} y2={-20 - i * 12} stroke={UBIQUITIN_COLOR} strokeWidth={2} />}
+                <circle cx={18 + i * 10} cy={-20 - i * 12} r={7} fill={UBIQUITIN_COLOR} stroke="white" strokeWidth={0.5} />
+              </g>
+            ))}
+            {chainLength > 0 && lysine !== null && (
+              <text x={-22} y={30} fill="white" fillOpacity={0.7} fontSize={9}>K{lysine + 1}</text>
+            )}
+          </motion.g>
+
+          {/* Recycled ubiquitins */}
+          {unfolded && Array.from({ length: MIN_UBIQUITIN_CHAIN }, (_, i) => (
+            <motion.circle
+              key={i}
+              r={6}
+              fill={UBIQUITIN_COLOR}
+              initial={{ cx: PROTEASOME_X + 20, cy: 50, opacity: 1 }}
+              animate={{ cx: E1_AT[0] + 40 + i * 14, cy: 110, opacity: 0.5 }}
+              transition={STAGE_TRANSITION}
+            />
+          ))}
+
+          {/* Peptides leaving the core */}
+          {stage.id === 'cleavage' && peptides.slice(0, SCENE_PEPTIDES).map((peptide, i) => (
+            <motion.g
+              key={i}
+              initial={{ x: PROTEASOME_X, y: 216, opacity: 0 }}
+              animate={{ x: PROTEASOME_X - 110 + i * 44, y: 244, opacity: 1 }}
+              transition={{ ...STAGE_TRANSITION, delay: i * 0.15 }}
+            >
+              <line x1={-12} x2={12} stroke="#A3E635" strokeWidth={3} strokeLinecap="round" />
+              <text y={-6} fill="white" fillOpacity={0.7} fontSize={7} textAnchor="middle" fontFamily="ui-monospace, monospace">
+                {peptide.length > 6 ? `${peptide.slice(0, 5)}…` : peptide}
+              </text>
+            </motion.g>
+          ))}
+        </svg>
+      </div>
+
+      <div>
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {DEGRADATION_STAGES.map((option, i) => (
+            <button
+              key={option.id}
+              onClick={() => setStageIndex(i)}
+              className={cn(
+                'px-3 py-1 rounded-full text-white text-xs font-medium transition-colors',
+                i === stageIndex ? 'bg-primary/50' : 'bg-primary/20 hover:bg-primary/40'
+              )}
+            >
+              {i + 1}. {option.label}
+            </button>
+          ))}
+          <Button size="sm" variant="outline" className="ml-auto" onClick={() => setStageIndex(0)}>
+            Replay
+          </Button>
+        </div>
+        <p className="text-white/80 text-sm">{stage.description}</p>
+        {stage.id === 'e3' && (
+          <p className="text-white/60 text-sm mt-2">
+            {lysine === null
+              ? 'This protein has no lysine, so the E3 would have to tag its N-terminal amino group instead.'
+              : `In this protein the E3 would tag lysine ${lysine + 1}, the first after the N-terminus.`}
+          </p>
+        )}
+        {stage.id === 'cleavage' && (
+          <div className="mt-3">
+            <div className="text-xs text-muted-foreground mb-2">
+              {peptides.length} peptides from {protein.length} residues
+            </div>
+            <div className="flex flex-wrap gap-1 font-mono text-xs">
+              {peptides.map((peptide, i) => (
+                <span key={i} className="px-2 py-0.5 rounded bg-primary/20 text-white/90">{peptide}</span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProteinDegradation;
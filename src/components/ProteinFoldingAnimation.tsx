@@ -1,20 +1,43 @@
 
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
+import { normalizeProtein, PROPERTY_COLORS, residueProperties } from '@/lib/protein-properties';
+import { predictSecondaryStructure, structureSegments } from '@/lib/secondary-structure';
 
 interface ProteinFoldingAnimationProps {
   className?: string;
   isActive?: boolean;
+  sequence?: string; // protein in one-letter code; each bead is coloured by its real side chain
 }
 
+// First 100 residues of green fluorescent protein
+export const DEFAULT_FOLDING_PROTEIN =
+  'MSKGEELFTGVVPILVELDGDVNGHKFSVSGEGEGDATYGKLTLKFICTTGKLPVPWPTLVTTFSYGVQCFSRYPDHMKQHDFFKSAMPEGYVQERTIFF';
+
+// Longest chain we fold; beyond this the beads crowd the view
+export const MAX_FOLDING_RESIDUES = 120;
+
+// Tertiary packing: the nth helix or strand drifts by the nth shift, cycling
+const HELIX_SHIFTS = [new THREE.Vector3(-3, -5, 0), new THREE.Vector3(2, 0, 5), new THREE.Vector3(0, 4, -3)];
+const STRAND_SHIFTS = [new THREE.Vector3(2, 0, 0), new THREE.Vector3(-1, 2, 0), new THREE.Vector3(0, 0, 3)];
+
 const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({ 
   className = '',
-  isActive = false
+  isActive = false,
+  sequence = DEFAULT_FOLDING_PROTEIN
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const protein = useMemo(() => normalizeProtein(sequence).slice(0, MAX_FOLDING_RESIDUES), [sequence]);
+  const properties = useMemo(() => residueProperties(protein), [protein]);
+  // Predicted helices and strands decide which stretches of the chain take which shape
+  const segments = useMemo(
+    () => structureSegments(predictSecondaryStructure(protein)).filter(segment => segment.type !== 'coil'),
+    [protein]
+  );
   
   useEffect(() => {
-    if (!containerRef.current || !isActive) return;
+    const container = containerRef.current;
+    if (!container || !isActive || properties.length === 0) return;
     
     // Set up scene
     const scene = new THREE.Scene();
@@ -22,7 +45,7 @@ const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({
     // Set up camera
     const camera = new THREE.PerspectiveCamera(
       50, 
-      containerRef.current.clientWidth / containerRef.current.clientHeight, 
+      container.clientWidth / container.clientHeight, 
       0.1, 
       1000
     );
@@ -33,9 +56,9 @@ const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({
       alpha: true,
       antialias: true 
     });
-    renderer.setSize(containerRef.current.clientWidth, containerRef.current.clientHeight);
+    renderer.setSize(container.clientWidth, container.clientHeight);
     renderer.setClearColor(0x000000, 0);
-    containerRef.current.appendChild(renderer.domElement);
+    container.appendChild(renderer.domElement);
     
     // Add lights
     const ambientLight = new THREE.AmbientLight(0x404040, 1);
@@ -58,27 +81,12 @@ const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({
     scene.add(proteinGroup);
     
     // Number of amino acids
-    const numAminoAcids = 100;
+    const numAminoAcids = properties.length;
     
     // Create amino acids
     const aminoAcids = [];
     const aminoAcidGeometry = new THREE.SphereGeometry(0.5, 16, 16);
     
-    // Colors for different types of amino acids
-    const hydrophobicColor = 0xF97316; // Orange
-    const hydrophilicColor = 0x06B6D4; // Cyan
-    const positiveColor = 0xEC4899;    // Pink
-    const negativeColor = 0x84CC16;    // Green
-    const specialColor = 0xA855F7;     // Purple
-    
-    const aminoAcidTypes = [
-      { type: 'hydrophobic', color: hydrophobicColor },
-      { type: 'hydrophilic', color: hydrophilicColor },
-      { type: 'positive', color: positiveColor },
-      { type: 'negative', color: negativeColor },
-      { type: 'special', color: specialColor }
-    ];
-    
     // Create connections between amino acids
     const connectionGeometry = new THREE.CylinderGeometry(0.15, 0.15, 1, 6);
     const connectionMaterial = new THREE.MeshPhongMaterial({ 
@@ -91,13 +99,13 @@ const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({
     
     // Generate extended peptide chain
     for (let i = 0; i < numAminoAcids; i++) {
-      // Randomly select amino acid type (biased distribution)
-      const typeIndex = Math.floor(Math.pow(Math.random(), 2) * aminoAcidTypes.length);
-      const aminoAcidType = aminoAcidTypes[typeIndex];
+      // Colour by the residue's side-chain category
+      const type = properties[i];
+      const color = new THREE.Color(PROPERTY_COLORS[type]);
       
       const material = new THREE.MeshPhongMaterial({ 
-        color: aminoAcidType.color,
-        emissive: aminoAcidType.color,
+        color,
+        emissive: color,
         emissiveIntensity: 0.2,
         shininess: 80
       });
@@ -109,7 +117,7 @@ const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({
       
       // Add additional properties
       const data = {
-        type: aminoAcidType.type,
+        type,
         index: i,
         originalPosition: aminoAcid.position.clone()
       };
@@ -142,7 +150,8 @@ const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({
     
     const betaSheetParams = {
       width: 4,
-      separation: 1.2
+      separation: 1.2,
+      strandLength: 7 // longer strands fold back on themselves as a meander
     };
     
     // Creates a shape like an alpha helix
@@ -180,9 +189,10 @@ const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({
       for (let i = 0; i < length && startIndex + i < aminoAcids.length; i++) {
         const aminoAcid = aminoAcids[startIndex + i];
         
-        const offset = direction * betaSheetParams.width * (i % 2);
-        const x = i * 1.2;
-        const z = offset;
+        const row = Math.floor(i / betaSheetParams.strandLength);
+        const column = i % betaSheetParams.strandLength;
+        const x = (row % 2 === 0 ? column : betaSheetParams.strandLength - 1 - column) * betaSheetParams.separation;
+        const z = direction * (betaSheetParams.width * row + 0.5 * (i % 2));
         
         // Interpolate between extended and sheet position
         aminoAcid.position.x = THREE.MathUtils.lerp(
@@ -220,8 +230,9 @@ const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({
     };
     
     // Animation loop
+    let animationId: number;
     const animate = () => {
-      requestAnimationFrame(animate);
+      animationId = requestAnimationFrame(animate);
       time += 0.01;
       
       // Progress through folding phases
@@ -235,100 +246,28 @@ const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({
         
         // Phase 1: Secondary structure formation (alpha helices and beta sheets)
         if (foldingPhase === 0) {
-          // Create alpha helices in specific regions
-          createAlphaHelix(0, 20, foldingProgress);
-          createAlphaHelix(30, 15, foldingProgress);
-          createAlphaHelix(60, 25, foldingProgress);
-          
-          // Create beta sheets in other regions
-          createBetaSheet(22, 7, foldingProgress, 1);
-          createBetaSheet(50, 7, foldingProgress, -1);
-          createBetaSheet(88, 7, foldingProgress, 1);
+          // Fold each predicted helix and strand; neighbouring strands alternate direction
+          segments.forEach((segment, n) => {
+            const length = segment.end - segment.start;
+            if (segment.type === 'helix') createAlphaHelix(segment.start, length, foldingProgress);
+            else createBetaSheet(segment.start, length, foldingProgress, n % 2 === 0 ? 1 : -1);
+          });
         }
         // Phase 2: Tertiary structure (folding of secondary structures)
         else if (foldingPhase === 1) {
           // Move alpha helices and beta sheets into tertiary arrangement
-          // First helix
-          for (let i = 0; i < 20; i++) {
-            const aminoAcid = aminoAcids[i];
-            aminoAcid.position.y = THREE.MathUtils.lerp(
-              aminoAcid.position.y,
-              aminoAcid.position.y - 5 + Math.sin(i * 0.3) * 2,
-              foldingProgress
-            );
-            
-            aminoAcid.position.x = THREE.MathUtils.lerp(
-              aminoAcid.position.x,
-              aminoAcid.position.x - 3,
-              foldingProgress
-            );
-          }
-          
-          // Second helix
-          for (let i = 30; i < 45; i++) {
-            const aminoAcid = aminoAcids[i];
-            aminoAcid.position.z = THREE.MathUtils.lerp(
-              aminoAcid.position.z,
-              aminoAcid.position.z + 5,
-              foldingProgress
-            );
-            
-            aminoAcid.position.x = THREE.MathUtils.lerp(
-              aminoAcid.position.x,
-              aminoAcid.position.x + 2,
-              foldingProgress
-            );
-          }
-          
-          // Third helix
-          for (let i = 60; i < 85; i++) {
-            const aminoAcid = aminoAcids[i];
-            aminoAcid.position.y = THREE.MathUtils.lerp(
-              aminoAcid.position.y,
-              aminoAcid.position.y + 4,
-              foldingProgress
-            );
-            
-            aminoAcid.position.z = THREE.MathUtils.lerp(
-              aminoAcid.position.z,
-              aminoAcid.position.z - 3,
-              foldingProgress
-            );
-          }
-          
-          // Beta sheets
-          for (let i = 22; i < 29; i++) {
-            const aminoAcid = aminoAcids[i];
-            aminoAcid.position.x = THREE.MathUtils.lerp(
-              aminoAcid.position.x,
-              aminoAcid.position.x + 2,
-              foldingProgress
-            );
-          }
-          
-          for (let i = 50; i < 57; i++) {
-            const aminoAcid = aminoAcids[i];
-            aminoAcid.position.x = THREE.MathUtils.lerp(
-              aminoAcid.position.x,
-              aminoAcid.position.x - 1,
-              foldingProgress
-            );
+          let helices = 0;
+          let strands = 0;
+          segments.forEach(segment => {
+            const shift = segment.type === 'helix'
+              ? HELIX_SHIFTS[helices++ % HELIX_SHIFTS.length]
+              : STRAND_SHIFTS[strands++ % STRAND_SHIFTS.length];
             
-            aminoAcid.position.y = THREE.MathUtils.lerp(
-              aminoAcid.position.y,
-              aminoAcid.position.y + 2,
-              foldingProgress
-            );
-          }
-          
-          for (let i = 88; i < 95; i++) {
-            const aminoAcid = aminoAcids[i];
-            aminoAcid.position.z = THREE.MathUtils.lerp(
-              aminoAcid.position.z,
-              aminoAcid.position.z + 3,
-              foldingProgress
-            );
-          }
+            for (let i = segment.start; i < segment.end; i++) {
+              const aminoAcid = aminoAcids[i];
+              aminoAcid.position.lerp(aminoAcid.position.clone().add(shift), foldingProgress);
+            }
+          });
         }
         // Phase 3: Quaternary structure (wiggling)
         else if (foldingPhase === 2) {
@@ -377,7 +316,7 @@ const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({
       renderer.render(scene, camera);
     };
     
-    const animationId = requestAnimationFrame(animate);
+    animationId = requestAnimationFrame(animate);
     
     // Handle window resize
     const handleResize = () => {
@@ -393,12 +332,13 @@ const ProteinFoldingAnimation: React.FC<ProteinFoldingAnimationProps> = ({
     // Clean up
     return () => {
       cancelAnimationFrame(animationId);
-      if (containerRef.current && containerRef.current.contains(renderer.domElement)) {
-        containerRef.current.removeChild(renderer.domElement);
+      if (container.contains(renderer.domElement)) {
+        container.removeChild(renderer.domElement);
       }
+      renderer.dispose();
       window.removeEventListener('resize', handleResize);
     };
-  }, [isActive]);
+  }, [isActive, properties, segments]);
   
   return <div ref={containerRef} className={`${className} w-full h-full`}></div>;
 };
@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import StatCard from '@/components/StatCard';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { AMINO_ACIDS } from '@/lib/genetic-code';
+import {
+  canModify,
+  MODIFICATION_INFO,
+  modifiableSites,
+  modifiedCharge,
+  modifiedMass,
+  type Modification,
+  type ModificationType,
+} from '@/lib/post-translational';
+import { molecularWeight, normalizeProtein } from '@/lib/protein-properties';
+
+interface ProteinModificationsProps {
+  sequence: string;
+  className?: string;
+}
+
+const MODIFICATION_TYPES = Object.keys(MODIFICATION_INFO) as ModificationType[];
+
+// Pixel width of one residue column; the disulfide arcs are drawn on the same grid
+const COLUMN_WIDTH = 20;
+
+// Blood pH, where the charge of a secreted protein matters
+const PHYSIOLOGICAL_PH = 7.4;
+
+// Phosphate: a small orange bead marked P
+const PhosphateMarker: React.FC = () => (
+  <span
+    className="w-4 h-4 rounded-full flex items-center justify-center text-[9px] font-bold text-white"
+    style={{ backgroundColor: MODIFICATION_INFO.phosphorylation.color }}
+  >
+    P
+  </span>
+);
+
+// N-glycan core in symbol nomenclature: two GlcNAc squares, then a branching mannose tree
+const GlycanMarker: React.FC = () => (
+  <svg width="16" height="24" viewBox="0 0 16 24" aria-label="N-glycan">
+    <line x1="8" y1="24" x2="8" y2="8" stroke="white" strokeOpacity="0.6" />
+    <line x1="8" y1="8" x2="3" y2="3" stroke="white" strokeOpacity="0.6" />
+    <line x1="8" y1="8" x2="13" y2="3" stroke="white" strokeOpacity="0.6" />
+    <rect x="5" y="18" width="6" height="5" fill="#3B82F6" />
+    <rect x="5" y="12" width="6" height="5" fill="#3B82F6" />
+    <circle cx="8" cy="8" r="3" fill={MODIFICATION_INFO.glycosylation.color} />
+    <circle cx="3" cy="3" r="2.5" fill={MODIFICATION_INFO.glycosylation.color} />
+    <circle cx="13" cy="3" r="2.5" fill={MODIFICATION_INFO.glycosylation.color} />
+  </svg>
+);
+
+// Apply phosphates, glycans and disulfide bridges to the residues of a protein and see what changes
+const ProteinModifications: React.FC<ProteinModificationsProps> = ({ sequence, className }) => {
+  const protein = useMemo(() => normalizeProtein(sequence), [sequence]);
+  const [activeType, setActiveType] = useState<ModificationType>('phosphorylation');
+  const [modifications, setModifications] = useState<Modification[]>([]);
+  const [pendingCysteine, setPendingCysteine] = useState<number | null>(null);
+
+  // A new chain starts unmodified
+  useEffect(() => {
+    setModifications([]);
+    setPendingCysteine(null);
+  }, [protein]);
+
+  const info = MODIFICATION_INFO[activeType];
+  const candidates = useMemo(() => modifiableSites(protein, activeType), [protein, activeType]);
+  const bridges = modifications.filter(({ type }) => type === 'disulfide');
+  const markerAt = (type: ModificationType, position: number) =>
+    modifications.some(modification => modification.type === type && modification.position === position);
+  const bridgeAt = (position: number) =>
+    bridges.find(({ position: start, partner }) => start === position || partner === position);
+
+  const handleResidueClick = (position: number) => {
+    if (!canModify(protein, position, activeType)) return;
+
+    if (activeType !== 'disulfide') {
+      setModifications(current => markerAt(activeType, position)
+        ? current.filter(({ type, position: site }) => type !== activeType || site !== position)
+        : [...current, { type: activeType, position }]);
+      return;
+    }
+
+    // Clicking a bridged cysteine breaks its bridge; otherwise cysteines are joined two clicks at a time
+    const existing = bridgeAt(position);
+    if (existing) {
+      setModifications(current => current.filter(modification => modification !== existing));
+    } else if (pendingCysteine === null) {
+      setPendingCysteine(position);
+    } else if (pendingCysteine === position) {
+      setPendingCysteine(null);
+    } else {
+      const [start, end] = [pendingCysteine, position].sort((a, b) => a - b);
+      setModifications(current => [...current, { type: 'disulfide', position: start, partner: end }]);
+      setPendingCysteine(null);
+    }
+  };
+
+  const modifyAll = () => {
+    setModifications(current => [
+      ...current.filter(({ type }) => type !== activeType),
+      ...candidates.map(position => ({ type: activeType, position })),
+    ]);
+  };
+
+  const applied = modifications.filter(({ type }) => type === activeType).length;
+  const unbridged = candidates.filter(position => !bridgeAt(position)).length;
+  const arcHeight = (start: number, end: number) => Math.min(44, 10 + (end - start) * 0.6);
+  const trackHeight = bridges.reduce((max, { position, partner = position }) => Math.max(max, arcHeight(position, partner) + 4), 8);
+  const mass = modifiedMass(protein, modifications);
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className="flex flex-wrap gap-2">
+        {MODIFICATION_TYPES.map(type => (
+          <Button
+            key={type}
+            size="sm"
+            variant={activeType === type ? 'default' : 'outline'}
+            onClick={() => {
+              setActiveType(type);
+              setPendingCysteine(null);
+            }}
+          >
+            <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: MODIFICATION_INFO[type].color }} />
+            {MODIFICATION_INFO[type].label}
+          </Button>
+        ))}
+      </div>
+
+      {/* Residue track: markers above, disulfide arcs below */}
+      <div className="overflow-x-auto pb-2">
+        <div style={{ width: protein.length * COLUMN_WIDTH }}>
+          <div className="flex font-mono text-[10px]">
+            {protein.split('').map((residue, i) => {
+              const isCandidate = canModify(protein, i, activeType);
+              return (
+                <div key={i} className="shrink-0 flex flex-col items-center" style={{ width: COLUMN_WIDTH }}>
+                  <div className="h-6 flex items-end justify-center">
+                    {markerAt('phosphorylation', i) && <PhosphateMarker />}
+                    {markerAt('glycosylation', i) && <GlycanMarker />}
+                  </div>
+                  <button
+                    onClick={() => handleResidueClick(i)}
+                    title={`${AMINO_ACIDS[residue]?.threeLetter ?? residue} ${i + 1}`}
+                    className={cn(
+                      'w-4 h-5 mt-0.5 rounded-sm flex items-center justify-center transition-colors',
+                      isCandidate ? 'text-white cursor-pointer hover:bg-white/20' : 'text-white/30 cursor-default',
+                      pendingCysteine === i && 'animate-pulse'
+                    )}
+                    style={isCandidate ? { boxShadow: `inset 0 0 0 1px ${info.color}` } : undefined}
+                  >
+                    {residue}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <svg width={protein.length * COLUMN_WIDTH} height={trackHeight} className="block">
+            {bridges.map(({ position, partner = position }) => {
+              const x1 = position * COLUMN_WIDTH + COLUMN_WIDTH / 2;
+              const x2 = partner * COLUMN_WIDTH + COLUMN_WIDTH / 2;
+              const depth = arcHeight(position, partner);
+              return (
+                <path
+                  key={`${position}-${partner}`}
+                  d={`M ${x1} 0 C ${x1} ${depth}, ${x2} ${depth}, ${x2} 0`}
+                  fill="none"
+                  stroke={MODIFICATION_INFO.disulfide.color}
+                  strokeWidth={2}
+                />
+              );
+            })}
+          </svg>
+          <div className="flex font-mono text-[10px] text-white/40">
+            {protein.split('').map((_, i) => (
+              <div key={i} className="shrink-0 text-center" style={{ width: COLUMN_WIDTH }}>
+                {(i + 1) % 10 === 0 ? i + 1 : ''}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {activeType === 'disulfide' ? (
+          <p className="text-sm text-white/80">
+            {pendingCysteine === null
+              ? 'Click a cysteine, then another, to bridge them. Click a bridged cysteine to break its bridge.'
+              : `Cys ${pendingCysteine + 1} selected — now pick its partner.`}
+          </p>
+        ) : (
+          <Button size="sm" variant="outline" onClick={modifyAll} disabled={candidates.length === 0}>
+            Modify all {candidates.length} sites
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            setModifications([]);
+            setPendingCysteine(null);
+          }}
+          disabled={modifications.length === 0}
+        >
+          Clear all
+        </Button>
+      </div>
+
+      <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+        <div className="flex justify-between items-baseline mb-2">
+          <h4 className="text-white font-bold">{info.label}</h4>
+          <span className="text-xs text-muted-foreground">on {info.residues}</span>
+        </div>
+        <p className="text-white/80 text-sm mb-2">{info.effect}</p>
+        <p className="text-muted-foreground text-xs">{info.enzyme}.</p>
+        <p className="text-secondary text-xs mt-2 font-mono">
+          {activeType === 'disulfide'
+            ? `${candidates.length} cysteines · ${bridges.length} bridges · ${unbridged} free`
+            : `${candidates.length} possible sites · ${applied} modified`}
+          {' · '}{info.massShift > 0 ? '+' : ''}{info.massShift} Da each
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <StatCard
+          label="Mass"
+          value={`${(mass / 1000).toFixed(2)} kDa`}
+          hint={`${mass - molecularWeight(protein) >= 0 ? '+' : ''}${(mass - molecularWeight(protein)).toFixed(1)} Da from modifications`}
+        />
+        <StatCard
+          label={`Net charge at pH ${PHYSIOLOGICAL_PH}`}
+          value={modifiedCharge(protein, modifications, PHYSIOLOGICAL_PH).toFixed(1)}
+          hint={`${modifiedCharge(protein, [], PHYSIOLOGICAL_PH).toFixed(1)} unmodified`}
+        />
+        <StatCard
+          label="Phosphates · glycans · bridges"
+          value={MODIFICATION_TYPES.map(type => modifications.filter(modification => modification.type === type).length).join(' · ')}
+          hint={`${modifications.length} modifications in all`}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ProteinModifications;
@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { normalizeProtein } from '@/lib/protein-properties';
+import {
+  CORE_HYDROPHOBICITY,
+  CORE_LENGTH,
+  findSignalPeptide,
+  getTargetingStages,
+  TARGETING_EXAMPLES,
+  type TargetingStage,
+} from '@/lib/protein-targeting';
+
+interface ProteinTargetingSceneProps {
+  sequence: string;
+  isActive?: boolean;
+  className?: string;
+}
+
+type Point = [number, number];
+
+const STAGE_MS = 2600;
+
+// Residues shown in the sequence strip
+const STRIP_LENGTH = 40;
+
+const REGION_COLORS = {
+  n: '#EC4899',
+  h: '#F97316',
+  c: '#06B6D4',
+};
+
+// Where the ribosome, SRP and the finished protein sit in the 600 × 300 cell at each stage
+const RIBOSOME_AT: Record<TargetingStage, Point> = {
+  translation: [150, 70],
+  srp: [150, 70],
+  docking: [150, 136],
+  translocation: [150, 136],
+  er: [150, 136],
+  golgi: [150, 136],
+  secretion: [150, 136],
+  cytosol: [150, 70],
+};
+
+const SRP_AT: Record<TargetingStage, Point> = {
+  translation: [270, 40],
+  srp: [168, 118],
+  docking: [186, 158],
+  translocation: [270, 40],
+  er: [270, 40],
+  golgi: [270, 40],
+  secretion: [270, 40],
+  cytosol: [270, 40],
+};
+
+const CARGO_AT: Record<TargetingStage, Point> = {
+  translation: [150, 110],
+  srp: [150, 110],
+  docking: [150, 176],
+  translocation: [150, 200],
+  er: [230, 200],
+  golgi: [410, 192],
+  secretion: [575, 192],
+  cytosol: [290, 90],
+};
+
+// Stages where the chain is still on the ribosome, drawn as a strand rather than a folded protein
+const NASCENT: TargetingStage[] = ['translation', 'srp', 'docking', 'translocation'];
+
+const STAGE_TRANSITION = { duration: 0.9, ease: 'easeInOut' } as const;
+
+// A protein finding its way: SRP, the rough ER, the Golgi and out of the cell, or staying in the cytosol
+const ProteinTargetingScene: React.FC<ProteinTargetingSceneProps> = ({ sequence, isActive = true, className }) => {
+  const [source, setSource] = useState<number | null>(null);
+  const [stageIndex, setStageIndex] = useState(0);
+
+  const protein = normalizeProtein(source === null ? sequence : TARGETING_EXAMPLES[source].sequence);
+  const signal = useMemo(() => findSignalPeptide(protein), [protein]);
+  const stages = getTargetingStages(signal ? 'secretory' : 'cytosolic');
+  const stage = stages[Math.min(stageIndex, stages.length - 1)];
+  const nascent = NASCENT.includes(stage.id);
+
+  // A new protein sets off from the ribosome again
+  useEffect(() => {
+    setStageIndex(0);
+  }, [protein]);
+
+  useEffect(() => {
+    if (!isActive || stageIndex >= stages.length - 1) return;
+    const timer = setTimeout(() => setStageIndex(current => current + 1), STAGE_MS);
+    return () => clearTimeout(timer);
+  }, [isActive, stageIndex, stages.length]);
+
+  const regionOf = (i: number): keyof typeof REGION_COLORS | null => {
+    if (!signal) return null;
+    if (i < signal.nRegion[1]) return 'n';
+    if (i < signal.hRegion[1]) return 'h';
+    if (i < signal.cRegion[1]) return 'c';
+    return null;
+  };
+
+  const [rx, ry] = RIBOSOME_AT[stage.id];
+  const exit: Point = [rx, ry + 22];
+  const hasCargo = !nascent || stage.id === 'cytosol';
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant={source === null ? 'default' : 'outline'} onClick={() => setSource(null)}>
+          This protein
+        </Button>
+        {TARGETING_EXAMPLES.map((example, i) => (
+          <Button key={example.name} size="sm" variant={source === i ? 'default' : 'outline'} onClick={() => setSource(i)}>
+            {example.name}
+          </Button>
+        ))}
+      </div>
+
+      {/* N-terminus with the signal peptide regions */}
+      <div>
+        <div className="flex flex-wrap font-mono text-xs">
+          {protein.slice(0, STRIP_LENGTH).split('').map((residue, i) => {
+            const region = regionOf(i);
+            return (
+              <React.Fragment key={i}>
+                {signal && i === signal.cleavageSite && <span className="w-3 text-center text-red-400 font-bold" title="Signal peptidase cuts here">✂</span>}
+                <span
+                  className={cn('w-4 h-6 flex items-center justify-center', region ? 'text-white font-bold' : 'text-white/50')}
+                  style={region ? { backgroundColor: `${REGION_COLORS[region]}66` } : undefined}
+                >
+                  {residue}
+                </span>
+              </React.Fragment>
+            );
+          })}
+          {protein.length > STRIP_LENGTH && <span className="h-6 flex items-center text-white/50 pl-1">…</span>}
+        </div>
+        <p className="text-sm mt-2 text-white/80">
+          {signal ? (
+            <>
+              Signal peptide found: residues 1–{signal.cleavageSite}, with a{' '}
+              <span style={{ color: REGION_COLORS.n }}>positive n-region</span>, a{' '}
+              <span style={{ color: REGION_COLORS.h }}>hydrophobic core</span> (mean hydropathy{' '}
+              {signal.hydrophobicity.toFixed(2)}) and a <span style={{ color: REGION_COLORS.c }}>polar c-region</span>{' '}
+              ending in the cleavage site.
+            </>
+          ) : (
+            <>
+              No signal peptide: there is no uncharged stretch of {CORE_LENGTH} residues with a mean hydropathy of{' '}
+              {CORE_HYDROPHOBICITY} or more near the N-terminus, followed by a cleavage site. This protein stays in the cytosol.
+            </>
+          )}
+          {source !== null && ` ${TARGETING_EXAMPLES[source].note}`}
+        </p>
+      </div>
+
+      <div className="rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background">
+        <svg viewBox="0 0 600 300" className="w-full h-auto" fontFamily="ui-sans-serif, system-ui, sans-serif">
+          {/* Rough ER with its translocon and SRP receptor */}
+          <rect x={40} y={172} width={270} height={56} rx={28} fill="#0EA5E9" fillOpacity={0.1} stroke="#0EA5E9" strokeOpacity={0.6} strokeWidth={3} />
+          <rect x={144} y={166} width={12} height={12} rx={2} fill="#0EA5E9" />
+          <rect x={180} y={167} width={12} height={8} rx={2} fill="#A855F7" fillOpacity={0.7} />
+          <text x={60} y={222} fill="white" fillOpacity={0.6} fontSize={11}>ER lumen</text>
+          <text x={142} y={194} fill="white" fillOpacity={0.5} fontSize={8} textAnchor="end">Sec61</text>
+
+          {/* Golgi cisternae, cis face towards the ER */}
+          {[168, 182, 196, 210].map(y => (
+            <path key={y} d={`M 370 ${y} Q 410 ${y - 16} 450 ${y}`} fill="none" stroke="#F59E0B" strokeOpacity={0.6} strokeWidth={8} strokeLinecap="round" />
+          ))}
+          <text x={410} y={240} fill="white" fillOpacity={0.6} fontSize={11} textAnchor="middle">Golgi</text>
+
+          {/* Plasma membrane */}
+          <line x1={540} y1={10} x2={540} y2={290} stroke="#22C55E" strokeOpacity={0.6} strokeWidth={6} />
+          <text x={570} y={24} fill="white" fillOpacity={0.6} fontSize={10} textAnchor="middle">Outside</text>
+          <text x={16} y={24} fill="white" fillOpacity={0.6} fontSize={11}>Cytosol</text>
+
+          {/* mRNA and ribosome */}
+          <motion.g initial={false} animate={{ x: rx, y: ry, opacity: nascent || stage.id === 'cytosol' ? 1 : 0 }} transition={STAGE_TRANSITION}>
+            <line x1={-60} y1={-6} x2={60} y2={-6} stroke="#38BDF8" strokeWidth={2} />
+            <ellipse cx={0} cy={-10} rx={22} ry={9} fill="#6366F1" fillOpacity={0.8} />
+            <ellipse cx={0} cy={8} rx={28} ry={14} fill="#818CF8" fillOpacity={0.8} />
+          </motion.g>
+
+          {/* Nascent chain leaving the exit tunnel, signal peptide first */}
+          {nascent && (
+            <g>
+              {stage.id === 'translocation' ? (
+                <>
+                  <path d={`M ${exit[0]} ${exit[1]} L ${exit[0]} 186 Q ${exit[0] + 20} 196 ${exit[0] + 10} 206 T ${exit[0] + 40} 212`} fill="none" stroke="white" strokeWidth={2.5} />
+                  {signal && <line x1={132} y1={170} x2={132} y2={180} stroke={REGION_COLORS.h} strokeWidth={4} strokeLinecap="round" />}
+                </>
+              ) : (
+                <>
+                  <path d={`M ${exit[0]} ${exit[1]} q 6 6 0 12`} fill="none" stroke="white" strokeWidth={2.5} />
+                  <line
+                    x1={exit[0]}
+                    y1={exit[1] + 12}
+                    x2={exit[0]}
+                    y2={exit[1] + 22}
+                    stroke={signal ? REGION_COLORS.h : 'white'}
+                    strokeWidth={signal ? 4 : 2.5}
+                    strokeLinecap="round"
+                  />
+                </>
+              )}
+            </g>
+          )}
+          {stage.id === 'cytosol' && (
+            <path d={`M ${exit[0]} ${exit[1]} Q ${exit[0] + 50} ${exit[1] + 30} 270 92`} fill="none" stroke="white" strokeOpacity={0.5} strokeWidth={2} strokeDasharray="3 3" />
+          )}
+
+          {/* SRP, free in the cytosol until a signal peptide appears */}
+          {signal && (
+            <motion.g initial={false} animate={{ x: SRP_AT[stage.id][0], y: SRP_AT[stage.id][1] }} transition={STAGE_TRANSITION}>
+              <path d="M -14 0 Q -7 -8 0 0 T 14 0" fill="none" stroke="#A855F7" strokeWidth={5} strokeLinecap="round" />
+              <text y={-10} fill="#D8B4FE" fontSize={9} textAnchor="middle">SRP</text>
+            </motion.g>
+          )}
+
+          {/* The finished protein */}
+          <motion.g
+            initial={false}
+            animate={{ x: CARGO_AT[stage.id][0], y: CARGO_AT[stage.id][1], opacity: hasCargo ? 1 : 0 }}
+            transition={STAGE_TRANSITION}
+          >
+            {stage.id === 'golgi' && <circle r={16} fill="none" stroke="#F59E0B" strokeWidth={2} />}
+            <path d="M -9 -2 Q -8 -10 0 -9 Q 9 -9 9 -1 Q 10 8 1 9 Q -9 9 -9 -2 Z" fill={signal ? '#22D3EE' : '#A3E635'} fillOpacity={0.85} stroke="white" strokeWidth={1} />
+            {/* Glycans picked up in the ER */}
+            {signal && (
+              <path d="M 0 -9 L 0 -15 M 0 -15 L -3 -19 M 0 -15 L 3 -19" stroke="#22C55E" strokeWidth={1.5} />
+            )}
+          </motion.g>
+        </svg>
+      </div>
+
+      <div>
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {stages.map((option, i) => (
+            <button
+              key={option.id}
+              onClick={() => setStageIndex(i)}
+              className={cn(
+                'px-3 py-1 rounded-full text-white text-xs font-medium transition-colors',
+                option.id === stage.id ? 'bg-primary/50' : 'bg-primary/20 hover:bg-primary/40'
+              )}
+            >
+              {i + 1}. {option.label}
+            </button>
+          ))}
+          <Button size="sm" variant="outline" className="ml-auto" onClick={() => setStageIndex(0)}>
+            Replay
+          </Button>
+        </div>
+        <p className="text-white/80 text-sm">{stage.description}</p>
+      </div>
+    </div>
+  );
+};
+
+export default ProteinTargetingScene;
@@ -1,12 +1,20 @@
-import { useState, useEffect } from 'react';
-import { proteinSynthesisQuestions } from '@/lib/quiz-data';
+import React, { useState, useEffect } from 'react';
+import { proteinSynthesisQuestions, type QuizQuestion } from '@/lib/quiz-data';
 import { CheckCircle, XCircle, Home, RotateCcw, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { Card, CardContent } from '@/components/ui/card';
 import { Link } from 'react-router-dom';
 
-const QuizComponent = () => {
+interface QuizComponentProps {
+  questions?: QuizQuestion[];
+  topic?: string; // used in the closing messages
+}
+
+const QuizComponent: React.FC<QuizComponentProps> = ({
+  questions = proteinSynthesisQuestions,
+  topic = 'protein synthesis'
+}) => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [selectedOptionIndex, setSelectedOptionIndex] = useState<number | null>(null);
   const [isAnswered, setIsAnswered] = useState(false);
@@ -14,8 +22,8 @@ const QuizComponent = () => {
   const [quizCompleted, setQuizCompleted] = useState(false);
   const [animateQuestion, setAnimateQuestion] = useState(false);
 
-  const currentQuestion = proteinSynthesisQuestions[currentQuestionIndex];
-  const totalQuestions = proteinSynthesisQuestions.length;
+  const currentQuestion = questions[currentQuestionIndex];
+  const totalQuestions = questions.length;
 
   useEffect(() => {
     // Reset animation when question changes
@@ -63,13 +71,13 @@ const QuizComponent = () => {
           
           <div className="text-muted-foreground mb-8">
             {correctAnswers === totalQuestions ? (
-              <p>Perfect score! You're a protein synthesis expert!</p>
+              <p>Perfect score! You're a {topic} expert!</p>
             ) : correctAnswers >= totalQuestions * 0.7 ? (
-              <p>Excellent work! You have a good understanding of protein synthesis.</p>
+              <p>Excellent work! You have a good understanding of {topic}.</p>
             ) : correctAnswers >= totalQuestions * 0.5 ? (
               <p>Good effort! Review the topics you missed and try again.</p>
             ) : (
-              <p>Keep studying protein synthesis concepts and try again soon!</p>
+              <p>Keep studying {topic} concepts and try again soon!</p>
             )}
           </div>
         </div>
@@ -163,6 +171,14 @@ const QuizComponent = () => {
               <div className="text-muted-foreground">
                 <span className="font-medium">Explanation:</span> {currentQuestion.explanation}
               </div>
+              {currentQuestion.reference && (
+                <Link
+                  to={currentQuestion.reference.path}
+                  className="inline-block mt-2 text-sm text-primary hover:underline"
+                >
+                  {currentQuestion.reference.label} →
+                </Link>
+              )}
             </div>
           )}
         </CardContent>
@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { AMINO_ACIDS } from '@/lib/genetic-code';
+import { normalizeProtein, PROPERTY_COLORS, residueProperties } from '@/lib/protein-properties';
+import {
+  predictSecondaryStructure,
+  SECONDARY_STRUCTURE_COLORS,
+  type SecondaryStructure,
+} from '@/lib/secondary-structure';
+
+interface SecondaryStructureTrackProps {
+  sequence: string;
+  className?: string;
+}
+
+const STRUCTURE_LABELS: Record<SecondaryStructure, string> = {
+  helix: 'α-helix',
+  strand: 'β-strand',
+  coil: 'Coil',
+};
+
+// Helices are drawn as thick bars, strands as thinner bars and coil as a line, like a topology diagram
+const STRUCTURE_HEIGHTS: Record<SecondaryStructure, string> = {
+  helix: 'h-3',
+  strand: 'h-2',
+  coil: 'h-0.5',
+};
+
+// Residue-by-residue Chou-Fasman prediction: the same segments the folding view turns into helices and sheets
+const SecondaryStructureTrack: React.FC<SecondaryStructureTrackProps> = ({ sequence, className }) => {
+  const protein = useMemo(() => normalizeProtein(sequence), [sequence]);
+  const structure = useMemo(() => predictSecondaryStructure(protein), [protein]);
+  const properties = useMemo(() => residueProperties(protein), [protein]);
+
+  const share = (type: SecondaryStructure) =>
+    protein.length === 0 ? 0 : Math.round(100 * structure.filter(state => state === type).length / protein.length);
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="overflow-x-auto pb-2">
+        <div className="flex font-mono text-[10px]">
+          {protein.split('').map((residue, i) => (
+            <div
+              key={i}
+              title={`${AMINO_ACIDS[residue]?.threeLetter} ${i + 1} · ${STRUCTURE_LABELS[structure[i]]}`}
+              className="w-4 shrink-0 flex flex-col items-center gap-1"
+            >
+              <span style={{ color: PROPERTY_COLORS[properties[i]] }}>{residue}</span>
+              <div className="h-3 w-full flex items-center">
+                <div
+                  className={cn('w-full', STRUCTURE_HEIGHTS[structure[i]])}
+                  style={{ backgroundColor: SECONDARY_STRUCTURE_COLORS[structure[i]] }}
+                />
+              </div>
+              {(i + 1) % 10 === 0 && <span className="text-white/40">{i + 1}</span>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-white/80">
+        {(Object.keys(STRUCTURE_LABELS) as SecondaryStructure[]).map(type => (
+          <div key={type} className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: SECONDARY_STRUCTURE_COLORS[type] }} />
+            {STRUCTURE_LABELS[type]} · {share(type)}%
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SecondaryStructureTrack;
@@ -0,0 +1,202 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, FileText, Upload, X } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  parseSequenceFile,
+  SEQUENCE_FILE_EXTENSIONS,
+  type SequenceFeature,
+  type SequenceRecord,
+} from '@/lib/sequence-files';
+
+interface SequenceImportProps {
+  record: SequenceRecord | null;
+  selectedFeature: SequenceFeature | null;
+  onRecordChange: (record: SequenceRecord | null) => void;
+  onFeatureSelect: (feature: SequenceFeature | null) => void;
+  className?: string;
+}
+
+// Feature types the views know how to use, listed before everything else
+const HIGHLIGHTED_TYPES = ['CDS', 'exon', 'intron'];
+
+const featureColor = (type: string) => ({
+  CDS: 'bg-primary/30 border-primary/50',
+  exon: 'bg-secondary/30 border-secondary/50',
+  intron: 'bg-amber-500/20 border-amber-500/40',
+}[type] ?? 'bg-muted/30 border-primary/10');
+
+const formatLocation = (feature: SequenceFeature) =>
+  `${feature.start + 1}–${feature.end}${feature.segments.length > 1 ? ` (${feature.segments.length} parts)` : ''}`;
+
+const SequenceImport: React.FC<SequenceImportProps> = ({
+  record,
+  selectedFeature,
+  onRecordChange,
+  onFeatureSelect,
+  className = ''
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [records, setRecords] = useState<SequenceRecord[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const loadFile = async (file: File) => {
+    setFileName(file.name);
+    try {
+      const parsed = parseSequenceFile(await file.text());
+      setRecords(parsed);
+      setError(null);
+      onRecordChange(parsed[0]);
+      onFeatureSelect(null);
+    } catch (e) {
+      setRecords([]);
+      setError(e instanceof Error ? e.message : 'Could not read this file');
+      onRecordChange(null);
+      onFeatureSelect(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadFile(file);
+  };
+
+  const handleClear = () => {
+    setRecords([]);
+    setFileName('');
+    setError(null);
+    onRecordChange(null);
+    onFeatureSelect(null);
+  };
+
+  const features = record
+    ? [...record.features]
+        .filter(feature => feature.type !== 'source')
+        .sort((a, b) => Number(!HIGHLIGHTED_TYPES.includes(a.type)) - Number(!HIGHLIGHTED_TYPES.includes(b.type)))
+    : [];
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Drop zone */}
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={cn(
+          'flex flex-col items-center justify-center gap-2 p-6 rounded-lg border-2 border-dashed cursor-pointer transition-colors text-center',
+          isDragging ? 'border-secondary bg-secondary/10' : 'border-primary/30 hover:border-primary/60 hover:bg-primary/5'
+        )}
+      >
+        <Upload className="w-6 h-6 text-primary" />
+        <div className="text-white text-sm font-medium">Drop a FASTA or GenBank file here, or click to upload</div>
+        <div className="text-muted-foreground text-xs">{SEQUENCE_FILE_EXTENSIONS.join(' ')}</div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={SEQUENCE_FILE_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Could not load {fileName}</AlertTitle>
+          <AlertDescription className="font-mono text-xs">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {record && (
+        <div className="space-y-3">
+          {/* Loaded record */}
+          <div className="flex items-start justify-between gap-3">
+            <div className="flex items-start gap-2 min-w-0">
+              <FileText className="w-5 h-5 text-secondary shrink-0 mt-0.5" />
+              <div className="min-w-0">
+                <div className="text-white font-medium truncate">
+                  {record.id} <span className="text-muted-foreground font-normal">· {record.sequence.length} bp · {record.format === 'genbank' ? 'GenBank' : 'FASTA'}</span>
+                </div>
+                {record.description && (
+                  <div className="text-muted-foreground text-sm truncate">{record.description}</div>
+                )}
+              </div>
+            </div>
+            <Button size="sm" variant="ghost" onClick={handleClear} className="text-white/70 hover:text-white">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {record.ambiguousBases > 0 && (
+            <Alert className="bg-amber-500/10 border-amber-500/40">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>
+                {record.ambiguousBases} ambiguous base{record.ambiguousBases === 1 ? '' : 's'}
+              </AlertTitle>
+              <AlertDescription className="text-sm">
+                IUPAC codes such as N, R and Y are kept as written. Any codon containing one translates as X, an
+                unknown amino acid, and never counts as a start or stop codon.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Multi-record files */}
+          {records.length > 1 && (
+            <select
+              value={records.indexOf(record)}
+              onChange={(e) => {
+                onRecordChange(records[Number(e.target.value)]);
+                onFeatureSelect(null);
+              }}
+              className="w-full bg-muted/30 border border-primary/20 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+            >
+              {records.map((option, i) => (
+                <option key={`${option.id}-${i}`} value={i}>
+                  {option.id} ({option.sequence.length} bp)
+                </option>
+              ))}
+            </select>
+          )}
+
+          {/* Annotations */}
+          {features.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {features.map((feature, i) => (
+                <button
+                  key={`${feature.type}-${feature.line}-${i}`}
+                  onClick={() => onFeatureSelect(feature === selectedFeature ? null : feature)}
+                  title={feature.location}
+                  className={cn(
+                    'px-3 py-1 rounded-full border text-white text-xs font-medium transition-colors',
+                    featureColor(feature.type),
+                    feature === selectedFeature && 'ring-2 ring-white/70'
+                  )}
+                >
+                  {feature.type} · {feature.label === feature.type ? formatLocation(feature) : feature.label}
+                  {feature.strand === '-' && ' (−)'}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-sm">No annotations – the whole sequence is used.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SequenceImport;
@@ -0,0 +1,509 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Copy, Maximize2, Search, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/components/ui/use-toast';
+import { cn } from '@/lib/utils';
+import { complementDNA, findMotif, normalizeMotif, reverseComplement } from '@/lib/dna';
+import { getReadingFrames } from '@/lib/orf';
+import {
+  codonStart,
+  DEFAULT_FEATURE_COLOR,
+  FEATURE_TYPE_COLORS,
+  groupFeatureTracks,
+  packLanes,
+  rulerStep,
+  type MapFeature,
+} from '@/lib/sequence-map';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+interface SequenceMapProps {
+  sequence: string; // forward-strand DNA, already normalised
+  features?: MapFeature[];
+  tableId?: number;
+  onFeatureClick?: (feature: MapFeature) => void;
+  className?: string;
+}
+
+interface Range {
+  start: number; // 0-based, inclusive
+  end: number;   // exclusive
+}
+
+// SVG user units across the map; the first LABEL_WIDTH hold the track names
+const VIEW_WIDTH = 1000;
+const LABEL_WIDTH = 60;
+const DATA_WIDTH = VIEW_WIDTH - LABEL_WIDTH;
+
+// Bases are drawn as letters, and codons as amino acids, once this few are in view
+const LETTER_ZOOM = 100;
+const MIN_VISIBLE = 20;
+
+const RULER_HEIGHT = 22;
+const ROW_HEIGHT = 13;
+const LANE_HEIGHT = 16;
+const TRACK_GAP = 6;
+
+// Longest selection written out in full below the map
+const MAX_PREVIEW = 300;
+
+const featureColor = (type: string) => FEATURE_TYPE_COLORS[type] ?? DEFAULT_FEATURE_COLOR;
+
+interface TrackLabelProps {
+  y: number;
+  children: React.ReactNode;
+}
+
+const TrackLabel: React.FC<TrackLabelProps> = ({ y, children }) => (
+  <text x={4} y={y} fill="white" fillOpacity={0.6} fontSize={10} dominantBaseline="middle">
+    {children}
+  </text>
+);
+
+// A long DNA sequence on one zoomable axis: ruler, bases, six-frame translation, motif hits and annotated features
+const SequenceMap: React.FC<SequenceMapProps> = ({
+  sequence,
+  features = [],
+  tableId = STANDARD_TABLE_ID,
+  onFeatureClick,
+  className,
+}) => {
+  const { toast } = useToast();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const length = sequence.length;
+  const minVisible = Math.min(MIN_VISIBLE, Math.max(length, 1));
+
+  const [view, setView] = useState<Range>({ start: 0, end: length });
+  const [selection, setSelection] = useState<Range | null>(null);
+  const [anchor, setAnchor] = useState<number | null>(null);
+  const [motifInput, setMotifInput] = useState('');
+  const [showReverse, setShowReverse] = useState(false);
+
+  // A new sequence starts fully zoomed out with nothing selected
+  useEffect(() => {
+    setView({ start: 0, end: length });
+    setSelection(null);
+  }, [sequence, length]);
+
+  const visible = Math.max(view.end - view.start, 1);
+  const scale = DATA_WIDTH / visible;
+  const toX = (base: number) => LABEL_WIDTH + (base - view.start) * scale;
+  const showLetters = visible <= LETTER_ZOOM;
+
+  const frames = useMemo(() => getReadingFrames(sequence, tableId), [sequence, tableId]);
+
+  // Starts and stops in every frame, for the zoomed-out view
+  const frameMarkers = useMemo(
+    () => frames.map(frame =>
+      frame.protein.split('').flatMap((residue, i) =>
+        residue === 'M' || residue === '*'
+          ? [{ position: codonStart(frame.strand, frame.frame, i, length), isStop: residue === '*' }]
+          : []
+      )
+    ),
+    [frames, length]
+  );
+
+  const motif = normalizeMotif(motifInput);
+  const motifHits = useMemo(() => findMotif(sequence, motif), [sequence, motif]);
+  const tracks = useMemo(() => groupFeatureTracks(features).map(track => {
+    const lanes = packLanes(track.features);
+    return { ...track, lanes, laneCount: Math.max(0, ...lanes) + 1 };
+  }), [features]);
+
+  // Vertical layout, top to bottom
+  const sequenceTop = RULER_HEIGHT;
+  const sequenceHeight = showLetters ? ROW_HEIGHT * 2 : 8;
+  const framesTop = sequenceTop + sequenceHeight + TRACK_GAP;
+  const motifTop = framesTop + ROW_HEIGHT * 6 + TRACK_GAP;
+  const motifHeight = motif ? LANE_HEIGHT : 0;
+  let trackTop = motifTop + motifHeight + (motif ? TRACK_GAP : 0);
+  const trackLayout = tracks.map(track => {
+    const top = trackTop;
+    trackTop += track.laneCount * LANE_HEIGHT + TRACK_GAP;
+    return { ...track, top };
+  });
+  const height = trackTop;
+
+  const clampView = (start: number, size: number): Range => {
+    const span = Math.min(Math.max(Math.round(size), minVisible), length);
+    const from = Math.min(Math.max(Math.round(start), 0), length - span);
+    return { start: from, end: from + span };
+  };
+
+  const zoomBy = (factor: number) => {
+    const centre = (view.start + view.end) / 2;
+    const size = visible * factor;
+    setView(clampView(centre - size / 2, size));
+  };
+
+  const zoomTo = ({ start, end }: Range) => {
+    const padding = Math.max((end - start) * 0.1, 2);
+    setView(clampView(start - padding, end - start + padding * 2));
+  };
+
+  // Slider position 0–100 on a log scale, so every step zooms by the same factor
+  const zoomLevel = length <= minVisible ? 0 : (Math.log(length / visible) / Math.log(length / minVisible)) * 100;
+  const setZoomLevel = (level: number) => {
+    const size = length / Math.pow(length / minVisible, level / 100);
+    const centre = (view.start + view.end) / 2;
+    setView(clampView(centre - size / 2, size));
+  };
+
+  const baseAt = (clientX: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    const x = ((clientX - rect.left) / rect.width) * VIEW_WIDTH;
+    return Math.min(Math.max(Math.floor(view.start + (x - LABEL_WIDTH) / scale), 0), length - 1);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (length === 0) return;
+    const base = baseAt(event.clientX);
+    setAnchor(base);
+    setSelection({ start: base, end: base + 1 });
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (anchor === null) return;
+    const base = baseAt(event.clientX);
+    setSelection({ start: Math.min(anchor, base), end: Math.max(anchor, base) + 1 });
+  };
+
+  const selectFeature = (feature: MapFeature) => {
+    setSelection({ start: feature.start, end: feature.end });
+    onFeatureClick?.(feature);
+  };
+
+  const selected = selection ? sequence.slice(selection.start, selection.end) : '';
+  const shown = showReverse ? reverseComplement(selected) : selected;
+
+  const copySelection = async () => {
+    try {
+      await navigator.clipboard.writeText(shown);
+      toast({
+        title: 'Copied',
+        description: `${shown.length} bp${showReverse ? ', reverse complement' : ''}`,
+      });
+    } catch {
+      toast({ title: 'Could not copy', description: 'The browser blocked access to the clipboard.', variant: 'destructive' });
+    }
+  };
+
+  const step = rulerStep(visible);
+  const firstTick = Math.ceil((view.start + 1) / step) * step;
+  const ticks = [...Array(Math.max(0, Math.floor((view.end - firstTick) / step) + 1))].map((_, i) => firstTick + i * step);
+  const inView = (start: number, end: number) => end > view.start && start < view.end;
+
+  if (length === 0) {
+    return <p className={cn('text-muted-foreground', className)}>Enter a sequence to see its map.</p>;
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => zoomBy(0.5)} disabled={visible <= minVisible} aria-label="Zoom in">
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => zoomBy(2)} disabled={visible >= length} aria-label="Zoom out">
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setView({ start: 0, end: length })} disabled={visible >= length}>
+          <Maximize2 className="h-4 w-4 mr-2" />
+          Whole sequence
+        </Button>
+        <div className="flex-1 min-w-[140px] px-2">
+          <Slider value={[zoomLevel]} min={0} max={100} step={1} onValueChange={([value]) => setZoomLevel(value)} aria-label="Zoom" />
+        </div>
+        <span className="font-mono text-xs text-secondary">
+          {(view.start + 1).toLocaleString()}–{view.end.toLocaleString()} of {length.toLocaleString()} bp
+        </span>
+      </div>
+
+      <div className="rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+          className="w-full h-auto select-none touch-none cursor-text"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setAnchor(null)}
+        >
+          <defs>
+            <clipPath id="sequence-map-data">
+              <rect x={LABEL_WIDTH} y={0} width={DATA_WIDTH} height={height} />
+            </clipPath>
+          </defs>
+
+          <g clipPath="url(#sequence-map-data)">
+            {/* Selection behind everything else */}
+            {selection && (
+              <rect
+                x={toX(selection.start)}
+                y={0}
+                width={Math.max((selection.end - selection.start) * scale, 1)}
+                height={height}
+                fill="hsl(var(--secondary))"
+                fillOpacity={0.15}
+              />
+            )}
+
+            {/* Ruler */}
+            <line x1={LABEL_WIDTH} x2={VIEW_WIDTH} y1={RULER_HEIGHT - 4} y2={RULER_HEIGHT - 4} stroke="white" strokeOpacity={0.3} />
+            {ticks.map(tick => (
+              <g key={tick}>
+                <line x1={toX(tick - 0.5)} x2={toX(tick - 0.5)} y1={RULER_HEIGHT - 9} y2={RULER_HEIGHT - 4} stroke="white" strokeOpacity={0.4} />
+                <text x={toX(tick - 0.5)} y={RULER_HEIGHT - 12} fill="white" fillOpacity={0.5} fontSize={9} textAnchor="middle">
+                  {tick.toLocaleString()}
+                </text>
+              </g>
+            ))}
+
+            {/* Both strands as letters, or a bar when zoomed out */}
+            {showLetters ? (
+              <g fontFamily="monospace" fontSize={Math.min(11, scale * 1.4)} textAnchor="middle">
+                {sequence.slice(view.start, view.end).split('').map((base, i) => (
+                  <g key={view.start + i}>
+                    <text x={toX(view.start + i + 0.5)} y={sequenceTop + ROW_HEIGHT / 2} dominantBaseline="middle" fill="white">
+                      {base}
+                    </text>
+                    <text x={toX(view.start + i + 0.5)} y={sequenceTop + ROW_HEIGHT * 1.5} dominantBaseline="middle" fill="white" fillOpacity={0.5}>
+                      {complementDNA(base)}
+                    </text>
+                  </g>
+                ))}
+              </g>
+            ) : (
+              <rect x={toX(0)} y={sequenceTop} width={length * scale} height={sequenceHeight} rx={2} fill="white" fillOpacity={0.25} />
+            )}
+
+            {/* Six-frame translation: amino acids up close, starts and stops from afar */}
+            {frames.map((frame, f) => {
+              const y = framesTop + f * ROW_HEIGHT + ROW_HEIGHT / 2;
+              if (showLetters) {
+                return (
+                  <g key={frame.label} fontFamily="monospace" fontSize={Math.min(10, scale * 1.6)} textAnchor="middle">
+                    {frame.protein.split('').map((residue, i) => {
+                      const start = codonStart(frame.strand, frame.frame, i, length);
+                      if (!inView(start, start + 3)) return null;
+                      const color = residue === '*' ? FEATURE_TYPE_COLORS.stop : residue === 'M' ? FEATURE_TYPE_COLORS.start : 'white';
+                      return (
+                        <g key={i}>
+                          <rect x={toX(start) + 0.5} y={y - ROW_HEIGHT / 2 + 1} width={3 * scale - 1} height={ROW_HEIGHT - 2} rx={2} fill="white" fillOpacity={0.06} />
+                          <text x={toX(start + 1.5)} y={y} dominantBaseline="middle" fill={color} fillOpacity={residue === '*' || residue === 'M' ? 1 : 0.7}>
+                            {residue}
+                          </text>
+                        </g>
+                      );
+                    })}
+                  </g>
+                );
+              }
+              // One mark per pixel column is plenty
+              const seen = new Set<number>();
+              return (
+                <g key={frame.label}>
+                  <line x1={LABEL_WIDTH} x2={VIEW_WIDTH} y1={y} y2={y} stroke="white" strokeOpacity={0.08} />
+                  {frameMarkers[f].map(({ position, isStop }) => {
+                    if (!inView(position, position + 3)) return null;
+                    const x = Math.round(toX(position + 1.5));
+                    const key = isStop ? -x - 1 : x;
+                    if (seen.has(key)) return null;
+                    seen.add(key);
+                    return (
+                      <line
+                        key={key}
+                        x1={x}
+                        x2={x}
+                        y1={y - (isStop ? 5 : 3)}
+                        y2={y + (isStop ? 5 : 3)}
+                        stroke={isStop ? FEATURE_TYPE_COLORS.stop : FEATURE_TYPE_COLORS.start}
+                        strokeOpacity={isStop ? 0.9 : 0.6}
+                      />
+                    );
+                  })}
+                </g>
+              );
+            })}
+
+            {/* Motif hits, on their own track */}
+            {motifHits.filter(hit => inView(hit.start, hit.end)).map(hit => (
+              <rect
+                key={`${hit.strand}${hit.start}`}
+                x={toX(hit.start)}
+                y={motifTop + (hit.strand === '+' ? 2 : LANE_HEIGHT / 2)}
+                width={Math.max((hit.end - hit.start) * scale, 2)}
+                height={LANE_HEIGHT / 2 - 2}
+                fill={FEATURE_TYPE_COLORS.motif}
+                className="cursor-pointer"
+                onPointerDown={(event) => event.stopPropagation()}
+                onClick={() => setSelection({ start: hit.start, end: hit.end })}
+              >
+                <title>{`${motif} at ${hit.start + 1}–${hit.end} (${hit.strand} strand)`}</title>
+              </rect>
+            ))}
+
+            {/* Annotated features, overlapping ones in separate lanes */}
+            {trackLayout.map(track => track.features.map((feature, i) => {
+              if (!inView(feature.start, feature.end)) return null;
+              const y = track.top + track.lanes[i] * LANE_HEIGHT;
+              const color = featureColor(feature.type);
+              const x1 = toX(feature.start);
+              const x2 = toX(feature.end);
+              const labelX = Math.max(x1, LABEL_WIDTH) + 6;
+              const fitsLabel = Math.min(x2, VIEW_WIDTH) - labelX > feature.label.length * 6;
+              const fivePrime = feature.strand === '+' ? feature.start : feature.end - 3;
+              const threePrime = feature.strand === '+' ? feature.end - 3 : feature.start;
+              return (
+                <g
+                  key={`${feature.id ?? feature.label}-${feature.start}-${i}`}
+                  className="cursor-pointer"
+                  onPointerDown={(event) => event.stopPropagation()}
+                  onClick={() => selectFeature(feature)}
+                >
+                  <title>{`${feature.type} ${feature.label} · ${feature.start + 1}–${feature.end} (${feature.strand})`}</title>
+                  {feature.segments.length > 1 && (
+                    <line x1={x1} x2={x2} y1={y + LANE_HEIGHT / 2} y2={y + LANE_HEIGHT / 2} stroke={color} strokeOpacity={0.6} />
+                  )}
+                  {feature.segments.map(segment => (
+                    <rect
+                      key={segment.start}
+                      x={toX(segment.start)}
+                      y={y + 2}
+                      width={Math.max((segment.end - segment.start) * scale, 1)}
+                      height={LANE_HEIGHT - 4}
+                      rx={2}
+                      fill={color}
+                      fillOpacity={0.75}
+                    />
+                  ))}
+                  {/* Strand arrow at the 3' end */}
+                  <path
+                    d={feature.strand === '+'
+                      ? `M ${x2} ${y + 2} L ${x2 + 5} ${y + LANE_HEIGHT / 2} L ${x2} ${y + LANE_HEIGHT - 2} z`
+                      : `M ${x1} ${y + 2} L ${x1 - 5} ${y + LANE_HEIGHT / 2} L ${x1} ${y + LANE_HEIGHT - 2} z`}
+                    fill={color}
+                  />
+                  {/* Coding features get their start and stop codons marked */}
+                  {(feature.type === 'CDS' || feature.type === 'ORF') && feature.end - feature.start >= 6 && (
+                    <>
+                      <rect x={toX(fivePrime)} y={y + 1} width={Math.max(3 * scale, 2)} height={LANE_HEIGHT - 2} fill={FEATURE_TYPE_COLORS.start} />
+                      <rect x={toX(threePrime)} y={y + 1} width={Math.max(3 * scale, 2)} height={LANE_HEIGHT - 2} fill={FEATURE_TYPE_COLORS.stop} />
+                    </>
+                  )}
+                  {fitsLabel && (
+                    <text x={labelX} y={y + LANE_HEIGHT / 2} fill="white" fontSize={10} dominantBaseline="middle">
+                      {feature.label}
+                    </text>
+                  )}
+                </g>
+              );
+            }))}
+          </g>
+
+          {/* Track names in the gutter */}
+          <rect x={0} y={0} width={LABEL_WIDTH} height={height} fill="hsl(var(--background))" fillOpacity={0.6} />
+          <TrackLabel y={sequenceTop + sequenceHeight / 2}>DNA</TrackLabel>
+          {frames.map((frame, f) => (
+            <TrackLabel key={frame.label} y={framesTop + f * ROW_HEIGHT + ROW_HEIGHT / 2}>{frame.label}</TrackLabel>
+          ))}
+          {motif && <TrackLabel y={motifTop + LANE_HEIGHT / 2}>Motif</TrackLabel>}
+          {trackLayout.map(track => (
+            <TrackLabel key={track.type} y={track.top + LANE_HEIGHT / 2}>{track.type}</TrackLabel>
+          ))}
+        </svg>
+      </div>
+
+      {visible < length && (
+        <Slider
+          value={[view.start]}
+          min={0}
+          max={length - visible}
+          step={1}
+          onValueChange={([value]) => setView({ start: value, end: value + visible })}
+          aria-label="Scroll along the sequence"
+        />
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {/* Selection */}
+        <div className="bg-muted/30 rounded-lg p-4 backdrop-blur-sm border border-primary/10 space-y-3">
+          {selection ? (
+            <>
+              <div className="flex justify-between items-baseline">
+                <span className="text-white font-bold">Selection</span>
+                <span className="font-mono text-xs text-secondary">
+                  {selection.start + 1}–{selection.end} · {selected.length} bp
+                </span>
+              </div>
+              <p className="font-mono text-xs text-white/80 break-all max-h-24 overflow-y-auto">
+                {showReverse && <span className="text-muted-foreground">(−) </span>}
+                {shown.length > MAX_PREVIEW ? `${shown.slice(0, MAX_PREVIEW)}…` : shown}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={copySelection}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button size="sm" variant={showReverse ? 'default' : 'outline'} onClick={() => setShowReverse(current => !current)}>
+                  Reverse complement
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => zoomTo(selection)}>
+                  Zoom to
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setSelection(null)}>
+                  Clear
+                </Button>
+              </div>
+            </>
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              Drag across the map to select bases, or click a feature or motif hit to select it.
+            </p>
+          )}
+        </div>
+
+        {/* Motif search */}
+        <div className="bg-muted/30 rounded-lg p-4 backdrop-blur-sm border border-primary/10 space-y-3">
+          <label htmlFor="sequence-map-motif" className="block text-white font-bold">Find a motif</label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="sequence-map-motif"
+              value={motifInput}
+              onChange={(e) => setMotifInput(e.target.value)}
+              placeholder="e.g. TATAWAW or GAATTC"
+              spellCheck={false}
+              className="pl-9 bg-muted/30 border-primary/20 text-white font-mono"
+            />
+          </div>
+          <p className="text-muted-foreground text-xs">
+            {motif
+              ? `${motifHits.length} match${motifHits.length === 1 ? '' : 'es'} on both strands`
+              : 'IUPAC codes work: R = A/G, Y = C/T, W = A/T, S = C/G, N = any base.'}
+          </p>
+          {motifHits.length > 0 && (
+            <div className="flex flex-wrap gap-1 max-h-20 overflow-y-auto">
+              {motifHits.slice(0, 50).map(hit => (
+                <button
+                  key={`${hit.strand}${hit.start}`}
+                  onClick={() => {
+                    setSelection({ start: hit.start, end: hit.end });
+                    zoomTo(hit);
+                  }}
+                  className="px-2 py-0.5 rounded-full text-xs font-mono bg-primary/20 hover:bg-primary/40 text-white transition-colors"
+                >
+                  {hit.start + 1}{hit.strand === '-' ? ' (−)' : ''}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SequenceMap;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface StatCardProps {
+  label: string;
+  value: string;
+  hint?: string;
+  className?: string;
+}
+
+// One headline number with a caption, for the analysis tools
+const StatCard: React.FC<StatCardProps> = ({ label, value, hint, className }) => (
+  <div className={cn('bg-muted/30 rounded-lg p-4 backdrop-blur-sm border border-primary/10', className)}>
+    <div className="text-muted-foreground text-xs uppercase tracking-wide">{label}</div>
+    <div className="text-2xl font-bold text-white font-mono">{value}</div>
+    {hint && <div className="text-muted-foreground text-xs mt-1">{hint}</div>}
+  </div>
+);
+
+export default StatCard;
@@ -0,0 +1,373 @@
+import React, { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { AMINO_ACIDS } from '@/lib/genetic-code';
+import { PROPERTY_COLORS } from '@/lib/protein-properties';
+import { SECONDARY_STRUCTURE_COLORS } from '@/lib/secondary-structure';
+import {
+  CHAIN_COLORS,
+  findBonds,
+  type ProteinStructure,
+  type StructureAtom,
+  type StructureResidue,
+} from '@/lib/structure-files';
+
+export type RenderStyle = 'cartoon' | 'trace' | 'ball-and-stick';
+export type ColorMode = 'chain' | 'secondary' | 'property';
+
+interface StructureViewerProps {
+  structure: ProteinStructure;
+  renderStyle: RenderStyle;
+  colorMode: ColorMode;
+  morphKey?: number; // changing it replays the morph from the unfolded chain
+  className?: string;
+}
+
+// Heteroatoms keep their conventional CPK colours; carbons follow the colour mode
+const ELEMENT_COLORS: Record<string, string> = {
+  N: '#3B82F6',
+  O: '#EF4444',
+  S: '#FDE047',
+  P: '#F59E0B',
+  FE: '#EA580C',
+  ZN: '#94A3B8',
+};
+
+const LIGAND_COLOR = '#E2E8F0';
+
+// Consecutive Cα atoms are 3.8 Å apart; a longer jump is a gap in the model
+const CA_SPACING = 3.8;
+const CHAIN_BREAK = 4.5;
+
+const MORPH_DURATION = 4; // seconds
+
+// Part of a curve, reparameterised to run from 0 to 1
+class SubCurve extends THREE.Curve<THREE.Vector3> {
+  constructor(private curve: THREE.Curve<THREE.Vector3>, private from: number, private to: number) {
+    super();
+  }
+
+  getPoint(t: number, target = new THREE.Vector3()) {
+    return this.curve.getPoint(this.from + (this.to - this.from) * t, target);
+  }
+}
+
+const alphaCarbon = (residue: StructureResidue): StructureAtom =>
+  residue.atoms.find(atom => atom.name === 'CA') ?? residue.atoms[0];
+
+const toVector = (atom: StructureAtom) => new THREE.Vector3(atom.x, atom.y, atom.z);
+
+// Split a chain where Cα atoms are too far apart to be bonded neighbours
+const splitRuns = (residues: StructureResidue[]): StructureResidue[][] => {
+  const runs: StructureResidue[][] = [];
+  residues.forEach((residue, i) => {
+    const previous = residues[i - 1];
+    if (!previous || toVector(alphaCarbon(previous)).distanceTo(toVector(alphaCarbon(residue))) > CHAIN_BREAK) {
+      runs.push([]);
+    }
+    runs[runs.length - 1].push(residue);
+  });
+  return runs;
+};
+
+// Place a unit cylinder between two points
+const cylinderMatrix = (start: THREE.Vector3, end: THREE.Vector3, radius: number, matrix: THREE.Matrix4) => {
+  const direction = new THREE.Vector3().subVectors(end, start);
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction.clone().normalize());
+  return matrix.compose(
+    new THREE.Vector3().lerpVectors(start, end, 0.5),
+    quaternion,
+    new THREE.Vector3(radius, direction.length(), radius)
+  );
+};
+
+// Renders a parsed PDB or mmCIF structure with the same scene setup as the folding animation
+const StructureViewer: React.FC<StructureViewerProps> = ({
+  structure,
+  renderStyle,
+  colorMode,
+  morphKey = 0,
+  className = ''
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const playedMorph = useRef(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || structure.chains.length === 0) return;
+
+    // Only a new morphKey replays the morph; switching style or colours does not
+    const morph = morphKey !== playedMorph.current;
+    playedMorph.current = morphKey;
+
+    // Set up scene
+    const scene = new THREE.Scene();
+
+    const renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true });
+    renderer.setSize(container.clientWidth, container.clientHeight);
+    renderer.setClearColor(0x000000, 0);
+    container.appendChild(renderer.domElement);
+
+    // Add lights
+    scene.add(new THREE.AmbientLight(0x404040, 1.5));
+
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 1.5);
+    directionalLight.position.set(1, 1, 1);
+    scene.add(directionalLight);
+
+    const purpleLight = new THREE.PointLight(0x8B5CF6, 2, 0);
+    scene.add(purpleLight);
+
+    const blueLight = new THREE.PointLight(0x0EA5E9, 2, 0);
+    scene.add(blueLight);
+
+    // Centre the molecule on its Cα atoms
+    const residues = structure.chains.flatMap(chain => chain.residues);
+    const alphaCarbons = residues.map(residue => toVector(alphaCarbon(residue)));
+    const centre = alphaCarbons.reduce((sum, point) => sum.add(point), new THREE.Vector3()).divideScalar(alphaCarbons.length);
+    const radius = Math.max(10, ...alphaCarbons.map(point => point.distanceTo(centre)));
+
+    const camera = new THREE.PerspectiveCamera(50, container.clientWidth / container.clientHeight, 0.1, radius * 20);
+    camera.position.z = radius * 2.6;
+
+    const proteinGroup = new THREE.Group();
+    scene.add(proteinGroup);
+    const model = new THREE.Group();
+    model.position.copy(centre).negate();
+    proteinGroup.add(model);
+
+    const chainIndex = new Map(structure.chains.map((chain, i) => [chain.id, i]));
+    const residueColor = (residue: StructureResidue) => {
+      if (colorMode === 'secondary') return SECONDARY_STRUCTURE_COLORS[residue.secondary];
+      if (colorMode === 'property') return PROPERTY_COLORS[AMINO_ACIDS[residue.oneLetter]?.property ?? 'special'];
+      return CHAIN_COLORS[(chainIndex.get(residue.chain) ?? 0) % CHAIN_COLORS.length];
+    };
+
+    const material = (color: string) => new THREE.MeshPhongMaterial({
+      color,
+      emissive: color,
+      emissiveIntensity: 0.15,
+      shininess: 60
+    });
+    // Instanced meshes take their colours per instance, so the material itself stays white and unlit
+    const instancedMaterial = () => new THREE.MeshPhongMaterial({ color: 0xffffff, shininess: 60 });
+
+    // Cartoon: ribbons for helices and strands, a thin tube for coil
+    const buildCartoon = () => {
+      for (const chain of structure.chains) {
+        for (const run of splitRuns(chain.residues)) {
+          if (run.length < 2) continue;
+          const curve = new THREE.CatmullRomCurve3(run.map(residue => toVector(alphaCarbon(residue))));
+          const last = run.length - 1;
+
+          // Consecutive residues with the same shape and colour share one piece of geometry
+          let start = 0;
+          for (let i = 1; i <= run.length; i++) {
+            const residue = run[start];
+            if (i < run.length && run[i].secondary === residue.secondary && residueColor(run[i]) === residueColor(residue)) continue;
+
+            const from = Math.max(0, (start - 0.5) / last);
+            const to = Math.min(1, (i - 0.5) / last);
+            const piece = new SubCurve(curve, from, to);
+            const steps = Math.max(4, (i - start) * 6);
+
+            let geometry: THREE.BufferGeometry;
+            if (residue.secondary === 'coil') {
+              geometry = new THREE.TubeGeometry(piece, steps, 0.35, 8, false);
+            } else {
+              // Flat ribbon: wide across the chain, thin through it
+              const width = residue.secondary === 'helix' ? 1.4 : 1.8;
+              const shape = new THREE.Shape();
+              shape.moveTo(-0.2, -width / 2);
+              shape.lineTo(0.2, -width / 2);
+              shape.lineTo(0.2, width / 2);
+              shape.lineTo(-0.2, width / 2);
+              shape.closePath();
+              geometry = new THREE.ExtrudeGeometry(shape, { steps, bevelEnabled: false, extrudePath: piece });
+            }
+            model.add(new THREE.Mesh(geometry, material(residueColor(residue))));
+            start = i;
+          }
+        }
+      }
+    };
+
+    // Backbone trace: one bead per Cα joined by sticks; the morph moves these
+    const traceRuns = structure.chains.flatMap(chain => splitRuns(chain.residues));
+    const beads = new THREE.InstancedMesh(new THREE.SphereGeometry(0.9, 12, 12), instancedMaterial(), residues.length);
+    const sticks = new THREE.InstancedMesh(
+      new THREE.CylinderGeometry(1, 1, 1, 8),
+      new THREE.MeshPhongMaterial({ color: 0xffffff, transparent: true, opacity: 0.7 }),
+      Math.max(1, residues.length)
+    );
+    residues.forEach((residue, i) => beads.setColorAt(i, new THREE.Color(residueColor(residue))));
+
+    const matrix = new THREE.Matrix4();
+    const placeTrace = (positions: THREE.Vector3[]) => {
+      positions.forEach((position, i) => beads.setMatrixAt(i, matrix.makeTranslation(position.x, position.y, position.z)));
+      let stick = 0;
+      let offset = 0;
+      for (const run of traceRuns) {
+        for (let i = 1; i < run.length; i++) {
+          sticks.setMatrixAt(stick++, cylinderMatrix(positions[offset + i - 1], positions[offset + i], 0.3, matrix));
+        }
+        offset += run.length;
+      }
+      sticks.count = stick;
+      beads.instanceMatrix.needsUpdate = true;
+      sticks.instanceMatrix.needsUpdate = true;
+    };
+
+    // Ball-and-stick: every heavy atom and the bonds between them
+    const buildBallAndStick = () => {
+      const atoms: StructureAtom[] = [];
+      const colors: string[] = [];
+      const scales: number[] = [];
+      const add = (residue: StructureResidue, color: string) => {
+        for (const atom of residue.atoms) {
+          if (atom.element === 'H') continue;
+          atoms.push(atom);
+          colors.push(atom.element === 'C' ? color : ELEMENT_COLORS[atom.element] ?? color);
+          // Lone ions such as Zn²⁺ are drawn larger
+          scales.push(residue.atoms.length === 1 ? 1.8 : 1);
+        }
+      };
+      residues.forEach(residue => add(residue, residueColor(residue)));
+      structure.ligands.forEach(residue => add(residue, LIGAND_COLOR));
+
+      const spheres = new THREE.InstancedMesh(new THREE.SphereGeometry(0.4, 10, 10), instancedMaterial(), atoms.length);
+      atoms.forEach((atom, i) => {
+        matrix.makeScale(scales[i], scales[i], scales[i]).setPosition(atom.x, atom.y, atom.z);
+        spheres.setMatrixAt(i, matrix);
+        spheres.setColorAt(i, new THREE.Color(colors[i]));
+      });
+      model.add(spheres);
+
+      const bonds = findBonds(atoms);
+      const bondMesh = new THREE.InstancedMesh(
+        new THREE.CylinderGeometry(1, 1, 1, 6),
+        new THREE.MeshPhongMaterial({ color: 0xcbd5e1 }),
+        Math.max(1, bonds.length)
+      );
+      bonds.forEach(([a, b], i) => bondMesh.setMatrixAt(i, cylinderMatrix(toVector(atoms[a]), toVector(atoms[b]), 0.15, matrix)));
+      bondMesh.count = bonds.length;
+      model.add(bondMesh);
+    };
+
+    const buildStyle = () => {
+      if (renderStyle === 'cartoon') buildCartoon();
+      else if (renderStyle === 'ball-and-stick') buildBallAndStick();
+      else {
+        placeTrace(alphaCarbons);
+        model.add(beads, sticks);
+      }
+    };
+
+    // Unfolded: each chain stretched out straight, chains side by side, all around the same centre
+    const unfolded = structure.chains.flatMap((chain, c) =>
+      chain.residues.map((_, i) => new THREE.Vector3(
+        (i - (chain.residues.length - 1) / 2) * CA_SPACING,
+        (c - (structure.chains.length - 1) / 2) * 8,
+        0
+      ).add(centre))
+    );
+
+    let morphProgress = morph ? 0 : 1;
+    if (morph) {
+      placeTrace(unfolded);
+      model.add(beads, sticks);
+      camera.position.z = Math.max(radius * 2.6, unfolded.length > 0 ? unfolded[0].distanceTo(centre) * 2 : 0);
+    } else {
+      buildStyle();
+    }
+
+    // Drag to turn the molecule; it spins slowly on its own otherwise
+    let dragging = false;
+    let lastX = 0;
+    let lastY = 0;
+    const handlePointerDown = (e: PointerEvent) => {
+      dragging = true;
+      lastX = e.clientX;
+      lastY = e.clientY;
+    };
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!dragging) return;
+      proteinGroup.rotation.y += (e.clientX - lastX) * 0.01;
+      proteinGroup.rotation.x += (e.clientY - lastY) * 0.01;
+      lastX = e.clientX;
+      lastY = e.clientY;
+    };
+    const handlePointerUp = () => {
+      dragging = false;
+    };
+    renderer.domElement.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+
+    // Animation loop
+    const clock = new THREE.Clock();
+    let time = 0;
+    let animationId: number;
+    const animate = () => {
+      animationId = requestAnimationFrame(animate);
+      const delta = clock.getDelta();
+      time += delta;
+
+      if (morphProgress < 1) {
+        morphProgress = Math.min(1, morphProgress + delta / MORPH_DURATION);
+        const eased = morphProgress * morphProgress * (3 - 2 * morphProgress);
+        placeTrace(unfolded.map((start, i) => start.clone().lerp(alphaCarbons[i], eased)));
+        camera.position.z = THREE.MathUtils.lerp(camera.position.z, radius * 2.6, 0.02);
+
+        // Folded: swap the bead chain for the chosen style
+        if (morphProgress === 1) {
+          model.remove(beads, sticks);
+          buildStyle();
+          camera.position.z = radius * 2.6;
+        }
+      }
+
+      if (!dragging) proteinGroup.rotation.y += 0.003;
+
+      // Move lights for dynamic effect
+      purpleLight.position.set(Math.sin(time * 0.5) * radius * 2, Math.cos(time * 0.3) * radius * 2, radius * 2);
+      blueLight.position.set(Math.cos(time * 0.3) * radius * 2, Math.sin(time * 0.5) * radius * 2, radius * 2);
+
+      renderer.render(scene, camera);
+    };
+
+    animationId = requestAnimationFrame(animate);
+
+    // Handle window resize
+    const handleResize = () => {
+      camera.aspect = container.clientWidth / container.clientHeight;
+      camera.updateProjectionMatrix();
+      renderer.setSize(container.clientWidth, container.clientHeight);
+    };
+
+    window.addEventListener('resize', handleResize);
+
+    // Clean up
+    return () => {
+      cancelAnimationFrame(animationId);
+      renderer.domElement.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('resize', handleResize);
+      model.add(beads, sticks);
+      scene.traverse(object => {
+        if (object instanceof THREE.Mesh) {
+          object.geometry.dispose();
+          (Array.isArray(object.material) ? object.material : [object.material]).forEach(m => m.dispose());
+        }
+      });
+      if (container.contains(renderer.domElement)) {
+        container.removeChild(renderer.domElement);
+      }
+      renderer.dispose();
+    };
+  }, [structure, renderStyle, colorMode, morphKey]);
+
+  return <div ref={containerRef} className={`${className} w-full h-full touch-none cursor-grab active:cursor-grabbing`}></div>;
+};
+
+export default StructureViewer;
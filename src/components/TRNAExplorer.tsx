@@ -0,0 +1,384 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { AMINO_ACIDS } from '@/lib/genetic-code';
+import {
+  ANTICODON_START,
+  buildTRNA,
+  CHARGING_STEPS,
+  readCodons,
+  readsFaithfully,
+  TRNA_DOMAINS,
+  TRNA_EXAMPLES,
+  tRNAName,
+  WOBBLE_BASES,
+  withAnticodon,
+  YEAST_PHE_TRNA,
+  type TRNADomainId,
+} from '@/lib/trna';
+
+interface TRNAExplorerProps {
+  className?: string;
+}
+
+type Point = [number, number];
+
+// Cloverleaf geometry in the 400 × 400 scene: spacing along a strand, and between the strands of a stem
+const CX = 200;
+const TOP = 86;
+const STEP = 14;
+const GAP = 24;
+const D_ROW = TOP + 6 * STEP + 26;
+const ANTICODON_ROW = D_ROW + GAP + 22;
+
+// Unpaired bases of a hairpin loop, spaced evenly on a circle through the closing pair `from` and `to`
+const loopPoints = (from: Point, to: Point, count: number, outward: Point): Point[] => {
+  const total = count + 2;
+  const step = (2 * Math.PI) / total;
+  const radius = GAP / (2 * Math.sin(Math.PI / total));
+  const offset = Math.sqrt(radius * radius - (GAP / 2) * (GAP / 2));
+  const center: Point = [(from[0] + to[0]) / 2 + outward[0] * offset, (from[1] + to[1]) / 2 + outward[1] * offset];
+  const start = Math.atan2(from[1] - center[1], from[0] - center[0]);
+  const end = Math.atan2(to[1] - center[1], to[0] - center[0]);
+  // Go round the far side of the circle, away from the closing pair
+  const direction = Math.sin(end - start) < 0 ? 1 : -1;
+  return Array.from({ length: count }, (_, i) => {
+    const angle = start + direction * (i + 1) * step;
+    return [center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)];
+  });
+};
+
+// The five-base variable loop hangs below the TΨC stem, offsets from the top of the anticodon stem
+const VARIABLE_LOOP: Point[] = [[26, 12], [41, 20], [56, 16], [70, 8], [65, -6]];
+
+// Position of every base of the 76-nt cloverleaf, by standard tRNA number
+const LAYOUT: Record<number, Point> = (() => {
+  const at: Record<number, Point> = {};
+  for (let p = 1; p <= 7; p++) at[p] = [CX - GAP / 2, TOP + (p - 1) * STEP];
+  for (let p = 66; p <= 72; p++) at[p] = [CX + GAP / 2, TOP + (72 - p) * STEP];
+  for (let p = 73; p <= 76; p++) at[p] = [CX + GAP / 2, TOP - (p - 72) * STEP];
+  at[8] = [CX - 22, D_ROW - 14];
+  at[9] = [CX - 36, D_ROW - 4];
+  for (let p = 10; p <= 13; p++) at[p] = [CX - 50 - (p - 10) * STEP, D_ROW];
+  for (let p = 22; p <= 25; p++) at[p] = [CX - 50 - (25 - p) * STEP, D_ROW + GAP];
+  loopPoints(at[13], at[22], 8, [-1, 0]).forEach((point, i) => (at[14 + i] = point));
+  at[26] = [CX - 28, D_ROW + GAP + 8];
+  for (let p = 27; p <= 31; p++) at[p] = [CX - GAP / 2, ANTICODON_ROW + (p - 27) * STEP];
+  for (let p = 39; p <= 43; p++) at[p] = [CX + GAP / 2, ANTICODON_ROW + (43 - p) * STEP];
+  loopPoints(at[31], at[39], 7, [0, 1]).forEach((point, i) => (at[32 + i] = point));
+  for (let p = 61; p <= 65; p++) at[p] = [CX + 50 + (65 - p) * STEP, D_ROW];
+  for (let p = 49; p <= 53; p++) at[p] = [CX + 50 + (p - 49) * STEP, D_ROW + GAP];
+  loopPoints(at[53], at[61], 7, [1, 0]).forEach((point, i) => (at[54 + i] = point));
+  VARIABLE_LOOP.forEach(([dx, dy], i) => (at[44 + i] = [CX + dx, ANTICODON_ROW + dy]));
+  return at;
+})();
+
+// Where the amino acid, ATP and the synthetase sit in each charging step
+const ACTIVE_SITE: Point = [CX + 70, 56];
+const ATTACHED: Point = [CX + GAP / 2, TOP - 4 * STEP - 18];
+const AMINO_ACID_AT: Record<string, Point> = {
+  free: [340, 36],
+  bound: ACTIVE_SITE,
+  activated: ACTIVE_SITE,
+  charged: ATTACHED,
+  released: ATTACHED,
+};
+
+const WOBBLE_PAIR_LABELS: Record<string, string> = {
+  GU: 'G·U wobble',
+  UG: 'U·G wobble',
+  IU: 'I·U',
+  IC: 'I·C',
+  IA: 'I·A',
+};
+
+// A 2D tRNA: the cloverleaf with its named loops, charging by its synthetase, and wobble at position 34
+const TRNAExplorer: React.FC<TRNAExplorerProps> = ({ className }) => {
+  const [exampleIndex, setExampleIndex] = useState(0);
+  const [wobbleBase, setWobbleBase] = useState(TRNA_EXAMPLES[0].anticodon[0]);
+  const [domain, setDomain] = useState<TRNADomainId | null>(null);
+  const [chargingIndex, setChargingIndex] = useState(0);
+
+  const example = TRNA_EXAMPLES[exampleIndex];
+  const anticodon = `${wobbleBase}${example.anticodon.slice(1)}`;
+  const nucleotides = buildTRNA(withAnticodon(YEAST_PHE_TRNA, anticodon));
+  const readings = readCodons(anticodon);
+  const faithful = readsFaithfully(anticodon, example.aminoAcid);
+  const aminoAcid = AMINO_ACIDS[example.aminoAcid];
+  const charging = CHARGING_STEPS[chargingIndex];
+  const selectedDomain = TRNA_DOMAINS.find(({ id }) => id === domain);
+  const synthetaseVisible = charging.id === 'bound' || charging.id === 'activated' || charging.id === 'charged';
+  const [aaX, aaY] = AMINO_ACID_AT[charging.id];
+
+  const selectExample = (index: number) => {
+    setExampleIndex(index);
+    setWobbleBase(TRNA_EXAMPLES[index].anticodon[0]);
+    setChargingIndex(0);
+  };
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        {TRNA_EXAMPLES.map((option, i) => (
+          <Button
+            key={option.anticodon}
+            size="sm"
+            variant={exampleIndex === i ? 'default' : 'outline'}
+            onClick={() => selectExample(i)}
+          >
+            {tRNAName(option.aminoAcid)} · {option.anticodon}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-[1fr_260px] gap-6 items-start">
+        <div className="rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background">
+          <svg viewBox="0 0 400 400" className="w-full h-auto" fontFamily="ui-monospace, monospace">
+            {/* Synthetase, gripping the acceptor stem */}
+            <motion.ellipse
+              cx={ACTIVE_SITE[0] - 10}
+              cy={ACTIVE_SITE[1] + 20}
+              rx={80}
+              ry={62}
+              fill="#F97316"
+              initial={false}
+              animate={{ opacity: synthetaseVisible ? 0.18 : 0 }}
+              transition={{ duration: 0.5 }}
+            />
+            {synthetaseVisible && (
+              <text x={ACTIVE_SITE[0] + 10} y={ACTIVE_SITE[1] + 70} fill="#FDBA74" fontSize={10} textAnchor="middle" fontFamily="ui-sans-serif, system-ui, sans-serif">
+                {aminoAcid.threeLetter}-tRNA synthetase
+              </text>
+            )}
+
+            {/* Backbone and base pairs */}
+            <polyline
+              points={nucleotides.map(({ position }) => LAYOUT[position].join(',')).join(' ')}
+              fill="none"
+              stroke="white"
+              strokeOpacity={0.25}
+              strokeWidth={1.5}
+            />
+            {nucleotides
+              .filter(({ position, partner }) => partner !== null && position < partner)
+              .map(({ position, partner }) => {
+                const [x1, y1] = LAYOUT[position];
+                const [x2, y2] = LAYOUT[partner as number];
+                const mid: Point = [(x1 + x2) / 2, (y1 + y2) / 2];
+                const shorten = (x: number, y: number): Point => [x + (mid[0] - x) * 0.55, y + (mid[1] - y) * 0.55];
+                const [ax, ay] = shorten(x1, y1);
+                const [bx, by] = shorten(x2, y2);
+                return <line key={position} x1={ax} y1={ay} x2={bx} y2={by} stroke="white" strokeOpacity={0.5} />;
+              })}
+
+            {nucleotides.map(nucleotide => {
+              const [x, y] = LAYOUT[nucleotide.position];
+              const color = TRNA_DOMAINS.find(({ id }) => id === nucleotide.domain)?.color ?? '#94A3B8';
+              const inAnticodon = nucleotide.position >= ANTICODON_START && nucleotide.position < ANTICODON_START + 3;
+              return (
+                <g
+                  key={nucleotide.position}
+                  opacity={domain === null || domain === nucleotide.domain ? 1 : 0.25}
+                  className="cursor-pointer"
+                  onClick={() => setDomain(current => (current === nucleotide.domain ? null : nucleotide.domain))}
+                >
+                  <circle
+                    cx={x}
+                    cy={y}
+                    r={6.5}
+                    fill={color}
+                    fillOpacity={inAnticodon ? 0.9 : 0.45}
+                    stroke={inAnticodon ? 'white' : 'none'}
+                    strokeWidth={1.5}
+                  />
+                  <text x={x} y={y} fill="white" fontSize={8} fontWeight="bold" textAnchor="middle" dominantBaseline="central">
+                    {nucleotide.base}
+                  </text>
+                  <title>{`${nucleotide.base}${nucleotide.position}`}</title>
+                </g>
+              );
+            })}
+
+            <g fill="white" fillOpacity={0.6} fontSize={10} fontFamily="ui-sans-serif, system-ui, sans-serif">
+              <text x={LAYOUT[1][0] - 12} y={LAYOUT[1][1] + 3} textAnchor="end">5′</text>
+              <text x={LAYOUT[76][0] + 12} y={LAYOUT[76][1] + 3}>3′</text>
+              <text x={LAYOUT[35][0]} y={LAYOUT[35][1] + 22} textAnchor="middle">
+                anticodon {anticodon} (34-36)
+              </text>
+            </g>
+
+            {/* Charging: amino acid, ATP and the products of the reaction */}
+            {charging.id !== 'free' && charging.id !== 'bound' && (
+              <line
+                x1={aaX}
+                y1={aaY}
+                x2={charging.id === 'activated' ? aaX + 22 : LAYOUT[76][0]}
+                y2={charging.id === 'activated' ? aaY + 16 : LAYOUT[76][1]}
+                stroke="#FACC15"
+                strokeWidth={2}
+              />
+            )}
+            <motion.g
+              initial={false}
+              animate={{ x: charging.id === 'free' ? 360 : ACTIVE_SITE[0] + 22, y: charging.id === 'free' ? 70 : ACTIVE_SITE[1] + 16, opacity: charging.id === 'free' || charging.id === 'bound' || charging.id === 'activated' ? 1 : 0 }}
+              transition={{ duration: 0.6, ease: 'easeInOut' }}
+            >
+              <rect x={-18} y={-8} width={36} height={16} rx={8} fill="#38BDF8" fillOpacity={0.35} stroke="#38BDF8" />
+              <text fill="white" fontSize={8} textAnchor="middle" dominantBaseline="central" fontFamily="ui-sans-serif, system-ui, sans-serif">
+                {charging.id === 'activated' ? 'AMP' : 'ATP'}
+              </text>
+            </motion.g>
+            <motion.text
+              x={ACTIVE_SITE[0] + 60}
+              y={ACTIVE_SITE[1] + 40}
+              fill="#38BDF8"
+              fontSize={9}
+              fontFamily="ui-sans-serif, system-ui, sans-serif"
+              initial={false}
+              animate={{ opacity: charging.id === 'activated' ? 1 : 0 }}
+            >
+              + PPi
+            </motion.text>
+            <motion.text
+              x={ACTIVE_SITE[0] + 60}
+              y={ACTIVE_SITE[1] + 40}
+              fill="#38BDF8"
+              fontSize={9}
+              fontFamily="ui-sans-serif, system-ui, sans-serif"
+              initial={false}
+              animate={{ opacity: charging.id === 'charged' ? 1 : 0 }}
+            >
+              + AMP
+            </motion.text>
+            <motion.g
+              initial={false}
+              animate={{ x: aaX, y: aaY }}
+              transition={{ duration: 0.6, ease: 'easeInOut' }}
+            >
+              <circle r={11} fill="#FACC15" fillOpacity={0.85} stroke="white" strokeWidth={1} />
+              <text fill="#0F172A" fontSize={8} fontWeight="bold" textAnchor="middle" dominantBaseline="central" fontFamily="ui-sans-serif, system-ui, sans-serif">
+                {aminoAcid.threeLetter}
+              </text>
+            </motion.g>
+          </svg>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {TRNA_DOMAINS.filter(({ id }) => id !== 'junction').map(option => (
+              <button
+                key={option.id}
+                onClick={() => setDomain(current => (current === option.id ? null : option.id))}
+                className={cn(
+                  'px-3 py-1 rounded-full text-white text-xs font-medium transition-colors border',
+                  domain === option.id ? 'bg-primary/50' : 'bg-primary/10 hover:bg-primary/30'
+                )}
+                style={{ borderColor: option.color }}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="p-4 rounded-lg border border-primary/10 bg-muted/20 text-sm text-white/80">
+            {selectedDomain ? (
+              <>
+                <p className="font-medium text-white mb-1">{selectedDomain.label}</p>
+                <p>{selectedDomain.role}</p>
+              </>
+            ) : (
+              <p>
+                Click a loop, or any base, to see what that part of the tRNA does. Base numbers follow yeast
+                tRNA-Phe, drawn here without its modified bases.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Charging */}
+      <div>
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <span className="text-white font-bold mr-2">Charging</span>
+          {CHARGING_STEPS.map((step, i) => (
+            <button
+              key={step.id}
+              onClick={() => setChargingIndex(i)}
+              className={cn(
+                'px-3 py-1 rounded-full text-white text-xs font-medium transition-colors',
+                i === chargingIndex ? 'bg-primary/50' : 'bg-primary/20 hover:bg-primary/40'
+              )}
+            >
+              {i + 1}. {step.label}
+            </button>
+          ))}
+          <Button
+            size="sm"
+            variant="outline"
+            className="ml-auto"
+            onClick={() => setChargingIndex(current => (current + 1) % CHARGING_STEPS.length)}
+          >
+            {chargingIndex === CHARGING_STEPS.length - 1 ? 'Start again' : 'Next step'}
+          </Button>
+        </div>
+        <p className="text-white/80 text-sm">{charging.description}</p>
+      </div>
+
+      {/* Wobble */}
+      <div>
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <span className="text-white font-bold mr-2">Base 34</span>
+          {WOBBLE_BASES.map(base => (
+            <Button
+              key={base}
+              size="sm"
+              variant={wobbleBase === base ? 'default' : 'outline'}
+              onClick={() => setWobbleBase(base)}
+              className="font-mono w-10"
+            >
+              {base}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-3 mb-3">
+          {readings.map(reading => {
+            const wrong = reading.aminoAcid !== example.aminoAcid;
+            return (
+              <div
+                key={reading.codon}
+                className={cn(
+                  'p-3 rounded-lg border font-mono text-center',
+                  wrong ? 'border-red-500/40 bg-red-500/10' : 'border-primary/20 bg-muted/20'
+                )}
+              >
+                <div className="text-xs text-muted-foreground">5′ codon 3′</div>
+                <div className="text-white text-lg tracking-[0.4em] pl-[0.4em]">{reading.codon}</div>
+                <div className="text-white/50 tracking-[0.4em] pl-[0.4em]">
+                  ||<span className={reading.pairing === 'wobble' ? 'text-secondary' : undefined}>{reading.pairing === 'wobble' ? '·' : '|'}</span>
+                </div>
+                <div className="text-white text-lg tracking-[0.4em] pl-[0.4em]">{anticodon.split('').reverse().join('')}</div>
+                <div className="text-xs text-muted-foreground">3′ anticodon 5′</div>
+                <div className={cn('text-xs mt-1 font-sans', wrong ? 'text-red-300' : 'text-white/80')}>
+                  {AMINO_ACIDS[reading.aminoAcid]?.threeLetter}
+                  {reading.pairing === 'wobble' && ` · ${WOBBLE_PAIR_LABELS[`${wobbleBase}${reading.codon[2]}`] ?? 'wobble'}`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <p className={cn('text-sm', faithful ? 'text-white/80' : 'text-red-300')}>
+          {faithful
+            ? wobbleBase === example.anticodon[0]
+              ? example.note
+              : `With ${wobbleBase} at position 34 this tRNA still reads only ${aminoAcid.name} codons.`
+            : `This ${tRNAName(example.aminoAcid)} would also read ${readings
+                .filter(reading => reading.aminoAcid !== example.aminoAcid)
+                .map(reading => `${reading.codon} (${AMINO_ACIDS[reading.aminoAcid]?.name})`)
+                .join(', ')}, putting ${aminoAcid.name} where it does not belong. Cells avoid this anticodon.`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TRNAExplorer;
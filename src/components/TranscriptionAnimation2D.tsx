@@ -1,73 +1,216 @@
-
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Play, Pause, Repeat, ArrowRight } from 'lucide-react';
+import type { CellType } from '@/hooks/use-cell-type';
+import { pairRNABase } from '@/lib/dna';
+import { findCistrons, type Cistron } from '@/lib/operons';
+import { findIntronSegments, processTranscript, type ProcessedTranscript } from '@/lib/rna-processing';
+import type { SequenceFeature } from '@/lib/sequence-files';
+import { TEMPLATE_PRESETS, TRANSCRIPTION_COLORS as colors, transcribe, type TranscriptionUnit } from '@/lib/transcription';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
 
 interface TranscriptionAnimation2DProps {
   isActive?: boolean;
   className?: string;
+  template?: string; // template strand written 3'→5'; defaults to the first preset with a terminator
+  features?: SequenceFeature[]; // annotations on the coding strand, aligned with `template`
+  onMRNAExport?: (mrna: string) => void; // mature mRNA, once it leaves the nucleus (or is released, in bacteria)
+  cellType?: CellType;
+  tableId?: number;  // NCBI translation table used to find the bacterial genes
+}
+
+type SceneColors = typeof colors;
+
+interface SequenceSceneProps {
+  colors: SceneColors;
+  unit: TranscriptionUnit;
+  isPlaying: boolean;
+  onProgress: (progress: number) => void;
+  onComplete: () => void;
+  features?: SequenceFeature[];
+}
+
+interface ProcessingSceneProps {
+  colors: SceneColors;
+  processed: ProcessedTranscript;
+  isPlaying: boolean;
+  onProgress: (progress: number) => void;
+  onComplete: () => void;
+}
+
+interface CistronSceneProps {
+  colors: SceneColors;
+  processed: ProcessedTranscript;
+  cistrons: Cistron[];
 }
 
+// U shares T's colour, as in the base pairing legend
+const baseColor = (base: string) => ({
+  A: colors.dna.baseA,
+  T: colors.dna.baseT,
+  U: colors.dna.baseT,
+  G: colors.dna.baseG,
+  C: colors.dna.baseC,
+}[base] ?? '#64748B');
+
+// Number of base pairs visible at once in the elongation window
+const WINDOW_SIZE = 12;
+
+const DEFAULT_TEMPLATE = TEMPLATE_PRESETS.find(preset => preset.id === 'bacterial-gene').template;
+
+const NO_FEATURES: SequenceFeature[] = [];
+
+// Advance one base at a time while playing, then report completion after a short hold
+const useBaseStepper = (
+  total: number,
+  isPlaying: boolean,
+  stepMs: number,
+  holdMs: number,
+  onProgress: (progress: number) => void,
+  onComplete: () => void
+) => {
+  const [position, setPosition] = useState(0);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = position >= total
+      ? setTimeout(onComplete, holdMs)
+      : setTimeout(() => setPosition(p => p + 1), stepMs);
+
+    return () => clearTimeout(timer);
+  }, [position, total, isPlaying, stepMs, holdMs, onComplete]);
+
+  useEffect(() => {
+    onProgress(total === 0 ? 1 : position / total);
+  }, [position, total, onProgress]);
+
+  return position;
+};
+
 const TranscriptionAnimation2D: React.FC<TranscriptionAnimation2DProps> = ({ 
   isActive = false,
-  className = ''
+  className = '',
+  template = DEFAULT_TEMPLATE,
+  features = NO_FEATURES,
+  onMRNAExport,
+  cellType = 'eukaryote',
+  tableId = STANDARD_TABLE_ID
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [currentScene, setCurrentScene] = useState(0);
   const [isPlaying, setIsPlaying] = useState(true);
   const [autoPlayEnabled, setAutoPlayEnabled] = useState(true);
+  const [templateInput, setTemplateInput] = useState(template);
+  const [sceneProgress, setSceneProgress] = useState(0);
   const sceneDuration = 5000; // 5 seconds per scene
   
-  // Colors based on the project's color palette
-  const colors = {
-    dna: {
-      backbone1: '#8B5CF6', // Primary color
-      backbone2: '#0EA5E9', // Secondary color
-      baseA: '#E11D48', // Red
-      baseT: '#22C55E', // Green
-      baseG: '#F59E0B', // Orange/Amber
-      baseC: '#3B82F6', // Blue
-    },
-    rnaPolymerase: '#10B981', // Accent green
-    mrna: '#FFA500', // Orange
-    nucleus: '#1E293B', // Dark blue-gray
-    cytoplasm: '#0F172A', // Darker blue-gray
-    label: '#FFFFFF', // White text
-    labelBackground: 'rgba(139, 92, 246, 0.2)', // Semi-transparent primary
-  };
+  const unit = useMemo(() => transcribe(templateInput), [templateInput]);
+  const preset = TEMPLATE_PRESETS.find(p => p.template === templateInput);
+  const presetId = preset?.id ?? 'custom';
+  // Annotations only line up while the template is the one they came with
+  const activeFeatures = templateInput === template ? features : NO_FEATURES;
+  
+  const isProkaryote = cellType === 'prokaryote';
+  
+  // Introns come with the preset, or from the exon/intron annotations of a loaded gene
+  const processed = useMemo(
+    () => processTranscript(unit, preset?.introns ?? findIntronSegments(activeFeatures), !isProkaryote),
+    [unit, preset, activeFeatures, isProkaryote]
+  );
+  
+  // Genes on the bacterial transcript, each started by its own ribosome
+  const cistrons = useMemo(
+    () => (isProkaryote ? findCistrons(processed.mature, tableId) : []),
+    [isProkaryote, processed.mature, tableId]
+  );
+  
+  // Follow the template passed in by the parent
+  useEffect(() => {
+    setTemplateInput(template);
+  }, [template]);
+  
+  // The two kinds of cell have different scenes, so start again from the first
+  useEffect(() => {
+    setCurrentScene(0);
+  }, [cellType]);
   
   // Define the scenes of our animation
   const scenes = [
     {
       id: 'dna-nucleus',
       title: 'DNA – the genetic blueprint',
-      description: 'Inside the nucleus of a cell lies DNA, the instruction manual for life.',
+      description: isProkaryote
+        ? 'Bacteria have no nucleus: their chromosome lies in the cytoplasm, in a region called the nucleoid.'
+        : 'Inside the nucleus of a cell lies DNA, the instruction manual for life.',
     },
     {
       id: 'initiation',
       title: 'Initiation – RNA Polymerase Binds',
-      description: 'Transcription begins when RNA polymerase binds to a specific region called the promoter.',
+      description: isProkaryote
+        ? 'A sigma factor guides RNA polymerase to the −35 and −10 boxes of the promoter.'
+        : 'Transcription begins when RNA polymerase binds to a specific region called the promoter.',
     },
     {
       id: 'elongation',
       title: 'Elongation – mRNA is Synthesized',
       description: 'As it moves, RNA polymerase builds a single strand of mRNA using the DNA template.',
+      driven: true,
     },
+    // With no nuclear envelope in the way, translation starts on the growing transcript
+    ...(isProkaryote ? [
+      {
+        id: 'coupled',
+        title: 'Coupled Transcription and Translation',
+        description: 'Ribosomes bind each Shine-Dalgarno site as soon as it is made and translate right behind RNA polymerase.',
+        driven: true,
+      },
+    ] : []),
     {
       id: 'termination',
       title: 'Termination – Transcription Ends',
-      description: 'When it hits the stop signal, transcription ends. The mRNA is ready to leave the nucleus.',
+      description: isProkaryote
+        ? 'When it hits the terminator, RNA polymerase lets go of the DNA and the finished mRNA.'
+        : 'When it hits the stop signal, transcription ends. The mRNA is ready to leave the nucleus.',
+      driven: true,
     },
-    {
+    // Eukaryotic transcripts are processed before they are exported
+    ...(processed.isEukaryotic ? [
+      {
+        id: 'capping',
+        title: "Processing – the 5' Cap",
+        description: "A 7-methylguanosine cap is added to the 5' end, joined by an unusual 5'–5' triphosphate bridge.",
+      },
+      {
+        id: 'splicing',
+        title: 'Processing – Splicing',
+        description: 'The spliceosome cuts each intron out as a lariat and joins the exons on either side.',
+        driven: true,
+      },
+      {
+        id: 'polyadenylation',
+        title: 'Processing – the Poly(A) Tail',
+        description: 'The transcript is cut downstream of AAUAAA and poly(A) polymerase adds a tail of adenines.',
+        driven: true,
+      },
+    ] : []),
+    isProkaryote ? {
+      id: 'polycistronic',
+      title: cistrons.length > 1 ? 'One mRNA, Several Proteins' : 'The Finished mRNA',
+      description: cistrons.length > 1
+        ? "An operon's genes share one polycistronic mRNA. Each has its own Shine-Dalgarno site and start codon, so each is translated separately."
+        : 'The mRNA needs no cap, splicing or tail: ribosomes are already reading it.',
+    } : {
       id: 'mrna-exit',
       title: 'mRNA Leaves the Nucleus',
       description: 'The mRNA exits the nucleus, heading to a ribosome to begin protein synthesis — the next step: translation.',
     },
   ];
+  const scene = scenes[Math.min(currentScene, scenes.length - 1)];
   
-  // Auto-advance scenes when playing
+  // Auto-advance scenes when playing; sequence-driven scenes advance themselves when they finish
   useEffect(() => {
-    if (!isActive || !isPlaying || !autoPlayEnabled) return;
+    if (!isActive || !isPlaying || !autoPlayEnabled || scene.driven) return;
     
     const timer = setTimeout(() => {
       if (currentScene < scenes.length - 1) {
@@ -79,7 +222,7 @@ const TranscriptionAnimation2D: React.FC<TranscriptionAnimation2DProps> = ({
     }, sceneDuration);
     
     return () => clearTimeout(timer);
-  }, [currentScene, isPlaying, isActive, autoPlayEnabled]);
+  }, [currentScene, isPlaying, isActive, autoPlayEnabled, scene.driven, scenes.length]);
   
   // Reset to first scene when component becomes active
   useEffect(() => {
@@ -91,6 +234,33 @@ const TranscriptionAnimation2D: React.FC<TranscriptionAnimation2DProps> = ({
     }
   }, [isActive]);
   
+  useEffect(() => {
+    setSceneProgress(0);
+  }, [currentScene, unit]);
+  
+  // The mature mRNA is what reaches the ribosome, sent once per transcript so replaying the loop
+  // does not overwrite a sequence chosen downstream since
+  const exportedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (scene.id !== 'mrna-exit' && scene.id !== 'polycistronic') return;
+    if (exportedRef.current === processed.mature) return;
+    exportedRef.current = processed.mature;
+    onMRNAExport?.(processed.mature);
+  }, [scene.id, processed.mature, onMRNAExport]);
+  
+  const handleSceneComplete = useCallback(() => {
+    if (!autoPlayEnabled) return;
+    setCurrentScene(scene => (scene < scenes.length - 1 ? scene + 1 : 0));
+  }, [autoPlayEnabled, scenes.length]);
+  
+  const handlePresetChange = (id: string) => {
+    const selected = TEMPLATE_PRESETS.find(p => p.id === id);
+    if (selected) {
+      setTemplateInput(selected.template);
+      setCurrentScene(0);
+    }
+  };
+  
   const handlePrevScene = () => {
     if (currentScene > 0) {
       setCurrentScene(currentScene - 1);
@@ -114,30 +284,103 @@ const TranscriptionAnimation2D: React.FC<TranscriptionAnimation2DProps> = ({
   
   // Render different scene content based on current scene
   const renderSceneContent = () => {
-    switch (currentScene) {
-      case 0:
-        return <DNAInNucleusScene colors={colors} />;
-      case 1:
-        return <InitiationScene colors={colors} />;
-      case 2:
-        return <ElongationScene colors={colors} />;
-      case 3:
-        return <TerminationScene colors={colors} />;
-      case 4:
-        return <MRNAExitScene colors={colors} />;
+    switch (scene.id) {
+      case 'dna-nucleus':
+        return <DNAInNucleusScene colors={colors} cellType={cellType} />;
+      case 'initiation':
+        return <InitiationScene colors={colors} unit={unit} />;
+      case 'elongation':
+        return (
+          <ElongationScene
+            colors={colors}
+            unit={unit}
+            isPlaying={isPlaying}
+            onProgress={setSceneProgress}
+            onComplete={handleSceneComplete}
+            features={activeFeatures}
+          />
+        );
+      case 'coupled':
+        return (
+          <CoupledScene
+            colors={colors}
+            processed={processed}
+            cistrons={cistrons}
+            isPlaying={isPlaying}
+            onProgress={setSceneProgress}
+            onComplete={handleSceneComplete}
+          />
+        );
+      case 'termination':
+        return (
+          <TerminationScene
+            colors={colors}
+            unit={unit}
+            isPlaying={isPlaying}
+            onProgress={setSceneProgress}
+            onComplete={handleSceneComplete}
+          />
+        );
+      case 'capping':
+        return <CappingScene colors={colors} processed={processed} />;
+      case 'splicing':
+        return (
+          <SplicingScene
+            colors={colors}
+            processed={processed}
+            isPlaying={isPlaying}
+            onProgress={setSceneProgress}
+            onComplete={handleSceneComplete}
+          />
+        );
+      case 'polyadenylation':
+        return (
+          <PolyadenylationScene
+            colors={colors}
+            processed={processed}
+            isPlaying={isPlaying}
+            onProgress={setSceneProgress}
+            onComplete={handleSceneComplete}
+          />
+        );
+      case 'mrna-exit':
+        return <MRNAExitScene colors={colors} processed={processed} />;
+      case 'polycistronic':
+        return <PolycistronicScene colors={colors} processed={processed} cistrons={cistrons} />;
       default:
         return null;
     }
   };
   
   return (
-    <div ref={containerRef} className={`relative ${className}`}>
+    <div ref={containerRef} className={`relative flex flex-col ${className}`}>
+      {/* Template input */}
+      <div className="flex flex-col sm:flex-row gap-2 mb-3">
+        <select
+          value={presetId}
+          onChange={(e) => handlePresetChange(e.target.value)}
+          className="bg-muted/30 border border-primary/20 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+        >
+          {TEMPLATE_PRESETS.map((preset) => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+          <option value="custom" disabled>Custom template</option>
+        </select>
+        <input
+          value={templateInput}
+          onChange={(e) => setTemplateInput(e.target.value.toUpperCase())}
+          placeholder="Template strand 3'→5', e.g. TACAAGCCGATT"
+          spellCheck={false}
+          className="flex-1 bg-muted/30 border border-primary/20 rounded-lg px-3 py-2 text-white text-sm font-mono placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-primary/50"
+        />
+      </div>
+      
       {/* Animation canvas */}
-      <div className="relative w-full h-full bg-gradient-to-b from-popover to-background rounded-lg overflow-hidden">
+      <div className="relative w-full flex-1 min-h-[20rem] bg-gradient-to-b from-popover to-background rounded-lg overflow-hidden">
         {/* Scene content */}
         <AnimatePresence mode="wait">
           <motion.div 
-            key={currentScene}
+            key={`${currentScene}-${unit.template}`}
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
@@ -148,6 +391,21 @@ const TranscriptionAnimation2D: React.FC<TranscriptionAnimation2DProps> = ({
           </motion.div>
         </AnimatePresence>
         
+        {/* Progress bar */}
+        <div className="absolute top-0 left-0 right-0 h-1 z-10 bg-muted/20">
+          {scene.driven ? (
+            <div className="h-full bg-primary/70 transition-all duration-200" style={{ width: `${sceneProgress * 100}%` }} />
+          ) : isPlaying && (
+            <motion.div 
+              className="h-full bg-primary/70"
+              initial={{ width: '0%' }}
+              animate={{ width: '100%' }}
+              transition={{ duration: sceneDuration / 1000, ease: 'linear', repeat: 0 }}
+              key={`progress-${currentScene}`}
+            />
+          )}
+        </div>
+        
         {/* Scene title and description */}
         <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-background/90 to-transparent">
           <motion.div 
@@ -160,7 +418,7 @@ const TranscriptionAnimation2D: React.FC<TranscriptionAnimation2DProps> = ({
             <div className="px-3 py-1 rounded-full bg-primary/20 text-white text-sm font-medium mr-2">
               {currentScene + 1}/{scenes.length}
             </div>
-            <h3 className="text-lg text-white font-bold">{scenes[currentScene].title}</h3>
+            <h3 className="text-lg text-white font-bold">{scene.title}</h3>
           </motion.div>
           <motion.p 
             key={`desc-${currentScene}`}
@@ -169,7 +427,7 @@ const TranscriptionAnimation2D: React.FC<TranscriptionAnimation2DProps> = ({
             transition={{ delay: 0.3 }}
             className="text-white/80 text-sm md:text-base"
           >
-            {scenes[currentScene].description}
+            {scene.description}
           </motion.p>
         </div>
       </div>
@@ -206,29 +464,24 @@ const TranscriptionAnimation2D: React.FC<TranscriptionAnimation2DProps> = ({
           <Repeat className="w-4 h-4" />
         </button>
       </div>
-      
-      {/* Progress bar */}
-      <div className="absolute top-0 left-0 right-0 h-1 bg-muted/20">
-        {isPlaying && (
-          <motion.div 
-            className="h-full bg-primary/70"
-            initial={{ width: '0%' }}
-            animate={{ width: '100%' }}
-            transition={{ duration: sceneDuration / 1000, ease: 'linear', repeat: 0 }}
-            key={`progress-${currentScene}`}
-          />
-        )}
-      </div>
     </div>
   );
 };
 
-// Scene 1: DNA in the Nucleus
-const DNAInNucleusScene: React.FC<{ colors: any }> = ({ colors }) => {
+// Scene 1: DNA in the Nucleus (or, in bacteria, the nucleoid)
+const DNAInNucleusScene: React.FC<{ colors: SceneColors; cellType: CellType }> = ({ colors, cellType }) => {
   return (
     <div className="w-full h-full flex items-center justify-center relative">
-      {/* Nucleus background */}
-      <div className="absolute inset-20 rounded-full bg-background border-4 border-primary/20 opacity-70" />
+      {cellType === 'prokaryote' ? (
+        <>
+          {/* Rod-shaped bacterial cell with the nucleoid loosely outlined */}
+          <div className="absolute inset-x-8 inset-y-16 rounded-full bg-background/60 border-4 border-secondary/30" />
+          <div className="absolute inset-x-1/4 inset-y-24 rounded-[40%] border-2 border-dashed border-primary/30" />
+        </>
+      ) : (
+        /* Nucleus background */
+        <div className="absolute inset-20 rounded-full bg-background border-4 border-primary/20 opacity-70" />
+      )}
       
       {/* DNA double helix */}
       <motion.div 
@@ -309,7 +562,7 @@ const DNAInNucleusScene: React.FC<{ colors: any }> = ({ colors }) => {
         animate={{ y: 0, opacity: 1 }}
         transition={{ delay: 0.5 }}
       >
-        Nucleus
+        {cellType === 'prokaryote' ? 'Bacterium – no nucleus' : 'Nucleus'}
       </motion.div>
       
       <motion.div 
@@ -318,14 +571,14 @@ const DNAInNucleusScene: React.FC<{ colors: any }> = ({ colors }) => {
         animate={{ y: 0, opacity: 1 }}
         transition={{ delay: 0.8 }}
       >
-        DNA Double Helix
+        {cellType === 'prokaryote' ? 'Circular chromosome in the nucleoid' : 'DNA Double Helix'}
       </motion.div>
     </div>
   );
 };
 
 // Scene 2: Initiation – RNA Polymerase Binds
-const InitiationScene: React.FC<{ colors: any }> = ({ colors }) => {
+const InitiationScene: React.FC<{ colors: SceneColors; unit: TranscriptionUnit }> = ({ colors, unit }) => {
   return (
     <div className="w-full h-full flex items-center justify-center relative">
       {/* DNA strand horizontal */}
@@ -357,8 +610,8 @@ const InitiationScene: React.FC<{ colors: any }> = ({ colors }) => {
           }}
           transition={{ duration: 2, repeat: Infinity }}
         >
-          <div className="absolute inset-0 flex items-center justify-center text-xs text-yellow-400 font-bold">
-            TATA
+          <div className="absolute inset-0 flex items-center justify-center text-[10px] text-yellow-400 font-bold font-mono">
+            {unit.promoter ? unit.promoter.sequence : '—'}
           </div>
         </motion.div>
         
@@ -383,155 +636,145 @@ const InitiationScene: React.FC<{ colors: any }> = ({ colors }) => {
         animate={{ y: 0, opacity: 1 }}
         transition={{ delay: 0.5 }}
       >
-        Promoter Region
+        {unit.promoter
+          ? `Promoter ${unit.promoter.sequence} – transcription starts at base ${unit.start + 1}`
+          : 'No promoter box found – transcription starts at base 1'}
       </motion.div>
     </div>
   );
 };
 
 // Scene 3: Elongation – mRNA is Synthesized
-const ElongationScene: React.FC<{ colors: any }> = ({ colors }) => {
-  const basePairs = [
-    { dna: 'A', rna: 'U', dnaColor: colors.dna.baseA, rnaColor: colors.dna.baseT },
-    { dna: 'T', rna: 'A', dnaColor: colors.dna.baseT, rnaColor: colors.dna.baseA },
-    { dna: 'G', rna: 'C', dnaColor: colors.dna.baseG, rnaColor: colors.dna.baseC },
-    { dna: 'C', rna: 'G', dnaColor: colors.dna.baseC, rnaColor: colors.dna.baseG },
-    { dna: 'A', rna: 'U', dnaColor: colors.dna.baseA, rnaColor: colors.dna.baseT },
-    { dna: 'T', rna: 'A', dnaColor: colors.dna.baseT, rnaColor: colors.dna.baseA },
-    { dna: 'G', rna: 'C', dnaColor: colors.dna.baseG, rnaColor: colors.dna.baseC },
-    { dna: 'C', rna: 'G', dnaColor: colors.dna.baseC, rnaColor: colors.dna.baseG },
-  ];
+const ElongationScene: React.FC<SequenceSceneProps> = ({ colors, unit, isPlaying, onProgress, onComplete, features = [] }) => {
+  // Everything between the start site and the terminator; the terminator itself is read in the next scene
+  const regionStart = unit.start;
+  const regionEnd = unit.terminator ? unit.terminator.start : unit.end;
+  const total = Math.max(0, regionEnd - regionStart);
+  const stepMs = Math.min(400, Math.max(60, 6000 / Math.max(total, 1)));
+  const position = useBaseStepper(total, isPlaying, stepMs, 1000, onProgress, onComplete);
+  
+  const windowStart = Math.max(0, Math.min(position - (WINDOW_SIZE - 3), total - WINDOW_SIZE));
+  const visible = [...Array(Math.min(WINDOW_SIZE, total))].map((_, i) => windowStart + i);
+  const columnLeft = (k: number) => `${6 + (k - windowStart) * (88 / WINDOW_SIZE)}%`;
+  
+  const transcript = unit.mrna.slice(0, position);
+  const shownTranscript = transcript.length > 36 ? `…${transcript.slice(-36)}` : transcript;
+  
+  // Annotated features the polymerase is currently inside
+  const codingPosition = regionStart + Math.min(position, total - 1);
+  const currentFeatures = features.filter(feature =>
+    feature.type !== 'source' && feature.start <= codingPosition && codingPosition < feature.end
+  );
   
   return (
     <div className="w-full h-full flex items-center justify-center relative">
-      {/* DNA strands */}
-      <div className="absolute left-0 right-0 h-24 top-1/3">
-        {/* DNA template strand (top) */}
-        <div className="absolute h-4 left-0 right-0 top-0 bg-primary/70 rounded-full" />
-        
-        {/* DNA coding strand (bottom) */}
-        <div className="absolute h-4 left-0 right-0 bottom-0 bg-secondary/70 rounded-full" />
-        
-        {/* RNA polymerase */}
-        <motion.div 
-          className="absolute w-20 h-20 bg-green-500/80 rounded-2xl z-20 flex items-center justify-center transform -translate-y-1/2"
-          style={{ boxShadow: '0 0 15px rgba(16, 185, 129, 0.5)' }}
-          initial={{ left: '20%' }}
-          animate={{ left: '70%' }}
-          transition={{ duration: 4, repeat: Infinity, repeatType: "loop" }}
-        >
-          <div className="text-white text-xs font-bold text-center">
-            RNA<br/>Polymerase
-          </div>
-        </motion.div>
-        
-        {/* mRNA strand growing behind the polymerase */}
-        <div className="absolute h-16 left-0 right-0 top-1/2 transform -translate-y-1/2">
-          {basePairs.map((pair, i) => (
-            <React.Fragment key={`pair-${i}`}>
-              {/* DNA base */}
-              <motion.div 
-                className="absolute top-0 w-6 h-6 rounded-full flex items-center justify-center text-white font-bold text-xs transform -translate-y-full"
-                style={{ 
-                  backgroundColor: pair.dnaColor,
-                  left: `${20 + i * 7}%`,
-                  opacity: 0
-                }}
-                animate={{ 
-                  opacity: 1,
-                  y: ['-50%', '-100%']
-                }}
-                transition={{ 
-                  duration: 2, 
-                  delay: i * 0.5, 
-                }}
-              >
-                {pair.dna}
-              </motion.div>
-              
-              {/* RNA base (complementary) */}
-              <motion.div 
-                className="absolute bottom-0 w-6 h-6 rounded-full flex items-center justify-center text-white font-bold text-xs transform translate-y-full"
-                style={{ 
-                  backgroundColor: pair.rnaColor,
-                  left: `${20 + i * 7}%`,
-                  opacity: 0
-                }}
-                animate={{ 
-                  opacity: 1,
-                  y: ['50%', '100%']
-                }}
-                transition={{ 
-                  duration: 2, 
-                  delay: i * 0.5 + 0.2, 
-                }}
-              >
-                {pair.rna}
-              </motion.div>
-              
-              {/* Base pair connection - removed during unwinding */}
-              <motion.div 
-                className="absolute top-1/2 w-1 h-8 bg-white/50 transform -translate-y-1/2"
-                style={{ 
-                  left: `${20 + i * 7 + 2.5}%`,
-                }}
-                animate={{ 
-                  opacity: [1, 0],
-                  height: ['8rem', '0rem']
-                }}
-                transition={{ 
-                  duration: 1, 
-                  delay: i * 0.5, 
-                }}
-              />
-              
-              {/* mRNA strand forming */}
-              <motion.div 
-                className="absolute w-6 h-6 rounded-full flex items-center justify-center"
-                style={{ 
-                  backgroundColor: colors.mrna,
-                  top: '75%',
-                  left: `${20 + i * 7}%`,
-                  opacity: 0
-                }}
-                animate={{ 
-                  opacity: 1,
-                  left: [`${20 + i * 7}%`, `${30 + i * 6}%`],
-                }}
-                transition={{ 
-                  duration: 2, 
-                  delay: i * 0.5 + 0.5, 
-                }}
-              >
-                <span className="text-white text-xs font-bold">{pair.rna}</span>
-              </motion.div>
-            </React.Fragment>
+      {total === 0 ? (
+        <div className="px-4 py-2 bg-red-500/20 rounded-full text-white text-sm font-medium">
+          Nothing to transcribe – enter a template strand above
+        </div>
+      ) : (
+        <div className="absolute left-0 right-0 h-40 top-[18%]">
+          {/* Strand direction labels */}
+          <div className="absolute left-1 top-0 text-white/60 text-xs font-mono">3'</div>
+          <div className="absolute right-1 top-0 text-white/60 text-xs font-mono">5'</div>
+          <div className="absolute left-1 bottom-0 text-white/60 text-xs font-mono">5'</div>
+          <div className="absolute right-1 bottom-0 text-white/60 text-xs font-mono">3'</div>
+          
+          {/* DNA template strand (top) */}
+          <div className="absolute h-2 left-4 right-4 top-2 bg-primary/70 rounded-full" />
+          
+          {/* DNA coding strand (bottom) */}
+          <div className="absolute h-2 left-4 right-4 bottom-2 bg-secondary/70 rounded-full" />
+          
+          {visible.map((k) => {
+            const templateBase = unit.template[regionStart + k];
+            const codingBase = unit.coding[regionStart + k];
+            const rnaBase = pairRNABase(templateBase);
+            const isTranscribed = k < position;
+            
+            return (
+              <React.Fragment key={`pair-${k}`}>
+                {/* Template base */}
+                <div 
+                  className="absolute top-5 w-6 h-6 rounded-full flex items-center justify-center text-white font-bold text-xs"
+                  style={{ backgroundColor: baseColor(templateBase), left: columnLeft(k) }}
+                >
+                  {templateBase}
+                </div>
+                
+                {/* Coding strand base */}
+                <div 
+                  className="absolute bottom-5 w-6 h-6 rounded-full flex items-center justify-center text-white font-bold text-xs"
+                  style={{ backgroundColor: baseColor(codingBase), left: columnLeft(k) }}
+                >
+                  {codingBase}
+                </div>
+                
+                {/* RNA base paired to the template */}
+                {isTranscribed && (
+                  <motion.div 
+                    className="absolute top-[3.25rem] w-6 h-6 rounded-full flex items-center justify-center text-white font-bold text-xs border-2"
+                    style={{ backgroundColor: baseColor(rnaBase), borderColor: colors.mrna, left: columnLeft(k) }}
+                    initial={{ opacity: 0, scale: 0.3 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    transition={{ duration: 0.3 }}
+                  >
+                    {rnaBase}
+                  </motion.div>
+                )}
+              </React.Fragment>
+            );
+          })}
+          
+          {/* 5' end of the transcript, when it is in view */}
+          {windowStart === 0 && position > 0 && (
+            <div className="absolute top-[3.5rem] left-1 text-xs font-mono" style={{ color: colors.mrna }}>5'</div>
+          )}
+          
+          {/* RNA polymerase */}
+          <motion.div 
+            className="absolute w-16 h-24 top-2 bg-green-500/40 border-2 border-green-400/70 rounded-2xl z-20 flex items-end justify-center pb-1"
+            style={{ boxShadow: '0 0 15px rgba(16, 185, 129, 0.5)' }}
+            animate={{ left: `calc(${columnLeft(Math.min(position, total - 1))} - 1.25rem)` }}
+            transition={{ duration: stepMs / 1000, ease: 'linear' }}
+          >
+            <div className="text-white text-[10px] font-bold text-center leading-tight">
+              RNA<br/>Pol
+            </div>
+          </motion.div>
+        </div>
+      )}
+      
+      {/* Transcript so far */}
+      {total > 0 && (
+        <div className="absolute top-[58%] left-1/2 transform -translate-x-1/2 px-3 py-1 bg-orange-500/20 rounded-full text-white text-xs font-mono whitespace-nowrap">
+          mRNA 5'-{shownTranscript}-3' · {position}/{total} nt
+        </div>
+      )}
+      
+      {currentFeatures.length > 0 && (
+        <div className="absolute top-[66%] left-1/2 transform -translate-x-1/2 flex gap-2">
+          {currentFeatures.map((feature, i) => (
+            <div key={`${feature.type}-${i}`} className="px-3 py-1 bg-primary/20 rounded-full text-white text-xs font-medium whitespace-nowrap">
+              {feature.type}{feature.label !== feature.type && ` · ${feature.label}`}
+            </div>
           ))}
         </div>
-      </div>
+      )}
       
       {/* Labels */}
       <motion.div 
-        className="absolute top-8 left-1/4 px-3 py-1 bg-primary/20 rounded-full text-white text-xs font-medium"
+        className="absolute top-2 left-1/4 px-3 py-1 bg-primary/20 rounded-full text-white text-xs font-medium"
         initial={{ opacity: 0, y: -10 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 0.5 }}
       >
-        Template DNA
-      </motion.div>
-      
-      <motion.div 
-        className="absolute bottom-8 right-1/4 px-3 py-1 bg-orange-500/20 rounded-full text-white text-xs font-medium"
-        initial={{ opacity: 0, y: 10 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 1 }}
-      >
-        Growing mRNA
+        Template DNA (3'→5')
       </motion.div>
       
       {/* Base pairing legend */}
       <motion.div 
-        className="absolute top-8 right-8 bg-popover/50 backdrop-blur-sm p-2 rounded-lg border border-primary/20"
+        className="absolute top-2 right-4 bg-popover/50 backdrop-blur-sm p-2 rounded-lg border border-primary/20"
         initial={{ opacity: 0, scale: 0.9 }}
         animate={{ opacity: 1, scale: 1 }}
         transition={{ delay: 1.5 }}
@@ -580,12 +823,51 @@ const ElongationScene: React.FC<{ colors: any }> = ({ colors }) => {
   );
 };
 
+// Role of each terminator base, used to colour the hairpin stems, loop and U-tract
+const terminatorRole = (unit: TranscriptionUnit, offset: number) => {
+  const { terminator } = unit;
+  if (!terminator) return 'plain';
+  if (terminator.type === 'poly-a-signal') return offset < 6 ? 'signal' : 'plain';
+  
+  const stem = terminator.stemLength;
+  const loop = terminator.loopLength;
+  if (offset < stem) return 'stem';
+  if (offset < stem + loop) return 'loop';
+  if (offset < stem * 2 + loop) return 'stem';
+  return 'tract';
+};
+
+const roleStyles: Record<string, string> = {
+  plain: 'border-transparent',
+  signal: 'border-red-400',
+  stem: 'border-yellow-400',
+  loop: 'border-white/40',
+  tract: 'border-green-400',
+};
+
 // Scene 4: Termination – Transcription Ends
-const TerminationScene: React.FC<{ colors: any }> = ({ colors }) => {
+const TerminationScene: React.FC<SequenceSceneProps> = ({ colors, unit, isPlaying, onProgress, onComplete }) => {
+  const { terminator } = unit;
+  
+  // Read through the terminator, or the last few bases when the polymerase simply runs off the end
+  const regionStart = terminator ? terminator.start : Math.max(unit.start, unit.end - WINDOW_SIZE);
+  const regionEnd = unit.end;
+  const total = regionEnd - regionStart;
+  const stepMs = Math.min(400, Math.max(80, 3000 / Math.max(total, 1)));
+  const position = useBaseStepper(total, isPlaying, stepMs, 2500, onProgress, onComplete);
+  const released = position >= total;
+  
+  const terminatorRna = unit.mrna.slice(regionStart - unit.start);
+  const label = !terminator
+    ? 'No terminator found – polymerase runs off the template'
+    : terminator.type === 'intrinsic'
+    ? `Hairpin (${terminator.stemLength} bp stem) + U-tract`
+    : 'AAUAAA poly(A) signal – cleaved downstream';
+  
   return (
     <div className="w-full h-full flex items-center justify-center relative">
       {/* DNA strands */}
-      <div className="absolute left-0 right-0 h-24 top-1/3">
+      <div className="absolute left-0 right-0 h-24 top-1/4">
         {/* DNA template strand (top) */}
         <div className="absolute h-4 left-0 right-0 top-0 bg-primary/70 rounded-full" />
         
@@ -607,91 +889,594 @@ const TerminationScene: React.FC<{ colors: any }> = ({ colors }) => {
           <div className="text-xs text-red-400 font-bold">STOP</div>
         </motion.div>
         
-        {/* RNA polymerase */}
-        <motion.div 
-          className="absolute w-20 h-20 bg-green-500/80 rounded-2xl z-20 flex items-center justify-center transform -translate-y-1/2"
-          style={{ boxShadow: '0 0 15px rgba(16, 185, 129, 0.5)' }}
-          initial={{ left: '50%' }}
-          animate={{ left: '75%' }}
-          transition={{ duration: 2, type: "spring" }}
-        >
-          <div className="text-white text-xs font-bold text-center">
-            RNA<br/>Polymerase
-          </div>
-        </motion.div>
+        {/* RNA polymerase reads toward the end of the terminator */}
+        {!released && (
+          <motion.div 
+            className="absolute w-20 h-20 bg-green-500/80 rounded-2xl z-20 flex items-center justify-center transform -translate-y-1/2"
+            style={{ boxShadow: '0 0 15px rgba(16, 185, 129, 0.5)' }}
+            initial={{ left: '50%' }}
+            animate={{ left: `${50 + 25 * (total === 0 ? 1 : position / total)}%` }}
+            transition={{ duration: stepMs / 1000, ease: 'linear' }}
+          >
+            <div className="text-white text-xs font-bold text-center">
+              RNA<br/>Polymerase
+            </div>
+          </motion.div>
+        )}
         
         {/* Completed mRNA */}
-        <motion.div 
-          className="absolute h-6 bg-orange-400/80 rounded-full"
-          style={{ top: '80%' }}
-          initial={{ width: '35%', left: '15%' }}
-          animate={{ 
-            width: '60%',
-          }}
-          transition={{ duration: 1 }}
-        >
-          <div className="absolute right-2 top-1/2 transform -translate-y-1/2 text-white text-xs font-medium">mRNA</div>
-        </motion.div>
+        {!released && (
+          <motion.div 
+            className="absolute h-6 bg-orange-400/80 rounded-full"
+            style={{ top: '80%' }}
+            initial={{ width: '35%', left: '15%' }}
+            animate={{ 
+              width: `${35 + 25 * (total === 0 ? 1 : position / total)}%`,
+            }}
+            transition={{ duration: stepMs / 1000 }}
+          >
+            <div className="absolute right-2 top-1/2 transform -translate-y-1/2 text-white text-xs font-medium">mRNA</div>
+          </motion.div>
+        )}
         
         {/* Polymerase detaching animation */}
-        <motion.div
-          className="absolute w-20 h-20 bg-green-500/60 rounded-2xl z-10 flex items-center justify-center transform -translate-y-1/2"
-          style={{ boxShadow: '0 0 10px rgba(16, 185, 129, 0.4)' }}
-          initial={{ left: '75%', opacity: 0 }}
-          animate={{ 
-            left: '85%', 
-            opacity: [0, 0.8, 0],
-            top: ['50%', '70%'] 
-          }}
-          transition={{ 
-            duration: 2,
-            delay: 2,
-            times: [0, 0.5, 1], 
-          }}
-        />
+        {released && (
+          <motion.div
+            className="absolute w-20 h-20 bg-green-500/60 rounded-2xl z-10 flex items-center justify-center transform -translate-y-1/2"
+            style={{ boxShadow: '0 0 10px rgba(16, 185, 129, 0.4)' }}
+            initial={{ left: '75%', opacity: 0.8 }}
+            animate={{ 
+              left: '85%', 
+              opacity: [0.8, 0.6, 0],
+              top: ['50%', '70%'] 
+            }}
+            transition={{ 
+              duration: 2,
+              times: [0, 0.5, 1], 
+            }}
+          />
+        )}
         
         {/* mRNA floating away animation */}
-        <motion.div 
-          className="absolute h-6 bg-orange-400/60 rounded-full"
-          style={{ top: '80%' }}
-          initial={{ width: '60%', left: '15%', opacity: 0 }}
-          animate={{ 
-            opacity: [0, 0.8, 0],
-            top: ['80%', '120%'],
-            left: ['15%', '5%']
-          }}
-          transition={{ 
-            duration: 3,
-            delay: 3,
-            times: [0, 0.5, 1], 
-          }}
-        />
+        {released && (
+          <motion.div 
+            className="absolute h-6 bg-orange-400/60 rounded-full flex items-center"
+            style={{ top: '80%' }}
+            initial={{ width: '60%', left: '15%', opacity: 0.8 }}
+            animate={{ 
+              opacity: [0.8, 0.8, 0],
+              top: ['80%', '120%'],
+              left: ['15%', '5%']
+            }}
+            transition={{ 
+              duration: 2.5,
+              times: [0, 0.5, 1], 
+            }}
+          >
+            <div className="ml-2 text-white text-xs font-medium">mRNA · {unit.mrna.length} nt</div>
+          </motion.div>
+        )}
+      </div>
+      
+      {/* Terminator sequence as it is transcribed */}
+      <div className="absolute top-[62%] left-1/2 transform -translate-x-1/2 flex flex-wrap justify-center gap-0.5 max-w-[90%]">
+        {terminatorRna.split('').map((base, i) => (
+          <div 
+            key={`term-${i}`}
+            className={`w-5 h-5 rounded-full flex items-center justify-center text-white font-bold text-[10px] border-2 ${roleStyles[terminatorRole(unit, i)]}`}
+            style={{ backgroundColor: baseColor(base), opacity: i < position ? 1 : 0.25 }}
+          >
+            {base}
+          </div>
+        ))}
       </div>
       
       {/* Labels */}
       <motion.div 
-        className="absolute top-8 right-1/4 px-3 py-1 bg-red-500/20 rounded-full text-white text-xs font-medium"
+        className="absolute top-6 right-1/4 px-3 py-1 bg-red-500/20 rounded-full text-white text-xs font-medium"
         initial={{ opacity: 0, y: -10 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 0.5 }}
       >
-        Termination Signal
+        {label}
       </motion.div>
       
+      {released && (
+        <motion.div 
+          className="absolute top-6 left-8 px-3 py-1 bg-orange-500/20 rounded-full text-white text-xs font-medium"
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          style={{ color: colors.label }}
+        >
+          Completed mRNA released
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+// Processing 1: 5' cap
+const CappingScene: React.FC<{ colors: SceneColors; processed: ProcessedTranscript }> = ({ colors, processed }) => {
+  const leader = processed.preMrna.slice(0, 14).split('');
+  
+  return (
+    <div className="w-full h-full flex items-center justify-center relative">
+      {/* Nucleus background */}
+      <div className="absolute inset-10 rounded-3xl bg-background/50 border-4 border-primary/20" />
+      
+      {/* 5' end of the pre-mRNA */}
+      <div className="absolute top-[38%] left-[28%] flex items-center gap-1">
+        <div className="text-xs font-mono mr-1" style={{ color: colors.mrna }}>5'</div>
+        {leader.map((base, i) => (
+          <div 
+            key={`lead-${i}`}
+            className="w-6 h-6 rounded-full flex items-center justify-center text-white font-bold text-xs border-2"
+            style={{ backgroundColor: baseColor(base), borderColor: colors.mrna }}
+          >
+            {base}
+          </div>
+        ))}
+        <div className="text-white/50 text-xs font-mono ml-1">…</div>
+      </div>
+      
+      {/* Triphosphate bridge, drawn once the cap arrives */}
+      <motion.div 
+        className="absolute top-[38%] left-[22%] h-6 flex items-center text-[10px] font-mono text-yellow-300"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 2.2 }}
+      >
+        5'–ppp–5'
+      </motion.div>
+      
+      {/* 7-methylguanosine */}
       <motion.div 
-        className="absolute bottom-8 left-1/4 px-3 py-1 bg-orange-500/20 rounded-full text-white text-xs font-medium"
+        className="absolute w-10 h-10 rounded-full flex items-center justify-center text-white font-bold text-xs border-2 border-yellow-300"
+        style={{ backgroundColor: colors.dna.baseG, top: 'calc(38% - 0.5rem)' }}
+        initial={{ left: '5%', opacity: 0, y: -60 }}
+        animate={{ left: '15%', opacity: 1, y: 0 }}
+        transition={{ delay: 0.8, duration: 1.4, ease: 'easeOut' }}
+      >
+        m7G
+      </motion.div>
+      
+      {/* Capping enzymes */}
+      <motion.div 
+        className="absolute w-20 h-14 rounded-2xl bg-purple-500/40 border-2 border-purple-400/70 flex items-center justify-center text-white text-[10px] font-bold text-center leading-tight"
+        style={{ top: 'calc(38% - 3.5rem)', left: '16%' }}
+        initial={{ opacity: 0, scale: 0.6 }}
+        animate={{ opacity: [0, 1, 1, 0], scale: [0.6, 1, 1, 0.8] }}
+        transition={{ duration: 3, times: [0, 0.2, 0.75, 1] }}
+      >
+        Capping<br/>enzymes
+      </motion.div>
+      
+      {/* Labels */}
+      <motion.div 
+        className="absolute top-[58%] left-1/2 transform -translate-x-1/2 px-3 py-1 bg-yellow-500/20 rounded-full text-white text-xs font-medium whitespace-nowrap"
         initial={{ opacity: 0, y: 10 }}
         animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 1 }}
+        transition={{ delay: 2.6 }}
+      >
+        Cap protects the 5' end and helps the ribosome find the mRNA
+      </motion.div>
+      
+      <motion.div 
+        className="absolute top-6 left-1/2 transform -translate-x-1/2 px-3 py-1 bg-primary/20 rounded-full text-white text-xs font-medium"
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+      >
+        Pre-mRNA · {processed.preMrna.length} nt
+      </motion.div>
+    </div>
+  );
+};
+
+// Processing 2: splicing, one intron at a time
+const SplicingScene: React.FC<ProcessingSceneProps> = ({ colors, processed, isPlaying, onProgress, onComplete }) => {
+  const { exons, introns, preMrna } = processed;
+  const removed = useBaseStepper(introns.length, isPlaying, 3000, 1500, onProgress, onComplete);
+  const current = introns[removed];
+  
+  // Exons and introns in transcript order; introns drop out as they are spliced
+  const segments = [
+    ...exons.map(exon => ({ ...exon, kind: 'exon' as const, index: exons.indexOf(exon) })),
+    ...introns.map((intron, index) => ({ ...intron, kind: 'intron' as const, index })),
+  ].sort((a, b) => a.start - b.start);
+  
+  const junction = current && {
+    upstream: preMrna.slice(Math.max(0, current.start - 4), current.start),
+    donor: current.sequence.slice(0, 6),
+    branch: preMrna.slice(current.branchPoint - 3, current.branchPoint + 2),
+    acceptor: current.sequence.slice(-6),
+    downstream: preMrna.slice(current.end, current.end + 4),
+  };
+  
+  return (
+    <div className="w-full h-full flex items-center justify-center relative">
+      {introns.length === 0 ? (
+        <div className="px-4 py-2 bg-primary/20 rounded-full text-white text-sm font-medium">
+          No introns annotated – the exons are already continuous
+        </div>
+      ) : (
+        <>
+          {/* Transcript drawn to scale */}
+          <div className="absolute top-[30%] left-[6%] right-[6%] h-10 flex items-center">
+            <div className="text-xs font-mono mr-2" style={{ color: colors.mrna }}>5'</div>
+            <AnimatePresence>
+              {segments
+                .filter(segment => segment.kind === 'exon' || segment.index >= removed)
+                .map(segment => (
+                  <motion.div
+                    key={`${segment.kind}-${segment.start}`}
+                    layout
+                    className={`h-8 flex items-center justify-center text-[10px] font-bold overflow-hidden ${
+                      segment.kind === 'exon'
+                        ? 'bg-orange-400/80 text-white rounded-md'
+                        : 'bg-slate-500/50 text-white/70 rounded-sm'
+                    } ${segment.kind === 'intron' && segment.index === removed ? 'ring-2 ring-purple-400' : ''}`}
+                    style={{ flexGrow: segment.end - segment.start, flexBasis: 0 }}
+                    exit={{ opacity: 0, y: 60, scaleX: 0.3, borderRadius: '9999px' }}
+                    transition={{ duration: 0.8 }}
+                  >
+                    {segment.kind === 'exon' ? `Exon ${segment.index + 1}` : 'Intron'}
+                  </motion.div>
+                ))}
+            </AnimatePresence>
+            <div className="text-xs font-mono ml-2" style={{ color: colors.mrna }}>3'</div>
+          </div>
+          
+          {/* Spliceosome on the intron being removed */}
+          {current && (
+            <motion.div 
+              key={`spliceosome-${removed}`}
+              className="absolute top-[18%] left-1/2 transform -translate-x-1/2 px-3 py-1 rounded-full bg-purple-500/40 border-2 border-purple-400/70 text-white text-xs font-bold"
+              initial={{ opacity: 0, scale: 0.7 }}
+              animate={{ opacity: 1, scale: [1, 1.06, 1] }}
+              transition={{ duration: 1.5, repeat: Infinity }}
+            >
+              Spliceosome · U1 · U2 · U4/U6 · U5
+            </motion.div>
+          )}
+          
+          {/* Splice sites of the current intron */}
+          {junction && (
+            <div className="absolute top-[52%] left-1/2 transform -translate-x-1/2 text-center space-y-2">
+              <div className="font-mono text-xs text-white whitespace-nowrap">
+                <span className="text-orange-300">{junction.upstream}</span>
+                <span className="text-white/40">|</span>
+                <span className="text-purple-300 font-bold">{junction.donor}</span>
+                <span className="text-white/40">…</span>
+                <span className="text-yellow-300">{junction.branch}</span>
+                <span className="text-white/40">…</span>
+                <span className="text-purple-300 font-bold">{junction.acceptor}</span>
+                <span className="text-white/40">|</span>
+                <span className="text-orange-300">{junction.downstream}</span>
+              </div>
+              <div className="text-white/70 text-[11px] whitespace-nowrap">
+                5' splice site {current.donor} · branch-point A · 3' splice site {current.acceptor} · {current.sequence.length} nt intron
+              </div>
+              {!current.canonical && (
+                <div className="px-3 py-1 bg-red-500/20 rounded-full text-white text-xs font-medium inline-block">
+                  Non-canonical boundaries – most introns run GU…AG
+                </div>
+              )}
+            </div>
+          )}
+          
+          {!current && (
+            <motion.div 
+              className="absolute top-[55%] left-1/2 transform -translate-x-1/2 px-3 py-1 bg-orange-500/20 rounded-full text-white text-xs font-medium whitespace-nowrap"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+            >
+              Spliced mRNA · {processed.spliced.length} nt · {introns.length} intron{introns.length === 1 ? '' : 's'} removed as lariats
+            </motion.div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+// Processing 3: cleavage and polyadenylation
+const PolyadenylationScene: React.FC<ProcessingSceneProps> = ({ colors, processed, isPlaying, onProgress, onComplete }) => {
+  const { spliced, polyATail } = processed;
+  const added = useBaseStepper(polyATail.length, isPlaying, 150, 1500, onProgress, onComplete);
+  
+  // The 3' end of the spliced transcript, with the AAUAAA signal picked out
+  const tail = spliced.slice(-24);
+  const tailOffset = spliced.length - tail.length;
+  const signal = spliced.lastIndexOf('AAUAAA') - tailOffset;
+  
+  return (
+    <div className="w-full h-full flex items-center justify-center relative">
+      {polyATail.length === 0 ? (
+        <div className="px-4 py-2 bg-primary/20 rounded-full text-white text-sm font-medium">
+          No AAUAAA signal – this transcript gets no poly(A) tail
+        </div>
+      ) : (
+        <>
+          <div className="absolute top-[30%] left-1/2 transform -translate-x-1/2 flex flex-wrap justify-center items-center gap-0.5 max-w-[92%]">
+            <div className="text-white/50 text-xs font-mono mr-1">…</div>
+            {tail.split('').map((base, i) => (
+              <div 
+                key={`end-${i}`}
+                className={`w-5 h-5 rounded-full flex items-center justify-center text-white font-bold text-[10px] border-2 ${
+                  signal >= 0 && i >= signal && i < signal + 6 ? 'border-red-400' : 'border-transparent'
+                }`}
+                style={{ backgroundColor: baseColor(base) }}
+              >
+                {base}
+              </div>
+            ))}
+            
+            {/* Cleavage site */}
+            <div className="w-0.5 h-7 bg-yellow-300 mx-1" />
+            
+            {polyATail.slice(0, added).split('').map((base, i) => (
+              <motion.div 
+                key={`tail-${i}`}
+                className="w-5 h-5 rounded-full flex items-center justify-center text-white font-bold text-[10px] border-2"
+                style={{ backgroundColor: baseColor(base), borderColor: colors.mrna }}
+                initial={{ opacity: 0, scale: 0.3 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ duration: 0.2 }}
+              >
+                {base}
+              </motion.div>
+            ))}
+            <div className="text-xs font-mono ml-1" style={{ color: colors.mrna }}>3'</div>
+          </div>
+          
+          {/* Poly(A) polymerase */}
+          <motion.div 
+            className="absolute top-[14%] right-[12%] px-3 py-1 rounded-2xl bg-green-500/40 border-2 border-green-400/70 text-white text-xs font-bold"
+            animate={{ y: [0, -4, 0] }}
+            transition={{ duration: 0.6, repeat: Infinity }}
+          >
+            Poly(A) polymerase
+          </motion.div>
+          
+          {/* Labels */}
+          <div className="absolute top-[55%] left-1/2 transform -translate-x-1/2 flex flex-wrap justify-center gap-2">
+            <div className="px-3 py-1 bg-red-500/20 rounded-full text-white text-xs font-medium">AAUAAA signal</div>
+            <div className="px-3 py-1 bg-yellow-500/20 rounded-full text-white text-xs font-medium">Cleavage site</div>
+            <div className="px-3 py-1 bg-orange-500/20 rounded-full text-white text-xs font-medium">
+              Poly(A) tail · {added} A
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Ribosomes read a little slower than RNA polymerase transcribes, so they trail behind it
+const RIBOSOME_SPEED = 0.8;
+
+const cistronColors = ['bg-sky-400/80', 'bg-pink-400/80', 'bg-lime-400/80', 'bg-violet-400/80'];
+
+// Left edge of a transcript position, as a percentage of the scene width
+const transcriptLeft = (position: number, length: number) => 6 + (position / Math.max(length, 1)) * 88;
+
+// Bacteria only: ribosomes translate the mRNA while RNA polymerase is still making it
+const CoupledScene: React.FC<ProcessingSceneProps & { cistrons: Cistron[] }> = ({
+  colors,
+  processed,
+  cistrons,
+  isPlaying,
+  onProgress,
+  onComplete
+}) => {
+  const length = processed.mature.length;
+  
+  // A ribosome loads once its start codon has been made, then keeps its own pace to the stop codon
+  const loadAt = (cistron: Cistron) => cistron.start + 3;
+  const total = Math.ceil(Math.max(length, ...cistrons.map(c => loadAt(c) + (c.end - c.start) / RIBOSOME_SPEED)));
+  const stepMs = Math.min(150, Math.max(25, 8000 / Math.max(total, 1)));
+  const time = useBaseStepper(total, isPlaying, stepMs, 1500, onProgress, onComplete);
+  const made = Math.min(time, length);
+  
+  const ribosomeAt = (cistron: Cistron) =>
+    Math.min(cistron.end, cistron.start + (time - loadAt(cistron)) * RIBOSOME_SPEED);
+  const left = (position: number) => `${transcriptLeft(position, length)}%`;
+  const width = (from: number, to: number) => `${(Math.max(0, to - from) / Math.max(length, 1)) * 88}%`;
+  
+  return (
+    <div className="w-full h-full flex items-center justify-center relative">
+      {/* DNA */}
+      <div className="absolute top-[20%] left-[6%] right-[6%] h-4">
+        <div className="absolute top-0 h-1.5 w-full bg-primary/70 rounded-full" />
+        <div className="absolute bottom-0 h-1.5 w-full bg-secondary/70 rounded-full" />
+      </div>
+      
+      {/* RNA polymerase, released at the terminator */}
+      <motion.div 
+        className="absolute top-[14%] w-14 h-10 -ml-7 bg-green-500/40 border-2 border-green-400/70 rounded-2xl z-20 flex items-center justify-center text-white text-[10px] font-bold"
+        style={{ boxShadow: '0 0 15px rgba(16, 185, 129, 0.5)' }}
+        animate={{ left: left(made), opacity: made >= length ? 0 : 1 }}
+        transition={{ duration: stepMs / 1000, ease: 'linear' }}
+      >
+        RNA Pol
+      </motion.div>
+      
+      {/* Nascent mRNA with its genes and Shine-Dalgarno sites */}
+      <div className="absolute top-[40%] left-0 right-0 h-3">
+        <div 
+          className="absolute h-full rounded-full" 
+          style={{ left: left(0), width: width(0, made), backgroundColor: colors.mrna }} 
+        />
+        {cistrons.map((cistron, i) => (
+          <div 
+            key={`band-${cistron.start}`}
+            className={`absolute h-full rounded-sm ${cistronColors[i % cistronColors.length]}`}
+            style={{ left: left(cistron.start), width: width(cistron.start, Math.min(cistron.end, made)) }}
+          />
+        ))}
+        {cistrons.map(({ shineDalgarno }) => shineDalgarno && made >= shineDalgarno.end && (
+          <div 
+            key={`sd-${shineDalgarno.start}`}
+            className="absolute -top-5 text-[9px] font-bold text-yellow-300 -translate-x-1/2"
+            style={{ left: left((shineDalgarno.start + shineDalgarno.end) / 2) }}
+          >
+            SD
+          </div>
+        ))}
+        <div className="absolute top-0 text-xs font-mono" style={{ left: '2%', color: colors.mrna }}>5'</div>
+      </div>
+      
+      {/* One ribosome per gene, each with its growing chain */}
+      {cistrons.map((cistron, i) => {
+        if (time < loadAt(cistron)) return null;
+        const position = ribosomeAt(cistron);
+        const done = position >= cistron.end;
+        const residues = Math.min(cistron.protein.length, Math.floor((position - cistron.start) / 3) + 1);
+        return (
+          <motion.div
+            key={`ribosome-${cistron.start}`}
+            className="absolute top-[36%] w-12 h-8 -ml-6 rounded-xl bg-yellow-500/70 z-10 flex items-center justify-center text-white text-[10px] font-bold"
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ left: left(position), opacity: done ? 0 : 1, scale: 1 }}
+            transition={{ duration: stepMs / 1000, ease: 'linear' }}
+          >
+            70S
+            <div className={`absolute -bottom-6 px-2 rounded-full text-[10px] font-mono whitespace-nowrap ${cistronColors[i % cistronColors.length]}`}>
+              {residues} aa
+            </div>
+          </motion.div>
+        );
+      })}
+      
+      {/* Genes and what has come off them so far */}
+      <div className="absolute top-[60%] left-1/2 transform -translate-x-1/2 flex flex-col items-center gap-1">
+        {cistrons.length === 0 ? (
+          <div className="px-3 py-1 bg-red-500/20 rounded-full text-white text-xs font-medium whitespace-nowrap">
+            No complete reading frame on this transcript – ribosomes have nothing to translate
+          </div>
+        ) : cistrons.map((cistron, i) => {
+          const done = time >= loadAt(cistron) && ribosomeAt(cistron) >= cistron.end;
+          return (
+            <div key={`gene-${cistron.start}`} className="flex items-center gap-2 text-xs text-white/80 whitespace-nowrap">
+              <span className={`w-3 h-3 rounded-full ${cistronColors[i % cistronColors.length]}`} />
+              Gene {i + 1} ·{' '}
+              {done
+                ? <span className="font-mono text-white">{cistron.protein.length > 24 ? `${cistron.protein.slice(0, 24)}…` : cistron.protein}</span>
+                : time >= loadAt(cistron) ? 'translating' : made >= (cistron.shineDalgarno?.start ?? cistron.start) ? 'ribosome binding' : 'not yet transcribed'}
+            </div>
+          );
+        })}
+      </div>
+      
+      <motion.div 
+        className="absolute top-2 left-1/2 transform -translate-x-1/2 px-3 py-1 bg-primary/20 rounded-full text-white text-xs font-medium whitespace-nowrap"
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
       >
-        Completed mRNA
+        {made < length ? `Transcribing · ${made}/${length} nt` : 'Transcript released – ribosomes finishing'}
       </motion.div>
     </div>
   );
 };
 
+// Bacteria only: the finished mRNA, one start per gene
+const PolycistronicScene: React.FC<CistronSceneProps> = ({ colors, processed, cistrons }) => {
+  const length = processed.mature.length;
+  
+  // Untranslated stretches between the genes, in transcript order
+  const segments: { start: number; end: number; cistron: number }[] = [];
+  let cursor = 0;
+  cistrons.forEach((cistron, i) => {
+    if (cistron.start > cursor) segments.push({ start: cursor, end: cistron.start, cistron: -1 });
+    segments.push({ start: cistron.start, end: cistron.end, cistron: i });
+    cursor = cistron.end;
+  });
+  if (length > cursor) segments.push({ start: cursor, end: length, cistron: -1 });
+  
+  return (
+    <div className="w-full h-full flex items-center justify-center relative">
+      <motion.div 
+        className="absolute top-6 left-1/2 transform -translate-x-1/2 px-3 py-1 bg-primary/20 rounded-full text-white text-xs font-medium whitespace-nowrap"
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        {cistrons.length > 1 ? `Polycistronic mRNA · ${cistrons.length} genes` : 'mRNA'} · {length} nt · no nucleus to leave
+      </motion.div>
+      
+      {/* The transcript drawn to scale */}
+      <div className="absolute top-[26%] left-[6%] right-[6%] h-10 flex items-center">
+        <div className="text-xs font-mono mr-2" style={{ color: colors.mrna }}>5'</div>
+        {segments.map(segment => (
+          <motion.div
+            key={`segment-${segment.start}`}
+            className={`flex items-center justify-center text-[10px] font-bold overflow-hidden text-white ${
+              segment.cistron === -1 ? 'h-2 rounded-sm' : `h-8 rounded-md ${cistronColors[segment.cistron % cistronColors.length]}`
+            }`}
+            style={{ 
+              flexGrow: segment.end - segment.start, 
+              flexBasis: 0, 
+              backgroundColor: segment.cistron === -1 ? colors.mrna : undefined 
+            }}
+            initial={{ opacity: 0, scaleY: 0.3 }}
+            animate={{ opacity: 1, scaleY: 1 }}
+            transition={{ delay: 0.2 + Math.max(segment.cistron, 0) * 0.3 }}
+          >
+            {segment.cistron !== -1 && `Gene ${segment.cistron + 1}`}
+          </motion.div>
+        ))}
+        <div className="text-xs font-mono ml-2" style={{ color: colors.mrna }}>3'</div>
+      </div>
+      
+      {/* Shine-Dalgarno sites over the transcript */}
+      <div className="absolute top-[20%] left-0 right-0">
+        {cistrons.map(({ shineDalgarno }) => shineDalgarno && (
+          <div 
+            key={`sd-${shineDalgarno.start}`}
+            className="absolute text-[9px] font-bold text-yellow-300 -translate-x-1/2"
+            style={{ left: `${transcriptLeft((shineDalgarno.start + shineDalgarno.end) / 2, length)}%` }}
+          >
+            SD
+          </div>
+        ))}
+      </div>
+      
+      {/* What each start site produces */}
+      <div className="absolute top-[46%] left-[6%] right-[6%] grid gap-2" style={{ gridTemplateColumns: `repeat(${Math.max(cistrons.length, 1)}, minmax(0, 1fr))` }}>
+        {cistrons.length === 0 ? (
+          <div className="px-3 py-1 bg-red-500/20 rounded-full text-white text-xs font-medium text-center">
+            No complete reading frame on this transcript
+          </div>
+        ) : cistrons.map((cistron, i) => (
+          <motion.div
+            key={`protein-${cistron.start}`}
+            className="bg-popover/50 backdrop-blur-sm p-2 rounded-lg border border-primary/20 text-[11px] text-white/80 space-y-1 min-w-0"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.8 + i * 0.3 }}
+          >
+            <div className="flex items-center gap-2 text-white font-bold">
+              <span className={`w-3 h-3 rounded-full ${cistronColors[i % cistronColors.length]}`} />
+              Gene {i + 1} · {cistron.protein.length} aa
+            </div>
+            <div className="font-mono truncate">
+              {processed.mature.slice(cistron.shineDalgarno?.start ?? cistron.start, cistron.start + 3)}
+            </div>
+            <div>
+              {cistron.shineDalgarno
+                ? `SD ${cistron.shineDalgarno.sequence}, ${cistron.shineDalgarno.spacing} nt before AUG`
+                : 'No Shine-Dalgarno site – weak initiation'}
+            </div>
+            <div className="font-mono text-white truncate">{cistron.protein}</div>
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 // Scene 5: mRNA Leaves the Nucleus
-const MRNAExitScene: React.FC<{ colors: any }> = ({ colors }) => {
+const MRNAExitScene: React.FC<{ colors: SceneColors; processed: ProcessedTranscript }> = ({ colors, processed }) => {
   return (
     <div className="w-full h-full flex items-center justify-center relative">
       {/* Cell nucleus */}
@@ -726,7 +1511,9 @@ const MRNAExitScene: React.FC<{ colors: any }> = ({ colors }) => {
           ease: "easeInOut",
         }}
       >
-        <div className="ml-2 text-white text-xs font-medium">mRNA</div>
+        <div className="ml-2 text-white text-xs font-medium whitespace-nowrap">
+          {processed.isEukaryotic ? 'Mature mRNA' : 'mRNA'} · {processed.mature.length} nt
+        </div>
       </motion.div>
       
       {/* Ribosome waiting in cytoplasm */}
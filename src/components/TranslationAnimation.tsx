@@ -1,366 +1,821 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import * as THREE from 'three';
+import { getCodonUsageTable } from '@/lib/codon-usage-tables';
+import {
+  decodeMRNA,
+  GENETIC_CODE,
+  getAnticodon,
+  normalizeRNA,
+  type AminoAcidProperty,
+  type DecodedCodon,
+} from '@/lib/genetic-code';
+import { getTranslationTable, STANDARD_TABLE_ID } from '@/lib/translation-tables';
+import { type CellType } from '@/hooks/use-cell-type';
 
 interface TranslationAnimationProps {
   className?: string;
   isActive?: boolean;
+  sequence?: string; // mRNA (or coding-strand DNA) read 5'→3'
+  tableId?: number;  // NCBI translation table
+  polysome?: boolean; // several ribosomes translating the same mRNA at once
+  ribosomeSpacing?: number; // codons the last ribosome must clear before the next one loads
+  cellType?: CellType; // sets the codon usage that decides which codons are slow
 }
 
-const TranslationAnimation: React.FC<TranslationAnimationProps> = ({ 
+interface PolysomeSceneProps {
+  mrna: string;
+  decoded: DecodedCodon[];
+  isActive: boolean;
+  spacing: number;
+  cellType: CellType;
+}
+
+interface PolysomeStats {
+  loaded: number;
+  made: number;
+  collisions: number;
+}
+
+// 5' UTR, then a short open reading frame. The standard code stops at the in-frame UGA;
+// codes that read UGA as Trp (e.g. vertebrate mitochondria) carry on to the UAA
+const DEFAULT_MRNA = 'GCCACCAUGGCUAGCAAAGGAGAAGAACUUUGAUUCACUGGAGUUUAAGC';
+
+// Kozak sequence and the first 59 codons of EGFP, long enough for a row of ribosomes
+const DEFAULT_POLYSOME_MRNA =
+  'GCCACCAUGGUGAGCAAGGGCGAGGAGCUGUUCACCGGGGUGGUGCCCAUCCUGGUCGAGCUGGACGGCGACGUAAACGGCCACAAGUUCAGCGUGUCCGGCGAGGGCGA' +
+  'GGGCGAUGCCACCUACGGCAAGCUGACCCUGAAGUUCAUCUGCACCACCGGCAAGCUGCCCGUGCCCUGGCCCACCUAAGC';
+
+// Longest stretch of mRNA we lay out in the scene
+const MAX_NUCLEOTIDES = 240;
+const NUCLEOTIDE_SPACING = 1.2;
+
+// A ribosome covers about 30 nt of mRNA, so neighbours can never sit closer than 10 codons
+export const RIBOSOME_FOOTPRINT = 10;
+const POLYSOME_NUCLEOTIDE_SPACING = 0.5;
+const MAX_POLYSOME_RIBOSOMES = 12;
+
+// Time on an average codon; rare codons wait longer for their scarce tRNA
+const BASE_DWELL = 0.4;
+const MAX_DWELL_FACTOR = 4;
+
+const baseColors: Record<string, number> = {
+  A: 0xE11D48,
+  U: 0x22C55E,
+  G: 0xF59E0B,
+  C: 0x3B82F6,
+  N: 0x64748B, // any IUPAC ambiguity code
+};
+
+const propertyColors: Record<AminoAcidProperty, number> = {
+  hydrophobic: 0xF97316,
+  hydrophilic: 0x06B6D4,
+  positive: 0xEC4899,
+  negative: 0x84CC16,
+  special: 0xA855F7,
+};
+
+// Draw a text label onto a canvas and wrap it in a sprite that always faces the camera
+const createLabelSprite = (text: string, color = '#FFFFFF', scale = 1) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 128;
+  const context = canvas.getContext('2d');
+  if (context) {
+    context.font = 'bold 72px "Space Grotesk", sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillStyle = color;
+    context.fillText(text, canvas.width / 2, canvas.height / 2);
+  }
+
+  const sprite = new THREE.Sprite(
+    new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), transparent: true })
+  );
+  sprite.scale.set(3 * scale, 1.5 * scale, 1);
+  return sprite;
+};
+
+// Several ribosomes on one mRNA: each loads at the start codon once the one before has moved on,
+// grows its own chain, and stalls when it catches up with the ribosome ahead
+const PolysomeScene: React.FC<PolysomeSceneProps> = ({ mrna, decoded, isActive, spacing, cellType }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [stats, setStats] = useState<PolysomeStats>({ loaded: 0, made: 0, collisions: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !isActive) return;
+
+    setStats({ loaded: 0, made: 0, collisions: 0 });
+
+    // Codon dwell times follow the host's codon usage, with some randomness
+    const usage = getCodonUsageTable(cellType === 'prokaryote' ? 'e-coli' : 'human')?.perThousand ?? {};
+    const averageUsage = 1000 / 61;
+    const dwellFor = ({ codon, isStop }: DecodedCodon) => {
+      if (isStop) return BASE_DWELL * 2;
+      const factor = THREE.MathUtils.clamp(averageUsage / (usage[codon] ?? averageUsage), 0.5, MAX_DWELL_FACTOR);
+      return BASE_DWELL * factor * (0.6 + Math.random() * 0.8);
+    };
+
+    // Set up scene
+    const scene = new THREE.Scene();
+
+    const width = mrna.length * POLYSOME_NUCLEOTIDE_SPACING;
+    const codonX = (step: number) => (decoded[step].position + 1) * POLYSOME_NUCLEOTIDE_SPACING - width / 2;
+    const chainHeight = 10 + decoded.length * 0.55;
+
+    // Set up camera to fit the whole mRNA and the longest chain
+    const camera = new THREE.PerspectiveCamera(50, container.clientWidth / container.clientHeight, 0.1, 2000);
+    const fitCamera = () => {
+      const halfFov = Math.tan(THREE.MathUtils.degToRad(25));
+      camera.aspect = container.clientWidth / container.clientHeight;
+      camera.position.z = Math.max(30, (width / 2 + 8) / (halfFov * camera.aspect), (chainHeight / 2 + 8) / halfFov);
+      camera.position.y = chainHeight / 2 - 6;
+      camera.updateProjectionMatrix();
+    };
+    fitCamera();
+
+    // Set up renderer
+    const renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true });
+    renderer.setSize(container.clientWidth, container.clientHeight);
+    renderer.setClearColor(0x000000, 0);
+    container.appendChild(renderer.domElement);
+
+    // Add lights
+    scene.add(new THREE.AmbientLight(0x404040, 1.5));
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 1.5);
+    directionalLight.position.set(1, 1, 1);
+    scene.add(directionalLight);
+
+    // mRNA strand, one bead per base
+    const nucleotideGeometry = new THREE.SphereGeometry(0.3, 8, 8);
+    const nucleotideMaterials: Record<string, THREE.MeshPhongMaterial> = Object.fromEntries(
+      Object.entries(baseColors).map(([base, color]) => [base, new THREE.MeshPhongMaterial({ color })])
+    );
+    for (let i = 0; i < mrna.length; i++) {
+      const nucleotide = new THREE.Mesh(nucleotideGeometry, nucleotideMaterials[mrna[i]] ?? nucleotideMaterials.N);
+      nucleotide.position.set(i * POLYSOME_NUCLEOTIDE_SPACING - width / 2, 0, 0);
+      scene.add(nucleotide);
+    }
+
+    const fivePrime = createLabelSprite("5'", '#FFFFFF', 1.2);
+    fivePrime.position.set(-width / 2 - 3, 0, 0);
+    const threePrime = createLabelSprite("3'", '#FFFFFF', 1.2);
+    threePrime.position.set(width / 2 + 3, 0, 0);
+    scene.add(fivePrime, threePrime);
+
+    if (decoded.length > 0) {
+      const start = createLabelSprite('AUG', '#4ADE80', 1.2);
+      start.position.set(codonX(0), -3, 0);
+      scene.add(start);
+      const last = decoded[decoded.length - 1];
+      if (last.isStop) {
+        const stop = createLabelSprite(last.codon, '#F87171', 1.2);
+        stop.position.set(codonX(decoded.length - 1), -3, 0);
+        scene.add(stop);
+      }
+    }
+
+    // Shared ribosome geometry, as wide as its footprint on the mRNA
+    const footprintWidth = RIBOSOME_FOOTPRINT * 3 * POLYSOME_NUCLEOTIDE_SPACING;
+    const smallSubunitGeometry = new THREE.SphereGeometry(footprintWidth / 2, 24, 24);
+    smallSubunitGeometry.scale(1, 0.4, 0.8);
+    const largeSubunitGeometry = new THREE.SphereGeometry(footprintWidth / 2 * 0.9, 24, 24);
+    largeSubunitGeometry.scale(1, 0.6, 0.8);
+    const largeSubunitMaterial = new THREE.MeshPhongMaterial({ color: 0x8B5CF6, transparent: true, opacity: 0.45 });
+    const aminoAcidGeometry = new THREE.SphereGeometry(0.45, 10, 10);
+
+    // The A site sits near the leading (3') edge of the ribosome
+    const aSiteOffset = footprintWidth / 2 - 3 * POLYSOME_NUCLEOTIDE_SPACING;
+    const exitHeight = 6.5;
+
+    interface Ribosome {
+      group: THREE.Group;
+      smallSubunitMaterial: THREE.MeshPhongMaterial;
+      chain: THREE.Group;
+      step: number;
+      dwell: number;
+      incorporated: boolean;
+      waiting: boolean;
+      finished: boolean;
+    }
+
+    let ribosomes: Ribosome[] = []; // on the mRNA, leading ribosome first
+    const released: { chain: THREE.Group; age: number }[] = [];
+    let loaded = 0;
+    let made = 0;
+    let collisions = 0;
+
+    const loadRibosome = () => {
+      const group = new THREE.Group();
+      const smallSubunitMaterial = new THREE.MeshPhongMaterial({
+        color: 0x0EA5E9,
+        emissive: 0xF43F5E,
+        emissiveIntensity: 0,
+        transparent: true,
+        opacity: 0.45
+      });
+      const smallSubunit = new THREE.Mesh(smallSubunitGeometry, smallSubunitMaterial);
+      smallSubunit.position.y = -0.8;
+      const largeSubunit = new THREE.Mesh(largeSubunitGeometry, largeSubunitMaterial);
+      largeSubunit.position.y = 3.2;
+      const chain = new THREE.Group();
+      group.add(smallSubunit, largeSubunit, chain);
+
+      // Small subunit and initiator tRNA assemble on the start codon
+      group.position.set(codonX(0) - aSiteOffset, 0, 0);
+      scene.add(group);
+      ribosomes.push({
+        group,
+        smallSubunitMaterial,
+        chain,
+        step: 0,
+        dwell: dwellFor(decoded[0]),
+        incorporated: false,
+        waiting: false,
+        finished: false,
+      });
+      loaded++;
+    };
+
+    // Lay a chain out from the exit tunnel, newest residue first, coiling as it grows
+    const arrangeChain = (chain: THREE.Group) => {
+      const count = chain.children.length;
+      chain.children.forEach((residue, i) => {
+        const age = count - 1 - i;
+        const spread = Math.min(1.5, age * 0.2);
+        residue.position.set(Math.sin(age * 0.8) * spread, exitHeight + age * 0.55, Math.cos(age * 0.8) * spread);
+      });
+    };
+
+    const updateStats = () => setStats({ loaded, made, collisions });
+
+    // Animation loop
+    let time = 0;
+    let animationId = 0;
+    const animate = () => {
+      animationId = requestAnimationFrame(animate);
+      time += 0.01;
+
+      if (decoded.length > 0) {
+        // A new ribosome loads once the last one has cleared `spacing` codons
+        const trailing = ribosomes[ribosomes.length - 1];
+        if (ribosomes.length < MAX_POLYSOME_RIBOSOMES && (!trailing || trailing.step >= spacing)) {
+          loadRibosome();
+          updateStats();
+        }
+
+        ribosomes.forEach((ribosome, index) => {
+          ribosome.dwell -= 0.01;
+          if (ribosome.dwell > 0) return;
+
+          // Peptide bond: the residue for this codon joins this ribosome's chain
+          const codon = decoded[ribosome.step];
+          if (!ribosome.incorporated && !codon.isStop) {
+            const color = propertyColors[codon.aminoAcid.property];
+            ribosome.chain.add(new THREE.Mesh(
+              aminoAcidGeometry,
+              new THREE.MeshPhongMaterial({ color, emissive: color, emissiveIntensity: 0.2 })
+            ));
+            arrangeChain(ribosome.chain);
+          }
+          ribosome.incorporated = true;
+
+          // Stop codon (or the end of the mRNA): the chain and the ribosome are released
+          if (codon.isStop || ribosome.step === decoded.length - 1) {
+            ribosome.group.remove(ribosome.chain);
+            ribosome.chain.position.copy(ribosome.group.position);
+            scene.add(ribosome.chain);
+            released.push({ chain: ribosome.chain, age: 0 });
+            scene.remove(ribosome.group);
+            ribosome.finished = true;
+            made++;
+            updateStats();
+            return;
+          }
+
+          // Collision: the ribosome ahead still covers the next codon, so wait
+          const ahead = ribosomes[index - 1];
+          const blocked = ahead !== undefined && !ahead.finished && ahead.step - (ribosome.step + 1) < RIBOSOME_FOOTPRINT;
+          if (blocked !== ribosome.waiting) {
+            ribosome.waiting = blocked;
+            ribosome.smallSubunitMaterial.emissiveIntensity = blocked ? 0.8 : 0;
+            if (blocked) {
+              collisions++;
+              updateStats();
+            }
+          }
+          if (blocked) return;
+
+          // Translocation to the next codon
+          ribosome.step++;
+          ribosome.dwell = dwellFor(decoded[ribosome.step]);
+          ribosome.incorporated = false;
+        });
+
+        ribosomes = ribosomes.filter(ribosome => !ribosome.finished);
+
+        // Slide each ribosome smoothly to its codon
+        ribosomes.forEach(ribosome => {
+          ribosome.group.position.x = THREE.MathUtils.lerp(
+            ribosome.group.position.x,
+            codonX(ribosome.step) - aSiteOffset,
+            0.1
+          );
+        });
+
+        // Released proteins drift away, fold up and fade out
+        for (let i = released.length - 1; i >= 0; i--) {
+          const protein = released[i];
+          protein.age += 0.01;
+          protein.chain.position.y += 0.05;
+          protein.chain.children.forEach((residue, j) => {
+            const angle = j * 0.5 + time;
+            residue.position.lerp(
+              new THREE.Vector3(Math.cos(angle) * 2, exitHeight + Math.sin(angle) * 2, Math.sin(angle * 0.5)),
+              0.03
+            );
+            ((residue as THREE.Mesh).material as THREE.MeshPhongMaterial).transparent = true;
+            ((residue as THREE.Mesh).material as THREE.MeshPhongMaterial).opacity = Math.max(0, 1 - protein.age / 3);
+          });
+          if (protein.age > 3) {
+            scene.remove(protein.chain);
+            released.splice(i, 1);
+          }
+        }
+      }
+
+      renderer.render(scene, camera);
+    };
+
+    animationId = requestAnimationFrame(animate);
+
+    // Handle window resize
+    const handleResize = () => {
+      fitCamera();
+      renderer.setSize(container.clientWidth, container.clientHeight);
+    };
+
+    window.addEventListener('resize', handleResize);
+
+    // Clean up
+    return () => {
+      cancelAnimationFrame(animationId);
+      if (container.contains(renderer.domElement)) {
+        container.removeChild(renderer.domElement);
+      }
+      renderer.dispose();
+      window.removeEventListener('resize', handleResize);
+    };
+  }, [isActive, mrna, decoded, spacing, cellType]);
+
+  return (
+    <div className="relative w-full h-full">
+      <div ref={containerRef} className="absolute inset-0"></div>
+
+      <div className="absolute top-3 left-3 right-3 flex flex-wrap gap-2 pointer-events-none">
+        {decoded.length === 0 ? (
+          <div className="px-3 py-1 rounded-full bg-red-500/20 text-white text-xs font-medium">
+            No AUG start codon in this mRNA
+          </div>
+        ) : (
+          <>
+            <div className="px-3 py-1 rounded-full bg-primary/20 text-white text-sm font-medium">
+              Ribosomes loaded: {stats.loaded}
+            </div>
+            <div className="px-3 py-1 rounded-full bg-green-500/20 text-white text-sm font-medium">
+              Proteins made: {stats.made}
+            </div>
+            <div className="px-3 py-1 rounded-full bg-red-500/20 text-white text-sm font-medium">
+              Collisions: {stats.collisions}
+            </div>
+          </>
+        )}
+      </div>
+      <div className="absolute bottom-3 left-3 right-3 text-white/60 text-xs pointer-events-none">
+        One mRNA, many proteins. Each ribosome carries its own growing chain; a ribosome glows red while it
+        waits for the one ahead to move off its next codon.
+      </div>
+    </div>
+  );
+};
+
+const TranslationAnimation: React.FC<TranslationAnimationProps> = ({
   className = '',
-  isActive = false
+  isActive = false,
+  sequence,
+  tableId = STANDARD_TABLE_ID,
+  polysome = false,
+  ribosomeSpacing = 15,
+  cellType = 'eukaryote'
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  
+  const [currentStep, setCurrentStep] = useState(-1);
+
+  const mrna = useMemo(
+    () => normalizeRNA(sequence ?? (polysome ? DEFAULT_POLYSOME_MRNA : DEFAULT_MRNA)).slice(0, MAX_NUCLEOTIDES),
+    [sequence, polysome]
+  );
+  const decoded = useMemo(() => decodeMRNA(mrna, tableId), [mrna, tableId]);
+
   useEffect(() => {
-    if (!containerRef.current || !isActive) return;
-    
+    const container = containerRef.current;
+    if (!container || !isActive || polysome) return;
+
+    setCurrentStep(-1);
+
     // Set up scene
     const scene = new THREE.Scene();
-    
+
     // Set up camera
     const camera = new THREE.PerspectiveCamera(
-      50, 
-      containerRef.current.clientWidth / containerRef.current.clientHeight, 
-      0.1, 
+      50,
+      container.clientWidth / container.clientHeight,
+      0.1,
       1000
     );
     camera.position.z = 30;
-    
+
     // Set up renderer
-    const renderer = new THREE.WebGLRenderer({ 
+    const renderer = new THREE.WebGLRenderer({
       alpha: true,
-      antialias: true 
+      antialias: true
     });
-    renderer.setSize(containerRef.current.clientWidth, containerRef.current.clientHeight);
+    renderer.setSize(container.clientWidth, container.clientHeight);
     renderer.setClearColor(0x000000, 0);
-    containerRef.current.appendChild(renderer.domElement);
-    
+    container.appendChild(renderer.domElement);
+
     // Add lights
     const ambientLight = new THREE.AmbientLight(0x404040, 1);
     scene.add(ambientLight);
-    
+
     const directionalLight = new THREE.DirectionalLight(0xffffff, 1.5);
     directionalLight.position.set(1, 1, 1);
     scene.add(directionalLight);
-    
+
     const purpleLight = new THREE.PointLight(0x8B5CF6, 3, 50);
     purpleLight.position.set(-10, 10, 10);
     scene.add(purpleLight);
-    
+
     const blueLight = new THREE.PointLight(0x0EA5E9, 3, 50);
     blueLight.position.set(10, -10, 10);
     scene.add(blueLight);
-    
+
     // Create ribosome
     const ribosome = new THREE.Group();
-    
+
     // Large subunit
     const largeSubunitGeometry = new THREE.SphereGeometry(5, 32, 32);
     largeSubunitGeometry.scale(1, 0.7, 1);
     const largeSubunit = new THREE.Mesh(
       largeSubunitGeometry,
-      new THREE.MeshPhongMaterial({ 
+      new THREE.MeshPhongMaterial({
         color: 0x8B5CF6,
         transparent: true,
-        opacity: 0.8
+        opacity: 0.35
       })
     );
     largeSubunit.position.y = 2;
     ribosome.add(largeSubunit);
-    
+
     // Small subunit
     const smallSubunitGeometry = new THREE.SphereGeometry(4, 32, 32);
     smallSubunitGeometry.scale(1, 0.5, 1);
     const smallSubunit = new THREE.Mesh(
       smallSubunitGeometry,
-      new THREE.MeshPhongMaterial({ 
+      new THREE.MeshPhongMaterial({
         color: 0x0EA5E9,
         transparent: true,
-        opacity: 0.8
+        opacity: 0.35
       })
     );
-    smallSubunit.position.y = -1;
+    smallSubunit.position.y = -7;
     ribosome.add(smallSubunit);
-    
+
     scene.add(ribosome);
-    
+
     // Create mRNA
     const mRNAGroup = new THREE.Group();
     scene.add(mRNAGroup);
-    
-    const mRNALength = 30;
-    const mRNASegments = [];
-    
+
     // mRNA backbone
     const mRNAGeometry = new THREE.SphereGeometry(0.4, 8, 8);
-    const mRNAMaterial = new THREE.MeshPhongMaterial({ 
+    const mRNAMaterial = new THREE.MeshPhongMaterial({
       color: 0xFFA500,
       emissive: 0xFFA500,
       emissiveIntensity: 0.2
     });
-    
-    // mRNA nucleotides (simplified as colored spheres)
+
+    // mRNA nucleotides, coloured by their actual base
     const nucleotideGeometry = new THREE.SphereGeometry(0.6, 12, 12);
-    const nucleotideMaterials = [
-      new THREE.MeshPhongMaterial({ color: 0xE11D48 }), // A
-      new THREE.MeshPhongMaterial({ color: 0x22C55E }), // U
-      new THREE.MeshPhongMaterial({ color: 0xF59E0B }), // G
-      new THREE.MeshPhongMaterial({ color: 0x3B82F6 })  // C
-    ];
-    
+    const nucleotideMaterials: Record<string, THREE.MeshPhongMaterial> = Object.fromEntries(
+      Object.entries(baseColors).map(([base, color]) => [base, new THREE.MeshPhongMaterial({ color })])
+    );
+
     // Create mRNA strand
-    for (let i = 0; i < mRNALength; i++) {
-      const x = (i - mRNALength / 2) * 1.2;
-      
+    for (let i = 0; i < mrna.length; i++) {
+      const x = i * NUCLEOTIDE_SPACING;
+
       // Backbone
       const mRNASegment = new THREE.Mesh(mRNAGeometry, mRNAMaterial);
-      mRNASegment.position.set(x, -5, 0);
+      mRNASegment.position.set(x, -6.5, 0);
       mRNAGroup.add(mRNASegment);
-      mRNASegments.push(mRNASegment);
-      
+
       // Nucleotide
-      const baseIndex = Math.floor(Math.random() * 4);
-      const nucleotide = new THREE.Mesh(nucleotideGeometry, nucleotideMaterials[baseIndex]);
-      nucleotide.position.set(x, -6, 0);
+      const nucleotide = new THREE.Mesh(nucleotideGeometry, nucleotideMaterials[mrna[i]] ?? nucleotideMaterials.N);
+      nucleotide.position.set(x, -5.5, 0);
       mRNAGroup.add(nucleotide);
     }
-    
-    // Create tRNA models
-    const createTRNA = (baseColor: number) => {
+
+    // Label each codon of the reading frame underneath the strand
+    decoded.forEach(({ codon, position, isStart, isStop }) => {
+      const label = createLabelSprite(codon, isStart ? '#4ADE80' : isStop ? '#F87171' : '#FFFFFF', 0.8);
+      label.position.set((position + 1) * NUCLEOTIDE_SPACING, -8.3, 0);
+      mRNAGroup.add(label);
+    });
+
+    // Start with the 5' end entering from the right
+    const codonOffset = (step: number) =>
+      -(decoded[step].position + 1) * NUCLEOTIDE_SPACING;
+    mRNAGroup.position.x = decoded.length > 0 ? codonOffset(0) + 12 : 0;
+
+    // Create a tRNA whose anticodon pairs with the given codon
+    const createTRNA = (codon: string, property: AminoAcidProperty, threeLetter: string) => {
       const tRNAGroup = new THREE.Group();
-      
+
       // tRNA backbone
       const backboneGeometry = new THREE.TubeGeometry(
         new THREE.CatmullRomCurve3([
-          new THREE.Vector3(0, 0, 0),
-          new THREE.Vector3(0, 3, 0),
-          new THREE.Vector3(3, 3, 0),
-          new THREE.Vector3(3, 0, 0)
+          new THREE.Vector3(-1.2, 0.6, 0),
+          new THREE.Vector3(-1.5, 3, 0),
+          new THREE.Vector3(0, 4.5, 0),
+          new THREE.Vector3(1.5, 3, 0),
+          new THREE.Vector3(1.2, 0.6, 0)
         ]),
         20,
         0.3,
         8
       );
-      
+
       const backbone = new THREE.Mesh(
         backboneGeometry,
-        new THREE.MeshPhongMaterial({ 
+        new THREE.MeshPhongMaterial({
           color: 0x10B981,
           transparent: true,
           opacity: 0.8
         })
       );
       tRNAGroup.add(backbone);
-      
-      // Anticodon
-      const anticodonGeometry = new THREE.SphereGeometry(0.6, 12, 12);
-      const anticodon = new THREE.Mesh(
-        anticodonGeometry,
-        new THREE.MeshPhongMaterial({ color: baseColor })
-      );
-      anticodon.position.set(3, 0, 0);
-      tRNAGroup.add(anticodon);
-      
+
+      // Anticodon, one base opposite each codon base
+      const anticodonGeometry = new THREE.SphereGeometry(0.5, 12, 12);
+      getAnticodon(codon).split('').forEach((base, i) => {
+        const anticodonBase = new THREE.Mesh(
+          anticodonGeometry,
+          new THREE.MeshPhongMaterial({ color: baseColors[base] ?? baseColors.N })
+        );
+        anticodonBase.position.set((i - 1) * NUCLEOTIDE_SPACING, 0, 0);
+        tRNAGroup.add(anticodonBase);
+      });
+
       // Amino acid
       const aminoAcidGeometry = new THREE.SphereGeometry(0.8, 12, 12);
       const aminoAcid = new THREE.Mesh(
         aminoAcidGeometry,
-        new THREE.MeshPhongMaterial({ 
-          color: 0xFFFFFF,
-          emissive: 0xFFFFFF,
+        new THREE.MeshPhongMaterial({
+          color: propertyColors[property],
+          emissive: propertyColors[property],
           emissiveIntensity: 0.2
         })
       );
-      aminoAcid.position.set(0, 0, 0);
+      aminoAcid.position.set(0, 5.3, 0);
       tRNAGroup.add(aminoAcid);
-      
+
+      const label = createLabelSprite(threeLetter, '#FFFFFF', 0.8);
+      label.position.set(0, 6.8, 0);
+      tRNAGroup.add(label);
+
       return tRNAGroup;
     };
-    
-    // Create array of tRNAs with different colors
-    const tRNAs = [
-      createTRNA(0xE11D48),
-      createTRNA(0x22C55E),
-      createTRNA(0xF59E0B),
-      createTRNA(0x3B82F6)
-    ];
-    
-    // Position tRNAs off screen initially
-    tRNAs.forEach(tRNA => {
-      tRNA.position.set(20, 0, 0);
-      tRNA.rotation.z = Math.PI / 2;
-      scene.add(tRNA);
-    });
-    
+
+    // Release factor that reads a stop codon in place of a tRNA
+    const createReleaseFactor = () => {
+      const factor = new THREE.Group();
+      const body = new THREE.Mesh(
+        new THREE.BoxGeometry(3.2, 3.2, 1.2),
+        new THREE.MeshPhongMaterial({ color: 0xEF4444, transparent: true, opacity: 0.85 })
+      );
+      body.position.y = 1.8;
+      factor.add(body);
+
+      const label = createLabelSprite('RF', '#FFFFFF', 0.8);
+      label.position.set(0, 4.3, 0);
+      factor.add(label);
+      return factor;
+    };
+
+    // Dock position: anticodon sits just above the codon in the A site
+    const dockPosition = new THREE.Vector3(0, -4.2, 0);
+    const entryPosition = new THREE.Vector3(18, 8, 0);
+    const exitPosition = new THREE.Vector3(-18, 8, 0);
+
     // Create protein chain
     const proteinGroup = new THREE.Group();
     scene.add(proteinGroup);
-    
+
     const aminoAcidGeometry = new THREE.SphereGeometry(0.8, 16, 16);
-    const aminoAcidMaterials = [
-      new THREE.MeshPhongMaterial({ color: 0xF97316 }),
-      new THREE.MeshPhongMaterial({ color: 0x84CC16 }),
-      new THREE.MeshPhongMaterial({ color: 0x06B6D4 }),
-      new THREE.MeshPhongMaterial({ color: 0xA855F7 }),
-      new THREE.MeshPhongMaterial({ color: 0xEC4899 })
-    ];
-    
     const proteinChain: THREE.Mesh[] = [];
-    
+
+    const addAminoAcid = (property: AminoAcidProperty) => {
+      const color = propertyColors[property];
+      const aminoAcid = new THREE.Mesh(
+        aminoAcidGeometry,
+        new THREE.MeshPhongMaterial({ color, emissive: color, emissiveIntensity: 0.2 })
+      );
+
+      // The newest residue sits at the ribosome exit; older ones are pushed out along the tunnel
+      proteinChain.forEach((residue, i) => {
+        const age = proteinChain.length - i;
+        residue.position.set(-age * 1.3, 5 + Math.sin(age * 0.9) * 0.7, Math.cos(age * 0.9) * 0.5);
+      });
+      aminoAcid.position.set(0, 5, 0);
+
+      proteinGroup.add(aminoAcid);
+      proteinChain.push(aminoAcid);
+    };
+
     // Animation parameters
     let time = 0;
-    let translationProgress = 0;
-    const translationSpeed = 0.05;
-    let currentTRNA = -1;
-    let activeTRNA: THREE.Group | null = null;
-    let tRNAState = 'approaching'; // approaching, docked, leaving
-    let tRNATimer = 0;
-    
+    let step = 0;
+    let activeCarrier: THREE.Group | null = null;
+    let carrierState: 'shifting' | 'approaching' | 'docked' | 'leaving' | 'released' = 'shifting';
+    let carrierTimer = 0;
+    let releaseTime = 0;
+    let animationId = 0;
+
     // Animation loop
     const animate = () => {
-      requestAnimationFrame(animate);
+      animationId = requestAnimationFrame(animate);
       time += 0.01;
-      
-      // Animate mRNA moving through ribosome
-      if (translationProgress < mRNALength - 6) {
-        translationProgress += translationSpeed;
-        
-        for (let i = 0; i < mRNALength; i++) {
-          const segment = mRNASegments[i];
-          const originalX = (i - mRNALength / 2) * 1.2;
-          segment.position.x = originalX + translationProgress * 1.2;
-        }
-        
-        // Animate tRNA cycle
-        if (!activeTRNA || tRNAState === 'leaving' && tRNATimer > 2) {
-          // Select new tRNA
-          currentTRNA = (currentTRNA + 1) % tRNAs.length;
-          activeTRNA = tRNAs[currentTRNA];
-          tRNAState = 'approaching';
-          tRNATimer = 0;
-        }
-        
-        if (activeTRNA) {
-          tRNATimer += 0.01;
-          
-          if (tRNAState === 'approaching') {
-            // Move tRNA toward ribosome
-            activeTRNA.position.x = THREE.MathUtils.lerp(
-              activeTRNA.position.x,
-              0,
-              0.05
-            );
-            
-            activeTRNA.position.y = THREE.MathUtils.lerp(
-              activeTRNA.position.y,
-              -5,
-              0.05
-            );
-            
-            if (tRNATimer > 1 && activeTRNA.position.distanceTo(new THREE.Vector3(0, -5, 0)) < 1) {
-              tRNAState = 'docked';
-              tRNATimer = 0;
-              
-              // Add new amino acid to protein chain
-              if (proteinChain.length < 20) { // Limit protein length
-                const aminoAcid = new THREE.Mesh(
-                  aminoAcidGeometry,
-                  aminoAcidMaterials[Math.floor(Math.random() * aminoAcidMaterials.length)]
-                );
-                
-                // Position first amino acid at ribosome exit site
-                if (proteinChain.length === 0) {
-                  aminoAcid.position.set(0, 5, 0);
-                } else {
-                  // Position subsequent amino acids relative to the last one
-                  const lastAminoAcid = proteinChain[proteinChain.length - 1];
-                  aminoAcid.position.copy(lastAminoAcid.position);
-                  
-                  // Add some randomization for a folding effect
-                  aminoAcid.position.x += 0.8 + Math.random() * 0.4;
-                  aminoAcid.position.y += Math.random() * 0.8 - 0.4;
-                  aminoAcid.position.z += Math.random() * 0.8 - 0.4;
-                }
-                
-                proteinGroup.add(aminoAcid);
-                proteinChain.push(aminoAcid);
-              }
+
+      if (decoded.length > 0 && carrierState !== 'released') {
+        carrierTimer += 0.01;
+
+        // Slide the mRNA so the current codon sits in the ribosome's A site
+        const targetX = codonOffset(step);
+        mRNAGroup.position.x = THREE.MathUtils.lerp(mRNAGroup.position.x, targetX, 0.05);
+
+        if (carrierState === 'shifting') {
+          if (Math.abs(mRNAGroup.position.x - targetX) < 0.05) {
+            const { codon, aminoAcid, isStop } = decoded[step];
+            activeCarrier = isStop
+              ? createReleaseFactor()
+              : createTRNA(codon, aminoAcid.property, aminoAcid.threeLetter);
+            activeCarrier.position.copy(entryPosition);
+            scene.add(activeCarrier);
+            carrierState = 'approaching';
+            carrierTimer = 0;
+            setCurrentStep(step);
+          }
+        } else if (carrierState === 'approaching' && activeCarrier) {
+          // Move tRNA toward ribosome
+          activeCarrier.position.lerp(dockPosition, 0.05);
+
+          if (carrierTimer > 1 && activeCarrier.position.distanceTo(dockPosition) < 0.3) {
+            activeCarrier.position.copy(dockPosition);
+            carrierState = 'docked';
+            carrierTimer = 0;
+
+            // Peptide bond: the docked tRNA's amino acid joins the chain
+            if (!decoded[step].isStop) {
+              addAminoAcid(decoded[step].aminoAcid.property);
             }
-          } else if (tRNAState === 'docked') {
-            // Keep tRNA at ribosome for a moment
-            if (tRNATimer > 1) {
-              tRNAState = 'leaving';
-              tRNATimer = 0;
+          }
+        } else if (carrierState === 'docked' && activeCarrier) {
+          // Keep tRNA at ribosome for a moment
+          if (carrierTimer > 1) {
+            carrierState = 'leaving';
+            carrierTimer = 0;
+          }
+        } else if (carrierState === 'leaving' && activeCarrier) {
+          // Move tRNA away from ribosome
+          activeCarrier.position.lerp(exitPosition, 0.05);
+
+          if (carrierTimer > 1) {
+            scene.remove(activeCarrier);
+            activeCarrier = null;
+
+            if (decoded[step].isStop || step === decoded.length - 1) {
+              carrierState = 'released';
+              releaseTime = time;
+            } else {
+              step++;
+              carrierState = 'shifting';
             }
-          } else if (tRNAState === 'leaving') {
-            // Move tRNA away from ribosome
-            activeTRNA.position.x = THREE.MathUtils.lerp(
-              activeTRNA.position.x,
-              -20,
-              0.05
-            );
-            
-            activeTRNA.position.y = THREE.MathUtils.lerp(
-              activeTRNA.position.y,
-              5,
-              0.05
-            );
+            carrierTimer = 0;
           }
         }
-      } else {
-        // When translation is complete, animate protein folding
+      } else if (carrierState === 'released') {
+        // When translation is complete, the released chain collapses into a compact fold
+        const foldProgress = Math.min(1, (time - releaseTime) / 3);
+
         for (let i = 0; i < proteinChain.length; i++) {
           const aminoAcid = proteinChain[i];
-          const foldProgress = Math.min(1, (translationProgress - (mRNALength - 6)) / 10);
-          
-          if (foldProgress > 0) {
-            const angle = i * 0.5 + time * 0.2;
-            const radius = 5 * foldProgress;
-            
-            aminoAcid.position.x = Math.cos(angle) * radius;
-            aminoAcid.position.y = 5 + Math.sin(angle) * radius;
-            aminoAcid.position.z = Math.sin(angle * 0.5) * radius * 0.5;
-          }
+          const angle = i * 0.5 + time * 0.2;
+          const radius = 5 * foldProgress;
+
+          aminoAcid.position.x = THREE.MathUtils.lerp(aminoAcid.position.x, Math.cos(angle) * radius, 0.05);
+          aminoAcid.position.y = THREE.MathUtils.lerp(aminoAcid.position.y, 5 + Math.sin(angle) * radius, 0.05);
+          aminoAcid.position.z = THREE.MathUtils.lerp(aminoAcid.position.z, Math.sin(angle * 0.5) * radius * 0.5, 0.05);
         }
       }
-      
+
       // Rotate ribosome slightly for 3D effect
       ribosome.rotation.y = Math.sin(time * 0.2) * 0.1;
-      
+
       // Move lights for dynamic effect
       purpleLight.position.x = Math.sin(time * 0.5) * 15;
       purpleLight.position.y = Math.cos(time * 0.3) * 15;
       blueLight.position.x = Math.cos(time * 0.3) * 15;
       blueLight.position.y = Math.sin(time * 0.5) * 15;
-      
+
       renderer.render(scene, camera);
     };
-    
-    const animationId = requestAnimationFrame(animate);
-    
+
+    animationId = requestAnimationFrame(animate);
+
     // Handle window resize
     const handleResize = () => {
-      if (!containerRef.current) return;
-      
-      camera.aspect = containerRef.current.clientWidth / containerRef.current.clientHeight;
+      camera.aspect = container.clientWidth / container.clientHeight;
       camera.updateProjectionMatrix();
-      renderer.setSize(containerRef.current.clientWidth, containerRef.current.clientHeight);
+      renderer.setSize(container.clientWidth, container.clientHeight);
     };
-    
+
     window.addEventListener('resize', handleResize);
-    
+
     // Clean up
     return () => {
       cancelAnimationFrame(animationId);
-      if (containerRef.current && containerRef.current.contains(renderer.domElement)) {
-        containerRef.current.removeChild(renderer.domElement);
+      if (container.contains(renderer.domElement)) {
+        container.removeChild(renderer.domElement);
       }
+      renderer.dispose();
       window.removeEventListener('resize', handleResize);
     };
-  }, [isActive]);
-  
-  return <div ref={containerRef} className={`${className} w-full h-full`}></div>;
+  }, [isActive, mrna, decoded, polysome]);
+
+  if (polysome) {
+    return (
+      <div className={`${className} relative w-full h-full`}>
+        <PolysomeScene
+          mrna={mrna}
+          decoded={decoded}
+          isActive={isActive}
+          spacing={Math.max(RIBOSOME_FOOTPRINT, ribosomeSpacing)}
+          cellType={cellType}
+        />
+      </div>
+    );
+  }
+
+  const current = currentStep >= 0 ? decoded[currentStep] : null;
+  const protein = decoded
+    .slice(0, currentStep + 1)
+    .filter(({ isStop }) => !isStop)
+    .map(({ aminoAcid }) => aminoAcid.threeLetter);
+
+  return (
+    <div className={`${className} relative w-full h-full`}>
+      <div ref={containerRef} className="absolute inset-0"></div>
+
+      {/* Current codon readout */}
+      <div className="absolute top-3 left-3 right-3 flex flex-col gap-1 pointer-events-none">
+        {decoded.length === 0 ? (
+          <div className="self-start px-3 py-1 rounded-full bg-red-500/20 text-white text-xs font-medium">
+            No AUG start codon in this mRNA
+          </div>
+        ) : current && (
+          <div className="self-start px-3 py-1 rounded-full bg-primary/20 text-white text-sm font-medium">
+            Codon {currentStep + 1}: <span className="font-mono">{current.codon}</span>
+            {' → '}
+            {current.isStop
+              ? 'Stop — release factor ends translation'
+              : `${current.aminoAcid.threeLetter} (${current.aminoAcid.oneLetter}) · ${current.aminoAcid.name}`}
+          </div>
+        )}
+        {current && GENETIC_CODE[current.codon] !== current.aminoAcid.oneLetter && (
+          <div className="self-start px-3 py-1 rounded-full bg-yellow-500/20 text-white text-xs font-medium">
+            {getTranslationTable(tableId).name} code: {current.codon} would be{' '}
+            {GENETIC_CODE[current.codon] === '*' ? 'a stop' : GENETIC_CODE[current.codon]} in the standard code
+          </div>
+        )}
+        {protein.length > 0 && (
+          <div className="self-start px-3 py-1 rounded-full bg-muted/30 text-white/80 text-xs font-mono">
+            {protein.join('-')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
 };
 
 export default TranslationAnimation;
@@ -0,0 +1,55 @@
+import React from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { getTranslationTable, TRANSLATION_TABLES } from '@/lib/translation-tables';
+
+interface TranslationTableSelectProps {
+  value: number;
+  onChange: (tableId: number) => void;
+  className?: string;
+}
+
+const TranslationTableSelect: React.FC<TranslationTableSelectProps> = ({
+  value,
+  onChange,
+  className
+}) => {
+  const table = getTranslationTable(value);
+  const changes = Object.entries(table.changes);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <Select value={String(value)} onValueChange={(id) => onChange(Number(id))}>
+        <SelectTrigger className="bg-muted/30 border-primary/20 text-white">
+          <SelectValue placeholder="Genetic code" />
+        </SelectTrigger>
+        <SelectContent className="max-h-80">
+          {TRANSLATION_TABLES.map((option) => (
+            <SelectItem key={option.id} value={String(option.id)}>
+              {option.id}. {option.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* What makes this code different from the standard one */}
+      <p className="text-xs text-muted-foreground">
+        {changes.length === 0
+          ? 'Same codon assignments as the standard code.'
+          : changes
+              .map(([codon, aminoAcid]) => `${codon} → ${aminoAcid === '*' ? 'Stop' : aminoAcid}`)
+              .join(', ')}
+        {' · '}Starts: {table.startCodons.join(', ')}
+        {table.note && <> · {table.note}</>}
+      </p>
+    </div>
+  );
+};
+
+export default TranslationTableSelect;
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+
+export type CellType = 'eukaryote' | 'prokaryote';
+
+interface CellTypeContextValue {
+  cellType: CellType;
+  setCellType: (cellType: CellType) => void;
+}
+
+export const CellTypeContext = createContext<CellTypeContextValue | null>(null);
+
+export function useCellType() {
+  const context = useContext(CellTypeContext);
+  if (!context) {
+    throw new Error('useCellType must be used within a CellTypeProvider');
+  }
+  return context;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  alignSequences,
+  DEFAULT_ALIGNMENT_OPTIONS,
+  formatAlignment,
+  MAX_ALIGNMENT_LENGTH,
+  SCORING_MATRICES,
+  type AlignmentOptions,
+} from '@/lib/alignment';
+
+const protein: AlignmentOptions = DEFAULT_ALIGNMENT_OPTIONS;
+const dna = (mode: AlignmentOptions['mode'], gapOpen = 10, gapExtend = 1): AlignmentOptions => ({
+  mode,
+  matrix: 'dna',
+  gapOpen,
+  gapExtend,
+});
+
+describe('scoring matrices', () => {
+  it('looks up BLOSUM62 scores symmetrically', () => {
+    const { score } = SCORING_MATRICES.blosum62;
+    expect(score('W', 'W')).toBe(11);
+    expect(score('C', 'C')).toBe(9);
+    expect(score('A', 'R')).toBe(-1);
+    expect(score('I', 'V')).toBe(3);
+    expect(score('W', 'F')).toBe(score('F', 'W'));
+  });
+
+  it('looks up PAM250 scores symmetrically', () => {
+    const { score } = SCORING_MATRICES.pam250;
+    expect(score('W', 'W')).toBe(17);
+    expect(score('C', 'C')).toBe(12);
+    expect(score('C', 'W')).toBe(-8);
+    expect(score('D', 'E')).toBe(3);
+    expect(score('Y', 'F')).toBe(score('F', 'Y'));
+  });
+
+  it('gives residues outside the matrix the worst score', () => {
+    expect(SCORING_MATRICES.blosum62.score('X', 'A')).toBe(-4);
+    expect(SCORING_MATRICES.pam250.score('B', 'B')).toBe(-4);
+  });
+});
+
+describe('global alignment (Needleman-Wunsch)', () => {
+  it('scores identical proteins as the sum of their diagonal', () => {
+    const result = alignSequences('ACDE', 'ACDE', protein);
+    expect(result.score).toBe(4 + 9 + 6 + 5);
+    expect(result.identity).toBe(1);
+    expect(result.gaps).toBe(0);
+  });
+
+  it('opens a gap for a missing residue', () => {
+    const result = alignSequences('AWA', 'AA', protein);
+    expect(result.score).toBe(4 - 10 + 4);
+    expect(formatAlignment(result.columns)).toEqual(['AWA', '| |', 'A-A']);
+  });
+
+  it('charges gapOpen once and gapExtend for every further position', () => {
+    // Eight matching Gs either side of a three-base gap
+    expect(alignSequences('GGGGAAAGGGG', 'GGGGGGGG', dna('global', 10, 1)).score).toBe(8 * 5 - (10 + 2 * 1));
+    expect(alignSequences('GGGGAAAGGGG', 'GGGGGGGG', dna('global', 10, 10)).score).toBe(8 * 5 - 3 * 10);
+  });
+
+  it('prefers one long gap to several short ones under affine penalties', () => {
+    const result = alignSequences('GGGGAAAGGGG', 'GGGGGGGG', dna('global', 10, 1));
+    const [top, , bottom] = formatAlignment(result.columns);
+    expect(top).toBe('GGGGAAAGGGG');
+    expect(bottom).toMatch(/^G*---G*$/);
+    expect(result.gaps).toBe(3);
+  });
+});
+
+describe('local alignment (Smith-Waterman)', () => {
+  it('finds the best shared stretch and where it lies in each sequence', () => {
+    const result = alignSequences('TTTTGATTACATTTT', 'CCGATTACACC', dna('local'));
+    expect(result.score).toBe(7 * 5);
+    expect(formatAlignment(result.columns)).toEqual(['GATTACA', '|||||||', 'GATTACA']);
+    expect([result.startA, result.endA, result.startB, result.endB]).toEqual([5, 11, 3, 9]);
+  });
+
+  it('returns an empty alignment when nothing scores above zero', () => {
+    const result = alignSequences('AAAA', 'TTTT', dna('local'));
+    expect(result.score).toBe(0);
+    expect(result.columns).toHaveLength(0);
+    expect([result.startA, result.endA]).toEqual([0, 0]);
+  });
+});
+
+describe('traceback and statistics', () => {
+  it('numbers residues and leaves gaps unnumbered', () => {
+    const { columns } = alignSequences('AWA', 'AA', protein);
+    expect(columns.map(({ positionA, positionB }) => [positionA, positionB])).toEqual([
+      [1, 1],
+      [2, null],
+      [3, 2],
+    ]);
+  });
+
+  it('counts identical, similar and gap columns', () => {
+    // I/V score +3 in BLOSUM62, K/W −3
+    const result = alignSequences('HIKE', 'HVWE', protein);
+    expect(result.columns.map(({ kind }) => kind)).toEqual(['match', 'similar', 'mismatch', 'match']);
+    expect(result.identity).toBe(0.5);
+    expect(result.similarity).toBe(0.75);
+    expect(formatAlignment(result.columns)[1]).toBe('|:.|');
+  });
+
+  it('refuses sequences longer than the limit', () => {
+    expect(() => alignSequences('A'.repeat(MAX_ALIGNMENT_LENGTH + 1), 'A', protein)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,280 @@
+export type AlignmentMode = 'global' | 'local';
+
+export type ScoringMatrixId = 'blosum62' | 'pam250' | 'dna';
+
+export type AlignmentColumnKind = 'match' | 'similar' | 'mismatch' | 'gap';
+
+export interface ScoringMatrix {
+  label: string;
+  alphabet: 'protein' | 'dna';
+  description: string;
+  score: (a: string, b: string) => number;
+}
+
+export interface AlignmentOptions {
+  mode: AlignmentMode;
+  matrix: ScoringMatrixId;
+  gapOpen: number;   // penalty for the first position of a gap
+  gapExtend: number; // penalty for every further position
+}
+
+export interface AlignmentColumn {
+  a: string; // '-' for a gap
+  b: string;
+  kind: AlignmentColumnKind;
+  positionA: number | null; // 1-based residue number, null in a gap
+  positionB: number | null;
+}
+
+export interface AlignmentResult {
+  columns: AlignmentColumn[];
+  score: number;
+  identity: number;   // identical columns over alignment length, 0–1
+  similarity: number; // identical or positively scoring columns
+  gaps: number;       // gap columns
+  startA: number;     // 1-based range of each sequence covered by the alignment
+  endA: number;
+  startB: number;
+  endB: number;
+}
+
+// Each of the six tables has a cell per pair of residues; 1500 × 1500 already takes ~60 MB
+export const MAX_ALIGNMENT_LENGTH = 1500;
+
+// EMBOSS needle/water defaults for proteins
+export const DEFAULT_ALIGNMENT_OPTIONS: AlignmentOptions = {
+  mode: 'global',
+  matrix: 'blosum62',
+  gapOpen: 10,
+  gapExtend: 0.5,
+};
+
+const MATRIX_RESIDUES = 'ARNDCQEGHILKMFPSTWYV';
+
+// Henikoff & Henikoff (1992), from blocks of aligned sequences no more than 62% identical
+const BLOSUM62_ROWS = [
+  ' 4 -1 -2 -2  0 -1 -1  0 -2 -1 -1 -1 -1 -2 -1  1  0 -3 -2  0',
+  '-1  5  0 -2 -3  1  0 -2  0 -3 -2  2 -1 -3 -2 -1 -1 -3 -2 -3',
+  '-2  0  6  1 -3  0  0  0  1 -3 -3  0 -2 -3 -2  1  0 -4 -2 -3',
+  '-2 -2  1  6 -3  0  2 -1 -1 -3 -4 -1 -3 -3 -1  0 -1 -4 -3 -3',
+  ' 0 -3 -3 -3  9 -3 -4 -3 -3 -1 -1 -3 -1 -2 -3 -1 -1 -2 -2 -1',
+  '-1  1  0  0 -3  5  2 -2  0 -3 -2  1  0 -3 -1  0 -1 -2 -1 -2',
+  '-1  0  0  2 -4  2  5 -2  0 -3 -3  1 -2 -3 -1  0 -1 -3 -2 -2',
+  ' 0 -2  0 -1 -3 -2 -2  6 -2 -4 -4 -2 -3 -3 -2  0 -2 -2 -3 -3',
+  '-2  0  1 -1 -3  0  0 -2  8 -3 -3 -1 -2 -1 -2 -1 -2 -2  2 -3',
+  '-1 -3 -3 -3 -1 -3 -3 -4 -3  4  2 -3  1  0 -3 -2 -1 -3 -1  3',
+  '-1 -2 -3 -4 -1 -2 -3 -4 -3  2  4 -2  2  0 -3 -2 -1 -2 -1  1',
+  '-1  2  0 -1 -3  1  1 -2 -1 -3 -2  5 -1 -3 -1  0 -1 -3 -2 -2',
+  '-1 -1 -2 -3 -1  0 -2 -3 -2  1  2 -1  5  0 -2 -1 -1 -1 -1  1',
+  '-2 -3 -3 -3 -2 -3 -3 -3 -1  0  0 -3  0  6 -4 -2 -2  1  3 -1',
+  '-1 -2 -2 -1 -3 -1 -1 -2 -2 -3 -3 -1 -2 -4  7 -1 -1 -4 -3 -2',
+  ' 1 -1  1  0 -1  0  0  0 -1 -2 -2  0 -1 -2 -1  4  1 -3 -2 -2',
+  ' 0 -1  0 -1 -1 -1 -1 -2 -2 -1 -1 -1 -1 -2 -1  1  5 -2 -2  0',
+  '-3 -3 -4 -4 -2 -2 -3 -2 -2 -3 -2 -3 -1  1 -4 -3 -2 11  2 -3',
+  '-2 -2 -2 -3 -2 -1 -2 -3  2 -1 -1 -2 -1  3 -3 -2 -2  2  7 -1',
+  ' 0 -3 -3 -3 -1 -2 -2 -3 -3  3  1 -2  1 -1 -2 -2  0 -3 -1  4',
+];
+
+// Dayhoff et al. (1978), extrapolated from close relatives to 250 accepted mutations per 100 residues
+const PAM250_ROWS = [
+  ' 2 -2  0  0 -2  0  0  1 -1 -1 -2 -1 -1 -3  1  1  1 -6 -3  0',
+  '-2  6  0 -1 -4  1 -1 -3  2 -2 -3  3  0 -4  0  0 -1  2 -4 -2',
+  ' 0  0  2  2 -4  1  1  0  2 -2 -3  1 -2 -3  0  1  0 -4 -2 -2',
+  ' 0 -1  2  4 -5  2  3  1  1 -2 -4  0 -3 -6 -1  0  0 -7 -4 -2',
+  '-2 -4 -4 -5 12 -5 -5 -3 -3 -2 -6 -5 -5 -4 -3  0 -2 -8  0 -2',
+  ' 0  1  1  2 -5  4  2 -1  3 -2 -2  1 -1 -5  0 -1 -1 -5 -4 -2',
+  ' 0 -1  1  3 -5  2  4  0  1 -2 -3  0 -2 -5 -1  0  0 -7 -4 -2',
+  ' 1 -3  0  1 -3 -1  0  5 -2 -3 -4 -2 -3 -5  0  1  0 -7 -5 -1',
+  '-1  2  2  1 -3  3  1 -2  6 -2 -2  0 -2 -2  0 -1 -1 -3  0 -2',
+  '-1 -2 -2 -2 -2 -2 -2 -3 -2  5  2 -2  2  1 -2 -1  0 -5 -1  4',
+  '-2 -3 -3 -4 -6 -2 -3 -4 -2  2  6 -3  4  2 -3 -3 -2 -2 -1  2',
+  '-1  3  1  0 -5  1  0 -2  0 -2 -3  5  0 -5 -1  0  0 -3 -4 -2',
+  '-1  0 -2 -3 -5 -1 -2 -3 -2  2  4  0  6  0 -2 -2 -1 -4 -2  2',
+  '-3 -4 -3 -6 -4 -5 -5 -5 -2  1  2 -5  0  9 -5 -3 -3  0  7 -1',
+  ' 1  0  0 -1 -3  0 -1  0  0 -2 -3 -1 -2 -5  6  1  0 -6 -5 -1',
+  ' 1  0  1  0  0 -1  0  1 -1 -1 -3  0 -2 -3  1  2  1 -2 -3 -1',
+  ' 1 -1  0  0 -2 -1  0  0 -1  0 -2  0 -1 -3  0  1  3 -5 -3  0',
+  '-6  2 -4 -7 -8 -5 -7 -7 -3 -5 -2 -3 -4  0 -6 -2 -5 17  0 -6',
+  '-3 -4 -2 -4  0 -4 -4 -5  0 -1 -1 -4 -2  7 -5 -3 -3  0 10 -2',
+  ' 0 -2 -2 -2 -2 -2 -2 -1 -2  4  2 -2  2 -1 -1 -1  0 -6 -2  4',
+];
+
+// EMBOSS EDNAFULL scores for plain bases
+const DNA_MATCH = 5;
+const DNA_MISMATCH = -4;
+
+// The worst score any matrix gives, for residues outside it
+const UNKNOWN_SCORE = -4;
+
+const parseMatrix = (rows: string[]): Record<string, Record<string, number>> =>
+  Object.fromEntries(rows.map((row, i) => {
+    const values = row.trim().split(/\s+/).map(Number);
+    return [MATRIX_RESIDUES[i], Object.fromEntries(MATRIX_RESIDUES.split('').map((residue, j) => [residue, values[j]]))];
+  }));
+
+const lookup = (table: Record<string, Record<string, number>>) => (a: string, b: string) => table[a]?.[b] ?? UNKNOWN_SCORE;
+
+export const SCORING_MATRICES: Record<ScoringMatrixId, ScoringMatrix> = {
+  blosum62: {
+    label: 'BLOSUM62',
+    alphabet: 'protein',
+    description: 'Built from conserved blocks of distantly related proteins; the default for most protein searches, including BLAST.',
+    score: lookup(parseMatrix(BLOSUM62_ROWS)),
+  },
+  pam250: {
+    label: 'PAM250',
+    alphabet: 'protein',
+    description: 'Extrapolated from mutations between close relatives to long evolutionary distances; kinder to swaps between similar residues.',
+    score: lookup(parseMatrix(PAM250_ROWS)),
+  },
+  dna: {
+    label: 'DNA',
+    alphabet: 'dna',
+    description: `Every identical base scores +${DNA_MATCH} and every different base ${DNA_MISMATCH}, as in EMBOSS.`,
+    score: (a, b) => (a === b ? DNA_MATCH : DNA_MISMATCH),
+  },
+};
+
+// Which table the best path through a cell came from
+const FROM_MATCH = 0;
+const FROM_GAP_IN_B = 1; // A has a residue, B a gap
+const FROM_GAP_IN_A = 2;
+const FROM_START = 3;    // local alignments may begin anywhere
+
+/**
+ * Align two sequences by dynamic programming with affine gaps (Gotoh's algorithm): end to end for
+ * `global` (Needleman-Wunsch), or the best-scoring pair of stretches for `local` (Smith-Waterman).
+ * A gap of length n costs gapOpen + (n − 1) × gapExtend.
+ */
+export const alignSequences = (a: string, b: string, { mode, matrix, gapOpen, gapExtend }: AlignmentOptions): AlignmentResult => {
+  if (a.length > MAX_ALIGNMENT_LENGTH || b.length > MAX_ALIGNMENT_LENGTH) {
+    throw new RangeError(`Sequences longer than ${MAX_ALIGNMENT_LENGTH} cannot be aligned here`);
+  }
+
+  const score = SCORING_MATRICES[matrix].score;
+  const local = mode === 'local';
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  const size = (n + 1) * width;
+
+  // Best score of an alignment of a[0..i) and b[0..j) ending in a pair, a gap in B or a gap in A
+  const match = new Float64Array(size).fill(-Infinity);
+  const gapB = new Float64Array(size).fill(-Infinity);
+  const gapA = new Float64Array(size).fill(-Infinity);
+  const fromMatch = new Uint8Array(size);
+  const fromGapB = new Uint8Array(size);
+  const fromGapA = new Uint8Array(size);
+
+  match[0] = 0;
+  if (!local) {
+    for (let i = 1; i <= n; i++) {
+      gapB[i * width] = -gapOpen - (i - 1) * gapExtend;
+      fromGapB[i * width] = i === 1 ? FROM_MATCH : FROM_GAP_IN_B;
+    }
+    for (let j = 1; j <= m; j++) {
+      gapA[j] = -gapOpen - (j - 1) * gapExtend;
+      fromGapA[j] = j === 1 ? FROM_MATCH : FROM_GAP_IN_A;
+    }
+  }
+
+  // Pick the best of the three tables, preferring a pair over a gap on ties
+  const best = (fromPair: number, fromB: number, fromA: number): [number, number] =>
+    fromPair >= fromB && fromPair >= fromA ? [fromPair, FROM_MATCH] : fromB >= fromA ? [fromB, FROM_GAP_IN_B] : [fromA, FROM_GAP_IN_A];
+
+  let bestCell = local ? 0 : n * width + m;
+  let bestScore = local ? 0 : -Infinity;
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const cell = i * width + j;
+      const diagonal = cell - width - 1;
+      const up = cell - width;
+      const left = cell - 1;
+
+      const [previous, origin] = best(match[diagonal], gapB[diagonal], gapA[diagonal]);
+      if (local && previous <= 0) {
+        match[cell] = score(a[i - 1], b[j - 1]);
+        fromMatch[cell] = FROM_START;
+      } else {
+        match[cell] = previous + score(a[i - 1], b[j - 1]);
+        fromMatch[cell] = origin;
+      }
+
+      [gapB[cell], fromGapB[cell]] = best(match[up] - gapOpen, gapB[up] - gapExtend, gapA[up] - gapOpen);
+      [gapA[cell], fromGapA[cell]] = best(match[left] - gapOpen, gapB[left] - gapOpen, gapA[left] - gapExtend);
+
+      if (local && match[cell] > bestScore) {
+        bestScore = match[cell];
+        bestCell = cell;
+      }
+    }
+  }
+
+  // A global alignment may end in a gap; a local one always ends on its best pair
+  let state = FROM_MATCH;
+  if (!local) {
+    [bestScore, state] = best(match[bestCell], gapB[bestCell], gapA[bestCell]);
+  }
+
+  // Walk back from the end, collecting columns in reverse
+  const columns: AlignmentColumn[] = [];
+  let i = Math.floor(bestCell / width);
+  let j = bestCell % width;
+  const endA = i;
+  const endB = j;
+
+  if (!local || bestScore > 0) {
+    while (i > 0 || j > 0) {
+      const cell = i * width + j;
+      if (state === FROM_MATCH) {
+        const s = score(a[i - 1], b[j - 1]);
+        columns.push({
+          a: a[i - 1],
+          b: b[j - 1],
+          kind: a[i - 1] === b[j - 1] ? 'match' : s > 0 ? 'similar' : 'mismatch',
+          positionA: i,
+          positionB: j,
+        });
+        state = fromMatch[cell];
+        i--;
+        j--;
+        if (state === FROM_START) break;
+      } else if (state === FROM_GAP_IN_B) {
+        columns.push({ a: a[i - 1], b: '-', kind: 'gap', positionA: i, positionB: null });
+        state = fromGapB[cell];
+        i--;
+      } else {
+        columns.push({ a: '-', b: b[j - 1], kind: 'gap', positionA: null, positionB: j });
+        state = fromGapA[cell];
+        j--;
+      }
+    }
+  }
+  columns.reverse();
+
+  const count = (kinds: AlignmentColumnKind[]) => columns.filter(column => kinds.includes(column.kind)).length;
+  const length = Math.max(columns.length, 1);
+
+  return {
+    columns,
+    score: columns.length > 0 ? bestScore : 0,
+    identity: count(['match']) / length,
+    similarity: count(['match', 'similar']) / length,
+    gaps: count(['gap']),
+    startA: columns.length > 0 ? i + 1 : 0,
+    endA: columns.length > 0 ? endA : 0,
+    startB: columns.length > 0 ? j + 1 : 0,
+    endB: columns.length > 0 ? endB : 0,
+  };
+};
+
+/**
+ * The three text lines of a classic pairwise alignment, with '|' for identities, ':' for similar
+ * residues and '.' for mismatches in the middle line
+ */
+export const formatAlignment = (columns: AlignmentColumn[]): [string, string, string] => [
+  columns.map(({ a }) => a).join(''),
+  columns.map(({ kind }) => ({ match: '|', similar: ':', mismatch: '.', gap: ' ' }[kind])).join(''),
+  columns.map(({ b }) => b).join(''),
+];
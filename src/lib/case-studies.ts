@@ -0,0 +1,197 @@
+import { complementDNA } from '@/lib/dna';
+import { getAminoAcid, splitCodons, translate } from '@/lib/genetic-code';
+import { applyMutation, type Mutation, type MutationEffect } from '@/lib/mutations';
+import {
+  betaThalassaemiaQuestions,
+  cysticFibrosisQuestions,
+  sickleCellQuestions,
+  type QuizQuestion,
+} from '@/lib/quiz-data';
+
+export type CaseStudyId = 'sickle-cell' | 'cystic-fibrosis' | 'beta-thalassaemia';
+
+export interface CaseStudy {
+  id: CaseStudyId;
+  disease: string;
+  gene: string;
+  proteinName: string;
+  variant: string;       // traditional name and HGVS notation
+  fragment: string;      // coding-strand DNA, starting on a codon boundary
+  fragmentNote: string;
+  firstCodon: number;    // residue number of the fragment's first codon
+  mutation: Mutation;    // position is 0-based within the fragment
+  summary: string;
+  consequence: string;
+  inheritance: string;
+  questions: QuizQuestion[];
+}
+
+// Every strand is aligned: '-' marks bases the other allele has and this one lacks
+export interface CaseComparison {
+  wildType: string;         // coding strand, 5'→3'
+  variant: string;
+  wildTypeTemplate: string; // template strand, 3'→5'
+  variantTemplate: string;
+  wildTypeMrna: string;
+  variantMrna: string;
+  wildTypeCodons: string[];
+  variantCodons: string[];  // lined up with the wild type, '---' where a whole codon was lost
+  wildTypeProtein: string;
+  variantProtein: string;
+  changedResidue: number;   // 0-based index of the first residue that differs, or -1
+  effect: MutationEffect;
+}
+
+// Human β-globin coding sequence (NM_000518), start codon to stop codon
+const HBB_CODING =
+  'ATGGTGCACCTGACTCCTGAGGAGAAGTCTGCCGTTACTGCCCTGTGGGGCAAGGTGAACGTGGATGAAGTTGGTGGTGAGGCCCTGGGCAGGCTGCTGGTGGTC' +
+  'TACCCTTGGACCCAGAGGTTCTTTGAGTCCTTTGGGGATCTGTCCACTCCTGATGCTGTTATGGGCAACCCTAAGGTGAAGGCTCATGGCAAGAAAGTGCTCGGT' +
+  'GCCTTTAGTGATGGCCTGGCTCACCTGGACAACCTCAAGGGCACCTTTGCCACACTGAGTGAGCTGCACTGTGACAAGCTGCACGTGGATCCTGAGAACTTCAGG' +
+  'CTCCTGGGCAACGTGCTGGTCTGTGTGCTGGCCCATCACTTTGGCAAAGAATTCACCCCACCAGTGCAGGCTGCCTATCAGAAAGTGGTGGCTGGTGTGGCTAAT' +
+  'GCCCTGGCCCACAAGTATCACTAA';
+
+export const CASE_STUDIES: CaseStudy[] = [
+  {
+    id: 'sickle-cell',
+    disease: 'Sickle-cell anaemia',
+    gene: 'HBB',
+    proteinName: 'β-globin',
+    variant: 'HbS, E6V · c.20A>T (p.Glu7Val)',
+    fragment: HBB_CODING,
+    fragmentNote:
+      'The full coding sequence of human β-globin, spliced from its three exons. The initiator Met is removed after ' +
+      'translation, so residues are traditionally counted from the valine after it.',
+    firstCodon: 0,
+    mutation: { kind: 'substitution', position: 19, bases: 'T' },
+    summary:
+      'Adult haemoglobin is two α-globin and two β-globin chains, each holding a haem that carries oxygen. People ' +
+      'with sickle-cell anaemia inherit an HBB allele in which a single A has become a T.',
+    consequence:
+      'The swap puts a hydrophobic valine on the surface of β-globin. When haemoglobin gives up its oxygen, the ' +
+      'valine sticks into a pocket on a neighbouring molecule and the haemoglobin polymerises into stiff fibres. ' +
+      'Red blood cells bend into sickles, block small vessels and break down early, causing pain crises and anaemia.',
+    inheritance:
+      'Autosomal recessive. Carriers with one copy have sickle-cell trait, are usually healthy and are partly ' +
+      'protected against malaria.',
+    questions: sickleCellQuestions,
+  },
+  {
+    id: 'cystic-fibrosis',
+    disease: 'Cystic fibrosis',
+    gene: 'CFTR',
+    proteinName: 'CFTR chloride channel',
+    variant: 'ΔF508 · c.1521_1523delCTT (p.Phe508del)',
+    fragment: 'GGCACCATTAAAGAAAATATCATCTTTGGTGTTTCCTATGATGAATATAGATACAGAAGCGTCATCAAAGCATGCCAACTAGAAGAG',
+    fragmentNote:
+      'Codons 500–528 of CFTR, in the first nucleotide-binding domain. The full gene is about 190 kb with 27 exons ' +
+      'and encodes 1480 residues, so only the region around the deletion is shown.',
+    firstCodon: 500,
+    mutation: { kind: 'deletion', position: 23, length: 3 },
+    summary:
+      'CFTR is a chloride channel in the membrane of cells lining the airways, gut, pancreas and sweat glands. ' +
+      'About 70% of cystic fibrosis alleles worldwide carry the same three-base deletion.',
+    consequence:
+      'Losing Phe508 leaves the first nucleotide-binding domain unable to fold properly. Quality control in the ER ' +
+      'holds the misfolded channel back and sends most of it to the proteasome, so little CFTR reaches the membrane. ' +
+      'Without chloride flowing out, mucus turns thick and sticky, clogging the lungs and pancreatic ducts.',
+    inheritance:
+      'Autosomal recessive. About 1 in 25 people of northern European descent carry one copy of a CFTR variant.',
+    questions: cysticFibrosisQuestions,
+  },
+  {
+    id: 'beta-thalassaemia',
+    disease: 'β-thalassaemia',
+    gene: 'HBB',
+    proteinName: 'β-globin',
+    variant: 'Codon 39 C>T (Q39X) · c.118C>T (p.Gln40Ter)',
+    fragment: HBB_CODING,
+    fragmentNote:
+      'The same β-globin coding sequence as in sickle-cell anaemia, numbered from the valine after the initiator Met.',
+    firstCodon: 0,
+    mutation: { kind: 'substitution', position: 117, bases: 'T' },
+    summary:
+      'In β-thalassaemia too little β-globin is made. Hundreds of HBB variants cause it; this nonsense variant is ' +
+      'the most common one around the Mediterranean, especially in Sardinia.',
+    consequence:
+      'The CAG glutamine codon becomes a UAG stop codon in exon 2, well before the last exon junction, so ' +
+      'nonsense-mediated decay destroys most of the mRNA and almost no β-globin is made (β⁰). The unpaired ' +
+      'α-globin chains precipitate in developing red cells, and people with two copies need regular transfusions.',
+    inheritance:
+      'Autosomal recessive. Carriers have small, pale red cells (thalassaemia minor) but are usually well.',
+    questions: betaThalassaemiaQuestions,
+  },
+];
+
+const toRNA = (dna: string) => dna.replace(/T/g, 'U');
+
+// Complement base by base, keeping alignment gaps
+const templateStrand = (coding: string) =>
+  coding.split('').map(base => (base === '-' ? '-' : complementDNA(base))).join('');
+
+/**
+ * Look up a case study by id, falling back to the first one
+ */
+export const getCaseStudy = (id: string | null): CaseStudy =>
+  CASE_STUDIES.find(caseStudy => caseStudy.id === id) ?? CASE_STUDIES[0];
+
+/**
+ * Transcribe and translate a case's wild-type and variant alleles side by side.
+ * The fragment is read in frame from its first base, so it need not contain the start codon.
+ */
+export const compareCase = (caseStudy: CaseStudy): CaseComparison => {
+  const { fragment, mutation } = caseStudy;
+  const mutated = applyMutation(fragment, mutation);
+
+  const inserted = mutation.kind === 'insertion' ? (mutation.bases ?? '').length : 0;
+  const deleted = mutation.kind === 'deletion' ? mutation.length ?? 1 : 0;
+  const wildType = inserted
+    ? fragment.slice(0, mutation.position) + '-'.repeat(inserted) + fragment.slice(mutation.position)
+    : fragment;
+  const variant = deleted
+    ? fragment.slice(0, mutation.position) + '-'.repeat(deleted) + fragment.slice(mutation.position + deleted)
+    : mutated;
+
+  const wildTypeProtein = translate(toRNA(fragment));
+  const variantProtein = translate(toRNA(mutated));
+
+  let changedResidue = -1;
+  for (let i = 0; i < Math.max(wildTypeProtein.length, variantProtein.length); i++) {
+    if (wildTypeProtein[i] !== variantProtein[i]) {
+      changedResidue = i;
+      break;
+    }
+  }
+
+  // An in-frame deletion leaves gaps at the first changed codon so the rest stays in register
+  const variantCodons = splitCodons(toRNA(mutated));
+  if (deleted % 3 === 0 && deleted > 0 && changedResidue !== -1) {
+    variantCodons.splice(changedResidue, 0, ...Array(deleted / 3).fill('---'));
+  }
+
+  let effect: MutationEffect;
+  if ((inserted - deleted) % 3 !== 0) {
+    effect = 'frameshift';
+  } else if (mutation.kind !== 'substitution') {
+    effect = 'in-frame';
+  } else if (changedResidue === -1) {
+    effect = 'silent';
+  } else {
+    const codonStart = changedResidue * 3;
+    effect = getAminoAcid(toRNA(mutated).slice(codonStart, codonStart + 3)).oneLetter === '*' ? 'nonsense' : 'missense';
+  }
+
+  return {
+    wildType,
+    variant,
+    wildTypeTemplate: templateStrand(wildType),
+    variantTemplate: templateStrand(variant),
+    wildTypeMrna: toRNA(wildType),
+    variantMrna: toRNA(variant),
+    wildTypeCodons: splitCodons(toRNA(fragment)),
+    variantCodons,
+    wildTypeProtein,
+    variantProtein,
+    changedResidue,
+    effect,
+  };
+};
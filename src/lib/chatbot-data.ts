@@ -4,6 +4,13 @@ interface ChatbotData {
 
 // Predefined responses for common protein synthesis questions
 const proteinSynthesisData: ChatbotData = {
+  'operon': [
+    "An operon is a group of bacterial genes transcribed together from one promoter into a single polycistronic mRNA. Each gene on that mRNA has its own Shine-Dalgarno site and start codon, so ribosomes make each protein separately. The lac operon, for example, carries lacZ, lacY and lacA."
+  ],
+  'prokaryot': [
+    "In prokaryotes such as bacteria there is no nucleus, so transcription and translation are coupled: ribosomes bind the Shine-Dalgarno site of an mRNA and start translating while RNA polymerase is still making it. Bacterial mRNA is not capped, spliced or polyadenylated, and one mRNA often carries several genes.",
+    "Prokaryotic ribosomes (70S) find the start codon by base-pairing their 16S rRNA with the Shine-Dalgarno sequence (consensus AGGAGG) a few bases upstream of the AUG. Eukaryotic ribosomes (80S) instead bind the 5' cap and scan for the first AUG."
+  ],
   'transcription': [
     "Transcription is the first step of protein synthesis. It occurs in the cell nucleus where DNA is used as a template to create messenger RNA (mRNA). RNA polymerase reads the DNA template strand and synthesizes a complementary RNA strand. The process includes initiation, elongation, and termination phases.",
     "During transcription, DNA unwinds and RNA polymerase attaches to the promoter region. It then reads the DNA template strand in the 3' to 5' direction, adding complementary RNA nucleotides (A pairs with U, G with C) to create mRNA in the 5' to 3' direction. The process ends at the terminator sequence."
@@ -34,7 +41,8 @@ const proteinSynthesisData: ChatbotData = {
   ],
   'codon': [
     "Codons are three-nucleotide sequences in mRNA that specify either an amino acid or a stop signal during translation. There are 64 possible codons in the genetic code, coding for 20 amino acids and stop signals.",
-    "The genetic code is degenerate, meaning multiple codons can specify the same amino acid. The start codon (AUG) signals the beginning of protein synthesis and codes for methionine. Three stop codons (UAA, UAG, UGA) signal the end of translation."
+    "The genetic code is degenerate, meaning multiple codons can specify the same amino acid. The start codon (AUG) signals the beginning of protein synthesis and codes for methionine. Three stop codons (UAA, UAG, UGA) signal the end of translation.",
+    "The genetic code is nearly, but not completely, universal. NCBI lists more than 25 translation tables: in vertebrate mitochondria UGA codes for tryptophan, AUA for methionine, and AGA/AGG act as stops, while some ciliates read UAA and UAG as glutamine. You can switch between these codes in the translation section and the ORF finder."
   ],
   'proteinos': [
     "ProteinOS is an educational platform designed to make learning about protein synthesis intuitive and interactive. Our goal is to transform complex biological processes into engaging visual experiences that help students and enthusiasts understand the fundamental mechanisms of life.",
@@ -0,0 +1,40 @@
+import { ALL_CODONS } from '@/lib/genetic-code';
+
+export interface CodonUsageTable {
+  id: string;
+  name: string;
+  source: string;
+  perThousand: Record<string, number>; // codon (mRNA) → occurrences per 1000 codons
+}
+
+// Frequencies per thousand in NCBI codon order (UUU, UUC, UUA, UUG, UCU, …, GGG)
+const fromNcbiOrder = (values: number[]): Record<string, number> =>
+  Object.fromEntries(ALL_CODONS.map((codon, i) => [codon, values[i]]));
+
+export const CODON_USAGE_TABLES: CodonUsageTable[] = [
+  {
+    id: 'e-coli',
+    name: 'Escherichia coli K-12',
+    source: 'Kazusa Codon Usage Database, E. coli K-12',
+    perThousand: fromNcbiOrder([
+      19.7, 15.0, 15.2, 11.9, 5.7, 5.5, 7.8, 8.0, 16.8, 14.6, 1.8, 0.2, 5.9, 8.0, 1.0, 10.7,
+      11.9, 10.5, 5.3, 46.9, 8.4, 6.4, 6.6, 26.7, 15.8, 13.1, 12.1, 27.7, 21.1, 26.0, 4.3, 4.1,
+      30.5, 18.2, 3.7, 24.8, 8.0, 22.8, 6.4, 11.5, 21.9, 24.4, 33.6, 12.1, 7.2, 16.6, 1.4, 1.6,
+      16.8, 11.7, 11.5, 26.4, 10.7, 31.6, 21.1, 38.5, 37.9, 20.5, 43.7, 18.4, 21.3, 33.4, 9.2, 8.6,
+    ]),
+  },
+  {
+    id: 'human',
+    name: 'Homo sapiens',
+    source: 'Kazusa Codon Usage Database, Homo sapiens',
+    perThousand: fromNcbiOrder([
+      17.6, 20.3, 7.7, 12.9, 15.2, 17.7, 12.2, 4.4, 12.2, 15.3, 1.0, 0.8, 10.6, 12.6, 1.6, 13.2,
+      13.2, 19.6, 7.2, 39.6, 17.5, 19.8, 16.9, 6.9, 10.9, 15.1, 12.3, 34.2, 4.5, 10.4, 6.2, 11.4,
+      16.0, 20.8, 7.5, 22.0, 13.1, 18.9, 15.1, 6.1, 17.0, 19.1, 24.4, 31.9, 12.1, 19.5, 12.2, 12.0,
+      11.0, 14.5, 7.1, 28.1, 18.4, 27.7, 15.8, 7.4, 21.8, 25.1, 29.0, 39.6, 10.8, 22.2, 16.5, 16.5,
+    ]),
+  },
+];
+
+export const getCodonUsageTable = (id: string): CodonUsageTable | undefined =>
+  CODON_USAGE_TABLES.find(table => table.id === id);
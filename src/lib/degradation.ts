@@ -0,0 +1,200 @@
+export type Organism = 'mammalian' | 'yeast' | 'ecoli';
+
+export type DegradationStage = 'e1' | 'e2' | 'e3' | 'chain' | 'recognition' | 'unfolding' | 'cleavage';
+
+export type NEndClass = 'stabilising' | 'primary' | 'secondary' | 'tertiary';
+
+export interface HalfLife {
+  hours: number;
+  atLeast: boolean; // the protein outlasted the measurement
+}
+
+export interface HalfLifeEstimate {
+  residue: string;        // the N-terminal residue the N-end rule sees
+  metRemoved: boolean;    // methionine aminopeptidase trimmed the initiator Met
+  halfLife: HalfLife | null;
+  nEndClass: NEndClass;
+}
+
+export const ORGANISMS: { id: Organism; label: string; note: string }[] = [
+  { id: 'mammalian', label: 'Mammalian', note: 'rabbit reticulocytes, in vitro' },
+  { id: 'yeast', label: 'Yeast', note: 'S. cerevisiae, in vivo' },
+  { id: 'ecoli', label: 'E. coli', note: 'in vivo' },
+];
+
+const h = (hours: number, atLeast = false): HalfLife => ({ hours, atLeast });
+const min = (minutes: number): HalfLife => ({ hours: minutes / 60, atLeast: false });
+
+// Half-lives of test proteins by N-terminal residue (Bachmair, Finley & Varshavsky, 1986; Gonda et al., 1989), as used by ProtParam
+export const N_END_RULE: Record<string, Record<Organism, HalfLife | null>> = {
+  A: { mammalian: h(4.4), yeast: h(20, true), ecoli: h(10, true) },
+  R: { mammalian: h(1), yeast: min(2), ecoli: min(2) },
+  N: { mammalian: h(1.4), yeast: min(3), ecoli: h(10, true) },
+  D: { mammalian: h(1.1), yeast: min(3), ecoli: h(10, true) },
+  C: { mammalian: h(1.2), yeast: h(20, true), ecoli: h(10, true) },
+  Q: { mammalian: h(0.8), yeast: min(10), ecoli: h(10, true) },
+  E: { mammalian: h(1), yeast: min(30), ecoli: h(10, true) },
+  G: { mammalian: h(30), yeast: h(20, true), ecoli: h(10, true) },
+  H: { mammalian: h(3.5), yeast: min(10), ecoli: h(10, true) },
+  I: { mammalian: h(20), yeast: min(30), ecoli: h(10, true) },
+  L: { mammalian: h(5.5), yeast: min(3), ecoli: min(2) },
+  K: { mammalian: h(1.3), yeast: min(3), ecoli: min(2) },
+  M: { mammalian: h(30), yeast: h(20, true), ecoli: h(10, true) },
+  F: { mammalian: h(1.1), yeast: min(3), ecoli: min(2) },
+  P: { mammalian: h(20, true), yeast: h(20, true), ecoli: null },
+  S: { mammalian: h(1.9), yeast: h(20, true), ecoli: h(10, true) },
+  T: { mammalian: h(7.2), yeast: h(20, true), ecoli: h(10, true) },
+  W: { mammalian: h(2.8), yeast: min(3), ecoli: min(2) },
+  Y: { mammalian: h(2.8), yeast: min(10), ecoli: min(2) },
+  V: { mammalian: h(100), yeast: h(20, true), ecoli: h(10, true) },
+};
+
+// Mammalian N-degrons: basic and bulky residues are bound by UBR E3s directly; the others are first modified
+export const N_END_CLASSES: Record<NEndClass, { label: string; residues: string; description: string }> = {
+  primary: {
+    label: 'Primary destabilising',
+    residues: 'RKHLFWYI',
+    description: 'Bound directly by the UBR-box E3 ligases: basic R, K, H or bulky hydrophobic L, F, W, Y, I.',
+  },
+  secondary: {
+    label: 'Secondary destabilising',
+    residues: 'DE',
+    description: 'Arginyl-tRNA transferase (ATE1) adds an arginine to the N-terminus, which the E3 then recognises.',
+  },
+  tertiary: {
+    label: 'Tertiary destabilising',
+    residues: 'NQC',
+    description: 'Asn and Gln are deamidated to Asp and Glu, and Cys is oxidised, before being arginylated.',
+  },
+  stabilising: {
+    label: 'Stabilising',
+    residues: 'MGAVSTP',
+    description: 'No N-end rule E3 recognises this N-terminus, so the protein must be marked for destruction another way.',
+  },
+};
+
+// Methionine aminopeptidase removes Met1 when the next residue is small enough to fit its pocket
+const METAP_SUBSTRATES = 'ACGPSTV';
+
+// The proteasome needs a chain of at least four K48-linked ubiquitins to grab a substrate
+export const MIN_UBIQUITIN_CHAIN = 4;
+
+// Proteasome products are mostly 3-25 residues long; cuts fall after acidic, basic and hydrophobic residues
+const MIN_PEPTIDE = 4;
+const MAX_PEPTIDE = 14;
+const CUT_AFTER = 'DEKRFYWL';
+
+export const DEGRADATION_STAGES: { id: DegradationStage; label: string; description: string }[] = [
+  {
+    id: 'e1',
+    label: 'E1 activates',
+    description:
+      'The ubiquitin-activating enzyme E1 uses ATP to attach ubiquitin, a 76-residue protein, to one of its own ' +
+      'cysteines by a high-energy thioester bond.',
+  },
+  {
+    id: 'e2',
+    label: 'E2 carries',
+    description: 'The ubiquitin is handed on to a cysteine of a ubiquitin-conjugating enzyme, E2.',
+  },
+  {
+    id: 'e3',
+    label: 'E3 tags',
+    description:
+      'A ubiquitin ligase, E3, recognises a degron on the target — such as a destabilising N-terminal residue — ' +
+      'and brings the E2 close so the ubiquitin is joined to a lysine of the target.',
+  },
+  {
+    id: 'chain',
+    label: 'Chain grows',
+    description:
+      `More ubiquitins are added, each to lysine 48 of the one before, building a polyubiquitin chain. A chain of ` +
+      `${MIN_UBIQUITIN_CHAIN} or more is the signal for destruction.`,
+  },
+  {
+    id: 'recognition',
+    label: 'Proteasome binds',
+    description:
+      'Ubiquitin receptors in the 19S regulatory cap of the 26S proteasome bind the chain. Deubiquitinases then ' +
+      'clip the ubiquitins off so they can be reused.',
+  },
+  {
+    id: 'unfolding',
+    label: 'Unfolding',
+    description:
+      'A ring of six ATPases in the cap pulls the protein apart and threads the unfolded chain into the narrow ' +
+      'channel of the 20S core.',
+  },
+  {
+    id: 'cleavage',
+    label: 'Cleavage',
+    description:
+      'Inside the core, threonine proteases cut the chain after acidic, basic and hydrophobic residues. Short ' +
+      'peptides come out, to be broken down to amino acids by peptidases or shown to the immune system on MHC class I.',
+  },
+];
+
+/**
+ * The N-terminal residue left after methionine aminopeptidase has acted
+ */
+export const matureNTerminus = (protein: string): { residue: string; metRemoved: boolean } =>
+  protein[0] === 'M' && protein.length > 1 && METAP_SUBSTRATES.includes(protein[1])
+    ? { residue: protein[1], metRemoved: true }
+    : { residue: protein[0] ?? 'M', metRemoved: false };
+
+/**
+ * N-end rule class of an N-terminal residue
+ */
+export const nEndClass = (residue: string): NEndClass =>
+  (['primary', 'secondary', 'tertiary'] as NEndClass[]).find(key => N_END_CLASSES[key].residues.includes(residue)) ??
+  'stabilising';
+
+/**
+ * Half-life predicted by the N-end rule from a protein's N-terminus, optionally forcing the exposed residue
+ */
+export const estimateHalfLife = (protein: string, organism: Organism, exposed?: string): HalfLifeEstimate => {
+  const terminus = exposed ? { residue: exposed, metRemoved: false } : matureNTerminus(protein);
+  return {
+    ...terminus,
+    halfLife: N_END_RULE[terminus.residue]?.[organism] ?? null,
+    nEndClass: nEndClass(terminus.residue),
+  };
+};
+
+/**
+ * A half-life as ProtParam writes it: minutes below an hour, '>' when the protein outlasted the experiment
+ */
+export const formatHalfLife = (halfLife: HalfLife | null): string => {
+  if (!halfLife) return 'unknown';
+  const value = halfLife.hours < 1 ? `${Math.round(halfLife.hours * 60)} min` : `${halfLife.hours} h`;
+  return halfLife.atLeast ? `>${value}` : value;
+};
+
+/**
+ * 0-based index of the lysine an E3 would tag: the first one after the N-terminus
+ */
+export const ubiquitinationSite = (protein: string): number | null => {
+  const site = protein.indexOf('K', 1);
+  return site === -1 ? null : site;
+};
+
+/**
+ * Cut a chain into proteasome-sized peptides, after acidic, basic or hydrophobic residues
+ */
+export const proteasomeDigest = (protein: string): string[] => {
+  const peptides: string[] = [];
+  let current = '';
+  protein.split('').forEach(residue => {
+    current += residue;
+    if ((current.length >= MIN_PEPTIDE && CUT_AFTER.includes(residue)) || current.length >= MAX_PEPTIDE) {
+      peptides.push(current);
+      current = '';
+    }
+  });
+  // A short tail stays on the last peptide
+  if (current) {
+    if (current.length < MIN_PEPTIDE && peptides.length > 0) peptides[peptides.length - 1] += current;
+    else peptides.push(current);
+  }
+  return peptides;
+};
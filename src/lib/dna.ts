@@ -0,0 +1,77 @@
+export type DNABase = 'A' | 'T' | 'G' | 'C';
+
+// IUPAC nucleotide codes and the bases each one stands for
+export const IUPAC_CODES: Record<string, string> = {
+  A: 'A', C: 'C', G: 'G', T: 'T',
+  R: 'AG', Y: 'CT', S: 'CG', W: 'AT', K: 'GT', M: 'AC',
+  B: 'CGT', D: 'AGT', H: 'ACT', V: 'ACG', N: 'ACGT',
+};
+
+const IUPAC_COMPLEMENT: Record<string, string> = {
+  A: 'T', T: 'A', G: 'C', C: 'G', R: 'Y', Y: 'R', S: 'S', W: 'W',
+  K: 'M', M: 'K', B: 'V', V: 'B', D: 'H', H: 'D', N: 'N',
+};
+
+/**
+ * Convert user input (any case, RNA or DNA, with spaces or numbering) into a clean DNA string.
+ * IUPAC ambiguity codes such as N are kept, so positions still match the source.
+ */
+export const normalizeDNA = (sequence: string): string =>
+  sequence.toUpperCase().replace(/U/g, 'T').replace(/[^ACGTRYSWKMBDHVN]/g, '');
+
+/**
+ * Base-by-base complement, keeping the same left-to-right order; ambiguity codes map to their IUPAC complement
+ */
+export const complementDNA = (sequence: string): string =>
+  sequence.split('').map(base => IUPAC_COMPLEMENT[base] ?? 'N').join('');
+
+/**
+ * Reverse complement: the opposite strand read in its own 5'→3' direction
+ */
+export const reverseComplement = (sequence: string): string =>
+  complementDNA(sequence).split('').reverse().join('');
+
+/**
+ * RNA base paired opposite a template-strand DNA base (A→U, T→A, G→C, C→G)
+ */
+export const pairRNABase = (templateBase: string): string => complementDNA(templateBase).replace('T', 'U');
+
+
+export interface MotifMatch {
+  start: number;  // 0-based on the forward strand, inclusive
+  end: number;    // exclusive
+  strand: '+' | '-';
+}
+
+/**
+ * Clean a search motif, keeping IUPAC codes (U read as T)
+ */
+export const normalizeMotif = (motif: string): string =>
+  motif.toUpperCase().replace(/U/g, 'T').replace(/[^ACGTRYSWKMBDHVN]/g, '');
+
+/**
+ * Reverse complement of a motif that may contain IUPAC codes
+ */
+export const reverseComplementMotif = (motif: string): string =>
+  motif.split('').reverse().map(code => IUPAC_COMPLEMENT[code] ?? 'N').join('');
+
+const motifPattern = (motif: string) =>
+  new RegExp(`(?=(${motif.split('').map(code => `[${IUPAC_CODES[code]}]`).join('')}))`, 'g');
+
+/**
+ * Every place a motif occurs on either strand, overlapping matches included. A palindromic
+ * motif such as the EcoRI site GAATTC is reported once, on the forward strand.
+ */
+export const findMotif = (dna: string, motif: string): MotifMatch[] => {
+  const query = normalizeMotif(motif);
+  if (query.length === 0) return [];
+
+  const reverse = reverseComplementMotif(query);
+  const strands: ['+' | '-', string][] = reverse === query ? [['+', query]] : [['+', query], ['-', reverse]];
+
+  return strands
+    .flatMap(([strand, pattern]) =>
+      [...dna.matchAll(motifPattern(pattern))].map(match => ({ start: match.index ?? 0, end: (match.index ?? 0) + query.length, strand }))
+    )
+    .sort((a, b) => a.start - b.start);
+};
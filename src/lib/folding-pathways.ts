@@ -0,0 +1,132 @@
+import { createRandom } from '@/lib/random';
+
+export type FoldingState = 'unfolded' | 'native' | 'misfolded' | 'chaperone' | 'aggregated';
+
+export interface FoldingConditions {
+  temperature: number; // °C
+  crowding: number;    // fraction of the volume taken up by other macromolecules (the cytoplasm is ~0.3)
+  chaperones: boolean; // Hsp70 / GroEL available to catch misfolded chains
+}
+
+export interface FoldingOptions {
+  chains?: number;
+  steps?: number;
+  seed?: number;
+}
+
+export interface FoldingProbabilities {
+  fold: number;      // unfolded → native, per step
+  misfold: number;   // unfolded → misfolded
+  unfold: number;    // native → unfolded (heat denaturation)
+  recover: number;   // misfolded → unfolded on its own, slowly
+  aggregate: number; // misfolded → aggregated, before seeding by existing aggregates
+  capture: number;   // misfolded → chaperone
+  release: number;   // chaperone → unfolded, for another try
+}
+
+export type FoldingCounts = Record<FoldingState, number>;
+
+export interface FoldingSimulation {
+  states: FoldingState[][]; // states[step][chain]
+  counts: (FoldingCounts & { step: number })[];
+  probabilities: FoldingProbabilities;
+}
+
+export const FOLDING_STATES: FoldingState[] = ['unfolded', 'native', 'misfolded', 'chaperone', 'aggregated'];
+
+export const FOLDING_STATE_COLORS: Record<FoldingState, string> = {
+  unfolded: '#94A3B8',
+  native: '#22C55E',
+  misfolded: '#F59E0B',
+  chaperone: '#0EA5E9',
+  aggregated: '#E11D48',
+};
+
+export const DEFAULT_FOLDING_CONDITIONS: FoldingConditions = {
+  temperature: 37,
+  crowding: 0.3,
+  chaperones: true,
+};
+
+// Heat-shock response in E. coli and human cells starts around 42 °C; the model protein melts near 52 °C
+const MISFOLD_MIDPOINT = 42;
+const MELTING_TEMPERATURE = 52;
+
+// A GroEL ring holds one chain at a time, and a cell has only so many; heat shock can overwhelm them
+export const CHAPERONE_CAPACITY = 4;
+
+// Every aggregate is a seed that speeds up the next chain joining it, as amyloid fibrils do
+const SEEDING = 4;
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Per-step chances of each transition: heat raises misfolding and unfolding, crowding pushes chains
+ * together (a little more folding, much more aggregation) and chaperones catch what misfolds
+ */
+export const foldingProbabilities = ({ temperature, crowding, chaperones }: FoldingConditions): FoldingProbabilities => ({
+  fold: 0.25 * (1 + crowding) * (1 - logistic((temperature - MELTING_TEMPERATURE) / 2)),
+  misfold: 0.04 + 0.35 * logistic((temperature - MISFOLD_MIDPOINT) / 2.5),
+  unfold: 0.3 * logistic((temperature - MELTING_TEMPERATURE) / 2.5),
+  recover: 0.1,
+  aggregate: Math.min(0.9, 0.03 * Math.exp(6 * crowding)),
+  capture: chaperones ? 0.5 : 0,
+  release: 0.3,
+});
+
+/**
+ * Follow a population of newly made chains step by step: each may fold, misfold, be caught and
+ * released by a chaperone for another try, or join an aggregate, which it never leaves
+ */
+export const simulateFolding = (
+  conditions: FoldingConditions,
+  { chains = 24, steps = 60, seed = 1 }: FoldingOptions = {}
+): FoldingSimulation => {
+  const random = createRandom(seed);
+  const probabilities = foldingProbabilities(conditions);
+  const { fold, misfold, unfold, recover, aggregate, capture, release } = probabilities;
+
+  let current: FoldingState[] = new Array(chains).fill('unfolded');
+  const states = [current];
+
+  for (let step = 1; step <= steps; step++) {
+    const aggregated = current.filter(state => state === 'aggregated').length;
+    let held = current.filter(state => state === 'chaperone').length;
+    const seeded = Math.min(0.95, aggregate * (1 + (SEEDING * aggregated) / chains));
+
+    current = current.map(state => {
+      const roll = random();
+      switch (state) {
+        case 'unfolded':
+          return roll < fold ? 'native' : roll < fold + misfold ? 'misfolded' : 'unfolded';
+        case 'native':
+          return roll < unfold ? 'unfolded' : 'native';
+        case 'misfolded':
+          // A chaperone only helps if one is free; otherwise the chain takes its chances
+          if (roll < capture) {
+            if (held < CHAPERONE_CAPACITY) {
+              held++;
+              return 'chaperone';
+            }
+          } else if (roll < capture + recover) {
+            return 'unfolded';
+          }
+          return random() < seeded ? 'aggregated' : 'misfolded';
+        case 'chaperone':
+          return roll < release ? 'unfolded' : 'chaperone';
+        default:
+          return state;
+      }
+    });
+    states.push(current);
+  }
+
+  const counts = states.map((snapshot, step) => ({
+    step,
+    ...(Object.fromEntries(
+      FOLDING_STATES.map(state => [state, snapshot.filter(chain => chain === state).length])
+    ) as FoldingCounts),
+  }));
+
+  return { states, counts, probabilities };
+};
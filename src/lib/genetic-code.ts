@@ -0,0 +1,210 @@
+import { getTranslationTable, STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+export type RNABase = 'A' | 'U' | 'G' | 'C';
+
+// Same categories the 3D models use to colour residues
+export type AminoAcidProperty = 'hydrophobic' | 'hydrophilic' | 'positive' | 'negative' | 'special';
+
+export interface AminoAcid {
+  oneLetter: string;
+  threeLetter: string;
+  name: string;
+  property: AminoAcidProperty;
+}
+
+export interface CodonDecoder {
+  anticodon: string; // 3'→5' under the codon; the last base is the wobble position, I for inosine
+  pairing: 'watson-crick' | 'wobble';
+  reads: string[];   // every codon this anticodon can pair with
+}
+
+export interface DecodedCodon {
+  codon: string;
+  position: number; // 0-based index of the first base in the mRNA
+  aminoAcid: AminoAcid;
+  isStart: boolean;
+  isStop: boolean;
+}
+
+export const RNA_BASES: RNABase[] = ['U', 'C', 'A', 'G'];
+
+export const START_CODON = 'AUG';
+
+// Stop codons of the standard code; other translation tables reassign some of these
+export const STOP_CODONS = ['UAA', 'UAG', 'UGA'];
+
+export const AMINO_ACIDS: Record<string, AminoAcid> = {
+  A: { oneLetter: 'A', threeLetter: 'Ala', name: 'Alanine', property: 'hydrophobic' },
+  R: { oneLetter: 'R', threeLetter: 'Arg', name: 'Arginine', property: 'positive' },
+  N: { oneLetter: 'N', threeLetter: 'Asn', name: 'Asparagine', property: 'hydrophilic' },
+  D: { oneLetter: 'D', threeLetter: 'Asp', name: 'Aspartic acid', property: 'negative' },
+  C: { oneLetter: 'C', threeLetter: 'Cys', name: 'Cysteine', property: 'special' },
+  Q: { oneLetter: 'Q', threeLetter: 'Gln', name: 'Glutamine', property: 'hydrophilic' },
+  E: { oneLetter: 'E', threeLetter: 'Glu', name: 'Glutamic acid', property: 'negative' },
+  G: { oneLetter: 'G', threeLetter: 'Gly', name: 'Glycine', property: 'special' },
+  H: { oneLetter: 'H', threeLetter: 'His', name: 'Histidine', property: 'positive' },
+  I: { oneLetter: 'I', threeLetter: 'Ile', name: 'Isoleucine', property: 'hydrophobic' },
+  L: { oneLetter: 'L', threeLetter: 'Leu', name: 'Leucine', property: 'hydrophobic' },
+  K: { oneLetter: 'K', threeLetter: 'Lys', name: 'Lysine', property: 'positive' },
+  M: { oneLetter: 'M', threeLetter: 'Met', name: 'Methionine', property: 'hydrophobic' },
+  F: { oneLetter: 'F', threeLetter: 'Phe', name: 'Phenylalanine', property: 'hydrophobic' },
+  P: { oneLetter: 'P', threeLetter: 'Pro', name: 'Proline', property: 'special' },
+  S: { oneLetter: 'S', threeLetter: 'Ser', name: 'Serine', property: 'hydrophilic' },
+  T: { oneLetter: 'T', threeLetter: 'Thr', name: 'Threonine', property: 'hydrophilic' },
+  W: { oneLetter: 'W', threeLetter: 'Trp', name: 'Tryptophan', property: 'hydrophobic' },
+  Y: { oneLetter: 'Y', threeLetter: 'Tyr', name: 'Tyrosine', property: 'hydrophilic' },
+  V: { oneLetter: 'V', threeLetter: 'Val', name: 'Valine', property: 'hydrophobic' },
+  '*': { oneLetter: '*', threeLetter: 'Stop', name: 'Stop', property: 'special' },
+  X: { oneLetter: 'X', threeLetter: 'Xaa', name: 'Unknown', property: 'special' },
+};
+
+// Standard code in NCBI order: first, second and third base each run U, C, A, G
+const STANDARD_AMINO_ACIDS = 'FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG';
+
+/**
+ * All 64 codons in the order used by NCBI translation tables
+ */
+export const ALL_CODONS: string[] = RNA_BASES.flatMap(first =>
+  RNA_BASES.flatMap(second => RNA_BASES.map(third => `${first}${second}${third}`))
+);
+
+/**
+ * Standard genetic code (NCBI table 1): mRNA codon to one-letter amino acid ('*' for stop)
+ */
+export const GENETIC_CODE: Record<string, string> = Object.fromEntries(
+  ALL_CODONS.map((codon, i) => [codon, STANDARD_AMINO_ACIDS[i]])
+);
+
+const codeCache = new Map<number, Record<string, string>>();
+
+/**
+ * Codon → amino acid map for an NCBI translation table, built from the standard code plus that table's changes
+ */
+export const getGeneticCode = (tableId = STANDARD_TABLE_ID): Record<string, string> => {
+  let code = codeCache.get(tableId);
+  if (!code) {
+    code = { ...GENETIC_CODE, ...getTranslationTable(tableId).changes };
+    codeCache.set(tableId, code);
+  }
+  return code;
+};
+
+const RNA_COMPLEMENT: Record<string, string> = { A: 'U', U: 'A', G: 'C', C: 'G' };
+
+/**
+ * Convert user input (DNA or RNA, any case, with spaces or numbers) into a clean mRNA string.
+ * IUPAC ambiguity codes such as N are kept, and codons containing them translate to 'X'.
+ */
+export const normalizeRNA = (sequence: string): string =>
+  sequence.toUpperCase().replace(/T/g, 'U').replace(/[^ACGURYSWKMBDHVN]/g, '');
+
+/**
+ * Split an mRNA into codons starting at the given reading frame (0, 1 or 2)
+ */
+export const splitCodons = (mrna: string, frame = 0): string[] => {
+  const codons: string[] = [];
+  for (let i = frame; i + 3 <= mrna.length; i += 3) {
+    codons.push(mrna.slice(i, i + 3));
+  }
+  return codons;
+};
+
+export const isStartCodon = (codon: string): boolean => codon === START_CODON;
+
+export const isStopCodon = (codon: string, tableId = STANDARD_TABLE_ID): boolean =>
+  getGeneticCode(tableId)[codon] === '*';
+
+/**
+ * Look up the amino acid for a codon; unreadable codons map to 'X'
+ */
+export const getAminoAcid = (codon: string, tableId = STANDARD_TABLE_ID): AminoAcid =>
+  AMINO_ACIDS[getGeneticCode(tableId)[codon] ?? 'X'];
+
+/**
+ * The tRNA anticodon that pairs with a codon, written 3'→5' so it lines up base-for-base under the codon
+ */
+export const getAnticodon = (codon: string): string =>
+  codon.split('').map(base => RNA_COMPLEMENT[base] ?? 'N').join('');
+
+// Crick's wobble rules: codon third bases that each first (5') anticodon base can pair with
+const WOBBLE_PAIRS: Record<string, string[]> = {
+  G: ['C', 'U'],
+  U: ['A', 'G'],
+  I: ['U', 'C', 'A'],
+  C: ['G'],
+  A: ['U'],
+};
+
+/**
+ * Every codon an anticodon (3'→5', wobble base last) can pair with under the wobble rules
+ */
+export const getCodonsRead = (anticodon: string): string[] => {
+  const paired = getAnticodon(anticodon.slice(0, 2));
+  const thirds = WOBBLE_PAIRS[anticodon[2]] ?? [];
+  return ALL_CODONS.filter(codon => codon.startsWith(paired) && thirds.includes(codon[2]));
+};
+
+/**
+ * Every anticodon that can read a codon under the wobble rules, the Watson-Crick partner first
+ */
+export const getDecoders = (codon: string): CodonDecoder[] => {
+  const paired = getAnticodon(codon.slice(0, 2));
+  return Object.entries(WOBBLE_PAIRS)
+    .filter(([, thirds]) => thirds.includes(codon[2]))
+    .map(([wobble]): CodonDecoder => ({
+      anticodon: `${paired}${wobble}`,
+      pairing: RNA_COMPLEMENT[codon[2]] === wobble ? 'watson-crick' : 'wobble',
+      reads: getCodonsRead(`${paired}${wobble}`),
+    }))
+    .sort((a, b) => Number(a.pairing === 'wobble') - Number(b.pairing === 'wobble'));
+};
+
+/**
+ * All codons that encode a given one-letter amino acid (or '*' for stop)
+ */
+export const getCodonsFor = (oneLetter: string, tableId = STANDARD_TABLE_ID): string[] =>
+  ALL_CODONS.filter(codon => getGeneticCode(tableId)[codon] === oneLetter);
+
+/**
+ * Translate an mRNA reading frame into a one-letter protein string.
+ * Stops at the first stop codon unless `readThrough` is set, in which case stops appear as '*'.
+ */
+export const translate = (
+  mrna: string,
+  frame = 0,
+  readThrough = false,
+  tableId = STANDARD_TABLE_ID
+): string => {
+  let protein = '';
+  for (const codon of splitCodons(mrna, frame)) {
+    const aminoAcid = getAminoAcid(codon, tableId);
+    if (aminoAcid.oneLetter === '*' && !readThrough) break;
+    protein += aminoAcid.oneLetter;
+  }
+  return protein;
+};
+
+/**
+ * Read an mRNA the way a ribosome does: scan from the 5' end to the first AUG,
+ * then decode codon by codon up to and including the first stop codon.
+ * Returns an empty list when there is no start codon.
+ */
+export const decodeMRNA = (mrna: string, tableId = STANDARD_TABLE_ID): DecodedCodon[] => {
+  const start = mrna.indexOf(START_CODON);
+  if (start === -1) return [];
+
+  const decoded: DecodedCodon[] = [];
+  for (let i = start; i + 3 <= mrna.length; i += 3) {
+    const codon = mrna.slice(i, i + 3);
+    const stop = isStopCodon(codon, tableId);
+    decoded.push({
+      codon,
+      position: i,
+      aminoAcid: getAminoAcid(codon, tableId),
+      isStart: i === start,
+      isStop: stop,
+    });
+    if (stop) break;
+  }
+  return decoded;
+};
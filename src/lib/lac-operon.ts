@@ -0,0 +1,71 @@
+export interface LacConditions {
+  lactose: boolean;
+  glucose: boolean;
+}
+
+// How well RNA polymerase can start at the lac promoter
+export type PolymeraseBinding = 'blocked' | 'weak' | 'strong';
+
+export interface LacOperonState {
+  allolactose: boolean;   // lactose is around, so some is turned into the inducer
+  repressorBound: boolean; // LacI sits on the operator
+  cAMPHigh: boolean;      // no glucose, so adenylate cyclase is active
+  capBound: boolean;      // CAP-cAMP sits on the CAP site
+  polymerase: PolymeraseBinding;
+  expression: number;     // transcription relative to the fully induced operon
+  summary: string;
+}
+
+export interface LacRegion {
+  id: string;
+  name: string;
+  length: number; // base pairs
+  role: string;
+  kind: 'regulatory' | 'gene';
+}
+
+// The operon from 5' to 3' on the coding strand, E. coli K-12
+export const LAC_REGIONS: LacRegion[] = [
+  { id: 'cap', name: 'CAP site', length: 22, role: 'CAP-cAMP binds here and helps RNA polymerase onto the promoter', kind: 'regulatory' },
+  { id: 'promoter', name: 'Promoter', length: 35, role: 'RNA polymerase binds here to start transcription; its −35 box is a poor match, so it needs CAP', kind: 'regulatory' },
+  { id: 'operator', name: 'Operator', length: 21, role: 'LacI binds here and blocks the polymerase', kind: 'regulatory' },
+  { id: 'lacZ', name: 'lacZ', length: 3075, role: 'β-galactosidase: splits lactose into glucose and galactose, and makes allolactose', kind: 'gene' },
+  { id: 'lacY', name: 'lacY', length: 1254, role: 'Lactose permease: pumps lactose into the cell', kind: 'gene' },
+  { id: 'lacA', name: 'lacA', length: 612, role: 'Galactoside acetyltransferase: acetylates galactosides the cell cannot use', kind: 'gene' },
+];
+
+export const LAC_CONDITIONS: LacConditions[] = [
+  { lactose: false, glucose: true },
+  { lactose: false, glucose: false },
+  { lactose: true, glucose: true },
+  { lactose: true, glucose: false },
+];
+
+// Approximate fold changes: the repressor cuts transcription ~1000-fold, CAP-cAMP raises it ~20-fold
+const REPRESSION = 0.001;
+const WITHOUT_CAP = 0.05;
+
+// Percent of full expression, with a decimal for the nearly silent states
+export const formatExpression = (expression: number): string =>
+  expression < 0.001 ? '<0.1%' : `${(expression * 100).toFixed(expression < 0.01 ? 1 : 0)}%`;
+
+/**
+ * The lac operon's response to the sugars around the cell: lactose (via allolactose) lifts the
+ * repressor, and only without glucose does cAMP rise high enough for CAP to recruit the polymerase
+ */
+export const lacOperonState = ({ lactose, glucose }: LacConditions): LacOperonState => {
+  const repressorBound = !lactose;
+  const capBound = !glucose;
+  const polymerase: PolymeraseBinding = repressorBound ? 'blocked' : capBound ? 'strong' : 'weak';
+  const expression = (repressorBound ? REPRESSION : 1) * (capBound ? 1 : WITHOUT_CAP);
+
+  const summary = repressorBound
+    ? capBound
+      ? 'No sugar: CAP-cAMP is ready, but the repressor still blocks the operator — the operon stays off'
+      : 'Glucose only: the repressor blocks the operator and CAP is off — the operon stays off'
+    : capBound
+      ? 'Lactose only: the repressor lets go and CAP-cAMP recruits RNA polymerase — the operon is fully on'
+      : 'Lactose and glucose: the repressor lets go, but without CAP the polymerase rarely binds — low output';
+
+  return { allolactose: lactose, repressorBound, cAMPHigh: !glucose, capBound, polymerase, expression, summary };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeMutation } from '@/lib/mutations';
+
+// 5' UTR, AUG GCU AAA GGU UAA (MAKG), then an in-frame GCU UGA in the 3' UTR
+const GENE = 'GCCATGGCTAAAGGTTAAGCTTGA';
+
+describe('analyzeMutation', () => {
+  it('classifies changes inside the ORF', () => {
+    expect(analyzeMutation(GENE, { kind: 'substitution', position: 16, bases: 'G' }).effect).toBe('silent');
+    expect(analyzeMutation(GENE, { kind: 'substitution', position: 6, bases: 'A' }).effect).toBe('missense');
+    expect(analyzeMutation(GENE, { kind: 'substitution', position: 9, bases: 'T' }).effect).toBe('nonsense');
+    expect(analyzeMutation(GENE, { kind: 'insertion', position: 7, bases: 'G' }).effect).toBe('frameshift');
+
+    const inFrame = analyzeMutation(GENE, { kind: 'deletion', position: 9, length: 3 });
+    expect(inFrame.effect).toBe('in-frame');
+    expect(inFrame.mutantProtein).toBe('MAG');
+  });
+
+  it('reports a deleted stop codon as stop-lost with the read-through protein', () => {
+    const result = analyzeMutation(GENE, { kind: 'deletion', position: 15, length: 3 });
+    expect(result.effect).toBe('stop-lost');
+    expect(result.mutantProtein).toBe('MAKGA');
+  });
+
+  it('reports stop-lost when the ribosome runs off the end of the mRNA', () => {
+    const result = analyzeMutation('GCCATGGCTAAAGGTTAA', { kind: 'deletion', position: 15, length: 3 });
+    expect(result.effect).toBe('stop-lost');
+    expect(result.mutantProtein).toBe('MAKG');
+  });
+
+  it('reports a sense codon in place of the stop as stop-lost', () => {
+    const result = analyzeMutation(GENE, { kind: 'substitution', position: 15, bases: 'C' });
+    expect(result.effect).toBe('stop-lost');
+    expect(result.mutantProtein).toBe('MAKGQA');
+  });
+
+  it('treats an insertion just before the AUG as upstream of the ORF', () => {
+    const result = analyzeMutation(GENE, { kind: 'insertion', position: 3, bases: 'G' });
+    expect(result.effect).toBe('non-coding');
+    expect(result.mutantProtein).toBe('MAKG');
+  });
+
+  it('reports a deletion that removes the AUG as start-lost, not frameshift', () => {
+    const result = analyzeMutation(GENE, { kind: 'deletion', position: 3, length: 2 });
+    expect(result.effect).toBe('start-lost');
+    expect(result.mutantProtein).toBe('');
+  });
+});
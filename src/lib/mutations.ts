@@ -0,0 +1,240 @@
+import { normalizeDNA } from '@/lib/dna';
+import { decodeMRNA, getAminoAcid, isStopCodon, START_CODON, translate, type AminoAcid } from '@/lib/genetic-code';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+export type MutationKind = 'substitution' | 'insertion' | 'deletion';
+
+export type MutationEffect =
+  | 'silent'
+  | 'missense'
+  | 'nonsense'
+  | 'frameshift'
+  | 'in-frame'     // insertion or deletion of whole codons
+  | 'start-lost'
+  | 'stop-lost'
+  | 'non-coding';  // outside the open reading frame
+
+export interface Mutation {
+  kind: MutationKind;
+  position: number; // 0-based index on the coding strand; insertions go before this base
+  bases?: string;   // new base(s) for substitutions and insertions
+  length?: number;  // number of bases removed by a deletion
+}
+
+export interface CodonChange {
+  index: number; // codon number within the ORF, 0-based
+  from: string;
+  to: string;
+  fromAminoAcid: AminoAcid;
+  toAminoAcid: AminoAcid;
+}
+
+export interface MutationResult {
+  wildType: string;        // coding-strand DNA
+  mutant: string;
+  wildTypeMrna: string;
+  mutantMrna: string;
+  alignedWildType: string; // mRNA with '-' where the mutant has extra bases
+  alignedMutant: string;   // mRNA with '-' where bases were deleted
+  wildTypeProtein: string;
+  mutantProtein: string;
+  orfStart: number;        // first base of the wild-type AUG, or -1
+  orfEnd: number;          // one past the wild-type stop codon (or the end of the sequence)
+  effect: MutationEffect;
+  codonChange: CodonChange | null; // for substitutions inside the ORF
+  firstChangedResidue: number;     // 0-based, or -1 when the proteins are identical
+}
+
+export const MUTATION_EFFECT_INFO: Record<MutationEffect, { label: string; description: string }> = {
+  silent: {
+    label: 'Silent',
+    description: 'The codon changes but still codes for the same amino acid, so the protein is unchanged.',
+  },
+  missense: {
+    label: 'Missense',
+    description: 'One amino acid is swapped for another. Depending on its properties the protein may still work, or may misfold.',
+  },
+  nonsense: {
+    label: 'Nonsense',
+    description: 'A stop codon appears early, so the ribosome releases a truncated protein.',
+  },
+  frameshift: {
+    label: 'Frameshift',
+    description: 'Adding or removing bases that are not a multiple of three shifts the reading frame, scrambling every codon downstream.',
+  },
+  'in-frame': {
+    label: 'In-frame indel',
+    description: 'Whole codons are added or removed; the rest of the protein is read in the original frame.',
+  },
+  'start-lost': {
+    label: 'Start lost',
+    description: 'The AUG start codon is destroyed, so the ribosome cannot begin translation here.',
+  },
+  'stop-lost': {
+    label: 'Stop lost',
+    description: 'The stop codon is destroyed, so the ribosome reads on into the untranslated region.',
+  },
+  'non-coding': {
+    label: 'Non-coding',
+    description: 'The change lies outside the open reading frame, so the protein sequence is not affected.',
+  },
+};
+
+const toRNA = (dna: string) => dna.replace(/T/g, 'U');
+
+/**
+ * Apply a substitution, insertion or deletion to a coding-strand DNA sequence
+ */
+export const applyMutation = (dna: string, mutation: Mutation): string => {
+  const bases = normalizeDNA(mutation.bases ?? '');
+  const { position } = mutation;
+
+  switch (mutation.kind) {
+    case 'substitution':
+      return dna.slice(0, position) + bases + dna.slice(position + bases.length);
+    case 'insertion':
+      return dna.slice(0, position) + bases + dna.slice(position);
+    case 'deletion':
+      return dna.slice(0, position) + dna.slice(position + (mutation.length ?? 1));
+  }
+};
+
+/**
+ * Compare a gene before and after a mutation: mRNA and protein side by side, and the kind of change
+ */
+export const analyzeMutation = (
+  input: string,
+  mutation: Mutation,
+  tableId = STANDARD_TABLE_ID
+): MutationResult => {
+  const wildType = normalizeDNA(input);
+  const mutant = applyMutation(wildType, mutation);
+  const wildTypeMrna = toRNA(wildType);
+  const mutantMrna = toRNA(mutant);
+
+  const inserted = mutation.kind === 'insertion' ? normalizeDNA(mutation.bases ?? '').length : 0;
+  const deleted = mutation.kind === 'deletion' ? mutation.length ?? 1 : 0;
+  const changed = mutation.kind === 'substitution' ? normalizeDNA(mutation.bases ?? '').length : 0;
+
+  const alignedWildType = mutation.kind === 'insertion'
+    ? wildTypeMrna.slice(0, mutation.position) + '-'.repeat(inserted) + wildTypeMrna.slice(mutation.position)
+    : wildTypeMrna;
+  const alignedMutant = mutation.kind === 'deletion'
+    ? wildTypeMrna.slice(0, mutation.position) + '-'.repeat(deleted) + wildTypeMrna.slice(mutation.position + deleted)
+    : mutantMrna;
+
+  // Both proteins are read from the wild-type start codon, as the ribosome would
+  const decoded = decodeMRNA(wildTypeMrna, tableId);
+  const orfStart = decoded.length > 0 ? decoded[0].position : -1;
+  const orfEnd = decoded.length > 0 ? decoded[decoded.length - 1].position + 3 : -1;
+  const wildTypeStopped = decoded.length > 0 && decoded[decoded.length - 1].isStop;
+
+  // Changes wholly before the AUG, including an insertion right before its A, only move the start codon
+  const touched = Math.max(changed, deleted, 1);
+  const upstream = orfStart !== -1 &&
+    (mutation.kind === 'insertion' ? mutation.position <= orfStart : mutation.position + touched <= orfStart);
+  const mutantOrfStart = upstream ? orfStart + inserted - deleted : orfStart;
+  const insideOrf = orfStart !== -1 && !upstream && mutation.position < orfEnd;
+
+  const startKept = orfStart !== -1 && mutantMrna.slice(mutantOrfStart, mutantOrfStart + 3) === START_CODON;
+  const wildTypeProtein = orfStart === -1 ? '' : translate(wildTypeMrna.slice(orfStart), 0, false, tableId);
+  const mutantProtein = startKept ? translate(mutantMrna.slice(mutantOrfStart), 0, false, tableId) : '';
+
+  let firstChangedResidue = -1;
+  for (let i = 0; i < Math.max(wildTypeProtein.length, mutantProtein.length); i++) {
+    if (wildTypeProtein[i] !== mutantProtein[i]) {
+      firstChangedResidue = i;
+      break;
+    }
+  }
+
+  let codonChange: CodonChange | null = null;
+  if (insideOrf && mutation.kind === 'substitution') {
+    const index = Math.floor((Math.max(mutation.position, orfStart) - orfStart) / 3);
+    const codonStart = orfStart + index * 3;
+    const from = wildTypeMrna.slice(codonStart, codonStart + 3);
+    const to = mutantMrna.slice(codonStart, codonStart + 3);
+    codonChange = {
+      index,
+      from,
+      to,
+      fromAminoAcid: getAminoAcid(from, tableId),
+      toAminoAcid: getAminoAcid(to, tableId),
+    };
+  }
+
+  // A premature stop counts as nonsense when the stop codon itself overlaps the mutation
+  const mutantStop = mutantOrfStart + mutantProtein.length * 3;
+  const stopAtMutation =
+    mutantStop + 3 > mutation.position && mutantStop <= mutation.position + Math.max(inserted, changed);
+
+  // The stop is lost when the ribosome runs off the end, or reads on past where an in-frame change would stop
+  const mutantStopped = isStopCodon(mutantMrna.slice(mutantStop, mutantStop + 3), tableId);
+  const stopLost = wildTypeStopped && startKept && (
+    (!mutantStopped && mutantProtein.startsWith(wildTypeProtein)) ||
+    mutantProtein.length > wildTypeProtein.length + (inserted - deleted) / 3
+  );
+
+  let effect: MutationEffect;
+  if (!insideOrf) {
+    effect = 'non-coding';
+  } else if (!startKept) {
+    effect = 'start-lost';
+  } else if ((inserted - deleted) % 3 !== 0) {
+    effect = 'frameshift';
+  } else if (stopLost) {
+    effect = 'stop-lost';
+  } else if (mutantProtein === wildTypeProtein) {
+    effect = 'silent';
+  } else if (mutantProtein.length < wildTypeProtein.length && stopAtMutation) {
+    effect = 'nonsense';
+  } else {
+    effect = mutation.kind === 'substitution' ? 'missense' : 'in-frame';
+  }
+
+  return {
+    wildType,
+    mutant,
+    wildTypeMrna,
+    mutantMrna,
+    alignedWildType,
+    alignedMutant,
+    wildTypeProtein,
+    mutantProtein,
+    orfStart,
+    orfEnd,
+    effect,
+    codonChange,
+    firstChangedResidue,
+  };
+};
+
+/**
+ * Find the first single-base change in the ORF that has the requested effect, for "show me" examples
+ */
+export const findExampleMutation = (
+  input: string,
+  effect: 'silent' | 'missense' | 'nonsense' | 'frameshift',
+  tableId = STANDARD_TABLE_ID
+): Mutation | null => {
+  const dna = normalizeDNA(input);
+  const decoded = decodeMRNA(toRNA(dna), tableId);
+  if (decoded.length === 0) return null;
+
+  // Skip the start codon so the example changes the protein body
+  const from = decoded[0].position + 3;
+  const to = decoded[decoded.length - 1].position;
+
+  if (effect === 'frameshift') {
+    return from < to ? { kind: 'insertion', position: from + 1, bases: 'A' } : null;
+  }
+
+  for (let position = from; position < to; position++) {
+    for (const base of ['A', 'C', 'G', 'T']) {
+      if (base === dna[position]) continue;
+      const mutation: Mutation = { kind: 'substitution', position, bases: base };
+      if (analyzeMutation(dna, mutation, tableId).effect === effect) return mutation;
+    }
+  }
+  return null;
+};
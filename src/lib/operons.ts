@@ -0,0 +1,78 @@
+import { START_CODON, translate } from '@/lib/genetic-code';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+export interface ShineDalgarno {
+  start: number;   // transcript index, inclusive
+  end: number;     // transcript index, exclusive
+  sequence: string;
+  spacing: number; // bases between the end of the site and the start codon
+}
+
+export interface Cistron {
+  start: number; // transcript index of the AUG
+  end: number;   // one past the stop codon
+  protein: string;
+  shineDalgarno: ShineDalgarno | null;
+}
+
+// Consensus ribosome binding site, complementary to the 3' end of 16S rRNA (3'-AUUCCUCC-5')
+const SHINE_DALGARNO_CONSENSUS = 'AGGAGG';
+
+// Shorter matches still pair with the rRNA, but anything under four bases is noise
+const MIN_SHINE_DALGARNO = 4;
+
+// The site sits 5–13 nt upstream of the start codon in E. coli; ~7 nt pairs best
+const MIN_SPACING = 5;
+const MAX_SPACING = 13;
+const OPTIMAL_SPACING = 7;
+
+// Shorter open reading frames in a transcript are treated as chance AUGs, not genes
+const MIN_CISTRON_CODONS = 5;
+
+/**
+ * Find the Shine-Dalgarno site for the start codon at `startCodon`: the longest run of the AGGAGG
+ * consensus in the spacing window, nearest the optimal spacing on a tie
+ */
+export const findShineDalgarno = (mrna: string, startCodon: number): ShineDalgarno | null => {
+  for (let length = SHINE_DALGARNO_CONSENSUS.length; length >= MIN_SHINE_DALGARNO; length--) {
+    let best: ShineDalgarno | null = null;
+
+    for (let offset = 0; offset + length <= SHINE_DALGARNO_CONSENSUS.length; offset++) {
+      const core = SHINE_DALGARNO_CONSENSUS.slice(offset, offset + length);
+      for (let spacing = MIN_SPACING; spacing <= MAX_SPACING; spacing++) {
+        const end = startCodon - spacing;
+        const start = end - length;
+        if (start < 0 || mrna.slice(start, end) !== core) continue;
+
+        if (!best || Math.abs(spacing - OPTIMAL_SPACING) < Math.abs(best.spacing - OPTIMAL_SPACING)) {
+          best = { start, end, sequence: core, spacing };
+        }
+      }
+    }
+    if (best) return best;
+  }
+  return null;
+};
+
+/**
+ * Split a bacterial transcript into its genes: each AUG → stop reading frame, scanning on from the
+ * previous stop codon, with the Shine-Dalgarno site that lets a ribosome start there.
+ * An operon's polycistronic mRNA yields several; reading frames that run off the end are skipped.
+ */
+export const findCistrons = (mrna: string, tableId = STANDARD_TABLE_ID): Cistron[] => {
+  const cistrons: Cistron[] = [];
+  let cursor = mrna.indexOf(START_CODON);
+
+  while (cursor !== -1) {
+    const protein = translate(mrna.slice(cursor), 0, false, tableId);
+    const end = cursor + protein.length * 3 + 3;
+
+    if (end <= mrna.length && protein.length >= MIN_CISTRON_CODONS) {
+      cistrons.push({ start: cursor, end, protein, shineDalgarno: findShineDalgarno(mrna, cursor) });
+      cursor = mrna.indexOf(START_CODON, end);
+    } else {
+      cursor = mrna.indexOf(START_CODON, cursor + 1);
+    }
+  }
+  return cistrons;
+};
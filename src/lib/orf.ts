@@ -0,0 +1,103 @@
+import { normalizeDNA, reverseComplement } from '@/lib/dna';
+import { isStopCodon, START_CODON, translate } from '@/lib/genetic-code';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+export type Strand = '+' | '-';
+
+export interface ReadingFrame {
+  label: string;    // '+1', '+2', '+3', '-1', '-2', '-3'
+  strand: Strand;
+  frame: number;    // 0, 1 or 2 codon offset from the 5' end of that strand
+  protein: string;  // every codon translated, stops shown as '*'
+}
+
+export interface OpenReadingFrame {
+  id: string;
+  frameLabel: string;
+  strand: Strand;
+  frame: number;
+  start: number;    // base offset of the A of AUG on its own strand (0-based)
+  end: number;      // one past the last base of the stop codon on its own strand
+  forwardStart: number; // the same span in input coordinates (0-based, inclusive)
+  forwardEnd: number;   // the same span in input coordinates (exclusive)
+  dna: string;      // ORF on its own strand, 5'→3', stop codon included
+  protein: string;  // translated ORF without the stop
+}
+
+const toRNA = (dna: string) => dna.replace(/T/g, 'U');
+
+const strandSequence = (dna: string, strand: Strand) =>
+  strand === '+' ? dna : reverseComplement(dna);
+
+/**
+ * Translate all six reading frames: three on the given strand, three on its reverse complement
+ */
+export const getReadingFrames = (input: string, tableId = STANDARD_TABLE_ID): ReadingFrame[] => {
+  const dna = normalizeDNA(input);
+  const frames: ReadingFrame[] = [];
+
+  (['+', '-'] as Strand[]).forEach(strand => {
+    const rna = toRNA(strandSequence(dna, strand));
+    for (let frame = 0; frame < 3; frame++) {
+      frames.push({
+        label: `${strand}${frame + 1}`,
+        strand,
+        frame,
+        protein: translate(rna, frame, true, tableId),
+      });
+    }
+  });
+
+  return frames;
+};
+
+/**
+ * Find every AUG → stop open reading frame in all six frames.
+ * Only the outermost AUG is kept for each stop codon, and ORFs that run off the end without a stop are ignored.
+ */
+export const findORFs = (
+  input: string,
+  minAminoAcids = 0,
+  tableId = STANDARD_TABLE_ID
+): OpenReadingFrame[] => {
+  const dna = normalizeDNA(input);
+  const orfs: OpenReadingFrame[] = [];
+
+  (['+', '-'] as Strand[]).forEach(strand => {
+    const strandDna = strandSequence(dna, strand);
+    const rna = toRNA(strandDna);
+
+    for (let frame = 0; frame < 3; frame++) {
+      let openStart = -1;
+
+      for (let i = frame; i + 3 <= rna.length; i += 3) {
+        const codon = rna.slice(i, i + 3);
+
+        if (openStart === -1 && codon === START_CODON) {
+          openStart = i;
+        } else if (openStart !== -1 && isStopCodon(codon, tableId)) {
+          const end = i + 3;
+          const protein = translate(rna.slice(openStart, end), 0, false, tableId);
+
+          if (protein.length >= minAminoAcids) {
+            orfs.push({
+              id: `${strand}${frame + 1}:${openStart}`,
+              frameLabel: `${strand}${frame + 1}`,
+              strand,
+              frame,
+              start: openStart,
+              end,
+              forwardStart: strand === '+' ? openStart : dna.length - end,
+              forwardEnd: strand === '+' ? end : dna.length - openStart,
+              dna: strandDna.slice(openStart, end),
+              protein,
+            });
+          }
+          openStart = -1;
+        }
+      }
+    }
+  });
+
+  return orfs.sort((a, b) => b.protein.length - a.protein.length);
+};
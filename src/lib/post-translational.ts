@@ -0,0 +1,109 @@
+import { molecularWeight, netCharge } from '@/lib/protein-properties';
+
+export type ModificationType = 'phosphorylation' | 'glycosylation' | 'disulfide';
+
+export interface Modification {
+  type: ModificationType;
+  position: number; // 0-based residue index
+  partner?: number; // the other cysteine of a disulfide bridge
+}
+
+export interface ModificationInfo {
+  label: string;
+  residues: string;   // which residues can carry it
+  color: string;
+  massShift: number;  // Da per site (per bridge for disulfides)
+  enzyme: string;
+  effect: string;
+}
+
+export const MODIFICATION_INFO: Record<ModificationType, ModificationInfo> = {
+  phosphorylation: {
+    label: 'Phosphorylation',
+    residues: 'Ser, Thr or Tyr',
+    color: '#F97316',
+    massShift: 79.966, // HPO3
+    enzyme: 'Kinases add the phosphate from ATP; phosphatases take it off again',
+    effect:
+      'Adds a bulky phosphate with about two negative charges. The new charge can pull a loop into place, ' +
+      'switching an enzyme on or off, or create a docking site for other proteins. Because it is reversible ' +
+      'within seconds, phosphorylation is the cell\'s fastest on/off switch for signalling.',
+  },
+  glycosylation: {
+    label: 'N-linked glycosylation',
+    residues: 'Asn in an N-X-S/T sequon (X ≠ Pro)',
+    color: '#22C55E',
+    massShift: 892.8, // core GlcNAc2Man3; mature glycans are larger
+    enzyme: 'Oligosaccharyltransferase in the ER adds a 14-sugar tree, trimmed later in the ER and Golgi',
+    effect:
+      'Attaches a branched sugar tree to the asparagine. The glycan helps the chain fold in the ER, is ' +
+      'checked by chaperones before the protein may leave, shields the surface from proteases and forms ' +
+      'the labels that cells recognise each other by — the ABO blood groups are glycans.',
+  },
+  disulfide: {
+    label: 'Disulfide bridge',
+    residues: 'two Cys',
+    color: '#FACC15',
+    massShift: -2.016, // two hydrogens lost
+    enzyme: 'Protein disulfide isomerase forms and reshuffles them in the oxidising ER or bacterial periplasm',
+    effect:
+      'Covalently links two cysteine side chains, which may be far apart in the sequence. The staple locks ' +
+      'the fold in place, which is why secreted proteins such as insulin, antibodies and lysozyme, which must ' +
+      'survive outside the cell, are full of them.',
+  },
+};
+
+// Second pKa of a phosphomonoester on Ser, Thr or Tyr
+const PHOSPHATE_PKA = 5.8;
+
+/**
+ * Whether `type` can be applied at `position`: S/T/Y for phosphate, the Asn of an N-X-S/T sequon
+ * for an N-glycan, and any cysteine for one end of a disulfide
+ */
+export const canModify = (protein: string, position: number, type: ModificationType): boolean => {
+  const residue = protein[position];
+  switch (type) {
+    case 'phosphorylation':
+      return residue === 'S' || residue === 'T' || residue === 'Y';
+    case 'glycosylation':
+      return residue === 'N' && protein[position + 1] !== undefined && protein[position + 1] !== 'P' &&
+        (protein[position + 2] === 'S' || protein[position + 2] === 'T');
+    case 'disulfide':
+      return residue === 'C';
+  }
+};
+
+/**
+ * Every residue that could carry `type`
+ */
+export const modifiableSites = (protein: string, type: ModificationType): number[] =>
+  protein.split('').flatMap((_, i) => (canModify(protein, i, type) ? [i] : []));
+
+/**
+ * Residues bearing at least one modification, including both ends of each disulfide
+ */
+export const modifiedPositions = (modifications: Modification[]): Set<number> =>
+  new Set(modifications.flatMap(({ position, partner }) => (partner === undefined ? [position] : [position, partner])));
+
+/**
+ * Average mass of the modified protein: the chain plus every phosphate and glycan, minus the hydrogens lost per bridge
+ */
+export const modifiedMass = (protein: string, modifications: Modification[]): number =>
+  molecularWeight(protein) + modifications.reduce((sum, { type }) => sum + MODIFICATION_INFO[type].massShift, 0);
+
+/**
+ * Net charge with modifications: each phosphate adds its own charge, while bridged cysteines and
+ * phosphorylated tyrosines no longer have a free side chain to ionise
+ */
+export const modifiedCharge = (protein: string, modifications: Modification[], pH: number): number => {
+  const capped = new Set(
+    modifications.flatMap(({ type, position, partner }) =>
+      type === 'disulfide' ? [position, partner ?? position] : type === 'phosphorylation' && protein[position] === 'Y' ? [position] : []
+    )
+  );
+  // 'X' stands for a residue whose side chain no longer ionises
+  const masked = protein.split('').map((residue, i) => (capped.has(i) ? 'X' : residue)).join('');
+  const phosphates = modifications.filter(({ type }) => type === 'phosphorylation').length;
+  const phosphateCharge = -1 - 1 / (1 + Math.pow(10, PHOSPHATE_PKA - pH));
+  return netCharge(masked, pH) + phosphates * phosphateCharge;
+};
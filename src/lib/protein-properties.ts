@@ -0,0 +1,149 @@
+import { AMINO_ACIDS, type AminoAcidProperty } from '@/lib/genetic-code';
+
+export interface HydropathyPoint {
+  position: number; // 1-based residue at the centre of the window
+  score: number;
+}
+
+export interface ExtinctionCoefficient {
+  reduced: number;  // M⁻¹ cm⁻¹ at 280 nm, all cysteines free
+  oxidised: number; // every cysteine pair forms a cystine
+}
+
+// Same palette as the 3D models, so charts, legends and chains agree
+export const PROPERTY_COLORS: Record<AminoAcidProperty, string> = {
+  hydrophobic: '#F97316',
+  hydrophilic: '#06B6D4',
+  positive: '#EC4899',
+  negative: '#84CC16',
+  special: '#A855F7',
+};
+
+// Average residue masses in daltons (amino acid minus one water), as used by ExPASy ProtParam
+const RESIDUE_MASSES: Record<string, number> = {
+  A: 71.0788, R: 156.1875, N: 114.1038, D: 115.0886, C: 103.1388,
+  E: 129.1155, Q: 128.1307, G: 57.0519, H: 137.1411, I: 113.1594,
+  L: 113.1594, K: 128.1741, M: 131.1926, F: 147.1766, P: 97.1167,
+  S: 87.0782, T: 101.1051, W: 186.2132, Y: 163.1760, V: 99.1326,
+};
+
+const WATER_MASS = 18.01524;
+
+// EMBOSS pKa values for the ionisable groups
+const PKA = {
+  nTerminus: 8.6,
+  cTerminus: 3.6,
+  K: 10.8,
+  R: 12.5,
+  H: 6.5,
+  D: 3.9,
+  E: 4.1,
+  C: 8.5,
+  Y: 10.1,
+};
+
+// Molar absorptivity at 280 nm (Pace et al., 1995)
+const TRP_EXTINCTION = 5500;
+const TYR_EXTINCTION = 1490;
+const CYSTINE_EXTINCTION = 125;
+
+// Kyte & Doolittle (1982): positive is hydrophobic
+export const KYTE_DOOLITTLE: Record<string, number> = {
+  I: 4.5, V: 4.2, L: 3.8, F: 2.8, C: 2.5, M: 1.9, A: 1.8,
+  G: -0.4, T: -0.7, S: -0.8, W: -0.9, Y: -1.3, P: -1.6,
+  H: -3.2, E: -3.5, Q: -3.5, D: -3.5, N: -3.5, K: -3.9, R: -4.5,
+};
+
+// Average hydropathy above which a 19-residue window likely spans a membrane
+export const TRANSMEMBRANE_THRESHOLD = 1.6;
+
+/**
+ * Keep only the 20 standard one-letter codes, stopping at the first stop ('*')
+ */
+export const normalizeProtein = (input: string): string =>
+  input.toUpperCase().split('*')[0].replace(/[^ACDEFGHIKLMNPQRSTVWY]/g, '');
+
+const count = (protein: string, residue: string) => protein.split(residue).length - 1;
+
+/**
+ * Average molecular weight in daltons
+ */
+export const molecularWeight = (protein: string): number => {
+  if (protein.length === 0) return 0;
+  return protein.split('').reduce((sum, residue) => sum + (RESIDUE_MASSES[residue] ?? 0), WATER_MASS);
+};
+
+/**
+ * Net charge at a given pH from the Henderson–Hasselbalch equation, termini included
+ */
+export const netCharge = (protein: string, pH: number): number => {
+  if (protein.length === 0) return 0;
+  const positive = (pKa: number) => 1 / (1 + Math.pow(10, pH - pKa));
+  const negative = (pKa: number) => -1 / (1 + Math.pow(10, pKa - pH));
+
+  return (
+    positive(PKA.nTerminus) +
+    count(protein, 'K') * positive(PKA.K) +
+    count(protein, 'R') * positive(PKA.R) +
+    count(protein, 'H') * positive(PKA.H) +
+    negative(PKA.cTerminus) +
+    count(protein, 'D') * negative(PKA.D) +
+    count(protein, 'E') * negative(PKA.E) +
+    count(protein, 'C') * negative(PKA.C) +
+    count(protein, 'Y') * negative(PKA.Y)
+  );
+};
+
+/**
+ * Theoretical isoelectric point: the pH where the net charge is zero, found by bisection
+ */
+export const isoelectricPoint = (protein: string): number => {
+  if (protein.length === 0) return 0;
+  let low = 0;
+  let high = 14;
+  while (high - low > 0.001) {
+    const mid = (low + high) / 2;
+    if (netCharge(protein, mid) > 0) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Extinction coefficient at 280 nm from Trp, Tyr and cystine content
+ */
+export const extinctionCoefficient = (protein: string): ExtinctionCoefficient => {
+  const reduced = count(protein, 'W') * TRP_EXTINCTION + count(protein, 'Y') * TYR_EXTINCTION;
+  return {
+    reduced,
+    oxidised: reduced + Math.floor(count(protein, 'C') / 2) * CYSTINE_EXTINCTION,
+  };
+};
+
+/**
+ * Kyte-Doolittle hydropathy averaged over a sliding window
+ */
+export const hydropathyProfile = (protein: string, windowSize = 9): HydropathyPoint[] => {
+  const size = Math.max(1, Math.min(windowSize, protein.length));
+  const points: HydropathyPoint[] = [];
+  for (let start = 0; start + size <= protein.length; start++) {
+    const window = protein.slice(start, start + size).split('');
+    const score = window.reduce((sum, residue) => sum + (KYTE_DOOLITTLE[residue] ?? 0), 0) / size;
+    points.push({ position: start + Math.ceil(size / 2), score });
+  }
+  return points;
+};
+
+/**
+ * Grand average of hydropathy (GRAVY): the mean Kyte-Doolittle score of the whole chain
+ */
+export const gravy = (protein: string): number => {
+  if (protein.length === 0) return 0;
+  return protein.split('').reduce((sum, residue) => sum + (KYTE_DOOLITTLE[residue] ?? 0), 0) / protein.length;
+};
+
+/**
+ * Side-chain category of each residue, in chain order
+ */
+export const residueProperties = (protein: string): AminoAcidProperty[] =>
+  protein.split('').map(residue => AMINO_ACIDS[residue]?.property ?? 'special');
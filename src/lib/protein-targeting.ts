@@ -0,0 +1,173 @@
+import { KYTE_DOOLITTLE } from '@/lib/protein-properties';
+
+export type TargetingPathway = 'secretory' | 'cytosolic';
+
+export type TargetingStage =
+  | 'translation'
+  | 'srp'
+  | 'docking'
+  | 'translocation'
+  | 'er'
+  | 'golgi'
+  | 'secretion'
+  | 'cytosol';
+
+export interface SignalPeptide {
+  nRegion: [number, number]; // 0-based, end exclusive
+  hRegion: [number, number];
+  cRegion: [number, number];
+  cleavageSite: number;      // index of the first residue of the mature protein
+  hydrophobicity: number;    // mean Kyte-Doolittle score of the h-region
+}
+
+export interface TargetingExample {
+  name: string;
+  sequence: string;
+  note: string;
+}
+
+// The hydrophobic core must fall within this many residues of the N-terminus
+const SIGNAL_SEARCH_LENGTH = 30;
+
+// Shortest hydrophobic core, and the mean hydropathy it needs
+export const CORE_LENGTH = 8;
+export const CORE_HYDROPHOBICITY = 2;
+
+// The signal peptidase cuts 3 to 10 residues past the core
+const CLEAVAGE_MIN_OFFSET = 3;
+const CLEAVAGE_MAX_OFFSET = 10;
+
+const CHARGED = 'DEKR';
+
+// von Heijne's (-3, -1) rule: small residues at -1, small or aliphatic at -3
+const CLEAVAGE_MINUS_ONE = 'AGSCT';
+const CLEAVAGE_MINUS_THREE = 'AGSCTVIL';
+
+export const TARGETING_STAGES: { id: TargetingStage; label: string; pathways: TargetingPathway[]; description: string }[] = [
+  {
+    id: 'translation',
+    label: 'Translation starts',
+    pathways: ['secretory', 'cytosolic'],
+    description: 'Every protein starts on a free ribosome in the cytosol. The first 30 or so residues come out of the exit tunnel.',
+  },
+  {
+    id: 'srp',
+    label: 'SRP binds',
+    pathways: ['secretory'],
+    description:
+      'The signal recognition particle (SRP) grabs the hydrophobic signal peptide as soon as it emerges and pauses ' +
+      'translation, so the chain cannot fold in the wrong compartment.',
+  },
+  {
+    id: 'docking',
+    label: 'Docking at the ER',
+    pathways: ['secretory'],
+    description:
+      'SRP carries the ribosome to the SRP receptor on the endoplasmic reticulum and hands it to the Sec61 ' +
+      'translocon. Studded with ribosomes like this, the ER looks rough under the microscope.',
+  },
+  {
+    id: 'translocation',
+    label: 'Translocation',
+    pathways: ['secretory'],
+    description:
+      'SRP lets go, translation resumes and the growing chain is threaded through Sec61 into the ER lumen. Signal ' +
+      'peptidase cuts the signal peptide off at the cleavage site.',
+  },
+  {
+    id: 'er',
+    label: 'Folding in the ER',
+    pathways: ['secretory'],
+    description:
+      'In the lumen, BiP and other chaperones help the chain fold, N-linked glycans are added and disulfide bridges ' +
+      'form. Proteins that fail the quality check are sent back out for destruction.',
+  },
+  {
+    id: 'golgi',
+    label: 'Golgi',
+    pathways: ['secretory'],
+    description:
+      'Coated vesicles carry the folded protein to the Golgi, where its glycans are trimmed and rebuilt as it moves ' +
+      'from the cis to the trans face, and it is sorted by destination.',
+  },
+  {
+    id: 'secretion',
+    label: 'Secretion',
+    pathways: ['secretory'],
+    description:
+      'A secretory vesicle buds from the trans-Golgi, travels to the plasma membrane and fuses with it, releasing ' +
+      'the protein outside the cell.',
+  },
+  {
+    id: 'cytosol',
+    label: 'Stays in the cytosol',
+    pathways: ['cytosolic'],
+    description:
+      'With no signal peptide, SRP ignores the chain. Translation finishes on the free ribosome and the protein ' +
+      'folds and works in the cytosol, unless another signal sends it to the nucleus, mitochondria or peroxisomes.',
+  },
+];
+
+export const TARGETING_EXAMPLES: TargetingExample[] = [
+  {
+    name: 'Preproinsulin',
+    sequence:
+      'MALWMRLLPLLALLALWGPDPAAAFVNQHLCGSHLVEALYLVCGERGFFYTPKTRREAEDLQVGQVELGGGPGAGSLQPLALEGSLQKRGIVEQCCTSICSLYQLENYCN',
+    note: 'Made by β-cells of the pancreas and secreted into the blood; the 24-residue signal peptide is cut off in the ER.',
+  },
+  {
+    name: 'Haemoglobin β',
+    sequence:
+      'MVHLTPEEKSAVTALWGKVNVDEVGGEALGRLLVVYPWTQRFFESFGDLSTPDAVMGNPKVKAHGKKVLGAFSDGLAHLDNLKGTFATLSELHCDKLHVDPENFRLLGNVLVCVLAHHFGKEFTPPVQAAYQKVVAGVANALAHKYH',
+    note: 'Made in red blood cell precursors and never leaves the cytosol, where it carries oxygen.',
+  },
+];
+
+const meanHydropathy = (residues: string) =>
+  residues.split('').reduce((sum, residue) => sum + (KYTE_DOOLITTLE[residue] ?? 0), 0) / residues.length;
+
+/**
+ * Find an N-terminal signal peptide: a positive or neutral n-region, an uncharged hydrophobic core of at least
+ * CORE_LENGTH residues within the first SIGNAL_SEARCH_LENGTH, and a (-3, -1) cleavage site shortly after it
+ */
+export const findSignalPeptide = (protein: string): SignalPeptide | null => {
+  const head = protein.slice(0, SIGNAL_SEARCH_LENGTH);
+  let best: { start: number; score: number } | null = null;
+  for (let start = 1; start + CORE_LENGTH <= head.length; start++) {
+    const window = head.slice(start, start + CORE_LENGTH);
+    if (window.split('').some(residue => CHARGED.includes(residue))) continue;
+    const score = meanHydropathy(window);
+    if (score >= CORE_HYDROPHOBICITY && (!best || score > best.score)) best = { start, score };
+  }
+  if (!best) return null;
+
+  // Widen the core over neighbouring hydrophobic residues
+  let hStart = best.start;
+  let hEnd = best.start + CORE_LENGTH;
+  while (hStart > 1 && (KYTE_DOOLITTLE[protein[hStart - 1]] ?? -1) >= 0) hStart--;
+  while (hEnd < protein.length && (KYTE_DOOLITTLE[protein[hEnd]] ?? -1) >= 0) hEnd++;
+
+  // Signal peptides start with a positive n-region; a net negative one points to a cytosolic protein
+  const nRegion = protein.slice(0, hStart);
+  const charge = (residues: string, set: string) => residues.split('').filter(residue => set.includes(residue)).length;
+  if (charge(nRegion, 'KR') < charge(nRegion, 'DE')) return null;
+
+  for (let site = hEnd + CLEAVAGE_MIN_OFFSET; site <= hEnd + CLEAVAGE_MAX_OFFSET && site < protein.length; site++) {
+    if (CLEAVAGE_MINUS_ONE.includes(protein[site - 1]) && CLEAVAGE_MINUS_THREE.includes(protein[site - 3]) && protein[site] !== 'P') {
+      return {
+        nRegion: [0, hStart],
+        hRegion: [hStart, hEnd],
+        cRegion: [hEnd, site],
+        cleavageSite: site,
+        hydrophobicity: meanHydropathy(protein.slice(hStart, hEnd)),
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * The stages a protein passes through on its way to its destination
+ */
+export const getTargetingStages = (pathway: TargetingPathway) =>
+  TARGETING_STAGES.filter(stage => stage.pathways.includes(pathway));
@@ -5,6 +5,7 @@ export interface QuizQuestion {
   options: string[];
   correctOptionIndex: number;
   explanation: string;
+  reference?: { label: string; path: string }; // where to explore the topic further
 }
 
 export const proteinSynthesisQuestions: QuizQuestion[] = [
@@ -54,7 +55,8 @@ export const proteinSynthesisQuestions: QuizQuestion[] = [
       "A protein complex that reads mRNA"
     ],
     correctOptionIndex: 1,
-    explanation: "A codon is a sequence of three nucleotides in mRNA that specifies a particular amino acid or a signal to start or stop protein synthesis."
+    explanation: "A codon is a sequence of three nucleotides in mRNA that specifies a particular amino acid or a signal to start or stop protein synthesis.",
+    reference: { label: "Explore the genetic code", path: "/genetic-code" }
   },
   {
     id: 5,
@@ -90,7 +92,8 @@ export const proteinSynthesisQuestions: QuizQuestion[] = [
       "UAA"
     ],
     correctOptionIndex: 1,
-    explanation: "AUG is the start codon that initiates protein synthesis. It codes for the amino acid methionine in eukaryotes."
+    explanation: "AUG is the start codon that initiates protein synthesis. It codes for the amino acid methionine (formyl-methionine in bacteria). Some genetic codes, such as the bacterial and mitochondrial ones, also allow GUG, UUG or AUA to start translation, but AUG is by far the most common.",
+    reference: { label: "Explore the genetic code", path: "/genetic-code" }
   },
   {
     id: 8,
@@ -114,7 +117,8 @@ export const proteinSynthesisQuestions: QuizQuestion[] = [
       "CCC, GGG, UUU"
     ],
     correctOptionIndex: 1,
-    explanation: "UAG, UAA, and UGA are the three stop codons that signal the termination of protein synthesis. They do not code for any amino acids."
+    explanation: "UAG, UAA, and UGA are the three stop codons of the standard genetic code. They do not code for any amino acids and signal the termination of protein synthesis. A few organisms and organelles reassign them — in vertebrate mitochondria, for example, UGA codes for tryptophan.",
+    reference: { label: "Explore the genetic code", path: "/genetic-code" }
   },
   {
     id: 10,
@@ -127,5 +131,233 @@ export const proteinSynthesisQuestions: QuizQuestion[] = [
     ],
     correctOptionIndex: 2,
     explanation: "Post-translational modification occurs after protein synthesis and involves chemical changes to the protein that can affect its function, localization, or stability."
+  },
+  {
+    id: 11,
+    question: "Why can bacteria begin translating an mRNA before its transcription is finished?",
+    options: [
+      "Bacterial ribosomes are found inside the nucleus", 
+      "Bacteria have no nucleus, so ribosomes can bind the mRNA as it is made", 
+      "Bacterial mRNA is spliced while it is transcribed", 
+      "Bacterial RNA polymerase also makes peptide bonds"
+    ],
+    correctOptionIndex: 1,
+    explanation: "With no nuclear envelope separating the chromosome from the cytoplasm, ribosomes bind the Shine-Dalgarno site of a bacterial mRNA as soon as it emerges from RNA polymerase. In eukaryotes the mRNA must first be processed and exported from the nucleus."
+  }
+];
+
+export const geneRegulationQuestions: QuizQuestion[] = [
+  {
+    id: 1,
+    question: "What does the lac repressor (LacI) bind to when lactose is absent?",
+    options: [
+      "The CAP site", 
+      "The operator", 
+      "The lacZ start codon", 
+      "RNA polymerase"
+    ],
+    correctOptionIndex: 1,
+    explanation: "LacI binds the operator, which overlaps the promoter and the start of transcription, so RNA polymerase cannot transcribe the lac genes."
+  },
+  {
+    id: 2,
+    question: "Which molecule actually switches off the lac repressor?",
+    options: [
+      "Glucose", 
+      "cAMP", 
+      "Allolactose", 
+      "Galactose"
+    ],
+    correctOptionIndex: 2,
+    explanation: "A little β-galactosidase turns some lactose into allolactose. Allolactose binds LacI, changes its shape and makes it let go of the operator."
+  },
+  {
+    id: 3,
+    question: "Why is the lac operon only weakly expressed when both lactose and glucose are present?",
+    options: [
+      "Glucose binds the repressor and keeps it on the operator", 
+      "Glucose keeps cAMP low, so CAP cannot help RNA polymerase bind the promoter", 
+      "Glucose destroys the lac mRNA", 
+      "Glucose blocks the ribosome binding site"
+    ],
+    correctOptionIndex: 1,
+    explanation: "When glucose is plentiful, cAMP stays low and CAP does not bind the CAP site. The lac promoter is weak on its own, so even with the repressor gone, transcription stays low. This is catabolite repression."
+  },
+  {
+    id: 4,
+    question: "Under which conditions is the lac operon fully switched on?",
+    options: [
+      "Glucose present, lactose absent", 
+      "Glucose present, lactose present", 
+      "Glucose absent, lactose absent", 
+      "Glucose absent, lactose present"
+    ],
+    correctOptionIndex: 3,
+    explanation: "Lactose removes the repressor, and the lack of glucose raises cAMP so CAP-cAMP recruits RNA polymerase. Both conditions are needed for high expression."
+  },
+  {
+    id: 5,
+    question: "What kind of control does CAP-cAMP exert on the lac operon?",
+    options: [
+      "Positive control – it activates transcription", 
+      "Negative control – it blocks transcription", 
+      "It controls translation, not transcription", 
+      "It controls mRNA splicing"
+    ],
+    correctOptionIndex: 0,
+    explanation: "CAP-cAMP is an activator: bound next to the promoter, it helps RNA polymerase bind. LacI, which blocks transcription, is the operon's negative control."
+  },
+  {
+    id: 6,
+    question: "Why are lacZ, lacY and lacA always expressed together?",
+    options: [
+      "Each has an identical promoter", 
+      "They are transcribed from one promoter into a single polycistronic mRNA", 
+      "Their proteins are made as one polypeptide and then cut apart", 
+      "They share the same start codon"
+    ],
+    correctOptionIndex: 1,
+    explanation: "An operon is a set of genes under one promoter and operator. RNA polymerase copies all three into one mRNA, and ribosomes start separately at each gene's Shine-Dalgarno site."
+  },
+  {
+    id: 7,
+    question: "A mutation stops LacI from binding the operator. What happens?",
+    options: [
+      "The operon can never be expressed", 
+      "The operon is expressed whether or not lactose is present", 
+      "The operon is expressed only when glucose is present", 
+      "Only lacA is expressed"
+    ],
+    correctOptionIndex: 1,
+    explanation: "With no working repressor, nothing blocks RNA polymerase, so the operon is expressed constitutively. CAP still raises expression when glucose is absent."
+  },
+  {
+    id: 8,
+    question: "What does β-galactosidase, the product of lacZ, do?",
+    options: [
+      "Pumps lactose into the cell", 
+      "Splits lactose into glucose and galactose", 
+      "Binds the operator", 
+      "Makes cAMP"
+    ],
+    correctOptionIndex: 1,
+    explanation: "β-galactosidase breaks lactose down so the cell can use it, and also makes allolactose, the inducer. Lactose permease, from lacY, brings lactose into the cell."
+  }
+];
+
+export const sickleCellQuestions: QuizQuestion[] = [
+  {
+    id: 1,
+    question: "Which single base change in HBB causes sickle-cell anaemia?",
+    options: [
+      "GAG → GTG in codon 6, changing glutamate to valine", 
+      "GAG → TAG in codon 6, creating a stop codon", 
+      "Deletion of one base in codon 6", 
+      "ATG → GTG in the start codon"
+    ],
+    correctOptionIndex: 0,
+    explanation: "An A → T substitution turns the codon GAG (Glu) into GTG (Val). It is a missense mutation: the protein keeps its full length of 146 residues but carries one different amino acid."
+  },
+  {
+    id: 2,
+    question: "Why does swapping glutamate for valine make haemoglobin stick together?",
+    options: [
+      "Valine is charged and attracts other proteins", 
+      "Valine is hydrophobic, so it forms a sticky patch on the surface that binds a pocket on another haemoglobin", 
+      "Valine cannot fold, so the protein unfolds", 
+      "Valine stops the ribosome early"
+    ],
+    correctOptionIndex: 1,
+    explanation: "Glutamate is negatively charged and happy in water. Valine is hydrophobic; when the haemoglobin has released its oxygen, the valine fits a hydrophobic pocket on a neighbouring molecule, and the molecules polymerise into long fibres that bend the cell into a sickle."
+  },
+  {
+    id: 3,
+    question: "Why is the sickle-cell allele common in parts of Africa, India and the Mediterranean?",
+    options: [
+      "It spreads like an infection", 
+      "Carriers with one copy are partly protected against malaria", 
+      "It makes red blood cells live longer", 
+      "It is caused by the climate"
+    ],
+    correctOptionIndex: 1,
+    explanation: "People with one normal and one sickle allele (sickle-cell trait) rarely have symptoms and are protected against severe malaria, so the allele was favoured by natural selection where malaria is common."
+  }
+];
+
+export const cysticFibrosisQuestions: QuizQuestion[] = [
+  {
+    id: 1,
+    question: "What happens to the CFTR gene in the ΔF508 mutation?",
+    options: [
+      "One base is deleted, shifting the reading frame", 
+      "Three bases are deleted, removing one amino acid without shifting the frame", 
+      "A stop codon replaces codon 508", 
+      "Codon 508 is duplicated"
+    ],
+    correctOptionIndex: 1,
+    explanation: "The bases CTT are deleted from codons 507 and 508. Codon 507 changes from ATC to ATT, which still codes for isoleucine, and phenylalanine 508 is lost. Because three bases go, every later codon is read in the normal frame."
+  },
+  {
+    id: 2,
+    question: "The ΔF508 protein is only one amino acid shorter. Why does it not reach the cell membrane?",
+    options: [
+      "It has no start codon", 
+      "It misfolds, so quality control in the endoplasmic reticulum sends it to the proteasome", 
+      "It is too small to be transported", 
+      "It is secreted out of the cell instead"
+    ],
+    correctOptionIndex: 1,
+    explanation: "CFTR is made on the rough ER. Without Phe508 one of its domains folds badly, ER chaperones hold on to it, and most of it is tagged with ubiquitin and destroyed by the proteasome before it can travel to the membrane."
+  },
+  {
+    id: 3,
+    question: "What does CFTR normally do?",
+    options: [
+      "Carries oxygen in the blood", 
+      "Acts as a chloride channel that keeps mucus thin and watery", 
+      "Copies DNA before cell division", 
+      "Digests proteins in the stomach"
+    ],
+    correctOptionIndex: 1,
+    explanation: "CFTR lets chloride ions out of cells lining the lungs, gut and pancreas, and water follows. Without it the mucus becomes thick and sticky, clogging airways and ducts. Modern drugs called correctors help the ΔF508 protein fold and reach the membrane."
+  }
+];
+
+export const betaThalassaemiaQuestions: QuizQuestion[] = [
+  {
+    id: 1,
+    question: "In the codon 39 β-thalassaemia mutation, CAG becomes TAG. What kind of mutation is this?",
+    options: [
+      "Silent", 
+      "Missense", 
+      "Nonsense", 
+      "Frameshift"
+    ],
+    correctOptionIndex: 2,
+    explanation: "CAG codes for glutamine, but UAG in the mRNA is a stop codon. Translation would end after 38 residues instead of 146, so this is a nonsense mutation."
+  },
+  {
+    id: 2,
+    question: "Cells make almost no β-globin from this allele, not even a short chain. Why?",
+    options: [
+      "The gene is no longer transcribed", 
+      "Nonsense-mediated decay destroys mRNAs with a stop codon well before the last exon junction", 
+      "The ribosome skips the stop codon", 
+      "The short protein is exported from the cell"
+    ],
+    correctOptionIndex: 1,
+    explanation: "After splicing, proteins mark each exon junction. A stop codon that comes before the last junction is recognised as premature during the first round of translation, and the mRNA is degraded by nonsense-mediated decay."
+  },
+  {
+    id: 3,
+    question: "Why does a lack of β-globin damage red blood cells?",
+    options: [
+      "Unpaired α-globin chains pile up and precipitate inside the developing cells", 
+      "The cells make too much haemoglobin", 
+      "β-globin is needed to copy DNA", 
+      "Red blood cells need β-globin to divide"
+    ],
+    correctOptionIndex: 0,
+    explanation: "Adult haemoglobin is two α and two β chains. With no β chains to pair with, the excess α chains aggregate, damaging the red blood cell precursors, so few healthy red cells are made and the patient is anaemic."
   }
 ];
@@ -0,0 +1,132 @@
+import type { FeatureSegment, SequenceFeature } from '@/lib/sequence-files';
+import type { SequenceSignal, TranscriptionUnit } from '@/lib/transcription';
+
+export interface Intron extends SequenceSignal {
+  donor: string;       // first two bases; GU in canonical introns
+  acceptor: string;    // last two bases; AG in canonical introns
+  branchPoint: number; // transcript index of the branch-point A that attacks the 5' splice site
+  canonical: boolean;
+}
+
+export interface ProcessedTranscript {
+  preMrna: string;
+  isEukaryotic: boolean;   // has a poly(A) signal or introns, so it is capped, spliced and polyadenylated
+  exons: SequenceSignal[]; // transcript coordinates
+  introns: Intron[];       // transcript coordinates
+  spliced: string;         // exons joined, before the tail is added
+  polyATail: string;
+  mature: string;          // spliced mRNA plus its poly(A) tail; the cap is not a template base
+}
+
+// Real tails run to ~200 nt in mammals; a short one keeps the scene readable
+export const POLY_A_TAIL_LENGTH = 24;
+
+// Mammalian branch-point consensus YNYURAY, loosened to its core CURAY
+const BRANCH_POINT_MOTIF = /CU[AG]A[CU]/g;
+
+// The branch point usually sits 18–40 nt upstream of the 3' splice site
+const BRANCH_POINT_MIN_DISTANCE = 18;
+
+const JOINED_FEATURE_TYPES = ['CDS', 'mRNA'];
+
+/**
+ * Intron positions on the forward strand, from intron features, gaps inside joined CDS/mRNA
+ * locations and gaps between neighbouring exon features
+ */
+export const findIntronSegments = (features: SequenceFeature[]): FeatureSegment[] => {
+  const forward = features.filter(feature => feature.strand === '+');
+  const candidates: FeatureSegment[] = [];
+
+  forward
+    .filter(feature => feature.type === 'intron')
+    .forEach(feature => candidates.push(...feature.segments));
+
+  forward
+    .filter(feature => JOINED_FEATURE_TYPES.includes(feature.type))
+    .forEach(feature => feature.segments.slice(1).forEach((segment, i) => {
+      candidates.push({ start: feature.segments[i].end, end: segment.start });
+    }));
+
+  const exons = forward.filter(feature => feature.type === 'exon').sort((a, b) => a.start - b.start);
+  exons.slice(1).forEach((exon, i) => {
+    if (exon.start > exons[i].end) candidates.push({ start: exons[i].end, end: exon.start });
+  });
+
+  // The same intron is often described several ways; keep the first of any overlapping ones
+  const introns: FeatureSegment[] = [];
+  candidates
+    .filter(segment => segment.end > segment.start)
+    .sort((a, b) => a.start - b.start || a.end - b.end)
+    .forEach(segment => {
+      const previous = introns[introns.length - 1];
+      if (!previous || segment.start >= previous.end) introns.push(segment);
+    });
+  return introns;
+};
+
+const findBranchPoint = (intron: string): number => {
+  const matches = [...intron.matchAll(BRANCH_POINT_MOTIF)]
+    .map(match => (match.index ?? 0) + 3)
+    .filter(index => intron.length - index >= BRANCH_POINT_MIN_DISTANCE);
+  if (matches.length > 0) return matches[matches.length - 1];
+
+  const fallback = intron.lastIndexOf('A', intron.length - BRANCH_POINT_MIN_DISTANCE);
+  return fallback === -1 ? Math.floor(intron.length / 2) : fallback;
+};
+
+/**
+ * Turn a primary transcript into mature mRNA: remove the introns (given on the coding strand)
+ * and add a poly(A) tail when the gene ends at a polyadenylation signal.
+ * Bacteria (`isEukaryote` false) do neither, so their transcript is already the mRNA.
+ */
+export const processTranscript = (
+  unit: TranscriptionUnit,
+  intronSegments: FeatureSegment[] = [],
+  isEukaryote = true
+): ProcessedTranscript => {
+  const preMrna = unit.mrna;
+  if (!isEukaryote) {
+    const exon = { start: 0, end: preMrna.length, sequence: preMrna };
+    return { preMrna, isEukaryotic: false, exons: [exon], introns: [], spliced: preMrna, polyATail: '', mature: preMrna };
+  }
+
+  const introns: Intron[] = intronSegments
+    .map(segment => ({ start: segment.start - unit.start, end: segment.end - unit.start }))
+    .filter(segment => segment.start >= 0 && segment.end <= preMrna.length && segment.end > segment.start)
+    .map(segment => {
+      const sequence = preMrna.slice(segment.start, segment.end);
+      const donor = sequence.slice(0, 2);
+      const acceptor = sequence.slice(-2);
+      return {
+        ...segment,
+        sequence,
+        donor,
+        acceptor,
+        branchPoint: segment.start + findBranchPoint(sequence),
+        canonical: donor === 'GU' && acceptor === 'AG',
+      };
+    });
+
+  const exons: SequenceSignal[] = [];
+  let cursor = 0;
+  [...introns, { start: preMrna.length, end: preMrna.length }].forEach(intron => {
+    if (intron.start > cursor) {
+      exons.push({ start: cursor, end: intron.start, sequence: preMrna.slice(cursor, intron.start) });
+    }
+    cursor = intron.end;
+  });
+
+  const hasPolyASignal = unit.terminator?.type === 'poly-a-signal';
+  const spliced = exons.map(exon => exon.sequence).join('');
+  const polyATail = hasPolyASignal ? 'A'.repeat(POLY_A_TAIL_LENGTH) : '';
+
+  return {
+    preMrna,
+    isEukaryotic: hasPolyASignal || introns.length > 0,
+    exons,
+    introns,
+    spliced,
+    polyATail,
+    mature: spliced + polyATail,
+  };
+};
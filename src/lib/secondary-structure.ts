@@ -0,0 +1,119 @@
+export type SecondaryStructure = 'helix' | 'strand' | 'coil';
+
+export interface StructureSegment {
+  type: SecondaryStructure;
+  start: number; // residue index, inclusive
+  end: number;   // residue index, exclusive
+}
+
+interface Propensity {
+  helix: number;
+  strand: number;
+}
+
+export const SECONDARY_STRUCTURE_COLORS: Record<SecondaryStructure, string> = {
+  helix: '#F43F5E',
+  strand: '#FACC15',
+  coil: '#94A3B8',
+};
+
+// Chou & Fasman (1978) conformational parameters: above 1 favours the conformation
+const CHOU_FASMAN: Record<string, Propensity> = {
+  A: { helix: 1.42, strand: 0.83 }, R: { helix: 0.98, strand: 0.93 },
+  N: { helix: 0.67, strand: 0.89 }, D: { helix: 1.01, strand: 0.54 },
+  C: { helix: 0.70, strand: 1.19 }, E: { helix: 1.51, strand: 0.37 },
+  Q: { helix: 1.11, strand: 1.10 }, G: { helix: 0.57, strand: 0.75 },
+  H: { helix: 1.00, strand: 0.87 }, I: { helix: 1.08, strand: 1.60 },
+  L: { helix: 1.21, strand: 1.30 }, K: { helix: 1.14, strand: 0.74 },
+  M: { helix: 1.45, strand: 1.05 }, F: { helix: 1.13, strand: 1.38 },
+  P: { helix: 0.57, strand: 0.55 }, S: { helix: 0.77, strand: 0.75 },
+  T: { helix: 0.83, strand: 1.19 }, W: { helix: 1.08, strand: 1.37 },
+  Y: { helix: 0.69, strand: 1.47 }, V: { helix: 1.06, strand: 1.70 },
+};
+
+// Nucleation: 4 formers in 6 residues start a helix, 3 in 5 start a strand
+const NUCLEI: Record<'helix' | 'strand', { window: number; formers: number; threshold: number }> = {
+  helix: { window: 6, formers: 4, threshold: 1.03 },
+  strand: { window: 5, formers: 3, threshold: 1.05 },
+};
+
+// A segment keeps growing while the 4 residues at its edge still average above 1
+const EXTENSION_WINDOW = 4;
+
+const propensity = (residue: string, type: 'helix' | 'strand') => CHOU_FASMAN[residue]?.[type] ?? 1;
+
+const average = (protein: string, start: number, end: number, type: 'helix' | 'strand') => {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += propensity(protein[i], type);
+  return sum / (end - start);
+};
+
+// Mark every residue inside a nucleated, extended and accepted segment of one type
+const findRegions = (protein: string, type: 'helix' | 'strand'): boolean[] => {
+  const { window, formers, threshold } = NUCLEI[type];
+  const other = type === 'helix' ? 'strand' : 'helix';
+  const marked = new Array<boolean>(protein.length).fill(false);
+
+  for (let nucleus = 0; nucleus + window <= protein.length; nucleus++) {
+    if (marked[nucleus]) continue;
+    const slice = protein.slice(nucleus, nucleus + window);
+    if (slice.split('').filter(residue => propensity(residue, type) >= 1).length < formers) continue;
+    // Proline cannot sit inside a helix: its ring has no amide hydrogen to bond
+    if (type === 'helix' && slice.includes('P')) continue;
+
+    let start = nucleus;
+    let end = nucleus + window;
+    while (
+      end < protein.length &&
+      !(type === 'helix' && protein[end] === 'P') &&
+      average(protein, end + 1 - EXTENSION_WINDOW, end + 1, type) >= 1
+    ) end++;
+    while (
+      start > 0 &&
+      !(type === 'helix' && protein[start - 1] === 'P') &&
+      average(protein, start - 1, start - 1 + EXTENSION_WINDOW, type) >= 1
+    ) start--;
+
+    const score = average(protein, start, end, type);
+    if (score > threshold && score > average(protein, start, end, other)) {
+      marked.fill(true, start, end);
+    }
+  }
+  return marked;
+};
+
+/**
+ * Predict helix, strand or coil for each residue with the Chou-Fasman method.
+ * Where a helix and a strand overlap, the conformation with the higher average propensity over the
+ * overlap wins. Expect roughly 50–60% accuracy: good enough to show how sequence shapes structure.
+ */
+export const predictSecondaryStructure = (protein: string): SecondaryStructure[] => {
+  const helix = findRegions(protein, 'helix');
+  const strand = findRegions(protein, 'strand');
+  const states: SecondaryStructure[] = protein.split('').map((_, i) =>
+    helix[i] ? 'helix' : strand[i] ? 'strand' : 'coil'
+  );
+
+  for (let i = 0; i < protein.length; i++) {
+    if (!helix[i] || !strand[i]) continue;
+    let end = i;
+    while (end < protein.length && helix[end] && strand[end]) end++;
+    const winner = average(protein, i, end, 'helix') >= average(protein, i, end, 'strand') ? 'helix' : 'strand';
+    states.fill(winner, i, end);
+    i = end - 1;
+  }
+  return states;
+};
+
+/**
+ * Collapse per-residue states into runs of the same conformation
+ */
+export const structureSegments = (states: SecondaryStructure[]): StructureSegment[] => {
+  const segments: StructureSegment[] = [];
+  states.forEach((type, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.end = i + 1;
+    else segments.push({ type, start: i, end: i + 1 });
+  });
+  return segments;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeRNA, translate } from '@/lib/genetic-code';
+import { parseFasta, parseGenBank } from '@/lib/sequence-files';
+
+const genBank = (qualifier: string, origin = 'atgnnnaaatag') => [
+  `LOCUS       TEST                      ${origin.length} bp    DNA     linear   SYN`,
+  'FEATURES             Location/Qualifiers',
+  `     CDS             1..${origin.length}`,
+  `                     ${qualifier}`,
+  'ORIGIN',
+  `        1 ${origin}`,
+  '//',
+].join('\n');
+
+describe('ambiguity codes', () => {
+  it('keeps the codes in a FASTA sequence and counts them', () => {
+    const [record] = parseFasta('>seq\nACNNRYT\n');
+    expect(record.sequence).toBe('ACNNRYT');
+    expect(record.ambiguousBases).toBe(4);
+  });
+
+  it('keeps GenBank feature coordinates on the same bases', () => {
+    const [record] = parseGenBank(genBank('/gene="x"'));
+    expect(record.sequence).toBe('ATGNNNAAATAG');
+    expect(record.ambiguousBases).toBe(3);
+    expect(record.features[0].end).toBe(record.sequence.length);
+  });
+
+  it('translates a codon with an ambiguity code as an unknown residue', () => {
+    const [record] = parseGenBank(genBank('/gene="x"'));
+    expect(translate(normalizeRNA(record.sequence))).toBe('MXK');
+  });
+});
+
+describe('quoted qualifiers', () => {
+  it('reads a value ending in an escaped quote as still open', () => {
+    const text = genBank('/note="say ""hi""').replace(
+      '                     /note="say ""hi""',
+      '                     /note="say ""hi""\n                     there"'
+    );
+    const [record] = parseGenBank(text);
+    expect(record.features[0].qualifiers.note).toBe('say "hi" there');
+  });
+
+  it('closes a value whose escaped quote is followed by the closing one', () => {
+    const [record] = parseGenBank(genBank('/note="say ""hi"""'));
+    expect(record.features[0].qualifiers.note).toBe('say "hi"');
+  });
+
+  it('accepts an empty quoted value', () => {
+    const [record] = parseGenBank(genBank('/note=""'));
+    expect(record.features[0].qualifiers.note).toBe('');
+  });
+});
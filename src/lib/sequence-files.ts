@@ -0,0 +1,433 @@
+import { reverseComplement } from '@/lib/dna';
+
+export type SequenceFormat = 'fasta' | 'genbank';
+
+export interface FeatureSegment {
+  start: number; // 0-based, inclusive
+  end: number;   // 0-based, exclusive
+}
+
+export interface SequenceFeature {
+  type: string;     // GenBank feature key: 'CDS', 'exon', 'intron', 'gene', ...
+  label: string;    // /gene, /product, /locus_tag, /label or /note, falling back to the type
+  location: string; // location exactly as written in the file, e.g. 'complement(join(12..80,140..200))'
+  strand: '+' | '-';
+  start: number;    // span of all segments, 0-based inclusive
+  end: number;      // span of all segments, 0-based exclusive
+  segments: FeatureSegment[]; // sorted by position on the forward strand
+  qualifiers: Record<string, string>;
+  line: number;     // line of the feature key, for error messages
+}
+
+export interface SequenceRecord {
+  id: string;
+  description: string;
+  format: SequenceFormat;
+  sequence: string; // forward strand DNA, upper case, U read as T, IUPAC codes kept as written
+  features: SequenceFeature[];
+  ambiguousBases: number; // how many of those bases are IUPAC ambiguity codes such as N
+}
+
+/**
+ * A malformed sequence file; `line` is 1-based and the message already starts with it
+ */
+export class SequenceParseError extends Error {
+  line: number;
+
+  constructor(line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'SequenceParseError';
+    this.line = line;
+  }
+}
+
+// File extensions offered by upload dialogs
+export const SEQUENCE_FILE_EXTENSIONS = ['.fasta', '.fa', '.fna', '.ffn', '.gb', '.gbk', '.genbank', '.txt'];
+
+// Nucleotides plus IUPAC ambiguity codes
+const NUCLEOTIDE_PATTERN = /^[ACGTURYSWKMBDHVN]*$/;
+
+// Gap and end-of-sequence characters some tools write into FASTA; they carry no bases
+const IGNORED_SEQUENCE_CHARACTERS = /[\s\-.*]/g;
+
+const FEATURE_LABEL_QUALIFIERS = ['gene', 'product', 'locus_tag', 'label', 'note'];
+
+// Qualifiers whose values wrap without spaces
+const UNSPACED_QUALIFIERS = ['translation'];
+
+const cleanSequenceLine = (text: string, lineNumber: number): string => {
+  const bases = text.toUpperCase().replace(IGNORED_SEQUENCE_CHARACTERS, '');
+  if (!NUCLEOTIDE_PATTERN.test(bases)) {
+    const bad = bases.split('').find(base => !NUCLEOTIDE_PATTERN.test(base));
+    throw new SequenceParseError(
+      lineNumber,
+      `unexpected character '${bad}' in sequence – only DNA/RNA bases and IUPAC codes are allowed`
+    );
+  }
+  return bases.replace(/U/g, 'T');
+};
+
+const countAmbiguousBases = (sequence: string): number => sequence.replace(/[ACGT]/g, '').length;
+
+const splitLines = (text: string): string[] => text.replace(/\r\n?/g, '\n').split('\n');
+
+/**
+ * Parse FASTA text with one or more records
+ */
+export const parseFasta = (text: string): SequenceRecord[] => {
+  const records: SequenceRecord[] = [];
+  let current: SequenceRecord | null = null;
+  let headerLine = 0;
+
+  const finish = () => {
+    if (!current) return;
+    if (current.sequence.length === 0) {
+      throw new SequenceParseError(headerLine, `record '${current.id}' has no sequence`);
+    }
+    records.push({ ...current, ambiguousBases: countAmbiguousBases(current.sequence) });
+  };
+
+  splitLines(text).forEach((raw, index) => {
+    const lineNumber = index + 1;
+    const line = raw.trim();
+    if (line === '' || line.startsWith(';')) return;
+
+    if (line.startsWith('>')) {
+      finish();
+      const header = line.slice(1).trim();
+      if (header === '') {
+        throw new SequenceParseError(lineNumber, "empty FASTA header – expected a name after '>'");
+      }
+      const [id, ...description] = header.split(/\s+/);
+      current = { id, description: description.join(' '), format: 'fasta', sequence: '', features: [], ambiguousBases: 0 };
+      headerLine = lineNumber;
+      return;
+    }
+
+    if (!current) {
+      throw new SequenceParseError(lineNumber, "sequence found before the first '>' header");
+    }
+    current.sequence += cleanSequenceLine(line, lineNumber);
+  });
+
+  finish();
+  if (records.length === 0) {
+    throw new SequenceParseError(1, "no FASTA records found – each record starts with a '>' header");
+  }
+  return records;
+};
+
+// Split on commas that are not inside parentheses
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')') depth--;
+    if (text[i] === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+};
+
+/**
+ * Parse a GenBank/INSDC feature location such as '<1..206', 'complement(3300..4037)'
+ * or 'join(1..50,120..200)' into 0-based segments and a strand
+ */
+export const parseFeatureLocation = (
+  location: string,
+  lineNumber: number
+): { strand: '+' | '-'; segments: FeatureSegment[] } => {
+  const text = location.replace(/\s/g, '');
+
+  const wrapped = text.match(/^(complement|join|order)\((.*)\)$/);
+  if (wrapped) {
+    const [, operator, inner] = wrapped;
+    if (operator === 'complement') {
+      const { segments } = parseFeatureLocation(inner, lineNumber);
+      return { strand: '-', segments };
+    }
+
+    const parts = splitTopLevel(inner).map(part => parseFeatureLocation(part, lineNumber));
+    return {
+      strand: parts.every(part => part.strand === '-') ? '-' : '+',
+      segments: parts.flatMap(part => part.segments).sort((a, b) => a.start - b.start),
+    };
+  }
+
+  if (text.includes(':')) {
+    throw new SequenceParseError(lineNumber, `location '${location}' refers to another record, which is not supported`);
+  }
+
+  const range = text.match(/^<?(\d+)\.\.>?(\d+)$/);
+  if (range) {
+    const start = Number(range[1]) - 1;
+    const end = Number(range[2]);
+    if (end <= start) {
+      throw new SequenceParseError(lineNumber, `location '${location}' ends before it starts`);
+    }
+    return { strand: '+', segments: [{ start, end }] };
+  }
+
+  const single = text.match(/^[<>]?(\d+)$/);
+  if (single) {
+    const position = Number(single[1]);
+    return { strand: '+', segments: [{ start: position - 1, end: position }] };
+  }
+
+  // A site between two bases, e.g. a cleavage point
+  const between = text.match(/^(\d+)\^(\d+)$/);
+  if (between) {
+    const position = Number(between[1]);
+    return { strand: '+', segments: [{ start: position, end: position }] };
+  }
+
+  throw new SequenceParseError(lineNumber, `cannot read feature location '${location}'`);
+};
+
+const featureLabel = (type: string, qualifiers: Record<string, string>) =>
+  FEATURE_LABEL_QUALIFIERS.map(key => qualifiers[key]).find(Boolean) ?? type;
+
+interface PendingFeature {
+  type: string;
+  location: string;
+  qualifiers: Record<string, string>;
+  line: number;
+  openQualifier: { key: string; line: number } | null; // quoted value still waiting for its closing quote
+}
+
+// Inside a quoted value a literal quote is written "", so only an odd run of trailing quotes closes it
+const isClosedQuote = (value: string) => {
+  if (!value.startsWith('"')) return true;
+  const trailing = value.slice(1).match(/"*$/)?.[0].length ?? 0;
+  return trailing % 2 === 1;
+};
+
+const unquote = (value: string) =>
+  value.startsWith('"') ? value.slice(1, -1).replace(/""/g, '"') : value;
+
+const buildFeature = (pending: PendingFeature): SequenceFeature => {
+  if (pending.openQualifier) {
+    throw new SequenceParseError(
+      pending.openQualifier.line,
+      `qualifier /${pending.openQualifier.key} is missing its closing quote`
+    );
+  }
+  const qualifiers = Object.fromEntries(
+    Object.entries(pending.qualifiers).map(([key, value]) => [key, unquote(value)])
+  );
+  const { strand, segments } = parseFeatureLocation(pending.location, pending.line);
+  return {
+    type: pending.type,
+    label: featureLabel(pending.type, qualifiers),
+    location: pending.location,
+    strand,
+    start: Math.min(...segments.map(segment => segment.start)),
+    end: Math.max(...segments.map(segment => segment.end)),
+    segments,
+    qualifiers,
+    line: pending.line,
+  };
+};
+
+/**
+ * Parse GenBank flat-file text with one or more LOCUS … // records
+ */
+export const parseGenBank = (text: string): SequenceRecord[] => {
+  const lines = splitLines(text);
+  const records: SequenceRecord[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].trim() === '') {
+      i++;
+      continue;
+    }
+
+    const locusLine = i + 1;
+    const locus = lines[i].match(/^LOCUS\s+(\S+)(?:\s+(\d+)\s+(?:bp|aa))?/);
+    if (!locus) {
+      throw new SequenceParseError(locusLine, "expected a GenBank record to start with 'LOCUS'");
+    }
+    if (lines[i].match(/\s\d+\s+aa\b/)) {
+      throw new SequenceParseError(locusLine, 'this is a protein record – only nucleotide GenBank files can be loaded');
+    }
+
+    let id = locus[1];
+    const declaredLength = locus[2] ? Number(locus[2]) : null;
+    let description = '';
+    let section: 'header' | 'features' | 'origin' = 'header';
+    let headerKeyword = '';
+    let sequence = '';
+    let sawOrigin = false;
+    let closed = false;
+    const pendingFeatures: PendingFeature[] = [];
+    let pending: PendingFeature | null = null;
+
+    for (i = i + 1; i < lines.length; i++) {
+      const line = lines[i];
+      const lineNumber = i + 1;
+
+      if (line.startsWith('//')) {
+        closed = true;
+        i++;
+        break;
+      }
+      if (line.trim() === '') continue;
+
+      // A keyword in the first column starts a new section
+      if (/^\S/.test(line)) {
+        if (line.startsWith('LOCUS')) {
+          throw new SequenceParseError(lineNumber, "new LOCUS found before the previous record was closed with '//'");
+        }
+        if (pending) pendingFeatures.push(pending);
+        pending = null;
+
+        const [keyword, ...rest] = line.trim().split(/\s+/);
+        headerKeyword = keyword;
+        if (keyword === 'FEATURES') {
+          section = 'features';
+        } else if (keyword === 'ORIGIN') {
+          section = 'origin';
+          sawOrigin = true;
+        } else {
+          section = 'header';
+          if (keyword === 'DEFINITION') description = rest.join(' ');
+          if (keyword === 'VERSION' && rest[0]) id = rest[0];
+        }
+        continue;
+      }
+
+      if (section === 'header') {
+        // Wrapped DEFINITION text is indented under the first line
+        if (headerKeyword === 'DEFINITION') description += ` ${line.trim()}`;
+        continue;
+      }
+
+      if (section === 'origin') {
+        const origin = line.match(/^\s*(\d+)\s?(.*)$/);
+        if (!origin) {
+          throw new SequenceParseError(lineNumber, 'expected a sequence line starting with its base number');
+        }
+        sequence += cleanSequenceLine(origin[2], lineNumber);
+        continue;
+      }
+
+      // FEATURES: keys sit in column 6, locations and qualifiers in column 22
+      const key = line.match(/^ {5}(\S+)\s+(\S.*)$/);
+      if (key) {
+        if (pending) pendingFeatures.push(pending);
+        pending = { type: key[1], location: key[2].trim(), qualifiers: {}, line: lineNumber, openQualifier: null };
+        continue;
+      }
+
+      const continuation = line.match(/^ {21}(.*)$/);
+      if (!continuation || !pending) {
+        throw new SequenceParseError(
+          lineNumber,
+          'unexpected text in the FEATURES table – feature keys start in column 6 and qualifiers in column 22'
+        );
+      }
+
+      const content = continuation[1].trimEnd();
+      if (pending.openQualifier) {
+        const { key: openKey } = pending.openQualifier;
+        const separator = UNSPACED_QUALIFIERS.includes(openKey) ? '' : ' ';
+        pending.qualifiers[openKey] += `${separator}${content.trim()}`;
+        if (isClosedQuote(pending.qualifiers[openKey])) pending.openQualifier = null;
+      } else if (content.startsWith('/')) {
+        const qualifier = content.match(/^\/([^=\s]+)(?:=(.*))?$/);
+        if (!qualifier) {
+          throw new SequenceParseError(lineNumber, `cannot read qualifier '${content}'`);
+        }
+        const [, qualifierKey, value = ''] = qualifier;
+        pending.qualifiers[qualifierKey] = value;
+        if (!isClosedQuote(value)) pending.openQualifier = { key: qualifierKey, line: lineNumber };
+      } else if (Object.keys(pending.qualifiers).length === 0) {
+        // Long locations wrap onto the next line
+        pending.location += content.trim();
+      } else {
+        throw new SequenceParseError(lineNumber, `unexpected text '${content.trim()}' – qualifiers must start with '/'`);
+      }
+    }
+
+    if (pending) pendingFeatures.push(pending);
+
+    if (!closed) {
+      throw new SequenceParseError(lines.length, `record '${id}' (line ${locusLine}) is not closed with '//'`);
+    }
+    if (!sawOrigin || sequence.length === 0) {
+      throw new SequenceParseError(locusLine, `record '${id}' has no ORIGIN sequence`);
+    }
+    if (declaredLength !== null && declaredLength !== sequence.length) {
+      throw new SequenceParseError(
+        locusLine,
+        `LOCUS declares ${declaredLength} bp but ORIGIN contains ${sequence.length} bases`
+      );
+    }
+
+    const features = pendingFeatures.map(buildFeature);
+    features.forEach(feature => {
+      if (feature.end > sequence.length) {
+        throw new SequenceParseError(
+          feature.line,
+          `${feature.type} location '${feature.location}' runs past the end of the ${sequence.length} bp sequence`
+        );
+      }
+    });
+
+    records.push({
+      id,
+      description: description.replace(/\.$/, ''),
+      format: 'genbank',
+      sequence,
+      features,
+      ambiguousBases: countAmbiguousBases(sequence),
+    });
+  }
+
+  if (records.length === 0) {
+    throw new SequenceParseError(1, "no GenBank records found – each record starts with 'LOCUS'");
+  }
+  return records;
+};
+
+/**
+ * Detect FASTA or GenBank from the first non-blank line and parse every record
+ */
+export const parseSequenceFile = (text: string): SequenceRecord[] => {
+  const lines = splitLines(text);
+  const firstIndex = lines.findIndex(line => line.trim() !== '');
+  if (firstIndex === -1) {
+    throw new SequenceParseError(1, 'the file is empty');
+  }
+
+  const first = lines[firstIndex].trim();
+  if (first.startsWith('>') || first.startsWith(';')) return parseFasta(text);
+  if (first.startsWith('LOCUS')) return parseGenBank(text);
+
+  throw new SequenceParseError(
+    firstIndex + 1,
+    "unrecognised format – FASTA files start with '>' and GenBank files with 'LOCUS'"
+  );
+};
+
+/**
+ * The bases a feature covers, joined across its segments and read 5'→3' on the feature's own strand
+ */
+export const extractFeatureSequence = (record: SequenceRecord, feature: SequenceFeature): string => {
+  const joined = feature.segments.map(segment => record.sequence.slice(segment.start, segment.end)).join('');
+  return feature.strand === '-' ? reverseComplement(joined) : joined;
+};
+
+/**
+ * The sequence to translate: the given or first CDS, spliced and on its own strand, or the whole record when there is none
+ */
+export const getCodingSequence = (record: SequenceRecord, feature?: SequenceFeature | null): string => {
+  const cds = feature?.type === 'CDS' ? feature : record.features.find(f => f.type === 'CDS');
+  return cds ? extractFeatureSequence(record, cds) : record.sequence;
+};
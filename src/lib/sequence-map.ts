@@ -0,0 +1,72 @@
+import { type Strand } from '@/lib/orf';
+import { type SequenceFeature } from '@/lib/sequence-files';
+
+// What the map needs to draw a feature; GenBank features fit as they are
+export type MapFeature = Pick<SequenceFeature, 'type' | 'label' | 'strand' | 'start' | 'end' | 'segments'> & {
+  id?: string;
+};
+
+// Tracks in the order they are stacked, top to bottom; other feature types follow in the order they appear
+export const FEATURE_TRACK_ORDER = ['promoter', 'gene', 'mRNA', "5'UTR", 'exon', 'intron', 'CDS', "3'UTR", 'ORF'];
+
+export const FEATURE_TYPE_COLORS: Record<string, string> = {
+  promoter: '#A855F7',
+  gene: '#64748B',
+  mRNA: '#0EA5E9',
+  "5'UTR": '#14B8A6',
+  exon: '#22C55E',
+  intron: '#F59E0B',
+  CDS: '#3B82F6',
+  "3'UTR": '#14B8A6',
+  ORF: '#6366F1',
+  motif: '#EC4899',
+  start: '#4ADE80',
+  stop: '#F87171',
+};
+
+export const DEFAULT_FEATURE_COLOR = '#94A3B8';
+
+/**
+ * Assign overlapping features of one track to separate lanes, greedily by start
+ */
+export const packLanes = (features: MapFeature[]): number[] => {
+  const laneEnds: number[] = [];
+  const lanes = new Array<number>(features.length);
+  features
+    .map((feature, i) => ({ feature, i }))
+    .sort((a, b) => a.feature.start - b.feature.start)
+    .forEach(({ feature, i }) => {
+      const lane = laneEnds.findIndex(end => end <= feature.start);
+      const chosen = lane === -1 ? laneEnds.length : lane;
+      laneEnds[chosen] = feature.end;
+      lanes[i] = chosen;
+    });
+  return lanes;
+};
+
+/**
+ * Features grouped into tracks by type, in FEATURE_TRACK_ORDER
+ */
+export const groupFeatureTracks = (features: MapFeature[]): { type: string; features: MapFeature[] }[] => {
+  const types = [...new Set(features.map(({ type }) => type))].sort((a, b) => {
+    const rank = (type: string) => (FEATURE_TRACK_ORDER.includes(type) ? FEATURE_TRACK_ORDER.indexOf(type) : FEATURE_TRACK_ORDER.length);
+    return rank(a) - rank(b);
+  });
+  return types.map(type => ({ type, features: features.filter(feature => feature.type === type) }));
+};
+
+/**
+ * A round ruler interval (1, 2 or 5 × a power of ten) giving about `ticks` ticks across the view
+ */
+export const rulerStep = (visibleBases: number, ticks = 8): number => {
+  const raw = Math.max(visibleBases / ticks, 1);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= raw);
+  return step ?? 10 * magnitude;
+};
+
+/**
+ * First base, on the forward strand, of codon `index` in a reading frame of a sequence of `length` bases
+ */
+export const codonStart = (strand: Strand, frame: number, index: number, length: number): number =>
+  strand === '+' ? frame + index * 3 : length - (frame + index * 3 + 3);
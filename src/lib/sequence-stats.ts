@@ -0,0 +1,150 @@
+import { normalizeDNA } from '@/lib/dna';
+import { ALL_CODONS, getGeneticCode, splitCodons } from '@/lib/genetic-code';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+export interface NucleotideCount {
+  base: string;
+  count: number;
+  fraction: number;
+}
+
+export interface GCWindow {
+  position: number; // 1-based centre of the window
+  gc: number;       // percent
+}
+
+export interface CodonUsage {
+  codon: string;     // mRNA codon
+  aminoAcid: string; // one-letter, '*' for stop
+  count: number;
+  perThousand: number;
+  rscu: number;      // relative synonymous codon usage: 1 means no bias among synonyms
+}
+
+const isGC = (base: string) => base === 'G' || base === 'C';
+
+/**
+ * Count of each base, in A, C, G, T order
+ */
+export const nucleotideComposition = (input: string): NucleotideCount[] => {
+  const dna = normalizeDNA(input);
+  return ['A', 'C', 'G', 'T'].map(base => {
+    const count = dna.split(base).length - 1;
+    return { base, count, fraction: dna.length === 0 ? 0 : count / dna.length };
+  });
+};
+
+/**
+ * GC content as a percentage
+ */
+export const gcContent = (input: string): number => {
+  const dna = normalizeDNA(input);
+  if (dna.length === 0) return 0;
+  return (dna.split('').filter(isGC).length / dna.length) * 100;
+};
+
+/**
+ * GC percentage in a window slid along the sequence
+ */
+export const slidingGC = (input: string, windowSize: number, step = 1): GCWindow[] => {
+  const dna = normalizeDNA(input);
+  const size = Math.max(1, Math.min(windowSize, dna.length));
+  const windows: GCWindow[] = [];
+  if (dna.length === 0) return windows;
+
+  // Running count so long sequences stay linear
+  let gc = dna.slice(0, size).split('').filter(isGC).length;
+  for (let start = 0; start + size <= dna.length; start++) {
+    if (start > 0) {
+      gc += (isGC(dna[start + size - 1]) ? 1 : 0) - (isGC(dna[start - 1]) ? 1 : 0);
+    }
+    if (start % step === 0) {
+      windows.push({ position: start + Math.ceil(size / 2), gc: (gc / size) * 100 });
+    }
+  }
+  return windows;
+};
+
+/**
+ * GC at the first, second and third codon positions; GC3 tracks codon bias most closely
+ */
+export const gcByCodonPosition = (coding: string): [number, number, number] => {
+  const codons = splitCodons(normalizeDNA(coding));
+  if (codons.length === 0) return [0, 0, 0];
+  return [0, 1, 2].map(i =>
+    (codons.filter(codon => isGC(codon[i])).length / codons.length) * 100
+  ) as [number, number, number];
+};
+
+/**
+ * RSCU for every codon from raw counts: observed count divided by the mean count of its synonymous codons
+ */
+const withRSCU = (
+  counts: Record<string, number>,
+  tableId: number
+): CodonUsage[] => {
+  const code = getGeneticCode(tableId);
+  const total = ALL_CODONS.reduce((sum, codon) => sum + counts[codon], 0);
+
+  const byAminoAcid: Record<string, string[]> = {};
+  ALL_CODONS.forEach(codon => {
+    (byAminoAcid[code[codon]] ??= []).push(codon);
+  });
+
+  return ALL_CODONS.map(codon => {
+    const synonyms = byAminoAcid[code[codon]];
+    const familyTotal = synonyms.reduce((sum, synonym) => sum + counts[synonym], 0);
+    return {
+      codon,
+      aminoAcid: code[codon],
+      count: counts[codon],
+      perThousand: total === 0 ? 0 : (counts[codon] / total) * 1000,
+      rscu: familyTotal === 0 ? 0 : (counts[codon] * synonyms.length) / familyTotal,
+    };
+  });
+};
+
+/**
+ * Codon counts, frequencies and RSCU for a coding sequence read in frame from its first base
+ */
+export const codonUsage = (coding: string, tableId = STANDARD_TABLE_ID): CodonUsage[] => {
+  const counts: Record<string, number> = Object.fromEntries(ALL_CODONS.map(codon => [codon, 0]));
+  // Codons with an ambiguity code have no single meaning, so they are left out
+  splitCodons(normalizeDNA(coding).replace(/T/g, 'U')).forEach(codon => {
+    if (codon in counts) counts[codon]++;
+  });
+  return withRSCU(counts, tableId);
+};
+
+/**
+ * The same statistics for a reference table given as frequencies per thousand codons
+ */
+export const referenceCodonUsage = (
+  perThousand: Record<string, number>,
+  tableId = STANDARD_TABLE_ID
+): CodonUsage[] => withRSCU(perThousand, tableId);
+
+/**
+ * Codon adaptation index (Sharp & Li, 1987): geometric mean, over the gene's sense codons, of each codon's
+ * usage relative to the most used synonym in the reference. 1 means every codon is the host's favourite.
+ * Met, Trp and stops carry no information and are skipped.
+ */
+export const codonAdaptationIndex = (gene: CodonUsage[], reference: CodonUsage[]): number => {
+  const bestInFamily: Record<string, number> = {};
+  const familySize: Record<string, number> = {};
+  reference.forEach(entry => {
+    bestInFamily[entry.aminoAcid] = Math.max(bestInFamily[entry.aminoAcid] ?? 0, entry.rscu);
+    familySize[entry.aminoAcid] = (familySize[entry.aminoAcid] ?? 0) + 1;
+  });
+
+  let logSum = 0;
+  let codons = 0;
+  gene.forEach((entry, i) => {
+    if (entry.count === 0 || entry.aminoAcid === '*' || familySize[entry.aminoAcid] < 2) return;
+    // A codon the reference never uses would send the index to zero, so it gets a small floor instead
+    const weight = Math.max(reference[i].rscu, 0.01) / bestInFamily[entry.aminoAcid];
+    logSum += entry.count * Math.log(weight);
+    codons += entry.count;
+  });
+  return codons === 0 ? 0 : Math.exp(logSum / codons);
+};
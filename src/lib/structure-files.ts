@@ -0,0 +1,502 @@
+import { AMINO_ACIDS } from '@/lib/genetic-code';
+import { predictSecondaryStructure, type SecondaryStructure } from '@/lib/secondary-structure';
+
+export type StructureFormat = 'pdb' | 'mmcif';
+
+export interface StructureAtom {
+  name: string;    // e.g. 'CA', 'N', 'OG1'
+  element: string; // upper case, e.g. 'C', 'FE'
+  x: number;       // ångströms
+  y: number;
+  z: number;
+}
+
+export interface StructureResidue {
+  chain: string;
+  number: number;   // author residue number
+  name: string;     // three-letter code as written, e.g. 'ALA', 'HEM'
+  oneLetter: string; // 'X' for anything that is not a standard amino acid
+  atoms: StructureAtom[];
+  secondary: SecondaryStructure;
+}
+
+export interface StructureChain {
+  id: string;
+  residues: StructureResidue[]; // amino acids with a Cα, in chain order
+}
+
+export interface ProteinStructure {
+  id: string;
+  title: string;
+  format: StructureFormat;
+  chains: StructureChain[];
+  ligands: StructureResidue[]; // hetero groups other than water, e.g. haem or zinc
+  atomCount: number;
+  annotated: boolean; // secondary structure read from the file rather than predicted
+}
+
+export interface StructurePreset {
+  id: string; // PDB accession
+  name: string;
+  description: string;
+}
+
+/**
+ * A malformed structure file; `line` is 1-based and the message already starts with it
+ */
+export class StructureParseError extends Error {
+  line: number;
+
+  constructor(line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'StructureParseError';
+    this.line = line;
+  }
+}
+
+// Colour of each chain in order, cycling for large complexes
+export const CHAIN_COLORS = ['#8B5CF6', '#0EA5E9', '#F97316', '#22C55E', '#EC4899', '#FACC15', '#14B8A6', '#F43F5E'];
+
+// File extensions offered by upload dialogs
+export const STRUCTURE_FILE_EXTENSIONS = ['.pdb', '.ent', '.cif', '.mmcif'];
+
+// Structures every learner should meet, read from public/structures/<id>.pdb when that copy is deployed
+export const STRUCTURE_PRESETS: StructurePreset[] = [
+  {
+    id: '4INS',
+    name: 'Insulin',
+    description: 'Two insulin molecules, each an A and a B chain tied together by disulfide bridges, with the zinc ions of the storage hexamer',
+  },
+  {
+    id: '4HHB',
+    name: 'Haemoglobin',
+    description: 'Two α and two β globin chains, each folded almost entirely into helices around an iron-carrying haem group',
+  },
+  {
+    id: '1EMA',
+    name: 'Green fluorescent protein',
+    description: 'Eleven β-strands rolled into a barrel that shields the glowing chromophore at its centre',
+  },
+];
+
+/**
+ * Copy of a preset served by the site itself, so the explorer works offline once it is in public/structures
+ */
+export const getPresetUrl = (id: string): string => `/structures/${id}.pdb`;
+
+/**
+ * The same entry in the RCSB archive, a last resort when the site's own copy is missing or unreadable
+ */
+export const getPresetArchiveUrl = (id: string): string => `https://files.rcsb.org/download/${id}.pdb`;
+
+// Modified residues that still sit in the chain, read as their parent amino acid
+const MODIFIED_RESIDUES: Record<string, string> = { MSE: 'M', SEP: 'S', TPO: 'T', PTR: 'Y', HYP: 'P' };
+
+const THREE_TO_ONE: Record<string, string> = {
+  ...Object.fromEntries(
+    Object.values(AMINO_ACIDS)
+      .filter(aminoAcid => /^[A-Z]$/.test(aminoAcid.oneLetter) && aminoAcid.oneLetter !== 'X')
+      .map(aminoAcid => [aminoAcid.threeLetter.toUpperCase(), aminoAcid.oneLetter])
+  ),
+  ...MODIFIED_RESIDUES,
+};
+
+const WATER = ['HOH', 'WAT', 'DOD'];
+
+// Covalent bonds are shorter than this; 2.1 Å allows for S–S and S–C
+const MAX_BOND_LENGTH = 2.1;
+const MIN_BOND_LENGTH = 0.4;
+
+interface SecondaryRange {
+  type: 'helix' | 'strand';
+  chain: string;
+  start: number;
+  end: number; // inclusive, as in the file
+}
+
+interface AtomRecord extends StructureAtom {
+  hetero: boolean;
+  residueName: string;
+  chain: string;
+  residueNumber: number;
+  insertion: string;
+}
+
+const splitLines = (text: string): string[] => text.replace(/\r\n?/g, '\n').split('\n');
+
+// Group atoms into residues and split them into chains and ligands
+const assemble = (
+  id: string,
+  title: string,
+  format: StructureFormat,
+  atoms: AtomRecord[],
+  ranges: SecondaryRange[]
+): ProteinStructure => {
+  const residues: (StructureResidue & { hetero: boolean })[] = [];
+  let key = '';
+  for (const atom of atoms) {
+    const atomKey = `${atom.chain}:${atom.residueNumber}${atom.insertion}:${atom.residueName}`;
+    if (atomKey !== key) {
+      key = atomKey;
+      residues.push({
+        chain: atom.chain,
+        number: atom.residueNumber,
+        name: atom.residueName,
+        oneLetter: THREE_TO_ONE[atom.residueName] ?? 'X',
+        atoms: [],
+        secondary: 'coil',
+        hetero: atom.hetero,
+      });
+    }
+    residues[residues.length - 1].atoms.push({ name: atom.name, element: atom.element, x: atom.x, y: atom.y, z: atom.z });
+  }
+
+  const chains: StructureChain[] = [];
+  const ligands: StructureResidue[] = [];
+  for (const { hetero, ...residue } of residues) {
+    const isPolymer = residue.atoms.some(atom => atom.name === 'CA') && (!hetero || residue.oneLetter !== 'X');
+    if (!isPolymer) {
+      if (!WATER.includes(residue.name)) ligands.push(residue);
+      continue;
+    }
+    let chain = chains.find(c => c.id === residue.chain);
+    if (!chain) {
+      chain = { id: residue.chain, residues: [] };
+      chains.push(chain);
+    }
+    chain.residues.push(residue);
+  }
+
+  // Use the file's helices and sheets; predict them when it has none
+  for (const chain of chains) {
+    for (const range of ranges.filter(r => r.chain === chain.id)) {
+      for (const residue of chain.residues) {
+        if (residue.number >= range.start && residue.number <= range.end) residue.secondary = range.type;
+      }
+    }
+    if (ranges.length === 0) {
+      const predicted = predictSecondaryStructure(chain.residues.map(residue => residue.oneLetter).join(''));
+      chain.residues.forEach((residue, i) => {
+        residue.secondary = predicted[i];
+      });
+    }
+  }
+
+  return { id, title, format, chains, ligands, atomCount: atoms.length, annotated: ranges.length > 0 };
+};
+
+const parseNumber = (text: string, lineNumber: number, field: string): number => {
+  const value = Number(text.trim());
+  if (text.trim() === '' || Number.isNaN(value)) {
+    throw new StructureParseError(lineNumber, `${field} '${text.trim()}' is not a number`);
+  }
+  return value;
+};
+
+/**
+ * Parse a PDB file: ATOM and HETATM records of the first model, plus HELIX and SHEET records
+ */
+export const parsePDB = (text: string): ProteinStructure => {
+  const atoms: AtomRecord[] = [];
+  const ranges: SecondaryRange[] = [];
+  let id = '';
+  let title = '';
+
+  const lines = splitLines(text);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNumber = i + 1;
+    const record = line.slice(0, 6).trim();
+
+    if (record === 'ENDMDL' || record === 'END') break;
+    if (record === 'HEADER') {
+      id = line.slice(62, 66).trim();
+    } else if (record === 'TITLE') {
+      title = `${title} ${line.slice(10).trim()}`.trim();
+    } else if (record === 'HELIX') {
+      ranges.push({
+        type: 'helix',
+        chain: line[19] ?? ' ',
+        start: parseNumber(line.slice(21, 25), lineNumber, 'helix start'),
+        end: parseNumber(line.slice(33, 37), lineNumber, 'helix end'),
+      });
+    } else if (record === 'SHEET') {
+      ranges.push({
+        type: 'strand',
+        chain: line[21] ?? ' ',
+        start: parseNumber(line.slice(22, 26), lineNumber, 'strand start'),
+        end: parseNumber(line.slice(33, 37), lineNumber, 'strand end'),
+      });
+    } else if (record === 'ATOM' || record === 'HETATM') {
+      if (line.length < 54) {
+        throw new StructureParseError(lineNumber, `${record} record is too short – coordinates end at column 54`);
+      }
+      // Alternate conformations: keep the first
+      const altLoc = line[16];
+      if (altLoc !== ' ' && altLoc !== 'A') continue;
+
+      const name = line.slice(12, 16).trim();
+      atoms.push({
+        hetero: record === 'HETATM',
+        name,
+        element: (line.slice(76, 78).trim() || name.replace(/[^A-Z]/g, '').charAt(0)).toUpperCase(),
+        residueName: line.slice(17, 20).trim(),
+        chain: line[21],
+        residueNumber: parseNumber(line.slice(22, 26), lineNumber, 'residue number'),
+        insertion: line[26] ?? ' ',
+        x: parseNumber(line.slice(30, 38), lineNumber, 'x coordinate'),
+        y: parseNumber(line.slice(38, 46), lineNumber, 'y coordinate'),
+        z: parseNumber(line.slice(46, 54), lineNumber, 'z coordinate'),
+      });
+    }
+  }
+
+  if (atoms.length === 0) {
+    throw new StructureParseError(lines.length, 'no ATOM or HETATM records found');
+  }
+  return assemble(id, title, 'pdb', atoms, ranges);
+};
+
+// Values in a data line: bare words, or quotes that only close before whitespace
+const CIF_TOKEN = /'(?:[^']|'(?!\s|$))*'|"(?:[^"]|"(?!\s|$))*"|\S+/g;
+
+const unquote = (token: string) =>
+  (token.startsWith("'") && token.endsWith("'")) || (token.startsWith('"') && token.endsWith('"'))
+    ? token.slice(1, -1)
+    : token;
+
+interface CifTable {
+  fields: string[];
+  rows: { values: string[]; line: number }[];
+}
+
+// Read every category of the first data block into a table, single items as one-row tables
+const readCifTables = (lines: string[]): Map<string, CifTable> => {
+  const tables = new Map<string, CifTable>();
+  let loop: { category: string; fields: string[]; values: string[]; lines: number[] } | null = null;
+  let pending: { category: string; field: string } | null = null;
+  let blocks = 0;
+
+  const closeLoop = () => {
+    if (!loop) return;
+    const { category, fields, values, lines: valueLines } = loop;
+    loop = null;
+    if (fields.length === 0) return;
+    if (values.length % fields.length !== 0) {
+      throw new StructureParseError(
+        valueLines[valueLines.length - 1],
+        `_${category} loop has ${values.length} values, which do not fill rows of ${fields.length} fields`
+      );
+    }
+    const table: CifTable = { fields, rows: [] };
+    for (let i = 0; i < values.length; i += fields.length) {
+      table.rows.push({ values: values.slice(i, i + fields.length), line: valueLines[i] });
+    }
+    tables.set(category, table);
+  };
+
+  const setItem = (category: string, field: string, value: string) => {
+    const table = tables.get(category) ?? { fields: [], rows: [{ values: [], line: 0 }] };
+    table.fields.push(field);
+    table.rows[0].values.push(value);
+    tables.set(category, table);
+  };
+
+  const addValue = (value: string, lineNumber: number) => {
+    if (pending) {
+      setItem(pending.category, pending.field, value);
+      pending = null;
+    } else if (loop) {
+      loop.values.push(value);
+      loop.lines.push(lineNumber);
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNumber = i + 1;
+
+    // Multi-line text field between lines starting with ';'
+    if (line.startsWith(';')) {
+      const text = [line.slice(1)];
+      while (++i < lines.length && !lines[i].startsWith(';')) text.push(lines[i]);
+      addValue(text.join('\n').trim(), lineNumber);
+      continue;
+    }
+
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) continue;
+
+    if (trimmed.startsWith('data_')) {
+      if (++blocks > 1) break;
+      continue;
+    }
+    if (trimmed === 'loop_') {
+      closeLoop();
+      loop = { category: '', fields: [], values: [], lines: [] };
+      continue;
+    }
+    if (trimmed.startsWith('_')) {
+      const [name, ...rest] = trimmed.match(CIF_TOKEN) ?? [];
+      const [category, field] = name.slice(1).split('.');
+      if (loop && loop.values.length === 0 && (loop.category === '' || loop.category === category)) {
+        loop.category = category;
+        loop.fields.push(field);
+        continue;
+      }
+      closeLoop();
+      if (rest.length > 0) setItem(category, field, unquote(rest.join(' ')));
+      else pending = { category, field };
+      continue;
+    }
+
+    for (const token of trimmed.match(CIF_TOKEN) ?? []) addValue(unquote(token), lineNumber);
+  }
+  closeLoop();
+  return tables;
+};
+
+const column = (table: CifTable, ...names: string[]) => {
+  const index = names.map(name => table.fields.indexOf(name)).find(i => i !== -1) ?? -1;
+  return (row: { values: string[] }) => (index === -1 ? '' : row.values[index]);
+};
+
+/**
+ * Parse a PDBx/mmCIF file: _atom_site of the first model, plus _struct_conf helices and _struct_sheet_range strands
+ */
+export const parseMmCIF = (text: string): ProteinStructure => {
+  const lines = splitLines(text);
+  const tables = readCifTables(lines);
+
+  const atomSite = tables.get('atom_site');
+  if (!atomSite || atomSite.rows.length === 0) {
+    throw new StructureParseError(lines.length, 'no _atom_site records found');
+  }
+
+  const group = column(atomSite, 'group_PDB');
+  const element = column(atomSite, 'type_symbol');
+  const atomName = column(atomSite, 'label_atom_id', 'auth_atom_id');
+  const altId = column(atomSite, 'label_alt_id');
+  const residueName = column(atomSite, 'auth_comp_id', 'label_comp_id');
+  const chain = column(atomSite, 'auth_asym_id', 'label_asym_id');
+  const residueNumber = column(atomSite, 'auth_seq_id', 'label_seq_id');
+  const insertion = column(atomSite, 'pdbx_PDB_ins_code');
+  const model = column(atomSite, 'pdbx_PDB_model_num');
+  const [x, y, z] = ['Cartn_x', 'Cartn_y', 'Cartn_z'].map(name => column(atomSite, name));
+
+  const firstModel = model(atomSite.rows[0]);
+  const atoms: AtomRecord[] = [];
+  for (const row of atomSite.rows) {
+    if (model(row) !== firstModel) break;
+    if (!['.', '?', 'A', ''].includes(altId(row))) continue;
+
+    const number = residueNumber(row);
+    atoms.push({
+      hetero: group(row) === 'HETATM',
+      name: atomName(row),
+      element: element(row).toUpperCase(),
+      residueName: residueName(row),
+      chain: chain(row),
+      residueNumber: number === '.' ? 0 : parseNumber(number, row.line, 'residue number'),
+      insertion: ['.', '?'].includes(insertion(row)) ? '' : insertion(row),
+      x: parseNumber(x(row), row.line, 'x coordinate'),
+      y: parseNumber(y(row), row.line, 'y coordinate'),
+      z: parseNumber(z(row), row.line, 'z coordinate'),
+    });
+  }
+
+  const ranges: SecondaryRange[] = [];
+  const readRanges = (category: string, type: SecondaryRange['type']) => {
+    const table = tables.get(category);
+    if (!table) return;
+    const conformation = column(table, 'conf_type_id');
+    const rangeChain = column(table, 'beg_auth_asym_id', 'beg_label_asym_id');
+    const start = column(table, 'beg_auth_seq_id', 'beg_label_seq_id');
+    const end = column(table, 'end_auth_seq_id', 'end_label_seq_id');
+    for (const row of table.rows) {
+      // _struct_conf also lists turns; only helices count
+      if (category === 'struct_conf' && !conformation(row).startsWith('HELX')) continue;
+      ranges.push({
+        type,
+        chain: rangeChain(row),
+        start: parseNumber(start(row), row.line, `${category} start`),
+        end: parseNumber(end(row), row.line, `${category} end`),
+      });
+    }
+  };
+  readRanges('struct_conf', 'helix');
+  readRanges('struct_sheet_range', 'strand');
+
+  const entry = tables.get('entry');
+  const struct = tables.get('struct');
+  return assemble(
+    entry ? column(entry, 'id')(entry.rows[0]) : '',
+    struct ? column(struct, 'title')(struct.rows[0]) : '',
+    'mmcif',
+    atoms,
+    ranges
+  );
+};
+
+/**
+ * Detect mmCIF (a 'data_' block) or PDB from the first non-blank line and parse the structure
+ */
+export const parseStructureFile = (text: string): ProteinStructure => {
+  const lines = splitLines(text);
+  const firstIndex = lines.findIndex(line => line.trim() !== '');
+  if (firstIndex === -1) {
+    throw new StructureParseError(1, 'the file is empty');
+  }
+
+  const first = lines[firstIndex].trim();
+  if (first.startsWith('data_')) return parseMmCIF(text);
+  if (/^(HEADER|TITLE|COMPND|REMARK|CRYST1|MODEL|ATOM|HETATM|EXPDTA|SEQRES|HELIX|SHEET)/.test(first)) return parsePDB(text);
+
+  throw new StructureParseError(
+    firstIndex + 1,
+    "unrecognised format – mmCIF files start with 'data_' and PDB files with records such as HEADER or ATOM"
+  );
+};
+
+/**
+ * All atoms of the chains and ligands, in file order within each
+ */
+export const structureAtoms = (structure: ProteinStructure): StructureAtom[] => [
+  ...structure.chains.flatMap(chain => chain.residues.flatMap(residue => residue.atoms)),
+  ...structure.ligands.flatMap(residue => residue.atoms),
+];
+
+/**
+ * Covalent bonds inferred from distances, as index pairs into `atoms`.
+ * Atoms are binned into grid cells one bond length wide so only neighbouring cells are compared.
+ */
+export const findBonds = (atoms: StructureAtom[]): [number, number][] => {
+  const cell = (value: number) => Math.floor(value / MAX_BOND_LENGTH);
+  const grid = new Map<string, number[]>();
+  atoms.forEach((atom, i) => {
+    const key = `${cell(atom.x)},${cell(atom.y)},${cell(atom.z)}`;
+    const bin = grid.get(key);
+    if (bin) bin.push(i);
+    else grid.set(key, [i]);
+  });
+
+  const bonds: [number, number][] = [];
+  atoms.forEach((atom, i) => {
+    // Hydrogens are not drawn, so neither are their bonds
+    if (atom.element === 'H') return;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (const j of grid.get(`${cell(atom.x) + dx},${cell(atom.y) + dy},${cell(atom.z) + dz}`) ?? []) {
+            if (j <= i || atoms[j].element === 'H') continue;
+            const other = atoms[j];
+            const distance = Math.hypot(atom.x - other.x, atom.y - other.y, atom.z - other.z);
+            const limit = atom.element === 'S' || other.element === 'S' ? MAX_BOND_LENGTH : 1.9;
+            if (distance > MIN_BOND_LENGTH && distance < limit) bonds.push([i, j]);
+          }
+        }
+      }
+    }
+  });
+  return bonds;
+};
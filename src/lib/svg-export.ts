@@ -0,0 +1,53 @@
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// Blob URLs are released once the browser has had a moment to start the download
+const download = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Serialised SVG markup as a standalone file, with the namespace browsers need to open it
+ */
+export const toStandaloneSVG = (markup: string): string =>
+  markup.includes('xmlns=') ? markup : markup.replace('<svg', `<svg xmlns="${SVG_NAMESPACE}"`);
+
+/**
+ * Save SVG markup as an .svg file
+ */
+export const downloadSVG = (markup: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([toStandaloneSVG(markup)], { type: 'image/svg+xml' }));
+  download(url, filename);
+};
+
+/**
+ * Render SVG markup to a PNG of the given pixel size and save it; resolves once the download has started
+ */
+export const downloadPNG = (markup: string, filename: string, width: number, height: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([toStandaloneSVG(markup)], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext('2d')?.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('Could not render the image'));
+          return;
+        }
+        download(URL.createObjectURL(blob), filename);
+        resolve();
+      }, 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the image'));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,215 @@
+import { complementDNA, normalizeDNA, pairRNABase, reverseComplement } from '@/lib/dna';
+import type { FeatureSegment } from '@/lib/sequence-files';
+
+export interface SequenceSignal {
+  start: number; // inclusive index on the coding strand
+  end: number;   // exclusive index on the coding strand
+  sequence: string;
+}
+
+export interface Terminator extends SequenceSignal {
+  type: 'intrinsic' | 'poly-a-signal';
+  stemLength?: number;
+  loopLength?: number;
+}
+
+export interface TranscriptionUnit {
+  template: string; // template strand, written 3'→5'
+  coding: string;   // coding strand, written 5'→3' and aligned base-for-base with the template
+  promoter: SequenceSignal | null;
+  terminator: Terminator | null;
+  start: number;    // first transcribed base
+  end: number;      // one past the last transcribed base
+  mrna: string;     // transcript, written 5'→3'
+}
+
+export interface TemplatePreset {
+  id: string;
+  name: string;
+  description: string;
+  template: string;
+  introns?: FeatureSegment[]; // coding-strand positions, for presets that need splicing
+}
+
+// Colors based on the project's color palette, shared by the transcription and regulation scenes
+export const TRANSCRIPTION_COLORS = {
+  dna: {
+    backbone1: '#8B5CF6', // Primary color
+    backbone2: '#0EA5E9', // Secondary color
+    baseA: '#E11D48', // Red
+    baseT: '#22C55E', // Green
+    baseG: '#F59E0B', // Orange/Amber
+    baseC: '#3B82F6', // Blue
+  },
+  rnaPolymerase: '#10B981', // Accent green
+  mrna: '#FFA500', // Orange
+  nucleus: '#1E293B', // Dark blue-gray
+  cytoplasm: '#0F172A', // Darker blue-gray
+  label: '#FFFFFF', // White text
+  labelBackground: 'rgba(139, 92, 246, 0.2)', // Semi-transparent primary
+};
+
+// TATA box (eukaryotes) and Pribnow -10 box (bacteria)
+const PROMOTER_MOTIFS = ['TATAAA', 'TATAAT'];
+
+const POLY_A_SIGNAL = 'AATAAA';
+
+// Pre-mRNA is cleaved 10–30 nt downstream of AAUAAA; we use a fixed midpoint
+const POLY_A_CLEAVAGE_OFFSET = 15;
+
+const MIN_STEM = 4;
+const MAX_STEM = 8;
+const MIN_LOOP = 3;
+const MAX_LOOP = 8;
+const MIN_U_TRACT = 4;
+
+/**
+ * Find the first promoter box on the coding strand
+ */
+export const findPromoter = (coding: string): SequenceSignal | null => {
+  let best: SequenceSignal | null = null;
+  for (const motif of PROMOTER_MOTIFS) {
+    const index = coding.indexOf(motif);
+    if (index !== -1 && (!best || index < best.start)) {
+      best = { start: index, end: index + motif.length, sequence: motif };
+    }
+  }
+  return best;
+};
+
+/**
+ * Find a rho-independent terminator: a GC-rich inverted repeat (the RNA hairpin)
+ * directly followed by a run of T (a U-tract in the transcript).
+ */
+export const findIntrinsicTerminator = (coding: string, from = 0): Terminator | null => {
+  for (let i = from; i < coding.length; i++) {
+    for (let stem = MAX_STEM; stem >= MIN_STEM; stem--) {
+      for (let loop = MIN_LOOP; loop <= MAX_LOOP; loop++) {
+        const stemEnd = i + stem * 2 + loop;
+        if (stemEnd + MIN_U_TRACT > coding.length) continue;
+
+        const left = coding.slice(i, i + stem);
+        const right = coding.slice(i + stem + loop, stemEnd);
+        if (right !== reverseComplement(left)) continue;
+
+        const gc = left.split('').filter(base => base === 'G' || base === 'C').length;
+        if (gc * 2 < stem) continue;
+
+        const tract = coding.slice(stemEnd).match(/^T+/);
+        if (!tract || tract[0].length < MIN_U_TRACT) continue;
+
+        const end = stemEnd + tract[0].length;
+        return {
+          type: 'intrinsic',
+          start: i,
+          end,
+          sequence: coding.slice(i, end),
+          stemLength: stem,
+          loopLength: loop,
+        };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Find the AATAAA polyadenylation signal; transcription is considered finished at the cleavage site
+ */
+export const findPolyASignal = (coding: string, from = 0): Terminator | null => {
+  const index = coding.indexOf(POLY_A_SIGNAL, from);
+  if (index === -1) return null;
+
+  const end = Math.min(coding.length, index + POLY_A_SIGNAL.length + POLY_A_CLEAVAGE_OFFSET);
+  return { type: 'poly-a-signal', start: index, end, sequence: coding.slice(index, end) };
+};
+
+/**
+ * Whichever terminator comes first downstream of `from`
+ */
+export const findTerminator = (coding: string, from = 0): Terminator | null => {
+  const candidates = [findIntrinsicTerminator(coding, from), findPolyASignal(coding, from)]
+    .filter((terminator): terminator is Terminator => terminator !== null);
+  if (candidates.length === 0) return null;
+  return candidates.reduce((first, next) => (next.start < first.start ? next : first));
+};
+
+/**
+ * Transcribe a template strand written 3'→5'.
+ * RNA polymerase starts just after the promoter box (or at the first base when there is none)
+ * and stops at the end of the first terminator (or runs off the end of the template).
+ */
+export const transcribe = (templateInput: string): TranscriptionUnit => {
+  const template = normalizeDNA(templateInput);
+  const coding = complementDNA(template);
+
+  const promoter = findPromoter(coding);
+  const start = promoter ? promoter.end : 0;
+  const terminator = findTerminator(coding, start);
+  const end = terminator ? terminator.end : template.length;
+
+  const mrna = template.slice(start, end).split('').map(pairRNABase).join('');
+
+  return { template, coding, promoter, terminator, start, end, mrna };
+};
+
+// TATA box and 5' UTR + exon 1, a GU…AG intron with its branch point and pyrimidine tract,
+// then exon 2 and a 3' UTR carrying the poly(A) signal
+const SPLIT_GENE = [
+  'GCTATAAAAGCAGAGCTCG' + 'ATGGCTAGCAAAG',
+  'GTAAGTCCTTGCTCACTAACTCTTCTCCTTTTCCTCTTCCAG',
+  'GAGAAGAACTTTTCACTGGATAA' + 'GCTAGCAATAAAGCACTCGCAGTCAGCACTGCCCA',
+];
+
+// σ70 promoter (−35 TTGACA, −10 TATAAT) and the lac operator, then the first codons of lacZ and lacY,
+// each behind its own Shine-Dalgarno site, sharing a single intrinsic terminator
+const OPERON = [
+  'GCTTGACAATTAATCATCGGCTCGTATAATG',
+  'TGTGGAATTGTGAGCGGATAACAATTTCACAC',
+  'AGGAGGTAAACA' + 'ATGACCATGATTACGGATTCACTGGCCGTCGTTTTACAACGTCGTGACTGGGAAAACTAA',
+  'CTCGCTCAAGGAGGTCGCTA' + 'ATGTACTATTTAAAAAACACAAACTTTTGGATGTTCGGTTTATTCTTTTTCTTTTACTTTTAA',
+  'GCCCGCCTAATGAGCGGGCTTTTTTAC',
+];
+
+export const TEMPLATE_PRESETS: TemplatePreset[] = [
+  {
+    id: 'textbook',
+    name: 'Textbook exercise',
+    description: 'Twelve bases, no promoter or terminator: the whole template is copied.',
+    template: 'TACAAGCCGATT',
+  },
+  {
+    id: 'bacterial-gene',
+    name: 'Gene with intrinsic terminator',
+    description: 'A TATA box, a short open reading frame and a GC-rich hairpin followed by a U-tract.',
+    template: complementDNA(
+      'CGTATAAAAG' +
+      'GCCACCATGGCTAGCAAAGGAGAAGAACTTTAAGC' +
+      'GCCCGCCTAATGAGCGGGCTTTTTTAC'
+    ),
+  },
+  {
+    id: 'poly-a-gene',
+    name: 'Gene with poly(A) signal',
+    description: 'A eukaryotic-style gene that ends at the AAUAAA polyadenylation signal.',
+    template: complementDNA(
+      'GCTATAAAAGC' +
+      'AGAGCTCGTTTAGTGAACCGTCAGATC' +
+      'ATGTTCGGAAAATGGGCTTGA' +
+      'GCTAGCAATAAAGCACTCGCAGTCAGCACTGCCCA'
+    ),
+  },
+  {
+    id: 'split-gene',
+    name: 'Gene with an intron',
+    description: 'Two exons separated by an intron that is spliced out before the mRNA leaves the nucleus.',
+    template: complementDNA(SPLIT_GENE.join('')),
+    introns: [{ start: SPLIT_GENE[0].length, end: SPLIT_GENE[0].length + SPLIT_GENE[1].length }],
+  },
+  {
+    id: 'operon',
+    name: 'Bacterial operon',
+    description: 'Two genes, each with its own Shine-Dalgarno site, copied into one polycistronic mRNA.',
+    template: complementDNA(OPERON.join('')),
+  },
+];
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_KINETICS,
+  simulateTranslation,
+  uniformTRNAAbundance,
+  type KineticsParameters,
+} from '@/lib/translation-kinetics';
+
+// 29 alanine codons and a stop, every one served by the same tRNA supply
+const CODONS = [...Array(29).fill('GCU'), 'UAA'];
+
+const parameters = (overrides: Partial<KineticsParameters> = {}): KineticsParameters => ({
+  ...DEFAULT_KINETICS,
+  tRNAAbundance: uniformTRNAAbundance(),
+  ...overrides,
+});
+
+describe('simulateTranslation', () => {
+  it('replays the same trajectory for the same seed', () => {
+    const first = simulateTranslation(CODONS, parameters(), { duration: 200, seed: 7 });
+    const second = simulateTranslation(CODONS, parameters(), { duration: 200, seed: 7 });
+    const other = simulateTranslation(CODONS, parameters(), { duration: 200, seed: 8 });
+    expect(second).toEqual(first);
+    expect(other.timeline).not.toEqual(first.timeline);
+  });
+
+  it('never lets two ribosomes come within a footprint of each other', () => {
+    // Initiation far faster than elongation keeps the mRNA packed
+    const footprint = 5;
+    const result = simulateTranslation(
+      CODONS,
+      parameters({ initiationRate: 100, elongationRate: 2, terminationRate: 2, footprint }),
+      { duration: 500, seed: 3 }
+    );
+
+    // At most one A site in any window of `footprint` codons at any moment, so on average too
+    for (let start = 0; start + footprint <= CODONS.length; start++) {
+      const window = result.density.slice(start, start + footprint).reduce((sum, value) => sum + value, 0);
+      expect(window).toBeLessThanOrEqual(1 + 1e-9);
+    }
+    const maxRibosomes = Math.max(...result.timeline.map(sample => sample.ribosomes));
+    expect(maxRibosomes).toBeLessThanOrEqual(Math.ceil(CODONS.length / footprint));
+    expect(result.blockedFraction).toBeGreaterThan(0);
+  });
+
+  it('makes protein at the initiation rate when initiation is limiting', () => {
+    // A ribosome clears the start codon in 1/k s on average, so J = α / (1 + α / k)
+    const initiationRate = 0.2;
+    const elongationRate = 20;
+    const result = simulateTranslation(
+      CODONS,
+      parameters({ initiationRate, elongationRate, terminationRate: 20, footprint: 1 }),
+      { duration: 20000, seed: 11 }
+    );
+    const expected = initiationRate / (1 + initiationRate / elongationRate);
+    expect(Math.abs(result.proteinRate - expected) / expected).toBeLessThan(0.05);
+  });
+
+  it('takes one hop per codon and a termination step to make each protein', () => {
+    const elongationRate = 20;
+    const terminationRate = 5;
+    const result = simulateTranslation(
+      CODONS,
+      parameters({ initiationRate: 0.05, elongationRate, terminationRate, footprint: 10 }),
+      { duration: 20000, seed: 5 }
+    );
+    const expected = (CODONS.length - 1) / elongationRate + 1 / terminationRate;
+    expect(Math.abs(result.meanTranslationTime - expected) / expected).toBeLessThan(0.05);
+  });
+});
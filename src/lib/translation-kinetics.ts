@@ -0,0 +1,201 @@
+import { ALL_CODONS, getCodonsFor, getGeneticCode } from '@/lib/genetic-code';
+import { createRandom } from '@/lib/random';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+export interface KineticsParameters {
+  initiationRate: number;   // new ribosomes per second when the start codon is free
+  elongationRate: number;   // codons per second at a codon of average tRNA abundance
+  terminationRate: number;  // per second, once a ribosome reaches the stop codon
+  footprint: number;        // codons covered by one ribosome; neighbours cannot overlap
+  tRNAAbundance: Record<string, number>; // relative tRNA supply per codon, 1 = average
+}
+
+export interface KineticsOptions {
+  duration: number; // simulated seconds
+  samples?: number; // points in the timeline
+  seed?: number;    // same seed, same trajectory
+  warmup?: number;  // fraction of the run ignored for steady-state averages
+}
+
+export interface KineticsSample {
+  time: number;
+  proteins: number;  // completed so far
+  ribosomes: number; // on the mRNA right now
+}
+
+export interface KineticsResult {
+  timeline: KineticsSample[];
+  rates: number[];             // elongation rate of each codon, termination rate for the stop
+  density: number[];           // mean number of ribosomes with their A site on each codon, after warm-up
+  proteins: number;
+  proteinRate: number;         // proteins per second after warm-up
+  meanRibosomes: number;       // after warm-up
+  meanTranslationTime: number; // seconds from initiation to release, averaged over finished proteins
+  blockedFraction: number;     // share of ribosome time spent stuck behind another ribosome
+}
+
+// Bacterial ribosomes manage ~15–20 codons per second, eukaryotic ones ~5
+export const DEFAULT_KINETICS: Omit<KineticsParameters, 'tRNAAbundance'> = {
+  initiationRate: 0.5,
+  elongationRate: 15,
+  terminationRate: 2,
+  footprint: 10,
+};
+
+// Even the rarest tRNA turns up eventually
+const MIN_ABUNDANCE = 0.05;
+
+// Safety limit so a huge gene or rate cannot hang the page
+const MAX_EVENTS = 500000;
+
+/**
+ * Relative tRNA supply per codon, taken to follow the host's codon usage and scaled so sense codons average 1
+ */
+export const tRNAAbundanceFromUsage = (perThousand: Record<string, number>, tableId = STANDARD_TABLE_ID): Record<string, number> => {
+  const code = getGeneticCode(tableId);
+  const sense = ALL_CODONS.filter(codon => code[codon] !== '*');
+  const mean = sense.reduce((sum, codon) => sum + (perThousand[codon] ?? 0), 0) / sense.length;
+  return Object.fromEntries(sense.map(codon => [codon, mean === 0 ? 1 : (perThousand[codon] ?? 0) / mean]));
+};
+
+/**
+ * Every codon served equally well: the reference for seeing what rare codons cost
+ */
+export const uniformTRNAAbundance = (tableId = STANDARD_TABLE_ID): Record<string, number> => {
+  const code = getGeneticCode(tableId);
+  return Object.fromEntries(ALL_CODONS.filter(codon => code[codon] !== '*').map(codon => [codon, 1]));
+};
+
+/**
+ * Per-codon rates for a reading frame ending in a stop codon: elongation scaled by tRNA supply, then termination
+ */
+export const codonRates = (codons: string[], parameters: KineticsParameters, tableId = STANDARD_TABLE_ID): number[] => {
+  const code = getGeneticCode(tableId);
+  return codons.map(codon =>
+    code[codon] === '*'
+      ? parameters.terminationRate
+      : parameters.elongationRate * Math.max(MIN_ABUNDANCE, parameters.tRNAAbundance[codon] ?? 1)
+  );
+};
+
+/**
+ * Swap every codon for the synonymous codon with the most abundant tRNA, as codon optimisation does
+ */
+export const optimiseCodons = (
+  codons: string[],
+  tRNAAbundance: Record<string, number>,
+  tableId = STANDARD_TABLE_ID
+): string[] => {
+  const code = getGeneticCode(tableId);
+  return codons.map(codon => {
+    const aminoAcid = code[codon];
+    if (!aminoAcid || aminoAcid === '*') return codon;
+    return getCodonsFor(aminoAcid, tableId).reduce((best, candidate) =>
+      (tRNAAbundance[candidate] ?? 0) > (tRNAAbundance[best] ?? 0) ? candidate : best
+    );
+  });
+};
+
+/**
+ * Stochastic simulation (Gillespie algorithm) of ribosomes on one mRNA as a totally asymmetric exclusion
+ * process: ribosomes load on codon 0, each hops one codon at the rate of the codon in its A site, and
+ * none may come within `footprint` codons of the ribosome ahead. The last codon is the stop.
+ */
+export const simulateTranslation = (
+  codons: string[],
+  parameters: KineticsParameters,
+  { duration, samples = 100, seed = 1, warmup = 0.2 }: KineticsOptions,
+  tableId = STANDARD_TABLE_ID
+): KineticsResult => {
+  const random = createRandom(seed);
+  const rates = codonRates(codons, parameters, tableId);
+  const length = codons.length;
+  const { initiationRate, footprint } = parameters;
+
+  const positions: number[] = [];  // A-site codon of each ribosome, leading ribosome first
+  const startTimes: number[] = []; // when each of them initiated
+  const occupancy = new Array<number>(length).fill(0);
+  const timeline: KineticsSample[] = [];
+  const warmupTime = duration * warmup;
+
+  let time = 0;
+  let proteins = 0;
+  let steadyProteins = 0;
+  let ribosomeTime = 0;
+  let blockedTime = 0;
+  let translationTime = 0;
+  let nextSample = 0;
+  let events = 0;
+
+  const canMove = (i: number) => i === 0 || positions[i - 1] - (positions[i] + 1) >= footprint;
+  const canInitiate = () => length > 0 && (positions.length === 0 || positions[positions.length - 1] >= footprint);
+
+  while (time < duration && events++ < MAX_EVENTS) {
+    // Propensity of every possible event
+    const moveRates = positions.map((position, i) => (canMove(i) ? rates[position] : 0));
+    const initiation = canInitiate() ? initiationRate : 0;
+    const total = moveRates.reduce((sum, rate) => sum + rate, initiation);
+    if (total === 0) break;
+
+    const dt = -Math.log(1 - random()) / total;
+    const end = Math.min(time + dt, duration);
+
+    while (nextSample <= end && timeline.length < samples + 1) {
+      timeline.push({ time: Number(nextSample.toFixed(3)), proteins, ribosomes: positions.length });
+      nextSample = (timeline.length * duration) / samples;
+    }
+
+    // Time-weighted averages, counted only once the system has settled
+    const from = Math.max(time, warmupTime);
+    if (end > from) {
+      const span = end - from;
+      positions.forEach((position, i) => {
+        occupancy[position] += span;
+        if (!canMove(i)) blockedTime += span;
+      });
+      ribosomeTime += span * positions.length;
+    }
+
+    time += dt;
+    if (time >= duration) break;
+
+    // Pick the event in proportion to its rate
+    let pick = random() * total;
+    if (pick < initiation) {
+      positions.push(0);
+      startTimes.push(time);
+      continue;
+    }
+    pick -= initiation;
+    const mover = moveRates.findIndex(rate => (pick -= rate) < 0);
+    const index = mover === -1 ? moveRates.length - 1 : mover;
+
+    if (positions[index] === length - 1) {
+      // Termination: the finished protein and the ribosome leave the mRNA
+      translationTime += time - startTimes[index];
+      positions.splice(index, 1);
+      startTimes.splice(index, 1);
+      proteins++;
+      if (time >= warmupTime) steadyProteins++;
+    } else {
+      positions[index]++;
+    }
+  }
+
+  while (timeline.length < samples + 1) {
+    timeline.push({ time: Number(nextSample.toFixed(3)), proteins, ribosomes: positions.length });
+    nextSample = (timeline.length * duration) / samples;
+  }
+
+  const steadyDuration = duration - warmupTime;
+  return {
+    timeline,
+    rates,
+    density: occupancy.map(value => (steadyDuration > 0 ? value / steadyDuration : 0)),
+    proteins,
+    proteinRate: steadyDuration > 0 ? steadyProteins / steadyDuration : 0,
+    meanRibosomes: steadyDuration > 0 ? ribosomeTime / steadyDuration : 0,
+    meanTranslationTime: proteins > 0 ? translationTime / proteins : 0,
+    blockedFraction: ribosomeTime > 0 ? blockedTime / ribosomeTime : 0,
+  };
+};
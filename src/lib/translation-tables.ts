@@ -0,0 +1,180 @@
+export interface TranslationTable {
+  id: number;          // NCBI transl_table number
+  name: string;
+  changes: Record<string, string>; // codon → one-letter amino acid where it differs from the standard code
+  startCodons: string[];
+  note?: string;
+}
+
+export const STANDARD_TABLE_ID = 1;
+
+// NCBI genetic codes (https://www.ncbi.nlm.nih.gov/Taxonomy/Utils/wprintgc.cgi).
+// Numbers 7, 8, 15 and 17–20 are not in use.
+export const TRANSLATION_TABLES: TranslationTable[] = [
+  {
+    id: 1,
+    name: 'Standard',
+    changes: {},
+    startCodons: ['UUG', 'CUG', 'AUG'],
+  },
+  {
+    id: 2,
+    name: 'Vertebrate Mitochondrial',
+    changes: { AGA: '*', AGG: '*', AUA: 'M', UGA: 'W' },
+    startCodons: ['AUU', 'AUC', 'AUA', 'AUG', 'GUG'],
+  },
+  {
+    id: 3,
+    name: 'Yeast Mitochondrial',
+    changes: { AUA: 'M', CUU: 'T', CUC: 'T', CUA: 'T', CUG: 'T', UGA: 'W' },
+    startCodons: ['AUA', 'AUG', 'GUG'],
+    note: 'CGA and CGC are absent from yeast mitochondrial genes.',
+  },
+  {
+    id: 4,
+    name: 'Mold, Protozoan, and Coelenterate Mitochondrial; Mycoplasma/Spiroplasma',
+    changes: { UGA: 'W' },
+    startCodons: ['UUA', 'UUG', 'CUG', 'AUU', 'AUC', 'AUA', 'AUG', 'GUG'],
+  },
+  {
+    id: 5,
+    name: 'Invertebrate Mitochondrial',
+    changes: { AGA: 'S', AGG: 'S', AUA: 'M', UGA: 'W' },
+    startCodons: ['UUG', 'AUU', 'AUC', 'AUA', 'AUG', 'GUG'],
+  },
+  {
+    id: 6,
+    name: 'Ciliate, Dasycladacean and Hexamita Nuclear',
+    changes: { UAA: 'Q', UAG: 'Q' },
+    startCodons: ['AUG'],
+  },
+  {
+    id: 9,
+    name: 'Echinoderm and Flatworm Mitochondrial',
+    changes: { AAA: 'N', AGA: 'S', AGG: 'S', UGA: 'W' },
+    startCodons: ['AUG', 'GUG'],
+  },
+  {
+    id: 10,
+    name: 'Euplotid Nuclear',
+    changes: { UGA: 'C' },
+    startCodons: ['AUG'],
+  },
+  {
+    id: 11,
+    name: 'Bacterial, Archaeal and Plant Plastid',
+    changes: {},
+    startCodons: ['UUG', 'CUG', 'AUU', 'AUC', 'AUA', 'AUG', 'GUG'],
+  },
+  {
+    id: 12,
+    name: 'Alternative Yeast Nuclear',
+    changes: { CUG: 'S' },
+    startCodons: ['CUG', 'AUG'],
+  },
+  {
+    id: 13,
+    name: 'Ascidian Mitochondrial',
+    changes: { AGA: 'G', AGG: 'G', AUA: 'M', UGA: 'W' },
+    startCodons: ['UUG', 'AUA', 'AUG', 'GUG'],
+  },
+  {
+    id: 14,
+    name: 'Alternative Flatworm Mitochondrial',
+    changes: { AAA: 'N', AGA: 'S', AGG: 'S', UAA: 'Y', UGA: 'W' },
+    startCodons: ['AUG'],
+  },
+  {
+    id: 16,
+    name: 'Chlorophycean Mitochondrial',
+    changes: { UAG: 'L' },
+    startCodons: ['AUG'],
+  },
+  {
+    id: 21,
+    name: 'Trematode Mitochondrial',
+    changes: { AAA: 'N', AGA: 'S', AGG: 'S', AUA: 'M', UGA: 'W' },
+    startCodons: ['AUG', 'GUG'],
+  },
+  {
+    id: 22,
+    name: 'Scenedesmus obliquus Mitochondrial',
+    changes: { UCA: '*', UAG: 'L' },
+    startCodons: ['AUG'],
+  },
+  {
+    id: 23,
+    name: 'Thraustochytrium Mitochondrial',
+    changes: { UUA: '*' },
+    startCodons: ['AUU', 'AUG', 'GUG'],
+  },
+  {
+    id: 24,
+    name: 'Rhabdopleuridae Mitochondrial',
+    changes: { AGA: 'S', AGG: 'K', UGA: 'W' },
+    startCodons: ['UUG', 'CUG', 'AUG', 'GUG'],
+  },
+  {
+    id: 25,
+    name: 'Candidate Division SR1 and Gracilibacteria',
+    changes: { UGA: 'G' },
+    startCodons: ['UUG', 'AUG', 'GUG'],
+  },
+  {
+    id: 26,
+    name: 'Pachysolen tannophilus Nuclear',
+    changes: { CUG: 'A' },
+    startCodons: ['CUG', 'AUG'],
+  },
+  {
+    id: 27,
+    name: 'Karyorelict Nuclear',
+    changes: { UAA: 'Q', UAG: 'Q', UGA: 'W' },
+    startCodons: ['AUG'],
+    note: 'UGA also terminates translation when it is close to the end of the message.',
+  },
+  {
+    id: 28,
+    name: 'Condylostoma Nuclear',
+    changes: { UAA: 'Q', UAG: 'Q', UGA: 'W' },
+    startCodons: ['AUG'],
+    note: 'UAA, UAG and UGA all double as stop codons depending on context.',
+  },
+  {
+    id: 29,
+    name: 'Mesodinium Nuclear',
+    changes: { UAA: 'Y', UAG: 'Y' },
+    startCodons: ['AUG'],
+  },
+  {
+    id: 30,
+    name: 'Peritrich Nuclear',
+    changes: { UAA: 'E', UAG: 'E' },
+    startCodons: ['AUG'],
+  },
+  {
+    id: 31,
+    name: 'Blastocrithidia Nuclear',
+    changes: { UAA: 'E', UAG: 'E', UGA: 'W' },
+    startCodons: ['AUG'],
+    note: 'UAA and UAG also terminate translation depending on context.',
+  },
+  {
+    id: 32,
+    name: 'Balanophoraceae Plastid',
+    changes: { UAG: 'W' },
+    startCodons: ['UUG', 'CUG', 'AUU', 'AUC', 'AUA', 'AUG', 'GUG'],
+  },
+  {
+    id: 33,
+    name: 'Cephalodiscidae Mitochondrial',
+    changes: { AGA: 'S', AGG: 'K', UAA: 'Y', UGA: 'W' },
+    startCodons: ['UUG', 'CUG', 'AUG', 'GUG'],
+  },
+];
+
+/**
+ * Look up a table by its NCBI number, falling back to the standard code
+ */
+export const getTranslationTable = (id: number): TranslationTable =>
+  TRANSLATION_TABLES.find(table => table.id === id) ?? TRANSLATION_TABLES[0];
@@ -0,0 +1,219 @@
+import { AMINO_ACIDS, getAnticodon, getCodonsRead, getGeneticCode } from '@/lib/genetic-code';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+export type TRNADomainId = 'acceptor' | 'd-arm' | 'anticodon' | 'variable' | 't-arm' | 'junction';
+
+export interface TRNADomain {
+  id: TRNADomainId;
+  label: string;
+  ranges: [number, number][]; // 1-based positions, inclusive
+  color: string;
+  role: string;
+}
+
+export interface TRNANucleotide {
+  position: number; // standard tRNA numbering, 1-based
+  base: string;
+  domain: TRNADomainId;
+  partner: number | null; // the position it pairs with in a stem
+}
+
+export interface TRNAExample {
+  aminoAcid: string; // one-letter code of the amino acid the synthetase loads
+  anticodon: string; // 5'→3' as written in the tRNA, positions 34-36
+  note: string;
+}
+
+export interface CodonReading {
+  codon: string;
+  aminoAcid: string;
+  pairing: 'watson-crick' | 'wobble';
+}
+
+export type ChargingStep = 'free' | 'bound' | 'activated' | 'charged' | 'released';
+
+// Yeast tRNA-Phe without its modified bases: the first tRNA whose 3D structure was solved, and the reference for tRNA numbering
+export const YEAST_PHE_TRNA = 'GCGGAUUUAGCUCAGUUGGGAGAGCGCCAGACUGAAGAUCUGGAGGUCCUGUGUUCGAUCCACAGAAUUCGCACCA';
+
+export const ANTICODON_START = 34;
+
+// Position 34 pairs with the third codon base, so it is the one that may wobble
+export const WOBBLE_BASES = ['G', 'C', 'A', 'U', 'I'];
+
+// Stems as [first position of the 5' strand, last position of the 3' strand, base pairs]
+const STEMS: [number, number, number][] = [
+  [1, 72, 7],
+  [10, 25, 4],
+  [27, 43, 5],
+  [49, 65, 5],
+];
+
+export const TRNA_DOMAINS: TRNADomain[] = [
+  {
+    id: 'acceptor',
+    label: 'Acceptor stem',
+    ranges: [[1, 7], [66, 76]],
+    color: '#F59E0B',
+    role:
+      'The two ends of the chain pair up into a 7 bp stem. Every tRNA ends in the same unpaired 3\'-CCA, and the ' +
+      'amino acid is joined to the ribose of the final A — the same end for all 20 amino acids.',
+  },
+  {
+    id: 'd-arm',
+    label: 'D loop',
+    ranges: [[10, 25]],
+    color: '#A855F7',
+    role:
+      'Named after the dihydrouridines (D) in its loop. It packs against the TΨC loop to fold the cloverleaf into ' +
+      'the L shape, and some synthetases read it to tell tRNAs apart.',
+  },
+  {
+    id: 'anticodon',
+    label: 'Anticodon loop',
+    ranges: [[27, 43]],
+    color: '#3B82F6',
+    role:
+      'Bases 34-36 at the tip of this loop pair with the codon in the ribosome\'s A site. Position 34 pairs with ' +
+      'the third codon base and can wobble; it is often chemically modified, for example to inosine.',
+  },
+  {
+    id: 'variable',
+    label: 'Variable loop',
+    ranges: [[44, 48]],
+    color: '#EC4899',
+    role:
+      'Between 4 and 5 bases in most tRNAs, but a long extra arm in tRNA-Ser, tRNA-Leu and bacterial tRNA-Tyr. Its ' +
+      'length is one of the ways synthetases pick their tRNAs.',
+  },
+  {
+    id: 't-arm',
+    label: 'TΨC loop',
+    ranges: [[49, 65]],
+    color: '#22C55E',
+    role:
+      'Carries the conserved sequence T-Ψ-C (ribothymidine, pseudouridine, cytidine). It holds the L shape together ' +
+      'with the D loop and is gripped by the ribosome and by EF-Tu, which delivers the charged tRNA.',
+  },
+  {
+    id: 'junction',
+    label: 'Junction',
+    ranges: [[8, 9], [26, 26]],
+    color: '#94A3B8',
+    role: 'Short linkers between the arms. Bases 8 and 9 reach across to the D stem and help fix the angle of the L.',
+  },
+];
+
+// tRNAs to load with different anticodons; the rest of the molecule is drawn from YEAST_PHE_TRNA
+export const TRNA_EXAMPLES: TRNAExample[] = [
+  {
+    aminoAcid: 'F',
+    anticodon: 'GAA',
+    note: 'G34 reads UUC by Watson-Crick pairing and UUU by a G·U wobble. Inosine here would also read UUA, a leucine codon.',
+  },
+  {
+    aminoAcid: 'A',
+    anticodon: 'IGC',
+    note: 'Yeast tRNA-Ala, the first RNA ever sequenced (Holley, 1965), has inosine at 34 and reads GCU, GCC and GCA.',
+  },
+  {
+    aminoAcid: 'I',
+    anticodon: 'IAU',
+    note: 'Inosine lets one tRNA read all three isoleucine codons, AUU, AUC and AUA, while leaving AUG to methionine.',
+  },
+  {
+    aminoAcid: 'M',
+    anticodon: 'CAU',
+    note: 'C34 pairs only with G, so this tRNA reads AUG and nothing else — there is no room for wobble at the start codon.',
+  },
+];
+
+export const CHARGING_STEPS: { id: ChargingStep; label: string; description: string }[] = [
+  {
+    id: 'free',
+    label: 'Uncharged',
+    description: 'An empty tRNA, its amino acid and a molecule of ATP are floating in the cytoplasm.',
+  },
+  {
+    id: 'bound',
+    label: 'Recognition',
+    description:
+      'The aminoacyl-tRNA synthetase for this amino acid grips the tRNA by its acceptor stem and, for most ' +
+      'synthetases, its anticodon. There is one synthetase per amino acid, so this is where the code is really enforced.',
+  },
+  {
+    id: 'activated',
+    label: 'Activation',
+    description:
+      'In the synthetase\'s active site the amino acid attacks ATP, giving aminoacyl-AMP and releasing ' +
+      'pyrophosphate (PPi). Splitting PPi makes the step irreversible.',
+  },
+  {
+    id: 'charged',
+    label: 'Transfer',
+    description:
+      'The activated amino acid moves onto the 2\' or 3\' hydroxyl of A76 at the end of the CCA tail, and AMP ' +
+      'leaves. Many synthetases also proofread, cutting off a wrong amino acid that slipped through.',
+  },
+  {
+    id: 'released',
+    label: 'Charged',
+    description:
+      'The aminoacyl-tRNA is let go and picked up by EF-Tu (eEF1A in eukaryotes), which carries it to the ribosome\'s A site.',
+  },
+];
+
+/**
+ * The domain a position belongs to
+ */
+export const getTRNADomain = (position: number): TRNADomainId =>
+  TRNA_DOMAINS.find(({ ranges }) => ranges.some(([start, end]) => position >= start && position <= end))?.id ??
+  'junction';
+
+/**
+ * Nucleotides of a 76-nt tRNA with their domains and stem partners
+ */
+export const buildTRNA = (sequence = YEAST_PHE_TRNA): TRNANucleotide[] => {
+  const partners = new Map<number, number>();
+  STEMS.forEach(([start, end, length]) => {
+    for (let i = 0; i < length; i++) {
+      partners.set(start + i, end - i);
+      partners.set(end - i, start + i);
+    }
+  });
+  return sequence.split('').map((base, i) => ({
+    position: i + 1,
+    base,
+    domain: getTRNADomain(i + 1),
+    partner: partners.get(i + 1) ?? null,
+  }));
+};
+
+/**
+ * Swap positions 34-36 of a tRNA sequence for another anticodon, written 5'→3'
+ */
+export const withAnticodon = (sequence: string, anticodon: string): string =>
+  sequence.slice(0, ANTICODON_START - 1) + anticodon + sequence.slice(ANTICODON_START + 2);
+
+/**
+ * Codons an anticodon (5'→3', as in the tRNA) reads, with the amino acid each codes for
+ */
+export const readCodons = (anticodon: string, tableId = STANDARD_TABLE_ID): CodonReading[] => {
+  const code = getGeneticCode(tableId);
+  const wobble = anticodon[0];
+  return getCodonsRead(anticodon.split('').reverse().join('')).map(codon => ({
+    codon,
+    aminoAcid: code[codon],
+    pairing: getAnticodon(codon[2]) === wobble ? 'watson-crick' : 'wobble',
+  }));
+};
+
+/**
+ * Whether every codon an anticodon reads codes for the amino acid its tRNA carries
+ */
+export const readsFaithfully = (anticodon: string, aminoAcid: string, tableId = STANDARD_TABLE_ID): boolean =>
+  readCodons(anticodon, tableId).every(reading => reading.aminoAcid === aminoAcid);
+
+/**
+ * Display name of a tRNA, e.g. tRNA-Phe
+ */
+export const tRNAName = (aminoAcid: string): string => `tRNA-${AMINO_ACIDS[aminoAcid]?.threeLetter ?? '?'}`;
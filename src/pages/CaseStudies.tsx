@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import { Helmet } from 'react-helmet';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import NavBar from '@/components/NavBar';
+import GooeyBlob from '@/components/GooeyBlob';
+import QuizComponent from '@/components/QuizComponent';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+import { CASE_STUDIES, compareCase, getCaseStudy, type CaseStudy } from '@/lib/case-studies';
+import { getAminoAcid } from '@/lib/genetic-code';
+import { MUTATION_EFFECT_INFO } from '@/lib/mutations';
+import { PROPERTY_COLORS } from '@/lib/protein-properties';
+
+// Codons shown around the variant, and how many of them come before it
+const WINDOW_CODONS = 12;
+const WINDOW_BEFORE = 5;
+
+interface StrandRowProps {
+  label: string;
+  bases: string;
+  start: number;     // offset of the first base in the fragment
+  changed: boolean[];
+  revealed?: number; // bases shown so far, the rest are blank
+}
+
+// One strand of the window, spaced into codons, with the bases that differ between alleles highlighted
+const StrandRow: React.FC<StrandRowProps> = ({ label, bases, start, changed, revealed = bases.length }) => (
+  <div className="flex items-center">
+    <span className="w-36 shrink-0 text-muted-foreground">{label}</span>
+    <div className="flex">
+      {bases.split('').map((base, i) => (
+        <span
+          key={i}
+          className={cn(
+            'w-4 h-6 flex items-center justify-center',
+            (start + i) % 3 === 0 && i > 0 && 'ml-1',
+            changed[i] ? 'bg-red-500/40 text-white font-bold' : 'text-white/70'
+          )}
+        >
+          {i < revealed ? base : ''}
+        </span>
+      ))}
+    </div>
+  </div>
+);
+
+interface CodonRowProps {
+  label: string;
+  codons: string[];
+  firstResidue: number;
+  changed: boolean[];
+  read: number;        // codons the ribosome has passed
+  stopAt: number;      // index of the first stop codon in the window, or -1
+}
+
+// Codons with the amino acid each one adds, up to where the ribosome has got to
+const CodonRow: React.FC<CodonRowProps> = ({ label, codons, firstResidue, changed, read, stopAt }) => (
+  <div className="flex items-start">
+    <span className="w-36 shrink-0 text-muted-foreground pt-5">{label}</span>
+    <div className="flex gap-1">
+      {codons.map((codon, i) => {
+        const released = stopAt !== -1 && i > stopAt;
+        const aminoAcid = codon === '---' ? null : getAminoAcid(codon);
+        const isStop = aminoAcid?.oneLetter === '*';
+        return (
+          <div key={i} className={cn('w-11 text-center', released && 'opacity-30')}>
+            <div className="text-[10px] text-white/40">{firstResidue + i}</div>
+            <div className={cn('rounded py-0.5', changed[i] ? 'bg-red-500/40 text-white font-bold' : 'bg-primary/20 text-white/80')}>
+              {codon}
+            </div>
+            <div
+              className={cn('h-6 flex items-center justify-center text-xs font-bold rounded mt-1', isStop && 'text-red-400')}
+              style={i < read && aminoAcid && !isStop && !released ? { backgroundColor: `${PROPERTY_COLORS[aminoAcid.property]}88` } : undefined}
+            >
+              {i < read && !released && (aminoAcid ? (isStop ? 'Stop' : aminoAcid.threeLetter) : '—')}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+interface CaseWalkthroughProps {
+  caseStudy: CaseStudy;
+}
+
+// The gene, its transcription and its translation for both alleles, then the consequences and questions
+const CaseWalkthrough: React.FC<CaseWalkthroughProps> = ({ caseStudy }) => {
+  const navigate = useNavigate();
+  const comparison = useMemo(() => compareCase(caseStudy), [caseStudy]);
+  const { wildTypeCodons, variantCodons, changedResidue, effect } = comparison;
+
+  const codonStart = Math.max(0, Math.min(changedResidue - WINDOW_BEFORE, wildTypeCodons.length - WINDOW_CODONS));
+  const codonEnd = Math.min(wildTypeCodons.length, codonStart + WINDOW_CODONS);
+  const baseStart = codonStart * 3;
+  const baseEnd = codonEnd * 3;
+  const windowLength = baseEnd - baseStart;
+
+  const [transcribed, setTranscribed] = useState(windowLength);
+  const [codonsRead, setCodonsRead] = useState(codonEnd - codonStart);
+
+  const slice = (strand: string) => strand.slice(baseStart, baseEnd);
+  const changedBases = slice(comparison.wildType).split('').map((base, i) => base !== slice(comparison.variant)[i]);
+  const wildTypeWindow = wildTypeCodons.slice(codonStart, codonEnd);
+  const variantWindow = variantCodons.slice(codonStart, codonEnd);
+  const changedCodons = wildTypeWindow.map((codon, i) => codon !== variantWindow[i]);
+  const stopIndex = (codons: string[]) => codons.findIndex(codon => codon !== '---' && getAminoAcid(codon).oneLetter === '*');
+
+  const info = MUTATION_EFFECT_INFO[effect];
+  const wildTypeResidue = getAminoAcid(wildTypeCodons[changedResidue]);
+  const variantCodon = variantCodons[changedResidue];
+  const variantResidue = variantCodon === '---' ? null : getAminoAcid(variantCodon);
+
+  return (
+    <>
+      {/* The case */}
+      <section className="glass-card mb-8 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">{caseStudy.disease}</h2>
+          <p className="text-muted-foreground text-sm">
+            Gene <span className="text-white font-mono">{caseStudy.gene}</span> · {caseStudy.proteinName} · variant{' '}
+            <span className="text-white">{caseStudy.variant}</span>
+          </p>
+        </div>
+        <p className="text-white/80">{caseStudy.summary}</p>
+        <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+          <div className="text-white font-bold mb-1">Gene fragment</div>
+          <p className="text-white/70 text-sm">
+            {caseStudy.fragment.length} bases, codons {caseStudy.firstCodon}–{caseStudy.firstCodon + wildTypeCodons.length - 1}.{' '}
+            {caseStudy.fragmentNote}
+          </p>
+        </div>
+      </section>
+
+      {/* Step 1: the gene */}
+      <section className="glass-card mb-8 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">1. The Gene</h2>
+          <p className="text-muted-foreground text-sm">
+            Codons {caseStudy.firstCodon + codonStart}–{caseStudy.firstCodon + codonEnd - 1} of both alleles. The coding
+            strand carries the same sequence as the mRNA; the template strand opposite it is the one RNA polymerase reads.
+          </p>
+        </div>
+        <div className="space-y-1 overflow-x-auto font-mono text-xs">
+          <StrandRow label="Wild type, coding 5'→3'" bases={slice(comparison.wildType)} start={baseStart} changed={changedBases} />
+          <StrandRow label="template 3'→5'" bases={slice(comparison.wildTypeTemplate)} start={baseStart} changed={changedBases} />
+          <div className="h-3" />
+          <StrandRow label="Variant, coding 5'→3'" bases={slice(comparison.variant)} start={baseStart} changed={changedBases} />
+          <StrandRow label="template 3'→5'" bases={slice(comparison.variantTemplate)} start={baseStart} changed={changedBases} />
+        </div>
+      </section>
+
+      {/* Step 2: transcription */}
+      <section className="glass-card mb-8 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">2. Transcription</h2>
+          <p className="text-muted-foreground text-sm">
+            RNA polymerase pairs a ribonucleotide with each template base — U opposite A — building the mRNA 5'→3'.
+            The change in the DNA is copied faithfully into the mRNA.
+          </p>
+        </div>
+        <div className="max-w-sm">
+          <div className="flex justify-between mb-3 text-white text-sm">
+            <span>Bases transcribed</span>
+            <span className="font-mono text-secondary">{transcribed} / {windowLength}</span>
+          </div>
+          <Slider value={[transcribed]} min={0} max={windowLength} step={1} onValueChange={([value]) => setTranscribed(value)} />
+        </div>
+        <div className="space-y-1 overflow-x-auto font-mono text-xs">
+          <StrandRow label="Wild type, template" bases={slice(comparison.wildTypeTemplate)} start={baseStart} changed={changedBases} />
+          <StrandRow label="mRNA 5'→3'" bases={slice(comparison.wildTypeMrna)} start={baseStart} changed={changedBases} revealed={transcribed} />
+          <div className="h-3" />
+          <StrandRow label="Variant, template" bases={slice(comparison.variantTemplate)} start={baseStart} changed={changedBases} />
+          <StrandRow label="mRNA 5'→3'" bases={slice(comparison.variantMrna)} start={baseStart} changed={changedBases} revealed={transcribed} />
+        </div>
+      </section>
+
+      {/* Step 3: translation */}
+      <section className="glass-card mb-8 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">3. Translation</h2>
+          <p className="text-muted-foreground text-sm">
+            The ribosome reads each mRNA three bases at a time. Numbers above the codons are residue positions in{' '}
+            {caseStudy.proteinName}.
+          </p>
+        </div>
+        <div className="max-w-sm">
+          <div className="flex justify-between mb-3 text-white text-sm">
+            <span>Codons read</span>
+            <span className="font-mono text-secondary">{codonsRead} / {codonEnd - codonStart}</span>
+          </div>
+          <Slider value={[codonsRead]} min={0} max={codonEnd - codonStart} step={1} onValueChange={([value]) => setCodonsRead(value)} />
+        </div>
+        <div className="space-y-3 overflow-x-auto font-mono text-xs">
+          <CodonRow
+            label="Wild type"
+            codons={wildTypeWindow}
+            firstResidue={caseStudy.firstCodon + codonStart}
+            changed={changedCodons}
+            read={codonsRead}
+            stopAt={stopIndex(wildTypeWindow)}
+          />
+          <CodonRow
+            label="Variant"
+            codons={variantWindow}
+            firstResidue={caseStudy.firstCodon + codonStart}
+            changed={changedCodons}
+            read={codonsRead}
+            stopAt={stopIndex(variantWindow)}
+          />
+        </div>
+        <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+          <div className="text-xl font-bold text-white mb-2">{info.label}</div>
+          <p className="text-white/80 text-sm">{info.description}</p>
+          <p className="text-white mt-3 font-mono text-sm">
+            Residue {caseStudy.firstCodon + changedResidue}: {wildTypeResidue.threeLetter} ({wildTypeResidue.property}) →{' '}
+            {variantResidue
+              ? variantResidue.oneLetter === '*'
+                ? 'stop'
+                : `${variantResidue.threeLetter} (${variantResidue.property})`
+              : 'deleted'}
+          </p>
+          <p className="text-white/70 mt-2 text-sm">
+            This fragment encodes {comparison.wildTypeProtein.length} residues in the wild type and{' '}
+            {comparison.variantProtein.length} in the variant.
+          </p>
+        </div>
+      </section>
+
+      {/* Step 4: consequences */}
+      <section className="glass-card mb-8 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">4. From Protein to Patient</h2>
+          <p className="text-muted-foreground text-sm">What the changed protein does to the cell and the body.</p>
+        </div>
+        <p className="text-white/80">{caseStudy.consequence}</p>
+        <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+          <div className="text-white font-bold mb-1">Inheritance</div>
+          <p className="text-white/70 text-sm">{caseStudy.inheritance}</p>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => navigate('/tools/mutations')}>
+          Try other mutations in the Mutation Playground
+        </Button>
+      </section>
+
+      {/* Case questions */}
+      <section className="space-y-6">
+        <h2 className="text-2xl font-bold text-white text-center">Test Yourself</h2>
+        <QuizComponent questions={caseStudy.questions} topic={caseStudy.disease.toLowerCase()} />
+      </section>
+    </>
+  );
+};
+
+const CaseStudies = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [activeSection, setActiveSection] = useState('case-studies');
+  const caseStudy = getCaseStudy(searchParams.get('case'));
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pb-20 relative overflow-hidden">
+      <Helmet>
+        <title>Case Studies | Protein Synthesis</title>
+        <meta name="description" content="Follow sickle-cell anaemia, cystic fibrosis and β-thalassaemia from a changed gene to a changed protein" />
+      </Helmet>
+
+      {/* Background blobs */}
+      <GooeyBlob
+        color="bg-primary/30"
+        size={600}
+        top="-100px"
+        right="-200px"
+        delay={0}
+        blur="2xl"
+      />
+      <GooeyBlob
+        color="bg-secondary/30"
+        size={500}
+        bottom="-100px"
+        left="-200px"
+        delay={2}
+        blur="2xl"
+      />
+
+      {/* Navigation */}
+      <NavBar activeSection={activeSection} onSectionChange={setActiveSection} />
+
+      <main className="container mx-auto px-4 pt-28 relative z-10 max-w-5xl">
+        <div className="text-center mb-12">
+          <h1 className="section-title">Case Studies</h1>
+          <p className="section-subtitle max-w-3xl mx-auto">
+            Three inherited diseases, each caused by a real variant — follow it from DNA to mRNA to protein
+          </p>
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-2 mb-8">
+          {CASE_STUDIES.map(option => (
+            <Button
+              key={option.id}
+              variant={option.id === caseStudy.id ? 'default' : 'outline'}
+              onClick={() => setSearchParams({ case: option.id })}
+            >
+              {option.disease}
+            </Button>
+          ))}
+        </div>
+
+        <CaseWalkthrough key={caseStudy.id} caseStudy={caseStudy} />
+      </main>
+    </div>
+  );
+};
+
+export default CaseStudies;
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Helmet } from 'react-helmet';
+import NavBar from '@/components/NavBar';
+import GooeyBlob from '@/components/GooeyBlob';
+import LacOperonAnimation from '@/components/LacOperonAnimation';
+import QuizComponent from '@/components/QuizComponent';
+import { cn } from '@/lib/utils';
+import { formatExpression, LAC_CONDITIONS, LAC_REGIONS, lacOperonState, type LacConditions } from '@/lib/lac-operon';
+import { geneRegulationQuestions } from '@/lib/quiz-data';
+
+const describeConditions = ({ lactose, glucose }: LacConditions) =>
+  `${lactose ? '+' : '−'} lactose, ${glucose ? '+' : '−'} glucose`;
+
+const GeneRegulation = () => {
+  const [activeSection, setActiveSection] = useState('regulation');
+  const [conditions, setConditions] = useState<LacConditions>({ lactose: false, glucose: true });
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pb-20 relative overflow-hidden">
+      <Helmet>
+        <title>Gene Regulation | Protein Synthesis</title>
+        <meta name="description" content="Interactive lac operon: how lactose, glucose, the lac repressor and CAP-cAMP decide when a bacterium makes its proteins" />
+      </Helmet>
+
+      {/* Background blobs */}
+      <GooeyBlob
+        color="bg-primary/30"
+        size={600}
+        top="-100px"
+        right="-200px"
+        delay={0}
+        blur="2xl"
+      />
+      <GooeyBlob
+        color="bg-secondary/30"
+        size={500}
+        bottom="-100px"
+        left="-200px"
+        delay={2}
+        blur="2xl"
+      />
+
+      {/* Navigation */}
+      <NavBar activeSection={activeSection} onSectionChange={setActiveSection} />
+
+      <main className="container mx-auto px-4 pt-28 relative z-10 max-w-5xl">
+        <div className="text-center mb-12">
+          <h1 className="section-title">Gene Regulation</h1>
+          <p className="section-subtitle max-w-3xl mx-auto">
+            A cell does not make every protein all the time. The lac operon shows how E. coli decides when to make the enzymes that digest lactose
+          </p>
+        </div>
+
+        {/* The operon */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">The lac Operon</h2>
+            <p className="text-muted-foreground text-sm">
+              E. coli prefers glucose. It only makes the enzymes for lactose when lactose is there to use and glucose
+              is not. Add or remove each sugar and watch the lac repressor, CAP-cAMP and RNA polymerase respond. Then
+              follow the mRNA to the ribosomes and the proteins they make.
+            </p>
+          </div>
+          <LacOperonAnimation conditions={conditions} onConditionsChange={setConditions} className="h-[28rem]" />
+        </section>
+
+        {/* Truth table */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">All Four Conditions</h2>
+            <p className="text-muted-foreground text-sm">
+              Two switches give an AND gate: the operon is fully on only with lactose and without glucose. Click a
+              condition to show it above.
+            </p>
+          </div>
+          <div className="grid sm:grid-cols-2 gap-4">
+            {LAC_CONDITIONS.map(option => {
+              const state = lacOperonState(option);
+              const isSelected = option.lactose === conditions.lactose && option.glucose === conditions.glucose;
+              return (
+                <button
+                  key={describeConditions(option)}
+                  onClick={() => setConditions(option)}
+                  className={cn(
+                    'text-left bg-muted/30 rounded-lg p-5 backdrop-blur-sm border transition-colors',
+                    isSelected ? 'border-primary' : 'border-primary/10 hover:border-primary/50'
+                  )}
+                >
+                  <div className="flex justify-between items-baseline mb-2">
+                    <span className="text-white font-bold">{describeConditions(option)}</span>
+                    <span className="font-mono text-secondary">{formatExpression(state.expression)}</span>
+                  </div>
+                  <ul className="text-sm text-white/80 space-y-1">
+                    <li>Repressor {state.repressorBound ? 'on the operator' : 'released by allolactose'}</li>
+                    <li>cAMP {state.cAMPHigh ? 'high, CAP bound' : 'low, CAP off'}</li>
+                    <li>RNA polymerase {state.polymerase === 'blocked' ? 'blocked' : state.polymerase === 'strong' ? 'binds strongly' : 'binds weakly'}</li>
+                  </ul>
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        {/* The parts */}
+        <section className="glass-card mb-8 space-y-6">
+          <h2 className="text-2xl font-bold text-white">Parts of the Operon</h2>
+          <div className="grid md:grid-cols-2 gap-4">
+            {LAC_REGIONS.map(region => (
+              <div key={region.id} className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+                <div className="flex justify-between items-baseline mb-1">
+                  <span className={cn('text-white font-bold', region.kind === 'gene' && 'italic')}>{region.name}</span>
+                  <span className="text-muted-foreground text-xs font-mono">{region.length.toLocaleString()} bp</span>
+                </div>
+                <p className="text-white/80 text-sm">{region.role}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-muted-foreground text-sm">
+            The repressor itself is made from <span className="italic">lacI</span>, just upstream, which has its own
+            promoter and is expressed all the time at a low level.
+          </p>
+        </section>
+
+        {/* Quiz, in its own cards */}
+        <section className="space-y-6">
+          <h2 className="text-2xl font-bold text-white text-center">Test Yourself</h2>
+          <QuizComponent questions={geneRegulationQuestions} topic="gene regulation" />
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default GeneRegulation;
@@ -0,0 +1,434 @@
+import React, { useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Helmet } from 'react-helmet';
+import { Download } from 'lucide-react';
+import NavBar from '@/components/NavBar';
+import GooeyBlob from '@/components/GooeyBlob';
+import CodonWheel from '@/components/CodonWheel';
+import TranslationTableSelect from '@/components/TranslationTableSelect';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  ALL_CODONS,
+  AMINO_ACIDS,
+  getCodonsFor,
+  getDecoders,
+  getGeneticCode,
+  RNA_BASES,
+  START_CODON,
+  type AminoAcidProperty,
+} from '@/lib/genetic-code';
+import { PROPERTY_COLORS } from '@/lib/protein-properties';
+import { downloadPNG, downloadSVG } from '@/lib/svg-export';
+import { getTranslationTable, STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+type View = 'wheel' | 'table';
+
+const VIEWS: { id: View; label: string }[] = [
+  { id: 'wheel', label: 'Codon wheel' },
+  { id: 'table', label: 'Codon table' },
+];
+
+const PROPERTY_LABELS: Record<AminoAcidProperty, string> = {
+  hydrophobic: 'Hydrophobic',
+  hydrophilic: 'Polar',
+  positive: 'Positive',
+  negative: 'Negative',
+  special: 'Special (G, P, C)',
+};
+
+// Reverse lookup buttons: the 20 amino acids alphabetically by name, then stop
+const LOOKUP_AMINO_ACIDS = [
+  ...Object.values(AMINO_ACIDS)
+    .filter(({ oneLetter }) => oneLetter !== '*' && oneLetter !== 'X')
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(({ oneLetter }) => oneLetter),
+  '*',
+];
+
+// Pixel size of the exported PNG, large enough to print at A4 width
+const EXPORT_SIZE = 1600;
+
+const propertyColor = (aminoAcid: string) =>
+  aminoAcid === '*' ? '#64748B' : PROPERTY_COLORS[AMINO_ACIDS[aminoAcid]?.property ?? 'special'];
+
+interface CodonTableProps {
+  code: Record<string, string>;
+  highlighted: string[];
+  activeCodon: string | null;
+  onHover: (codon: string | null) => void;
+  onSelect: (codon: string) => void;
+}
+
+// The classic 4 × 4 × 4 layout: first base down the side, second across the top, third inside each box
+const CodonTable: React.FC<CodonTableProps> = ({ code, highlighted, activeCodon, onHover, onSelect }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm border-collapse">
+      <thead>
+        <tr className="text-muted-foreground">
+          <th className="p-2 text-xs font-medium">1st</th>
+          {RNA_BASES.map(second => (
+            <th key={second} className="p-2 text-white font-bold">{second}</th>
+          ))}
+          <th className="p-2 text-xs font-medium">3rd</th>
+        </tr>
+      </thead>
+      <tbody>
+        {RNA_BASES.map(first => (
+          <tr key={first} className="border-t border-primary/20">
+            <th className="p-2 text-white font-bold text-lg">{first}</th>
+            {RNA_BASES.map(second => (
+              <td key={second} className="p-1 align-top">
+                {RNA_BASES.map(third => {
+                  const codon = `${first}${second}${third}`;
+                  const aminoAcid = code[codon];
+                  return (
+                    <button
+                      key={codon}
+                      onMouseEnter={() => onHover(codon)}
+                      onMouseLeave={() => onHover(null)}
+                      onClick={() => onSelect(codon)}
+                      className={cn(
+                        'w-full flex items-center justify-between gap-2 px-2 py-0.5 rounded font-mono text-xs transition-opacity',
+                        highlighted.length > 0 && !highlighted.includes(codon) && 'opacity-30',
+                        activeCodon === codon && 'ring-1 ring-white'
+                      )}
+                      style={{ backgroundColor: `${propertyColor(aminoAcid)}40` }}
+                    >
+                      <span className="text-white">{codon}</span>
+                      <span className={cn('text-white/80', codon === START_CODON && 'text-green-300 font-bold')}>
+                        {AMINO_ACIDS[aminoAcid]?.threeLetter}
+                      </span>
+                    </button>
+                  );
+                })}
+              </td>
+            ))}
+            <td className="p-2 text-muted-foreground font-mono text-xs leading-[1.4rem]">
+              {RNA_BASES.map(third => <div key={third}>{third}</div>)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const GeneticCode = () => {
+  const { toast } = useToast();
+  const [activeSection, setActiveSection] = useState('genetic-code');
+  const [view, setView] = useState<View>('wheel');
+  const [tableId, setTableId] = useState(STANDARD_TABLE_ID);
+  const [hoveredCodon, setHoveredCodon] = useState<string | null>(null);
+  const [selectedCodon, setSelectedCodon] = useState<string | null>(START_CODON);
+  const [lookup, setLookup] = useState<string | null>(null);
+
+  const code = getGeneticCode(tableId);
+  const table = getTranslationTable(tableId);
+  const codon = hoveredCodon ?? selectedCodon;
+  const aminoAcid = codon ? AMINO_ACIDS[code[codon]] : null;
+  const synonymous = aminoAcid ? getCodonsFor(aminoAcid.oneLetter, tableId) : [];
+  const highlighted = codon ? synonymous : lookup ? getCodonsFor(lookup, tableId) : [];
+  const decoders = selectedCodon ? getDecoders(selectedCodon) : [];
+
+  const handleSelect = (next: string) => {
+    setSelectedCodon(current => (current === next ? null : next));
+    setLookup(null);
+  };
+
+  const handleLookup = (next: string) => {
+    setLookup(current => (current === next ? null : next));
+    setSelectedCodon(null);
+  };
+
+  // Exports always use the print colours, whatever is on screen
+  const exportWheel = async (format: 'svg' | 'png') => {
+    const markup = renderToStaticMarkup(<CodonWheel tableId={tableId} variant="print" size={EXPORT_SIZE} />);
+    const filename = `codon-wheel-table-${tableId}.${format}`;
+    try {
+      if (format === 'svg') downloadSVG(markup, filename);
+      else await downloadPNG(markup, filename, EXPORT_SIZE, EXPORT_SIZE);
+    } catch (e) {
+      toast({
+        title: 'Export failed',
+        description: e instanceof Error ? e.message : 'Could not save the wheel',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pb-20 relative overflow-hidden">
+      <Helmet>
+        <title>Genetic Code | Protein Synthesis</title>
+        <meta name="description" content="Interactive codon wheel and codon table with anticodons, wobble pairing and reverse lookup" />
+      </Helmet>
+
+      {/* Background blobs */}
+      <GooeyBlob
+        color="bg-primary/30"
+        size={600}
+        top="-100px"
+        right="-200px"
+        delay={0}
+        blur="2xl"
+      />
+      <GooeyBlob
+        color="bg-secondary/30"
+        size={500}
+        bottom="-100px"
+        left="-200px"
+        delay={2}
+        blur="2xl"
+      />
+
+      {/* Navigation */}
+      <NavBar activeSection={activeSection} onSectionChange={setActiveSection} />
+
+      <main className="container mx-auto px-4 pt-28 relative z-10 max-w-5xl">
+        <div className="text-center mb-12">
+          <h1 className="section-title">The Genetic Code</h1>
+          <p className="section-subtitle max-w-3xl mx-auto">
+            64 codons, 20 amino acids and 3 stop signals — hover a codon to find its relatives, click it to meet its tRNAs
+          </p>
+        </div>
+
+        {/* Wheel or table with codon details */}
+        <section className="glass-card mb-8 space-y-6">
+          <div className="flex flex-wrap items-center gap-2">
+            {VIEWS.map(option => (
+              <Button
+                key={option.id}
+                size="sm"
+                variant={view === option.id ? 'default' : 'outline'}
+                onClick={() => setView(option.id)}
+              >
+                {option.label}
+              </Button>
+            ))}
+            <div className="ml-auto flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => exportWheel('svg')}>
+                <Download className="h-4 w-4 mr-2" />
+                SVG
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => exportWheel('png')}>
+                <Download className="h-4 w-4 mr-2" />
+                PNG
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-[1fr_280px] gap-6 items-start">
+            {view === 'wheel' ? (
+              <div className="flex justify-center">
+                <CodonWheel
+                  tableId={tableId}
+                  activeCodon={codon}
+                  highlighted={highlighted}
+                  onHover={setHoveredCodon}
+                  onSelect={handleSelect}
+                  size={480}
+                />
+              </div>
+            ) : (
+              <CodonTable
+                code={code}
+                highlighted={highlighted}
+                activeCodon={codon}
+                onHover={setHoveredCodon}
+                onSelect={handleSelect}
+              />
+            )}
+
+            {/* Details */}
+            <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10 space-y-4">
+              {codon && aminoAcid ? (
+                <>
+                  <div>
+                    <div className="font-mono text-3xl font-bold text-white">{codon}</div>
+                    <div className="text-white/80">
+                      {aminoAcid.name}
+                      {aminoAcid.oneLetter !== '*' && ` · ${aminoAcid.threeLetter} · ${aminoAcid.oneLetter}`}
+                    </div>
+                    {aminoAcid.oneLetter !== '*' && (
+                      <div className="flex items-center gap-2 mt-1 text-sm text-muted-foreground">
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: PROPERTY_COLORS[aminoAcid.property] }} />
+                        {PROPERTY_LABELS[aminoAcid.property]}
+                      </div>
+                    )}
+                    {codon === START_CODON && (
+                      <p className="text-sm text-green-300 mt-2">Start codon: the ribosome begins every protein here.</p>
+                    )}
+                    {aminoAcid.oneLetter === '*' && (
+                      <p className="text-sm text-white/80 mt-2">No tRNA reads a stop codon; release factors end translation instead.</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <div className="text-xs uppercase tracking-wide text-muted-foreground mb-2">
+                      {synonymous.length === 1 ? 'The only codon' : `${synonymous.length} synonymous codons`}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {synonymous.map(other => (
+                        <button
+                          key={other}
+                          onClick={() => handleSelect(other)}
+                          className={cn(
+                            'px-2 py-0.5 rounded-full text-xs font-mono bg-primary/20 hover:bg-primary/40 text-white transition-colors',
+                            other === codon && 'ring-1 ring-white'
+                          )}
+                        >
+                          {other}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {selectedCodon === codon && aminoAcid.oneLetter !== '*' && (
+                    <div>
+                      <div className="text-xs uppercase tracking-wide text-muted-foreground mb-2">tRNAs that can read it</div>
+                      <ul className="space-y-2">
+                        {decoders.map(decoder => {
+                          const misread = decoder.reads.filter(read => code[read] !== code[codon]);
+                          return (
+                            <li key={decoder.anticodon} className="text-sm">
+                              <div className="flex justify-between items-baseline">
+                                <span className="font-mono text-white">
+                                  3′-{decoder.anticodon.slice(0, 2)}
+                                  <span className={decoder.pairing === 'wobble' ? 'text-secondary font-bold' : undefined}>{decoder.anticodon[2]}</span>-5′
+                                </span>
+                                <span className="text-xs text-muted-foreground">
+                                  {decoder.pairing === 'wobble' ? 'wobble' : 'Watson-Crick'}
+                                </span>
+                              </div>
+                              <div className="text-xs text-white/70">
+                                reads {decoder.reads.join(', ')}
+                                {misread.length > 0 && (
+                                  <span className="text-red-300">
+                                    {' '}— but {misread.map(read => `${read} (${AMINO_ACIDS[code[read]]?.threeLetter})`).join(', ')} too, so cells avoid it
+                                  </span>
+                                )}
+                              </div>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  )}
+                  {selectedCodon !== codon && (
+                    <p className="text-xs text-muted-foreground">Click the codon to see its anticodons and wobble partners.</p>
+                  )}
+                </>
+              ) : (
+                <p className="text-muted-foreground text-sm">
+                  {lookup
+                    ? `${AMINO_ACIDS[lookup].name} is highlighted. Hover any codon for details.`
+                    : 'Hover a codon to see what it codes for, or click it to pin it here.'}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-xs text-white/80">
+            {(Object.keys(PROPERTY_COLORS) as AminoAcidProperty[]).map(property => (
+              <div key={property} className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: PROPERTY_COLORS[property] }} />
+                {PROPERTY_LABELS[property]}
+              </div>
+            ))}
+            <div className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-full bg-slate-500" />
+              Stop
+            </div>
+          </div>
+
+          <div>
+            <div className="text-white font-bold mb-3">Genetic code</div>
+            <TranslationTableSelect value={tableId} onChange={setTableId} />
+            {tableId !== STANDARD_TABLE_ID && (
+              <p className="text-muted-foreground text-sm mt-2">
+                {Object.keys(table.changes).length} codons differ from the standard code:{' '}
+                {ALL_CODONS.filter(other => other in table.changes).join(', ')}.
+              </p>
+            )}
+          </div>
+        </section>
+
+        {/* Amino acid → codons */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Reverse Lookup</h2>
+            <p className="text-muted-foreground text-sm">
+              Pick an amino acid to light up every codon for it. Leucine, serine and arginine have six; methionine
+              and tryptophan only one.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {LOOKUP_AMINO_ACIDS.map(letter => (
+              <Button
+                key={letter}
+                size="sm"
+                variant={lookup === letter ? 'default' : 'outline'}
+                onClick={() => handleLookup(letter)}
+              >
+                {AMINO_ACIDS[letter].threeLetter}
+              </Button>
+            ))}
+          </div>
+          {lookup && (
+            <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+              <div className="flex justify-between items-baseline mb-3">
+                <h3 className="text-white font-bold">{AMINO_ACIDS[lookup].name}</h3>
+                <span className="font-mono text-secondary text-sm">{getCodonsFor(lookup, tableId).length} codons</span>
+              </div>
+              <div className="flex flex-wrap gap-2 font-mono">
+                {getCodonsFor(lookup, tableId).map(other => (
+                  <span key={other} className="px-3 py-1 rounded bg-primary/20 text-white">{other}</span>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+
+        {/* Notes */}
+        <section className="glass-card">
+          <h2 className="text-2xl font-bold text-white mb-4">Reading the Code</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-white/80">
+            <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+              <h3 className="text-lg font-bold text-white mb-3">Why 64 codons?</h3>
+              <p>
+                Four bases read three at a time give 4 × 4 × 4 = 64 combinations — enough for 20 amino acids with
+                plenty to spare. Two-letter words would give only 16. 61 codons code for amino acids and 3 mean stop.
+              </p>
+            </div>
+            <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+              <h3 className="text-lg font-bold text-white mb-3">A forgiving code</h3>
+              <p>
+                Synonymous codons usually differ only in the third base, so many mutations there are silent. Codons
+                with a U in the middle mostly code for hydrophobic amino acids — a change in the first base often
+                swaps one for a similar one.
+              </p>
+            </div>
+            <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+              <h3 className="text-lg font-bold text-white mb-3">Wobble</h3>
+              <p>
+                The first base of an anticodon pairs loosely with the third base of the codon: G can pair with U,
+                and inosine (I) with U, C or A. That is why about 40 tRNAs are enough to read all 61 sense codons.
+              </p>
+            </div>
+            <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+              <h3 className="text-lg font-bold text-white mb-3">Nearly universal</h3>
+              <p>
+                Bacteria, plants and people share the same code. Mitochondria and a few microbes reassign a handful
+                of codons — pick another genetic code above to see which.
+              </p>
+            </div>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default GeneticCode;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import NavBar from '@/components/NavBar';
@@ -9,11 +9,52 @@ import VideoCard from '@/components/VideoCard';
 import SectionDivider from '@/components/SectionDivider';
 import GooeyBlob from '@/components/GooeyBlob';
 import CustomVideoPlayer from '@/components/CustomVideoPlayer';
+import TranscriptionAnimation2D from '@/components/TranscriptionAnimation2D';
+import TranslationAnimation, { RIBOSOME_FOOTPRINT } from '@/components/TranslationAnimation';
+import LacOperonAnimation from '@/components/LacOperonAnimation';
+import ProteinModifications from '@/components/ProteinModifications';
+import ProteinTargetingScene from '@/components/ProteinTargetingScene';
+import ProteinDegradation from '@/components/ProteinDegradation';
+import FoldingPathwaysSimulation from '@/components/FoldingPathwaysSimulation';
+import TRNAExplorer from '@/components/TRNAExplorer';
+import ProteinFoldingAnimation, { DEFAULT_FOLDING_PROTEIN, MAX_FOLDING_RESIDUES } from '@/components/ProteinFoldingAnimation';
+import SecondaryStructureTrack from '@/components/SecondaryStructureTrack';
+import TranslationTableSelect from '@/components/TranslationTableSelect';
+import SequenceImport from '@/components/SequenceImport';
+import CellTypeToggle from '@/components/CellTypeToggle';
+import { Slider } from '@/components/ui/slider';
 import { useToast } from '@/components/ui/use-toast';
+import { useCellType } from '@/hooks/use-cell-type';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { complementDNA } from '@/lib/dna';
+import { decodeMRNA, normalizeRNA } from '@/lib/genetic-code';
+import { type LacConditions } from '@/lib/lac-operon';
+import { findCistrons } from '@/lib/operons';
+import { getCodingSequence, type SequenceFeature, type SequenceRecord } from '@/lib/sequence-files';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+// The classic exam comparison of gene expression in the two kinds of cell
+const CELL_TYPE_DIFFERENCES = [
+  { feature: 'Where transcription happens', eukaryote: 'Nucleus', prokaryote: 'Cytoplasm (nucleoid)' },
+  { feature: 'Transcription and translation', eukaryote: 'Separated by the nuclear envelope', prokaryote: 'Coupled – ribosomes follow RNA polymerase' },
+  { feature: 'mRNA processing', eukaryote: "5' cap, splicing, poly(A) tail", prokaryote: 'None' },
+  { feature: 'How the ribosome finds the start', eukaryote: "Binds the cap and scans to the first AUG", prokaryote: 'Pairs with the Shine-Dalgarno site' },
+  { feature: 'Genes per mRNA', eukaryote: 'One (monocistronic)', prokaryote: 'Often several (polycistronic operons)' },
+  { feature: 'Ribosome', eukaryote: '80S (40S + 60S)', prokaryote: '70S (30S + 50S)' },
+];
 
 const Index = () => {
   const [activeSection, setActiveSection] = useState('hero');
+  const [translationTableId, setTranslationTableId] = useState(STANDARD_TABLE_ID);
+  const [geneRecord, setGeneRecord] = useState<SequenceRecord | null>(null);
+  const [geneFeature, setGeneFeature] = useState<SequenceFeature | null>(null);
+  const [exportedMRNA, setExportedMRNA] = useState<string | null>(null);
+  const [cistronIndex, setCistronIndex] = useState(0);
+  const [isPolysome, setIsPolysome] = useState(false);
+  const [ribosomeSpacing, setRibosomeSpacing] = useState(15);
+  const [lacConditions, setLacConditions] = useState<LacConditions>({ lactose: true, glucose: false });
+  const { cellType } = useCellType();
+  const isProkaryote = cellType === 'prokaryote';
   const isMobile = useIsMobile();
   const { toast } = useToast();
   const navigate = useNavigate();
@@ -24,6 +65,8 @@ const Index = () => {
     transcription: useRef<HTMLDivElement>(null),
     translation: useRef<HTMLDivElement>(null),
     folding: useRef<HTMLDivElement>(null),
+    modification: useRef<HTMLDivElement>(null),
+    regulation: useRef<HTMLDivElement>(null),
     videos: useRef<HTMLDivElement>(null),
   };
   
@@ -57,6 +100,41 @@ const Index = () => {
     };
   }, []);
   
+  // An imported gene drives the DNA, transcription and translation views
+  const geneTemplate = useMemo(() => (geneRecord ? complementDNA(geneRecord.sequence) : undefined), [geneRecord]);
+  const geneCodingSequence = useMemo(
+    () => (geneRecord ? getCodingSequence(geneRecord, geneFeature) : undefined),
+    [geneRecord, geneFeature]
+  );
+  // A bacterial mRNA can carry several genes; the ribosome starts at whichever one is picked
+  const cistrons = useMemo(
+    () => (isProkaryote && exportedMRNA ? findCistrons(exportedMRNA, translationTableId) : []),
+    [isProkaryote, exportedMRNA, translationTableId]
+  );
+  const selectedCistron = cistrons.length > 1 ? cistrons[Math.min(cistronIndex, cistrons.length - 1)] : null;
+  const translationSequence = exportedMRNA
+    ? exportedMRNA.slice(selectedCistron?.start ?? 0)
+    : geneCodingSequence;
+  // The folding view shows the chain the ribosome just made
+  const foldingProtein = useMemo(
+    () => translationSequence
+      ? decodeMRNA(normalizeRNA(translationSequence), translationTableId)
+        .filter(({ isStop }) => !isStop)
+        .map(({ aminoAcid }) => aminoAcid.oneLetter)
+        .join('')
+      : undefined,
+    [translationSequence, translationTableId]
+  );
+  
+  useEffect(() => {
+    setCistronIndex(0);
+  }, [exportedMRNA]);
+  
+  // The double helix shows the selected feature, or the start of the record
+  const geneHelixSequence = geneRecord
+    ? geneRecord.sequence.slice(geneFeature?.start ?? 0, geneFeature?.end)
+    : undefined;
+  
   const handleStartLearning = () => {
     sections.introduction.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -121,8 +199,10 @@ const Index = () => {
                 <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
                   <h3 className="text-lg font-bold text-white mb-3">DNA: The Blueprint</h3>
                   <p className="text-white/80">
-                    Every cell contains DNA in its nucleus. This DNA holds the genetic instructions 
-                    for making proteins — like a recipe book for the cell.
+                    {isProkaryote
+                      ? 'Every cell contains DNA. Bacteria keep theirs loose in the cytoplasm, in a region called the nucleoid. '
+                      : 'Every cell contains DNA in its nucleus. '}
+                    This DNA holds the genetic instructions for making proteins — like a recipe book for the cell.
                   </p>
                 </div>
                 
@@ -135,6 +215,60 @@ const Index = () => {
                 </div>
               </div>
               
+              <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  <h3 className="text-lg font-bold text-white">Eukaryote or Prokaryote?</h3>
+                  <CellTypeToggle />
+                </div>
+                <p className="text-white/80 mb-4">
+                  The same code is read in both kinds of cell, but the machinery around it differs. Switch 
+                  cell type and the animations below follow: bacteria have no nucleus, so ribosomes start 
+                  translating an mRNA while it is still being made.
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b border-primary/20">
+                        <th className="py-2 pr-4"></th>
+                        <th className={`py-2 pr-4 ${!isProkaryote ? 'text-white' : ''}`}>Eukaryote</th>
+                        <th className={`py-2 ${isProkaryote ? 'text-white' : ''}`}>Prokaryote</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {CELL_TYPE_DIFFERENCES.map((row) => (
+                        <tr key={row.feature} className="border-b border-primary/10 text-white/80">
+                          <td className="py-2 pr-4 font-medium text-white">{row.feature}</td>
+                          <td className={`py-2 pr-4 ${!isProkaryote ? 'text-white' : 'text-white/60'}`}>{row.eukaryote}</td>
+                          <td className={`py-2 ${isProkaryote ? 'text-white' : 'text-white/60'}`}>{row.prokaryote}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+              
+              <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+                <h3 className="text-lg font-bold text-white mb-3">Bring Your Own Gene</h3>
+                <p className="text-white/80 mb-4">
+                  Load a FASTA or GenBank file and the DNA, transcription and translation views below will use it. 
+                  Click an annotation to focus on it: a CDS is spliced from its exons before translation.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <SequenceImport 
+                    record={geneRecord} 
+                    selectedFeature={geneFeature} 
+                    onRecordChange={(record) => {
+                      setGeneRecord(record);
+                      setExportedMRNA(null);
+                    }} 
+                    onFeatureSelect={setGeneFeature}
+                  />
+                  <div className="h-72 relative rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background">
+                    <DNAModel sequence={geneHelixSequence} showLegend />
+                  </div>
+                </div>
+              </div>
+              
               <p className="text-white/90 leading-relaxed pt-2">
                 The journey from DNA to protein happens in two major steps: transcription and translation. 
                 Let's explore each step in detail...
@@ -181,8 +315,10 @@ const Index = () => {
             
             <div className="relative z-10 space-y-6">
               <p className="text-white/90 leading-relaxed">
-                Transcription is the first step of protein synthesis. It occurs in the cell's nucleus, 
-                where the DNA containing the gene for a specific protein is located.
+                Transcription is the first step of protein synthesis. 
+                {isProkaryote
+                  ? ' In bacteria it happens in the cytoplasm, right next to the ribosomes that will read the message.'
+                  : " It occurs in the cell's nucleus, where the DNA containing the gene for a specific protein is located."}
               </p>
               
               <div className="h-80 sm:h-96 md:h-[28rem] w-full relative rounded-lg overflow-hidden border border-primary/10">
@@ -192,6 +328,26 @@ const Index = () => {
                 />
               </div>
               
+              <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  <h3 className="text-lg font-bold text-white">Transcribe Your Own Gene</h3>
+                  <CellTypeToggle />
+                </div>
+                <p className="text-white/80 mb-4">
+                  Pick a preset or type a DNA template strand (3'→5'). RNA polymerase starts after the 
+                  promoter, pairs A→U, T→A, G→C and C→G, and stops at the terminator it finds.
+                </p>
+                <TranscriptionAnimation2D 
+                  isActive={activeSection === 'transcription'} 
+                  className="h-[30rem]"
+                  template={geneTemplate}
+                  features={geneRecord?.features}
+                  onMRNAExport={setExportedMRNA}
+                  cellType={cellType}
+                  tableId={translationTableId}
+                />
+              </div>
+              
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8 pt-4">
                 <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
                   <h3 className="text-lg font-bold text-white mb-3">How It Works</h3>
@@ -216,8 +372,19 @@ const Index = () => {
               </div>
               
               <p className="text-white/90 leading-relaxed pt-2">
-                Once transcription is complete, the mRNA molecule is processed (in eukaryotes) and 
-                leaves the nucleus through nuclear pores, heading to the cytoplasm where translation occurs.
+                {isProkaryote ? (
+                  <>
+                    Bacteria have no nucleus for the mRNA to leave and no processing to wait for: ribosomes 
+                    bind it while RNA polymerase is still at work. Try the "Bacterial operon" preset to see 
+                    two genes share a single mRNA.
+                  </>
+                ) : (
+                  <>
+                    Once transcription is complete, the mRNA molecule is processed (in eukaryotes) and 
+                    leaves the nucleus through nuclear pores, heading to the cytoplasm where translation occurs. 
+                    Try the "Gene with an intron" preset to watch capping, splicing and polyadenylation.
+                  </>
+                )}
               </p>
             </div>
           </div>
@@ -279,11 +446,122 @@ const Index = () => {
                 />
               </div>
               
+              <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+                <h3 className="text-lg font-bold text-white mb-3">Watch the Code Being Read</h3>
+                <p className="text-white/80 mb-4">
+                  {isProkaryote
+                    ? 'The 16S rRNA of the small subunit pairs with the Shine-Dalgarno site, placing the AUG just downstream in the P site. '
+                    : 'The ribosome starts at the first AUG. '}
+                  Each tRNA brings the amino acid its codon 
+                  specifies until a stop codon (UAA, UAG or UGA) is reached. The code is nearly universal: 
+                  switch to the vertebrate mitochondrial code and UGA reads as tryptophan instead of stop.
+                </p>
+                <TranslationTableSelect 
+                  value={translationTableId} 
+                  onChange={setTranslationTableId} 
+                  className="mb-4"
+                />
+                {exportedMRNA && (
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-4 text-sm text-white/70">
+                    <span>
+                      Reading the {exportedMRNA.length} nt mRNA {isProkaryote ? 'released by' : 'exported from'} the transcription scene above.
+                    </span>
+                    <button 
+                      onClick={() => setExportedMRNA(null)} 
+                      className="px-3 py-1 bg-primary/20 hover:bg-primary/40 rounded-full text-white text-xs font-medium transition-colors"
+                    >
+                      {geneRecord ? 'Use the annotated CDS' : 'Use the example mRNA'}
+                    </button>
+                  </div>
+                )}
+                {/* Each gene of a polycistronic mRNA has its own start */}
+                {selectedCistron && (
+                  <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-white/70">
+                    <span>Polycistronic mRNA – start at:</span>
+                    {cistrons.map((cistron, i) => (
+                      <button
+                        key={cistron.start}
+                        onClick={() => setCistronIndex(i)}
+                        title={cistron.shineDalgarno 
+                          ? `Shine-Dalgarno ${cistron.shineDalgarno.sequence}, ${cistron.shineDalgarno.spacing} nt before the AUG` 
+                          : 'No Shine-Dalgarno site'}
+                        className={`px-3 py-1 rounded-full text-white text-xs font-medium transition-colors ${
+                          cistron === selectedCistron ? 'bg-primary/50' : 'bg-primary/20 hover:bg-primary/40'
+                        }`}
+                      >
+                        Gene {i + 1} · {cistron.protein.length} aa
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {/* One ribosome, or a polysome of many on the same mRNA */}
+                <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-white/70">
+                  {[false, true].map(polysome => (
+                    <button
+                      key={String(polysome)}
+                      onClick={() => setIsPolysome(polysome)}
+                      className={`px-3 py-1 rounded-full text-white text-xs font-medium transition-colors ${
+                        isPolysome === polysome ? 'bg-primary/50' : 'bg-primary/20 hover:bg-primary/40'
+                      }`}
+                    >
+                      {polysome ? 'Polysome' : 'One ribosome'}
+                    </button>
+                  ))}
+                  {isPolysome && (
+                    <div className="flex items-center gap-3 flex-1 min-w-[220px]">
+                      <span className="whitespace-nowrap">Spacing: {ribosomeSpacing} codons</span>
+                      <Slider
+                        value={[ribosomeSpacing]}
+                        min={RIBOSOME_FOOTPRINT}
+                        max={40}
+                        step={1}
+                        onValueChange={([value]) => setRibosomeSpacing(value)}
+                      />
+                    </div>
+                  )}
+                </div>
+                {isPolysome && (
+                  <p className="text-white/70 text-sm mb-4">
+                    A new ribosome loads every time the last one has moved {ribosomeSpacing} codons along. None can come 
+                    closer than its own footprint of about {RIBOSOME_FOOTPRINT} codons, so when the one ahead pauses on a 
+                    rare codon, those behind queue up. One mRNA is read again and again, making many copies of 
+                    the protein.{' '}
+                    <button
+                      onClick={() => navigate(translationSequence ? `/tools/kinetics?sequence=${translationSequence}` : '/tools/kinetics')}
+                      className="underline text-secondary hover:text-white transition-colors"
+                    >
+                      Simulate how fast this mRNA is translated
+                    </button>
+                  </p>
+                )}
+                <div className="h-80 sm:h-96 w-full relative rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background">
+                  <TranslationAnimation 
+                    key={translationSequence}
+                    isActive={activeSection === 'translation'} 
+                    sequence={translationSequence}
+                    tableId={translationTableId}
+                    polysome={isPolysome}
+                    ribosomeSpacing={ribosomeSpacing}
+                    cellType={cellType}
+                  />
+                </div>
+              </div>
+              
+              <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+                <h3 className="text-lg font-bold text-white mb-3">Meet the tRNA</h3>
+                <p className="text-white/80 mb-4">
+                  Flattened out, a tRNA is a cloverleaf of four stems and three loops. A synthetase loads the right 
+                  amino acid onto its 3' end, and the anticodon at the far end reads the codon — the first anticodon 
+                  base is allowed to wobble, so one tRNA can read several codons.
+                </p>
+                <TRNAExplorer />
+              </div>
+              
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8 pt-4">
                 <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
                   <h3 className="text-lg font-bold text-white mb-3">The Translation Process</h3>
                   <ol className="text-white/80 space-y-2 list-decimal pl-5">
-                    <li>mRNA binds to a ribosome</li>
+                    <li>{isProkaryote ? 'The small subunit binds the Shine-Dalgarno site on the mRNA' : 'mRNA binds to a ribosome'}</li>
                     <li>tRNA molecules bring amino acids to the ribosome</li>
                     <li>Each tRNA matches its anticodon to an mRNA codon</li>
                     <li>Amino acids link together via peptide bonds</li>
@@ -362,6 +640,50 @@ const Index = () => {
                 />
               </div>
               
+              <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+                <h3 className="text-lg font-bold text-white mb-3">Fold Your Own Chain</h3>
+                <p className="text-white/80 mb-4">
+                  {foldingProtein
+                    ? `The ${foldingProtein.length}-residue chain from the translation view, `
+                    : 'The first 100 residues of green fluorescent protein, '}
+                  coloured by side chain: hydrophobic residues cluster in the core, while polar and charged 
+                  ones stay on the surface, in contact with water. Stretches predicted to form helices and 
+                  strands (track below) fold first.
+                </p>
+                <div className="h-80 sm:h-96 w-full relative rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background mb-4">
+                  <ProteinFoldingAnimation 
+                    isActive={activeSection === 'folding'} 
+                    sequence={foldingProtein || DEFAULT_FOLDING_PROTEIN}
+                  />
+                </div>
+                <SecondaryStructureTrack 
+                  sequence={(foldingProtein || DEFAULT_FOLDING_PROTEIN).slice(0, MAX_FOLDING_RESIDUES)} 
+                  className="mb-4"
+                />
+                <button 
+                  onClick={() => navigate(foldingProtein ? `/tools/protein?sequence=${foldingProtein}` : '/tools/protein')} 
+                  className="px-4 py-2 bg-primary/20 hover:bg-primary/40 rounded-full text-white text-sm font-medium transition-colors"
+                >
+                  Analyse this protein
+                </button>
+                <button 
+                  onClick={() => navigate('/tools/structures')} 
+                  className="ml-2 px-4 py-2 bg-primary/20 hover:bg-primary/40 rounded-full text-white text-sm font-medium transition-colors"
+                >
+                  Explore real structures
+                </button>
+              </div>
+              
+              <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+                <h3 className="text-lg font-bold text-white mb-3">When Folding Goes Wrong</h3>
+                <p className="text-white/80 mb-4">
+                  Not every chain finds its native shape. Some misfold and stick to each other in amyloid 
+                  aggregates; others are caught by chaperones such as Hsp70 and GroEL, which give them another 
+                  chance to fold. Change the temperature and crowding and see which way the chains go.
+                </p>
+                <FoldingPathwaysSimulation isActive={activeSection === 'folding'} />
+              </div>
+              
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8 pt-4">
                 <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
                   <h3 className="text-lg font-bold text-white mb-3">Levels of Protein Structure</h3>
@@ -414,6 +736,157 @@ const Index = () => {
                   </div>
                 </div>
               </div>
+              
+              <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10 mt-6">
+                <h3 className="text-lg font-bold text-white mb-3">When the Sequence Goes Wrong</h3>
+                <p className="text-white/80 mb-4">
+                  A single changed base can swap one amino acid for another, cut the protein short or scramble 
+                  everything after it — and a protein with the wrong residues may not fold at all. 
+                </p>
+                <button 
+                  onClick={() => navigate('/tools/mutations')} 
+                  className="px-4 py-2 bg-primary/20 hover:bg-primary/40 rounded-full text-white text-sm font-medium transition-colors"
+                >
+                  Open the Mutation Playground
+                </button>
+              </div>
+            </div>
+          </div>
+          
+          <div className="mt-12 text-center">
+            <GooeyButton
+              onClick={() => {
+                sections.modification.current?.scrollIntoView({ behavior: 'smooth' });
+              }}
+            >
+              Next: Modifications
+            </GooeyButton>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+  
+  const renderModificationSection = () => (
+    <section 
+      id="modification" 
+      ref={sections.modification}
+      className="min-h-screen py-16 md:py-24 relative"
+    >
+      <div className="container mx-auto px-4">
+        <div className="max-w-4xl mx-auto">
+          <h2 className="section-title">
+            Step 4: Post-Translational Modification
+          </h2>
+          <p className="section-subtitle">
+            Finishing touches that switch, label and lock the folded protein
+          </p>
+          
+          <div className="relative glass-card">
+            <GooeyBlob 
+              color="bg-primary/20" 
+              size={200} 
+              top="-10%" 
+              left="60%" 
+            />
+            
+            <div className="relative z-10 space-y-6">
+              <p className="text-white/90 leading-relaxed">
+                A folded chain is often not finished. Enzymes add phosphates that switch it on or off, sugar trees 
+                that label it and help it fold, and disulfide bridges that staple its fold together. Pick a 
+                modification, then click the residues of {foldingProtein ? 'the protein you translated' : 'this protein'} that 
+                can carry it.
+              </p>
+              
+              <ProteinModifications sequence={foldingProtein || DEFAULT_FOLDING_PROTEIN} />
+              
+              <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+                <h3 className="text-lg font-bold text-white mb-3">Where Does the Protein Go?</h3>
+                <p className="text-white/80 mb-4">
+                  Proteins made for export start with a signal peptide: a short, greasy N-terminal stretch that 
+                  sends the ribosome to the rough ER. The chain is threaded into the ER, where glycans and 
+                  disulfides are added, then shipped through the Golgi and out of the cell. Proteins without one 
+                  stay in the cytosol.
+                </p>
+                <ProteinTargetingScene 
+                  sequence={foldingProtein || DEFAULT_FOLDING_PROTEIN} 
+                  isActive={activeSection === 'modification'} 
+                />
+              </div>
+              
+              <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+                <h3 className="text-lg font-bold text-white mb-3">The End of a Protein</h3>
+                <p className="text-white/80 mb-4">
+                  No protein lasts forever. Damaged, misfolded or simply unwanted proteins are tagged with chains 
+                  of ubiquitin and fed into the proteasome, which cuts them into short peptides. How long a protein 
+                  survives depends partly on its very first residue — the N-end rule.
+                </p>
+                <ProteinDegradation 
+                  sequence={foldingProtein || DEFAULT_FOLDING_PROTEIN} 
+                  isActive={activeSection === 'modification'} 
+                />
+              </div>
+            </div>
+          </div>
+          
+          <div className="mt-12 text-center">
+            <GooeyButton
+              onClick={() => {
+                sections.regulation.current?.scrollIntoView({ behavior: 'smooth' });
+              }}
+            >
+              Next: Gene Regulation
+            </GooeyButton>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+  
+  const renderRegulationSection = () => (
+    <section 
+      id="regulation" 
+      ref={sections.regulation}
+      className="min-h-screen py-16 md:py-24 relative"
+    >
+      <div className="container mx-auto px-4">
+        <div className="max-w-4xl mx-auto">
+          <h2 className="section-title">
+            Step 5: Gene Regulation
+          </h2>
+          <p className="section-subtitle">
+            Knowing when to make a protein, not just how
+          </p>
+          
+          <div className="relative glass-card">
+            <GooeyBlob 
+              color="bg-secondary/20" 
+              size={200} 
+              top="-10%" 
+              right="10%" 
+            />
+            
+            <div className="relative z-10 space-y-6">
+              <p className="text-white/90 leading-relaxed">
+                Making proteins costs a cell energy, so genes are switched on only when their products are needed. 
+                In E. coli, the three genes for using lactose sit together in the lac operon. A repressor keeps them 
+                off until lactose turns up, and an activator, CAP, only helps when glucose — the better sugar — has 
+                run out. Toggle the sugars to see the switch at work.
+              </p>
+              
+              <LacOperonAnimation 
+                conditions={lacConditions}
+                onConditionsChange={setLacConditions}
+                isActive={activeSection === 'regulation'}
+                className="h-[28rem]"
+              />
+              
+              <button 
+                onClick={() => navigate('/regulation')} 
+                className="px-4 py-2 bg-primary/20 hover:bg-primary/40 rounded-full text-white text-sm font-medium transition-colors"
+              >
+                All four conditions and the regulation quiz
+              </button>
             </div>
           </div>
           
@@ -510,6 +983,12 @@ const Index = () => {
               
               <div className="glass-card animate-float" style={{ animationDelay: "1.5s" }}>
                 <p className="text-lg text-white">Ribosomes can add 15 amino acids to a protein every second.</p>
+                <button
+                  onClick={() => navigate('/tools/kinetics')}
+                  className="mt-3 px-3 py-1 bg-primary/20 hover:bg-primary/40 rounded-full text-white text-xs font-medium transition-colors"
+                >
+                  Try the simulator
+                </button>
               </div>
             </div>
           </div>
@@ -534,6 +1013,8 @@ const Index = () => {
         {renderTranscriptionSection()}
         {renderTranslationSection()}
         {renderFoldingSection()}
+        {renderModificationSection()}
+        {renderRegulationSection()}
         {renderVideosSection()}
       </main>
 
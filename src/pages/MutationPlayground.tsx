@@ -0,0 +1,385 @@
+import React, { useMemo, useState } from 'react';
+import { Helmet } from 'react-helmet';
+import { useNavigate } from 'react-router-dom';
+import NavBar from '@/components/NavBar';
+import GooeyBlob from '@/components/GooeyBlob';
+import TranslationAnimation from '@/components/TranslationAnimation';
+import TranslationTableSelect from '@/components/TranslationTableSelect';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { normalizeDNA } from '@/lib/dna';
+import { decodeMRNA } from '@/lib/genetic-code';
+import {
+  analyzeMutation,
+  findExampleMutation,
+  MUTATION_EFFECT_INFO,
+  type Mutation,
+  type MutationEffect,
+  type MutationKind,
+} from '@/lib/mutations';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+// 5' UTR with a Kozak sequence, the first 22 codons of GFP, a stop and a short 3' UTR
+const EXAMPLE_GENE = 'GCCACCATGAGTAAAGGAGAAGAACTTTTCACTGGAGTTGTCCCAATTCTTGTTGAATTAGATGGTGATGTTTAAGCTT';
+
+const MUTATION_KINDS: { id: MutationKind; label: string }[] = [
+  { id: 'substitution', label: 'Substitution' },
+  { id: 'insertion', label: 'Insertion' },
+  { id: 'deletion', label: 'Deletion' },
+];
+
+const EXAMPLE_EFFECTS = ['silent', 'missense', 'nonsense', 'frameshift'] as const;
+
+const effectStyles: Record<MutationEffect, string> = {
+  silent: 'bg-green-500/20 border-green-500/40',
+  missense: 'bg-yellow-500/20 border-yellow-500/40',
+  nonsense: 'bg-red-500/20 border-red-500/40',
+  frameshift: 'bg-red-500/20 border-red-500/40',
+  'in-frame': 'bg-orange-500/20 border-orange-500/40',
+  'start-lost': 'bg-red-500/20 border-red-500/40',
+  'stop-lost': 'bg-orange-500/20 border-orange-500/40',
+  'non-coding': 'bg-primary/20 border-primary/40',
+};
+
+// Characters per row in the alignments
+const ALIGNMENT_WIDTH = 30;
+
+interface AlignmentProps {
+  top: string;
+  bottom: string;
+  topLabel: string;
+  bottomLabel: string;
+  width?: number;
+}
+
+// Two sequences in blocks, one character per column, with mismatches highlighted
+const Alignment: React.FC<AlignmentProps> = ({ top, bottom, topLabel, bottomLabel, width = ALIGNMENT_WIDTH }) => {
+  const length = Math.max(top.length, bottom.length);
+  const blocks = [...Array(Math.ceil(length / width))].map((_, i) => i * width);
+
+  const renderRow = (sequence: string, other: string, start: number) =>
+    [...Array(Math.min(width, length - start))].map((_, k) => {
+      const i = start + k;
+      const char = sequence[i] ?? ' ';
+      const differs = char !== (other[i] ?? ' ');
+      return (
+        <span
+          key={i}
+          className={cn(
+            'w-4 text-center',
+            differs ? 'bg-red-500/40 text-white font-bold' : 'text-white/70'
+          )}
+        >
+          {char}
+        </span>
+      );
+    });
+
+  return (
+    <div className="space-y-3 overflow-x-auto font-mono text-xs">
+      {blocks.map(start => (
+        <div key={start} className="space-y-0.5">
+          <div className="flex items-center">
+            <span className="w-20 shrink-0 text-muted-foreground">{topLabel}</span>
+            <span className="w-10 shrink-0 text-right pr-2 text-white/40">{start + 1}</span>
+            <div className="flex">{renderRow(top, bottom, start)}</div>
+          </div>
+          <div className="flex items-center">
+            <span className="w-20 shrink-0 text-muted-foreground">{bottomLabel}</span>
+            <span className="w-10 shrink-0 text-right pr-2 text-white/40">{start + 1}</span>
+            <div className="flex">{renderRow(bottom, top, start)}</div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const MutationPlayground = () => {
+  const navigate = useNavigate();
+  const [activeSection, setActiveSection] = useState('mutations');
+  const [geneInput, setGeneInput] = useState(EXAMPLE_GENE);
+  const [tableId, setTableId] = useState(STANDARD_TABLE_ID);
+  const [kind, setKind] = useState<MutationKind>('substitution');
+  const [position, setPosition] = useState(13);
+  const [newBase, setNewBase] = useState('T');
+  const [insertion, setInsertion] = useState('A');
+  const [deletionLength, setDeletionLength] = useState(1);
+
+  const gene = useMemo(() => normalizeDNA(geneInput), [geneInput]);
+  const orf = useMemo(() => decodeMRNA(gene.replace(/T/g, 'U'), tableId), [gene, tableId]);
+  const orfStart = orf.length > 0 ? orf[0].position : -1;
+  const orfEnd = orf.length > 0 ? orf[orf.length - 1].position + 3 : -1;
+  const site = Math.min(position, Math.max(gene.length - 1, 0));
+
+  const result = useMemo(() => {
+    const mutation: Mutation = kind === 'substitution'
+      ? { kind, position: site, bases: newBase }
+      : kind === 'insertion'
+      ? { kind, position: site, bases: insertion }
+      : { kind, position: site, length: Math.min(deletionLength, gene.length - site) };
+    return analyzeMutation(gene, mutation, tableId);
+  }, [gene, tableId, kind, site, newBase, insertion, deletionLength]);
+  const info = MUTATION_EFFECT_INFO[result.effect];
+  const { codonChange } = result;
+
+  // A substitution always needs a base different from the one already there
+  const handleSiteSelect = (i: number) => {
+    setPosition(i);
+    if (gene[i] === newBase) setNewBase(gene[i] === 'A' ? 'G' : 'A');
+  };
+
+  const handleExample = (effect: typeof EXAMPLE_EFFECTS[number]) => {
+    const example = findExampleMutation(gene, effect, tableId);
+    if (!example) return;
+    setKind(example.kind);
+    setPosition(example.position);
+    if (example.kind === 'substitution') setNewBase(example.bases ?? 'A');
+    if (example.kind === 'insertion') setInsertion(example.bases ?? 'A');
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pb-20 relative overflow-hidden">
+      <Helmet>
+        <title>Mutation Playground | Protein Synthesis</title>
+        <meta name="description" content="Edit a gene and see how substitutions, insertions and deletions change its protein" />
+      </Helmet>
+
+      {/* Background blobs */}
+      <GooeyBlob
+        color="bg-primary/30"
+        size={600}
+        top="-100px"
+        right="-200px"
+        delay={0}
+        blur="2xl"
+      />
+      <GooeyBlob
+        color="bg-secondary/30"
+        size={500}
+        bottom="-100px"
+        left="-200px"
+        delay={2}
+        blur="2xl"
+      />
+
+      {/* Navigation */}
+      <NavBar activeSection={activeSection} onSectionChange={setActiveSection} />
+
+      <main className="container mx-auto px-4 pt-28 relative z-10 max-w-5xl">
+        <div className="text-center mb-12">
+          <h1 className="section-title">Mutation Playground</h1>
+          <p className="section-subtitle max-w-3xl mx-auto">
+            Change a single base — or add and remove a few — and see what happens to the protein
+          </p>
+        </div>
+
+        {/* Gene */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <label htmlFor="mutation-gene" className="block text-white font-bold mb-2">Gene, coding strand (5'→3')</label>
+            <Textarea
+              id="mutation-gene"
+              value={geneInput}
+              onChange={(e) => setGeneInput(e.target.value)}
+              spellCheck={false}
+              className="min-h-[90px] bg-muted/30 border-primary/20 text-white font-mono"
+            />
+            <p className="text-muted-foreground text-sm mt-2">
+              {gene.length} bases · {orfStart === -1 ? 'no AUG start codon found' : `ORF at bases ${orfStart + 1}–${orfEnd}`}
+            </p>
+          </div>
+
+          <div>
+            <div className="text-white font-bold mb-3">Genetic code</div>
+            <TranslationTableSelect value={tableId} onChange={setTableId} />
+          </div>
+        </section>
+
+        {/* Mutation editor */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Choose a Mutation</h2>
+            <p className="text-muted-foreground text-sm">
+              Click a base to pick the site. Bases inside the open reading frame are grouped into codons.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap font-mono text-xs">
+            {gene.split('').map((base, i) => {
+              const inOrf = i >= orfStart && i < orfEnd;
+              const codonBreak = inOrf && (i - orfStart) % 3 === 0 && i !== orfStart;
+              return (
+                <button
+                  key={i}
+                  onClick={() => handleSiteSelect(i)}
+                  title={`Base ${i + 1}`}
+                  className={cn(
+                    'w-4 h-6 flex items-center justify-center transition-colors hover:bg-primary/60',
+                    inOrf ? 'text-white bg-primary/20' : 'text-white/40',
+                    codonBreak && 'ml-1',
+                    i === site && 'bg-secondary text-white font-bold'
+                  )}
+                >
+                  {base === 'T' ? 'U' : base}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {MUTATION_KINDS.map(option => (
+              <Button
+                key={option.id}
+                size="sm"
+                variant={kind === option.id ? 'default' : 'outline'}
+                onClick={() => setKind(option.id)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="text-white text-sm">
+            {kind === 'substitution' && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span>Replace base {site + 1} ({gene[site] === 'T' ? 'U' : gene[site]}) with</span>
+                {['A', 'C', 'G', 'T'].map(base => (
+                  <Button
+                    key={base}
+                    size="sm"
+                    variant={newBase === base ? 'secondary' : 'outline'}
+                    disabled={base === gene[site]}
+                    onClick={() => setNewBase(base)}
+                    className="w-9 font-mono"
+                  >
+                    {base === 'T' ? 'U' : base}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {kind === 'insertion' && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span>Insert before base {site + 1}:</span>
+                <Input
+                  value={insertion}
+                  onChange={(e) => setInsertion(normalizeDNA(e.target.value))}
+                  className="w-40 bg-muted/30 border-primary/20 text-white font-mono"
+                />
+                <span className="text-muted-foreground">{insertion.length} base{insertion.length === 1 ? '' : 's'}</span>
+              </div>
+            )}
+            {kind === 'deletion' && (
+              <div className="max-w-sm">
+                <div className="flex justify-between mb-3">
+                  <span>Delete from base {site + 1}</span>
+                  <span className="font-mono text-secondary">{deletionLength} base{deletionLength === 1 ? '' : 's'}</span>
+                </div>
+                <Slider
+                  value={[deletionLength]}
+                  min={1}
+                  max={9}
+                  step={1}
+                  onValueChange={([value]) => setDeletionLength(value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-muted-foreground text-sm">Show me a</span>
+            {EXAMPLE_EFFECTS.map(effect => (
+              <Button key={effect} size="sm" variant="ghost" onClick={() => handleExample(effect)} className="text-white bg-muted/30">
+                {MUTATION_EFFECT_INFO[effect].label.toLowerCase()}
+              </Button>
+            ))}
+            <span className="text-muted-foreground text-sm">mutation</span>
+          </div>
+        </section>
+
+        {/* Effect */}
+        <section className="glass-card mb-8 space-y-6">
+          <div className={cn('rounded-lg border p-5', effectStyles[result.effect])}>
+            <div className="text-2xl font-bold text-white mb-2">{info.label}</div>
+            <p className="text-white/80">{info.description}</p>
+            {codonChange && (
+              <p className="text-white mt-3 font-mono text-sm">
+                Codon {codonChange.index + 1}: {codonChange.from} ({codonChange.fromAminoAcid.threeLetter}) →{' '}
+                {codonChange.to} ({codonChange.toAminoAcid.threeLetter})
+              </p>
+            )}
+            {result.effect === 'missense' && codonChange &&
+              codonChange.fromAminoAcid.property !== codonChange.toAminoAcid.property && (
+              <p className="text-white/80 mt-2 text-sm">
+                {codonChange.fromAminoAcid.name} is {codonChange.fromAminoAcid.property} but{' '}
+                {codonChange.toAminoAcid.name.toLowerCase()} is {codonChange.toAminoAcid.property}. A swap like this
+                can change how the chain folds — sickle-cell haemoglobin comes from a single Glu → Val change.
+              </p>
+            )}
+            {result.firstChangedResidue !== -1 && result.effect !== 'start-lost' && (
+              <p className="text-white/70 mt-2 text-sm">
+                Protein changes from residue {result.firstChangedResidue + 1}: {result.wildTypeProtein.length} aa →{' '}
+                {result.mutantProtein.length} aa
+              </p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-lg font-bold text-white mb-3">mRNA</h3>
+            <Alignment
+              top={result.alignedWildType}
+              bottom={result.alignedMutant}
+              topLabel="Wild type"
+              bottomLabel="Mutant"
+            />
+          </div>
+
+          <div>
+            <h3 className="text-lg font-bold text-white mb-3">Protein</h3>
+            {result.orfStart === -1 ? (
+              <p className="text-muted-foreground">No start codon, so there is no protein to compare.</p>
+            ) : (
+              <>
+                <Alignment
+                  top={result.wildTypeProtein}
+                  bottom={result.mutantProtein}
+                  topLabel="Wild type"
+                  bottomLabel="Mutant"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="mt-4"
+                  onClick={() => navigate(`/tools/alignment?${new URLSearchParams({
+                    a: result.wildTypeProtein,
+                    b: result.mutantProtein,
+                    labelA: 'Wild type',
+                    labelB: 'Mutant',
+                  })}`)}
+                >
+                  Align with BLOSUM62
+                </Button>
+              </>
+            )}
+          </div>
+        </section>
+
+        {/* Mutant on the ribosome */}
+        <section className="glass-card">
+          <h2 className="text-2xl font-bold text-white mb-2">Translate the Mutant</h2>
+          <p className="text-muted-foreground text-sm mb-4">
+            The ribosome reads the mutant mRNA codon by codon, exactly as it would the original.
+          </p>
+          <div className="h-80 sm:h-96 w-full relative rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background">
+            <TranslationAnimation key={`${result.mutantMrna}-${tableId}`} isActive sequence={result.mutantMrna} tableId={tableId} />
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default MutationPlayground;
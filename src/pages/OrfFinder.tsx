@@ -0,0 +1,303 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Helmet } from 'react-helmet';
+import NavBar from '@/components/NavBar';
+import GooeyBlob from '@/components/GooeyBlob';
+import SequenceImport from '@/components/SequenceImport';
+import SequenceMap from '@/components/SequenceMap';
+import TranslationAnimation from '@/components/TranslationAnimation';
+import TranslationTableSelect from '@/components/TranslationTableSelect';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { normalizeDNA } from '@/lib/dna';
+import { findORFs, getReadingFrames, type OpenReadingFrame, type ReadingFrame } from '@/lib/orf';
+import { extractFeatureSequence, type SequenceFeature, type SequenceRecord } from '@/lib/sequence-files';
+import { type MapFeature } from '@/lib/sequence-map';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+// Short gene on the forward strand plus a second ORF on the reverse strand
+const EXAMPLE_DNA =
+  'CGTATAAAAGGCCACCATGGCTAGCAAAGGAGAAGAACTTTAAGCTCAAGCCCATTTTCCGAACATGG' +
+  'TACCATGAGTCTGCTGGAAGCGTTAAGCGATCTGCGTAAATAGGC';
+
+interface FrameTrackProps {
+  frame: ReadingFrame;
+  orfs: OpenReadingFrame[];
+  selectedId: string | null;
+  onSelect: (orf: OpenReadingFrame) => void;
+}
+
+// One reading frame, codon by codon, with its ORFs highlighted and clickable
+const FrameTrack: React.FC<FrameTrackProps> = ({ frame, orfs, selectedId, onSelect }) => {
+  // Map each codon index in this frame to the ORF that covers it
+  const orfAtCodon = useMemo(() => {
+    const lookup = new Map<number, OpenReadingFrame>();
+    orfs.forEach(orf => {
+      for (let i = orf.start; i < orf.end; i += 3) {
+        lookup.set((i - frame.frame) / 3, orf);
+      }
+    });
+    return lookup;
+  }, [orfs, frame.frame]);
+
+  return (
+    <div className="flex items-start gap-3">
+      <div className="w-10 shrink-0 pt-1 text-sm font-mono font-bold text-secondary">{frame.label}</div>
+      <div className="flex flex-wrap font-mono text-xs">
+        {frame.protein.split('').map((residue, i) => {
+          const orf = orfAtCodon.get(i);
+          return (
+            <button
+              key={i}
+              onClick={() => orf && onSelect(orf)}
+              disabled={!orf}
+              title={orf ? `ORF ${orf.frameLabel} · ${orf.protein.length} aa` : undefined}
+              className={cn(
+                'w-4 h-6 flex items-center justify-center transition-colors',
+                residue === '*' ? 'text-red-400' : 'text-white/50',
+                orf && 'bg-primary/30 text-white hover:bg-primary/60 cursor-pointer',
+                orf && orf.id === selectedId && 'bg-secondary/60',
+                orf && residue === 'M' && i * 3 + frame.frame === orf.start && 'text-green-300 font-bold'
+              )}
+            >
+              {residue}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const OrfFinder = () => {
+  const [activeSection, setActiveSection] = useState('orf');
+  const [sequenceInput, setSequenceInput] = useState(EXAMPLE_DNA);
+  const [minLength, setMinLength] = useState(5);
+  const [tableId, setTableId] = useState(STANDARD_TABLE_ID);
+  const [selectedOrf, setSelectedOrf] = useState<OpenReadingFrame | null>(null);
+  const [importedRecord, setImportedRecord] = useState<SequenceRecord | null>(null);
+  const [importedFeature, setImportedFeature] = useState<SequenceFeature | null>(null);
+  const visualisationRef = useRef<HTMLDivElement>(null);
+  
+  // Search an imported file, or just the annotation picked from it
+  useEffect(() => {
+    if (!importedRecord) return;
+    setSequenceInput(importedFeature ? extractFeatureSequence(importedRecord, importedFeature) : importedRecord.sequence);
+    setSelectedOrf(null);
+  }, [importedRecord, importedFeature]);
+
+  const dna = useMemo(() => normalizeDNA(sequenceInput), [sequenceInput]);
+  const frames = useMemo(() => getReadingFrames(dna, tableId), [dna, tableId]);
+  const orfs = useMemo(() => findORFs(dna, minLength, tableId), [dna, minLength, tableId]);
+
+  // ORFs on the map, alongside the file's own annotations when the whole record is shown
+  const mapFeatures = useMemo<MapFeature[]>(() => [
+    ...(importedRecord && !importedFeature && importedRecord.sequence === dna ? importedRecord.features : []),
+    ...orfs.map(orf => ({
+      id: orf.id,
+      type: 'ORF',
+      label: `${orf.frameLabel} · ${orf.protein.length} aa`,
+      strand: orf.strand,
+      start: orf.forwardStart,
+      end: orf.forwardEnd,
+      segments: [{ start: orf.forwardStart, end: orf.forwardEnd }],
+    })),
+  ], [importedRecord, importedFeature, dna, orfs]);
+
+  const handleSelect = (orf: OpenReadingFrame) => {
+    setSelectedOrf(orf);
+    setTimeout(() => visualisationRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pb-20 relative overflow-hidden">
+      <Helmet>
+        <title>ORF Finder | Protein Synthesis</title>
+        <meta name="description" content="Translate DNA in all six reading frames and find open reading frames" />
+      </Helmet>
+
+      {/* Background blobs */}
+      <GooeyBlob
+        color="bg-primary/30"
+        size={600}
+        top="-100px"
+        right="-200px"
+        delay={0}
+        blur="2xl"
+      />
+      <GooeyBlob
+        color="bg-secondary/30"
+        size={500}
+        bottom="-100px"
+        left="-200px"
+        delay={2}
+        blur="2xl"
+      />
+
+      {/* Navigation */}
+      <NavBar activeSection={activeSection} onSectionChange={setActiveSection} />
+
+      <main className="container mx-auto px-4 pt-28 relative z-10 max-w-5xl">
+        <div className="text-center mb-12">
+          <h1 className="section-title">Open Reading Frame Finder</h1>
+          <p className="section-subtitle max-w-3xl mx-auto">
+            Paste DNA, read it in all six frames and find every stretch from AUG to a stop codon
+          </p>
+        </div>
+
+        {/* Input */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <label htmlFor="orf-sequence" className="block text-white font-bold mb-2">DNA sequence (5'→3')</label>
+            <Textarea
+              id="orf-sequence"
+              value={sequenceInput}
+              onChange={(e) => setSequenceInput(e.target.value)}
+              spellCheck={false}
+              className="min-h-[120px] bg-muted/30 border-primary/20 text-white font-mono"
+            />
+            <p className="text-muted-foreground text-sm mt-2">
+              {dna.length} bases · spaces, numbers and other characters are ignored
+            </p>
+          </div>
+
+          <SequenceImport
+            record={importedRecord}
+            selectedFeature={importedFeature}
+            onRecordChange={setImportedRecord}
+            onFeatureSelect={setImportedFeature}
+          />
+
+          <div>
+            <div className="flex justify-between text-white mb-3">
+              <span className="font-bold">Minimum ORF length</span>
+              <span className="font-mono text-secondary">{minLength} aa</span>
+            </div>
+            <Slider
+              value={[minLength]}
+              min={1}
+              max={100}
+              step={1}
+              onValueChange={([value]) => setMinLength(value)}
+            />
+          </div>
+
+          <div>
+            <div className="text-white font-bold mb-3">Genetic code</div>
+            <TranslationTableSelect
+              value={tableId}
+              onChange={(id) => {
+                setTableId(id);
+                setSelectedOrf(null);
+              }}
+            />
+          </div>
+        </section>
+
+        {/* Map */}
+        <section className="glass-card mb-8">
+          <h2 className="text-2xl font-bold text-white mb-2">Sequence Map</h2>
+          <p className="text-muted-foreground text-sm mb-6">
+            Zoom in to read the bases and the six frames codon by codon; zoomed out, green ticks are ATG
+            start codons and red ticks are stops. Click an ORF to translate it.
+          </p>
+          <SequenceMap
+            sequence={dna}
+            features={mapFeatures}
+            tableId={tableId}
+            onFeatureClick={(feature) => {
+              const orf = orfs.find(({ id }) => id === feature.id);
+              if (orf) handleSelect(orf);
+            }}
+          />
+        </section>
+
+        {/* Six-frame translation */}
+        <section className="glass-card mb-8">
+          <h2 className="text-2xl font-bold text-white mb-2">Six-Frame Translation</h2>
+          <p className="text-muted-foreground text-sm mb-6">
+            Frames +1 to +3 read the sequence as given; −1 to −3 read the reverse complement, also 5'→3'.
+            Highlighted runs are ORFs — click one to watch it being translated.
+          </p>
+          <div className="space-y-3 overflow-x-auto">
+            {frames.map((frame) => (
+              <FrameTrack
+                key={frame.label}
+                frame={frame}
+                orfs={orfs.filter(orf => orf.frameLabel === frame.label)}
+                selectedId={selectedOrf?.id ?? null}
+                onSelect={handleSelect}
+              />
+            ))}
+          </div>
+        </section>
+
+        {/* ORF list */}
+        <section className="glass-card mb-8">
+          <h2 className="text-2xl font-bold text-white mb-4">ORFs Found ({orfs.length})</h2>
+          {orfs.length === 0 ? (
+            <p className="text-muted-foreground">
+              No ORFs of at least {minLength} amino acids. Try lowering the minimum length.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-primary/20">
+                    <th className="py-2 pr-4">Frame</th>
+                    <th className="py-2 pr-4">Position</th>
+                    <th className="py-2 pr-4">Length</th>
+                    <th className="py-2 pr-4">Protein</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orfs.map((orf) => (
+                    <tr
+                      key={orf.id}
+                      className={cn(
+                        'border-b border-primary/10 text-white/90',
+                        selectedOrf?.id === orf.id && 'bg-secondary/20'
+                      )}
+                    >
+                      <td className="py-2 pr-4 font-mono">{orf.frameLabel}</td>
+                      <td className="py-2 pr-4 font-mono">{orf.forwardStart + 1}–{orf.forwardEnd}</td>
+                      <td className="py-2 pr-4">{orf.protein.length} aa</td>
+                      <td className="py-2 pr-4 font-mono break-all">
+                        {orf.protein.length > 30 ? `${orf.protein.slice(0, 30)}…` : orf.protein}
+                      </td>
+                      <td className="py-2 text-right">
+                        <Button size="sm" onClick={() => handleSelect(orf)}>Translate</Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {/* Translation visualisation */}
+        <section ref={visualisationRef} className="glass-card">
+          <h2 className="text-2xl font-bold text-white mb-2">Translation</h2>
+          {selectedOrf ? (
+            <>
+              <p className="text-muted-foreground text-sm mb-4">
+                ORF {selectedOrf.frameLabel}, bases {selectedOrf.forwardStart + 1}–{selectedOrf.forwardEnd}:{' '}
+                <span className="font-mono text-white/90">{selectedOrf.protein}</span>
+              </p>
+              <div className="h-80 sm:h-96 w-full relative rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background">
+                <TranslationAnimation key={selectedOrf.id} isActive sequence={selectedOrf.dna} tableId={tableId} />
+              </div>
+            </>
+          ) : (
+            <p className="text-muted-foreground">Select an ORF above to send it to the ribosome.</p>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default OrfFinder;
@@ -0,0 +1,348 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Helmet } from 'react-helmet';
+import { useSearchParams } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import NavBar from '@/components/NavBar';
+import GooeyBlob from '@/components/GooeyBlob';
+import ProteinFoldingAnimation, { MAX_FOLDING_RESIDUES } from '@/components/ProteinFoldingAnimation';
+import SecondaryStructureTrack from '@/components/SecondaryStructureTrack';
+import SequenceImport from '@/components/SequenceImport';
+import StatCard from '@/components/StatCard';
+import TranslationTableSelect from '@/components/TranslationTableSelect';
+import { Button } from '@/components/ui/button';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { AMINO_ACIDS, decodeMRNA, normalizeRNA, type AminoAcidProperty } from '@/lib/genetic-code';
+import {
+  extinctionCoefficient,
+  gravy,
+  hydropathyProfile,
+  isoelectricPoint,
+  molecularWeight,
+  netCharge,
+  normalizeProtein,
+  PROPERTY_COLORS,
+  residueProperties,
+  TRANSMEMBRANE_THRESHOLD,
+} from '@/lib/protein-properties';
+import { getCodingSequence, type SequenceFeature, type SequenceRecord } from '@/lib/sequence-files';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+type InputKind = 'protein' | 'nucleotide';
+
+// Hen egg-white lysozyme, the mature 129-residue chain
+const EXAMPLE_PROTEIN =
+  'KVFGRCELAAAMKRHGLDNYRGYSLGNWVCAAKFESNFNTQATNRNTDGSTDYGILQINSRWWCNDGRTPGSRNLCNIPCSALLSSDITASVNCAKKIVSDGNGMNAWVAWRNRCKGTDVQAWIRGCRL';
+
+const INPUT_KINDS: { id: InputKind; label: string }[] = [
+  { id: 'protein', label: 'Protein' },
+  { id: 'nucleotide', label: 'DNA / mRNA' },
+];
+
+const PROPERTY_LABELS: Record<AminoAcidProperty, string> = {
+  hydrophobic: 'Hydrophobic',
+  hydrophilic: 'Polar',
+  positive: 'Positive',
+  negative: 'Negative',
+  special: 'Special (G, P, C)',
+};
+
+const chargeConfig = {
+  charge: { label: 'Net charge', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const hydropathyConfig = {
+  score: { label: 'Hydropathy', color: '#F97316' },
+} satisfies ChartConfig;
+
+// Net charge from pH 0 to 14 in steps of 0.25
+const PH_STEPS = [...Array(57)].map((_, i) => i * 0.25);
+
+const ProteinAnalysis = () => {
+  const [searchParams] = useSearchParams();
+  const [activeSection, setActiveSection] = useState('protein');
+  const [inputKind, setInputKind] = useState<InputKind>('protein');
+  const [sequenceInput, setSequenceInput] = useState(() => searchParams.get('sequence') ?? EXAMPLE_PROTEIN);
+  const [tableId, setTableId] = useState(STANDARD_TABLE_ID);
+  const [pH, setPH] = useState(7);
+  const [windowSize, setWindowSize] = useState(9);
+  const [importedRecord, setImportedRecord] = useState<SequenceRecord | null>(null);
+  const [importedFeature, setImportedFeature] = useState<SequenceFeature | null>(null);
+
+  // An imported gene is translated from its CDS
+  useEffect(() => {
+    if (!importedRecord) return;
+    setInputKind('nucleotide');
+    setSequenceInput(getCodingSequence(importedRecord, importedFeature));
+  }, [importedRecord, importedFeature]);
+
+  // DNA and mRNA are read from the first AUG, as the ribosome would
+  const protein = useMemo(() => {
+    if (inputKind === 'protein') return normalizeProtein(sequenceInput);
+    return decodeMRNA(normalizeRNA(sequenceInput), tableId)
+      .filter(({ isStop }) => !isStop)
+      .map(({ aminoAcid }) => aminoAcid.oneLetter)
+      .join('');
+  }, [inputKind, sequenceInput, tableId]);
+
+  const weight = useMemo(() => molecularWeight(protein), [protein]);
+  const pI = useMemo(() => isoelectricPoint(protein), [protein]);
+  const extinction = useMemo(() => extinctionCoefficient(protein), [protein]);
+  const chargeCurve = useMemo(
+    () => PH_STEPS.map(step => ({ pH: step, charge: Number(netCharge(protein, step).toFixed(2)) })),
+    [protein]
+  );
+  const hydropathy = useMemo(() => hydropathyProfile(protein, windowSize), [protein, windowSize]);
+  const properties = useMemo(() => residueProperties(protein), [protein]);
+  const transmembrane = windowSize >= 19 && hydropathy.some(point => point.score > TRANSMEMBRANE_THRESHOLD);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pb-20 relative overflow-hidden">
+      <Helmet>
+        <title>Protein Properties | Protein Synthesis</title>
+        <meta name="description" content="Molecular weight, isoelectric point, charge, extinction coefficient and hydropathy of a protein" />
+      </Helmet>
+
+      {/* Background blobs */}
+      <GooeyBlob
+        color="bg-primary/30"
+        size={600}
+        top="-100px"
+        right="-200px"
+        delay={0}
+        blur="2xl"
+      />
+      <GooeyBlob
+        color="bg-secondary/30"
+        size={500}
+        bottom="-100px"
+        left="-200px"
+        delay={2}
+        blur="2xl"
+      />
+
+      {/* Navigation */}
+      <NavBar activeSection={activeSection} onSectionChange={setActiveSection} />
+
+      <main className="container mx-auto px-4 pt-28 relative z-10 max-w-5xl">
+        <div className="text-center mb-12">
+          <h1 className="section-title">Protein Properties</h1>
+          <p className="section-subtitle max-w-3xl mx-auto">
+            Weight, charge, absorbance and hydropathy — all worked out from the amino acid sequence
+          </p>
+        </div>
+
+        {/* Input */}
+        <section className="glass-card mb-8 space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {INPUT_KINDS.map(option => (
+              <Button
+                key={option.id}
+                size="sm"
+                variant={inputKind === option.id ? 'default' : 'outline'}
+                onClick={() => setInputKind(option.id)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          <div>
+            <label htmlFor="protein-sequence" className="block text-white font-bold mb-2">
+              {inputKind === 'protein' ? 'Protein sequence (one-letter code, N→C)' : "DNA or mRNA (5'→3')"}
+            </label>
+            <Textarea
+              id="protein-sequence"
+              value={sequenceInput}
+              onChange={(e) => setSequenceInput(e.target.value)}
+              spellCheck={false}
+              className="min-h-[100px] bg-muted/30 border-primary/20 text-white font-mono"
+            />
+            <p className="text-muted-foreground text-sm mt-2">
+              {protein.length} residues
+              {inputKind === 'nucleotide' && ' · translated from the first AUG to the first stop codon'}
+            </p>
+          </div>
+
+          {inputKind === 'nucleotide' && (
+            <>
+              <SequenceImport
+                record={importedRecord}
+                selectedFeature={importedFeature}
+                onRecordChange={setImportedRecord}
+                onFeatureSelect={setImportedFeature}
+              />
+              <div>
+                <div className="text-white font-bold mb-3">Genetic code</div>
+                <TranslationTableSelect value={tableId} onChange={setTableId} />
+              </div>
+            </>
+          )}
+        </section>
+
+        {/* Headline numbers */}
+        <section className="glass-card mb-8 space-y-6">
+          <h2 className="text-2xl font-bold text-white">Physicochemical Properties</h2>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <StatCard label="Molecular weight" value={`${(weight / 1000).toFixed(2)} kDa`} hint={`${weight.toFixed(1)} Da, average isotopes`} />
+            <StatCard label="Isoelectric point" value={pI.toFixed(2)} hint="pH with no net charge" />
+            <StatCard label={`Net charge at pH ${pH.toFixed(1)}`} value={netCharge(protein, pH).toFixed(1)} hint="Henderson–Hasselbalch, EMBOSS pKa" />
+            <StatCard
+              label="ε at 280 nm"
+              value={extinction.oxidised.toLocaleString()}
+              hint={`M⁻¹ cm⁻¹ with cystines · ${extinction.reduced.toLocaleString()} reduced`}
+            />
+            <StatCard
+              label="Abs 0.1% (1 g/L)"
+              value={weight === 0 ? '0' : (extinction.oxidised / weight).toFixed(3)}
+              hint="absorbance of a 1 mg/mL solution"
+            />
+            <StatCard label="GRAVY" value={gravy(protein).toFixed(3)} hint={gravy(protein) > 0 ? 'hydrophobic overall' : 'hydrophilic overall'} />
+          </div>
+
+          <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+            <div className="flex justify-between items-baseline mb-3">
+              <h3 className="text-white font-bold">Net charge against pH</h3>
+              <span className="font-mono text-secondary text-sm">pH {pH.toFixed(1)}</span>
+            </div>
+            <ChartContainer config={chargeConfig} className="aspect-auto h-56 w-full">
+              <LineChart data={chargeCurve}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="pH" type="number" domain={[0, 14]} ticks={[0, 2, 4, 6, 8, 10, 12, 14]} tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `pH ${payload[0]?.payload.pH}`} />} />
+                <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                <ReferenceLine x={pI} stroke="hsl(var(--secondary))" strokeDasharray="4 4" label={{ value: 'pI', fill: 'white', fontSize: 11, position: 'top' }} />
+                <ReferenceLine x={pH} stroke="#F59E0B" />
+                <Line dataKey="charge" type="monotone" stroke="var(--color-charge)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+            <Slider
+              className="mt-4"
+              value={[pH]}
+              min={0}
+              max={14}
+              step={0.1}
+              onValueChange={([value]) => setPH(value)}
+            />
+          </div>
+        </section>
+
+        {/* Hydropathy */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Kyte-Doolittle Hydropathy</h2>
+            <p className="text-muted-foreground text-sm">
+              Each point averages the hydropathy of the residues in a window around it. Peaks above zero are
+              hydrophobic stretches that tend to be buried in the core; with a 19-residue window, peaks above
+              {' '}{TRANSMEMBRANE_THRESHOLD} suggest a membrane-spanning helix.
+            </p>
+          </div>
+          <ChartContainer config={hydropathyConfig} className="aspect-auto h-64 w-full">
+            <LineChart data={hydropathy}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="position" type="number" domain={[1, Math.max(protein.length, 1)]} tickLine={false} axisLine={false} />
+              <YAxis domain={[-4.5, 4.5]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const position = payload[0]?.payload.position;
+                      return position ? `${AMINO_ACIDS[protein[position - 1]]?.threeLetter ?? ''} ${position}` : '';
+                    }}
+                  />
+                }
+              />
+              <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+              {windowSize >= 19 && (
+                <ReferenceLine y={TRANSMEMBRANE_THRESHOLD} stroke="#E11D48" strokeDasharray="4 4" />
+              )}
+              <Line dataKey="score" type="monotone" stroke="var(--color-score)" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+          <div>
+            <div className="flex justify-between text-white mb-3">
+              <span className="font-bold">Window</span>
+              <span className="font-mono text-secondary">{windowSize} residues</span>
+            </div>
+            <Slider
+              value={[windowSize]}
+              min={5}
+              max={21}
+              step={2}
+              onValueChange={([value]) => setWindowSize(value)}
+            />
+            {transmembrane && (
+              <p className="text-sm text-white/80 mt-3">
+                At least one window scores above {TRANSMEMBRANE_THRESHOLD}: this protein may cross a membrane.
+              </p>
+            )}
+          </div>
+        </section>
+
+        {/* The same residues in 3D */}
+        <section className="glass-card space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Folding the Chain</h2>
+            <p className="text-muted-foreground text-sm">
+              Every bead is a residue from the sequence above, coloured by its side chain. Hydrophobic residues
+              — the peaks in the plot — are the ones the fold hides from water.
+              {protein.length > MAX_FOLDING_RESIDUES && ` The first ${MAX_FOLDING_RESIDUES} residues are shown.`}
+            </p>
+          </div>
+
+          {/* Residue strip in the same colours as the 3D beads */}
+          <div className="flex flex-wrap font-mono text-[10px]">
+            {protein.split('').map((residue, i) => (
+              <div
+                key={i}
+                title={`${AMINO_ACIDS[residue]?.name} ${i + 1}`}
+                className={cn('w-4 h-5 flex items-center justify-center text-white', i >= MAX_FOLDING_RESIDUES && 'opacity-40')}
+                style={{ backgroundColor: `${PROPERTY_COLORS[properties[i]]}B3` }}
+              >
+                {residue}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-3 text-xs text-white/80">
+            {(Object.keys(PROPERTY_COLORS) as AminoAcidProperty[]).map(property => (
+              <div key={property} className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: PROPERTY_COLORS[property] }} />
+                {PROPERTY_LABELS[property]} · {properties.filter(p => p === property).length}
+              </div>
+            ))}
+          </div>
+
+          <div className="h-80 sm:h-96 w-full relative rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background">
+            {protein.length > 0 ? (
+              <ProteinFoldingAnimation isActive sequence={protein} />
+            ) : (
+              <p className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+                Enter a sequence to fold.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-white font-bold mb-2">Predicted Secondary Structure</h3>
+            <p className="text-muted-foreground text-sm mb-4">
+              The Chou-Fasman method scores each stretch by how often its residues occur in helices and strands
+              of known structures. Its predicted helices coil up and its strands pleat into sheets in the view above.
+            </p>
+            <SecondaryStructureTrack sequence={protein.slice(0, MAX_FOLDING_RESIDUES)} />
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default ProteinAnalysis;
@@ -0,0 +1,369 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { Helmet } from 'react-helmet';
+import { useSearchParams } from 'react-router-dom';
+import NavBar from '@/components/NavBar';
+import GooeyBlob from '@/components/GooeyBlob';
+import AlignmentViewer from '@/components/AlignmentViewer';
+import StatCard from '@/components/StatCard';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  alignSequences,
+  DEFAULT_ALIGNMENT_OPTIONS,
+  MAX_ALIGNMENT_LENGTH,
+  SCORING_MATRICES,
+  type AlignmentMode,
+  type ScoringMatrixId,
+} from '@/lib/alignment';
+import { normalizeDNA } from '@/lib/dna';
+import { normalizeProtein } from '@/lib/protein-properties';
+
+interface AlignmentExample {
+  name: string;
+  labelA: string;
+  labelB: string;
+  a: string;
+  b: string;
+  mode: AlignmentMode;
+  matrix: ScoringMatrixId;
+}
+
+const HUMAN_HBB =
+  'MVHLTPEEKSAVTALWGKVNVDEVGGEALGRLLVVYPWTQRFFESFGDLSTPDAVMGNPKVKAHGKKVLGAFSDGLAHLDNLKGTFATLSELHCDKLHVDPENFRLLGNVLVCVLAHHFGKEFTPPVQAAYQKVVAGVANALAHKYH';
+
+// Mouse Hbb-b1
+const MOUSE_HBB =
+  'MVHLTDAEKAAVSCLWGKVNSDEVGGEALGRLLVVYPWTQRYFDSFGDLSSASAIMGNAKVKAHGKKVITAFNDGLNHLDSLKGTFASLSELHCDKLHVDPENFRLLGNMIVIVLGHHLGKDFTPAAQAAFQKVVAGVATALAHKYH';
+
+const HUMAN_HBA =
+  'MVLSPADKTNVKAAWGKVGAHAGEYGAEALERMFLSFPTTKTYFPHFDLSHGSAQVKGHGKKVADALTNAVAHVDDMPNALSALSDLHAHKLRVDPVNFKLLSHCLLVTLAAHLPAEFTPAVHASLDKFLASVSTVLTSKYR';
+
+const PREPROINSULIN =
+  'MALWMRLLPLLALLALWGPDPAAAFVNQHLCGSHLVEALYLVCGERGFFYTPKTRREAEDLQVGQVELGGGPGAGSLQPLALEGSLQKRGIVEQCCTSICSLYQLENYCN';
+
+// Start of the HBB coding sequence; codon 7 (6 in the mature chain) is GAG in wild type, GTG in sickle-cell
+const HBB_CODING_START = 'ATGGTGCACCTGACTCCTGAGGAGAAGTCTGCCGTTACTGCCCTGTGGGGCAAGGTGAACGTGGATGAAGTTGGTGGTGAGGCCCTGGGCAGG';
+
+const EXAMPLES: AlignmentExample[] = [
+  {
+    name: 'Sickle-cell β-globin',
+    labelA: 'HBB',
+    labelB: 'HBB Glu6Val',
+    a: HUMAN_HBB,
+    b: HUMAN_HBB.replace('PEEK', 'PVEK'),
+    mode: 'global',
+    matrix: 'blosum62',
+  },
+  {
+    name: 'Sickle-cell gene (DNA)',
+    labelA: 'HBB',
+    labelB: 'HBB A>T',
+    a: HBB_CODING_START,
+    b: HBB_CODING_START.replace('CCTGAGGAG', 'CCTGTGGAG'),
+    mode: 'global',
+    matrix: 'dna',
+  },
+  {
+    name: 'Human vs mouse β-globin',
+    labelA: 'Human HBB',
+    labelB: 'Mouse Hbb',
+    a: HUMAN_HBB,
+    b: MOUSE_HBB,
+    mode: 'global',
+    matrix: 'blosum62',
+  },
+  {
+    name: 'α- vs β-globin',
+    labelA: 'HBB',
+    labelB: 'HBA',
+    a: HUMAN_HBB,
+    b: HUMAN_HBA,
+    mode: 'global',
+    matrix: 'pam250',
+  },
+  {
+    name: 'Insulin B chain in preproinsulin',
+    labelA: 'Preproinsulin',
+    labelB: 'B chain',
+    a: PREPROINSULIN,
+    b: 'FVNQHLCGSHLVEALYLVCGERGFFYTPKT',
+    mode: 'local',
+    matrix: 'blosum62',
+  },
+];
+
+const MODES: { id: AlignmentMode; label: string; description: string }[] = [
+  {
+    id: 'global',
+    label: 'Global (Needleman-Wunsch)',
+    description: 'Aligns both sequences from end to end. Use it for versions of the same gene or protein, such as mutant and wild type.',
+  },
+  {
+    id: 'local',
+    label: 'Local (Smith-Waterman)',
+    description: 'Finds the best-matching stretch of each and ignores the rest. Use it for a shared domain or a short piece in a long sequence.',
+  },
+];
+
+interface SequenceFieldProps {
+  label: string;
+  value: string;
+  count: string;
+  onLabelChange: (label: string) => void;
+  onChange: (value: string) => void;
+}
+
+// One of the two sequences, with a name that can be edited in place
+const SequenceField: React.FC<SequenceFieldProps> = ({ label, value, count, onLabelChange, onChange }) => (
+  <div>
+    <input
+      value={label}
+      onChange={(e) => onLabelChange(e.target.value)}
+      aria-label="Sequence name"
+      className="block w-full bg-transparent text-white font-bold mb-2 border-b border-transparent focus:outline-none focus:border-primary/40"
+    />
+    <Textarea
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={`${label} sequence`}
+      spellCheck={false}
+      className="min-h-[120px] bg-muted/30 border-primary/20 text-white font-mono"
+    />
+    <p className="text-muted-foreground text-sm mt-2">{count}</p>
+  </div>
+);
+
+const SequenceAlignment = () => {
+  const [searchParams] = useSearchParams();
+  const [activeSection, setActiveSection] = useState('alignment');
+  const [inputA, setInputA] = useState(() => searchParams.get('a') ?? EXAMPLES[0].a);
+  const [inputB, setInputB] = useState(() => searchParams.get('b') ?? EXAMPLES[0].b);
+  const [labelA, setLabelA] = useState(() => searchParams.get('labelA') ?? (searchParams.has('a') ? 'Sequence A' : EXAMPLES[0].labelA));
+  const [labelB, setLabelB] = useState(() => searchParams.get('labelB') ?? (searchParams.has('b') ? 'Sequence B' : EXAMPLES[0].labelB));
+  const [mode, setMode] = useState<AlignmentMode>(DEFAULT_ALIGNMENT_OPTIONS.mode);
+  const [matrix, setMatrix] = useState<ScoringMatrixId>(DEFAULT_ALIGNMENT_OPTIONS.matrix);
+  const [gapOpen, setGapOpen] = useState(DEFAULT_ALIGNMENT_OPTIONS.gapOpen);
+  const [gapExtend, setGapExtend] = useState(DEFAULT_ALIGNMENT_OPTIONS.gapExtend);
+
+  const isDNA = SCORING_MATRICES[matrix].alphabet === 'dna';
+  const normalize = isDNA ? normalizeDNA : normalizeProtein;
+  const a = useMemo(() => normalize(inputA), [normalize, inputA]);
+  const b = useMemo(() => normalize(inputB), [normalize, inputB]);
+  const tooLong = a.length > MAX_ALIGNMENT_LENGTH || b.length > MAX_ALIGNMENT_LENGTH;
+
+  // Long sequences take a moment, so sliders stay responsive while the alignment catches up
+  const deferredA = useDeferredValue(a);
+  const deferredB = useDeferredValue(b);
+  const deferredGapOpen = useDeferredValue(gapOpen);
+  const deferredGapExtend = useDeferredValue(gapExtend);
+
+  const result = useMemo(
+    () => (tooLong ? null : alignSequences(deferredA, deferredB, { mode, matrix, gapOpen: deferredGapOpen, gapExtend: deferredGapExtend })),
+    [tooLong, deferredA, deferredB, mode, matrix, deferredGapOpen, deferredGapExtend]
+  );
+
+  const loadExample = (example: AlignmentExample) => {
+    setInputA(example.a);
+    setInputB(example.b);
+    setLabelA(example.labelA);
+    setLabelB(example.labelB);
+    setMode(example.mode);
+    setMatrix(example.matrix);
+  };
+
+  const unit = isDNA ? 'bases' : 'residues';
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pb-20 relative overflow-hidden">
+      <Helmet>
+        <title>Sequence Alignment | Protein Synthesis</title>
+        <meta name="description" content="Global and local pairwise alignment of proteins and DNA with BLOSUM62, PAM250 and affine gap penalties" />
+      </Helmet>
+
+      {/* Background blobs */}
+      <GooeyBlob
+        color="bg-primary/30"
+        size={600}
+        top="-100px"
+        right="-200px"
+        delay={0}
+        blur="2xl"
+      />
+      <GooeyBlob
+        color="bg-secondary/30"
+        size={500}
+        bottom="-100px"
+        left="-200px"
+        delay={2}
+        blur="2xl"
+      />
+
+      {/* Navigation */}
+      <NavBar activeSection={activeSection} onSectionChange={setActiveSection} />
+
+      <main className="container mx-auto px-4 pt-28 relative z-10 max-w-5xl">
+        <div className="text-center mb-12">
+          <h1 className="section-title">Sequence Alignment</h1>
+          <p className="section-subtitle max-w-3xl mx-auto">
+            Line up two proteins or genes to see what evolution — or a mutation — has kept and what it has changed
+          </p>
+        </div>
+
+        {/* Input */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <div className="text-white font-bold mb-3">Examples</div>
+            <div className="flex flex-wrap gap-2">
+              {EXAMPLES.map(example => (
+                <Button key={example.name} size="sm" variant="outline" onClick={() => loadExample(example)}>
+                  {example.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <SequenceField
+              label={labelA}
+              value={inputA}
+              count={`${a.length} ${unit}`}
+              onLabelChange={setLabelA}
+              onChange={setInputA}
+            />
+            <SequenceField
+              label={labelB}
+              value={inputB}
+              count={`${b.length} ${unit}`}
+              onLabelChange={setLabelB}
+              onChange={setInputB}
+            />
+          </div>
+        </section>
+
+        {/* Scoring */}
+        <section className="glass-card mb-8 space-y-6">
+          <h2 className="text-2xl font-bold text-white mb-2">Scoring</h2>
+
+          <div>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {MODES.map(option => (
+                <Button
+                  key={option.id}
+                  size="sm"
+                  variant={mode === option.id ? 'default' : 'outline'}
+                  onClick={() => setMode(option.id)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-sm">{MODES.find(option => option.id === mode)?.description}</p>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {(Object.keys(SCORING_MATRICES) as ScoringMatrixId[]).map(id => (
+                <Button
+                  key={id}
+                  size="sm"
+                  variant={matrix === id ? 'default' : 'outline'}
+                  onClick={() => setMatrix(id)}
+                >
+                  {SCORING_MATRICES[id].label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-sm">{SCORING_MATRICES[matrix].description}</p>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <div className="flex justify-between text-white mb-3">
+                <span className="font-bold">Gap opening</span>
+                <span className="font-mono text-secondary">−{gapOpen}</span>
+              </div>
+              <Slider
+                value={[gapOpen]}
+                min={1}
+                max={20}
+                step={0.5}
+                onValueChange={([value]) => setGapOpen(value)}
+              />
+            </div>
+            <div>
+              <div className="flex justify-between text-white mb-3">
+                <span className="font-bold">Gap extension</span>
+                <span className="font-mono text-secondary">−{gapExtend} per {isDNA ? 'base' : 'residue'}</span>
+              </div>
+              <Slider
+                value={[gapExtend]}
+                min={0}
+                max={5}
+                step={0.5}
+                onValueChange={([value]) => setGapExtend(value)}
+              />
+            </div>
+          </div>
+        </section>
+
+        {/* Result */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Alignment</h2>
+            {result && mode === 'local' && result.columns.length > 0 && (
+              <p className="text-muted-foreground text-sm">
+                {labelA} {result.startA}–{result.endA} against {labelB} {result.startB}–{result.endB}
+              </p>
+            )}
+          </div>
+
+          {tooLong || !result ? (
+            <p className="text-muted-foreground">
+              Sequences longer than {MAX_ALIGNMENT_LENGTH.toLocaleString()} {unit} are too big to align in the browser.
+              Try a single gene or domain.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <StatCard label="Score" value={result.score.toFixed(1)} hint={SCORING_MATRICES[matrix].label} />
+                <StatCard
+                  label="Identity"
+                  value={`${(result.identity * 100).toFixed(1)}%`}
+                  hint={`${result.columns.filter(({ kind }) => kind === 'match').length}/${result.columns.length} columns`}
+                />
+                <StatCard
+                  label="Similarity"
+                  value={`${(result.similarity * 100).toFixed(1)}%`}
+                  hint={isDNA ? 'same as identity for DNA' : 'identical or positively scoring'}
+                />
+                <StatCard label="Gaps" value={String(result.gaps)} hint={`${(result.gaps / Math.max(result.columns.length, 1) * 100).toFixed(1)}% of columns`} />
+              </div>
+              <AlignmentViewer result={result} labelA={labelA} labelB={labelB} />
+            </>
+          )}
+        </section>
+
+        {/* Method */}
+        <section className="glass-card space-y-4">
+          <h2 className="text-2xl font-bold text-white mb-2">How the Alignment Is Found</h2>
+          <p className="text-white/80">
+            Every way of lining up two sequences is a path through a grid with one sequence along each side.
+            A diagonal step pairs two {unit} and scores them from the matrix; a step down or across puts one
+            of them opposite a gap. Dynamic programming fills in the best score for every cell from its three
+            neighbours, then traces back from the end to recover the winning path — so the alignment is
+            guaranteed to be the best possible under these scores, without trying every path.
+          </p>
+          <p className="text-white/80">
+            Opening a gap costs more than extending one, because a single insertion or deletion of several
+            {' '}{unit} is far more likely than several separate ones. Raise the opening penalty and gaps merge;
+            lower it and they scatter. A local alignment may also start afresh at any cell whose score would
+            drop below zero, which is how it finds a shared stretch inside otherwise unrelated sequences.
+          </p>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default SequenceAlignment;
@@ -0,0 +1,382 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Helmet } from 'react-helmet';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import NavBar from '@/components/NavBar';
+import GooeyBlob from '@/components/GooeyBlob';
+import SequenceImport from '@/components/SequenceImport';
+import StatCard from '@/components/StatCard';
+import TranslationTableSelect from '@/components/TranslationTableSelect';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { CODON_USAGE_TABLES } from '@/lib/codon-usage-tables';
+import { normalizeDNA } from '@/lib/dna';
+import { AMINO_ACIDS } from '@/lib/genetic-code';
+import { findORFs } from '@/lib/orf';
+import { getCodingSequence, type SequenceFeature, type SequenceRecord } from '@/lib/sequence-files';
+import {
+  codonAdaptationIndex,
+  codonUsage,
+  gcByCodonPosition,
+  gcContent,
+  nucleotideComposition,
+  referenceCodonUsage,
+  slidingGC,
+} from '@/lib/sequence-stats';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+// EGFP coding sequence, codon-optimised for mammalian cells: a clear human-like bias
+const EXAMPLE_DNA =
+  'ATGGTGAGCAAGGGCGAGGAGCTGTTCACCGGGGTGGTGCCCATCCTGGTCGAGCTGGACGGCGACGTAAACGGCCACAAGTTCAGCGTGTCCGGCGAG' +
+  'GGCGAGGGCGATGCCACCTACGGCAAGCTGACCCTGAAGTTCATCTGCACCACCGGCAAGCTGCCCGTGCCCTGGCCCACCCTCGTGACCACCCTGACC' +
+  'TACGGCGTGCAGTGCTTCAGCCGCTACCCCGACCACATGAAGCAGCACGACTTCTTCAAGTCCGCCATGCCCGAAGGCTACGTCCAGGAGCGCACCATC' +
+  'TTCTTCAAGGACGACGGCAACTACAAGACCCGCGCCGAGGTGAAGTTCGAGGGCGACACCCTGGTGAACCGCATCGAGCTGAAGGGCATCGACTTCAAG' +
+  'GAGGACGGCAACATCCTGGGGCACAAGCTGGAGTACAACTACAACAGCCACAACGTCTATATCATGGCCGACAAGCAGAAGAACGGCATCAAGGTGAAC' +
+  'TTCAAGATCCGCCACAACATCGAGGACGGCAGCGTGCAGCTCGCCGACCACTACCAGCAGAACACCCCCATCGGCGACGGCCCCGTGCTGCTGCCCGAC' +
+  'AACCACTACCTGAGCACCCAGTCCGCCCTGAGCAAAGACCCCAACGAGAAGCGCGATCACATGGTCCTGCTGGAGTTCGTGACCGCCGCCGGGATCACT' +
+  'CTCGGCATGGACGAGCTGTACAAGTAA';
+
+const BASE_COLORS: Record<string, string> = {
+  A: '#E11D48',
+  C: '#3B82F6',
+  G: '#F59E0B',
+  T: '#22C55E',
+};
+
+const compositionConfig = {
+  count: { label: 'Bases' },
+} satisfies ChartConfig;
+
+const gcConfig = {
+  gc: { label: 'GC %', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const countConfig = {
+  count: { label: 'Count', color: 'hsl(var(--secondary))' },
+} satisfies ChartConfig;
+
+const rscuConfig = {
+  sequence: { label: 'This sequence', color: 'hsl(var(--primary))' },
+  'e-coli': { label: 'E. coli', color: '#22C55E' },
+  human: { label: 'Human', color: '#F59E0B' },
+} satisfies ChartConfig;
+
+// Filter value that shows every amino acid with a choice of codons
+const ALL_AMINO_ACIDS = 'all';
+
+const SequenceStats = () => {
+  const [activeSection, setActiveSection] = useState('stats');
+  const [sequenceInput, setSequenceInput] = useState(EXAMPLE_DNA);
+  const [windowSize, setWindowSize] = useState(60);
+  const [tableId, setTableId] = useState(STANDARD_TABLE_ID);
+  const [aminoAcidFilter, setAminoAcidFilter] = useState(ALL_AMINO_ACIDS);
+  const [importedRecord, setImportedRecord] = useState<SequenceRecord | null>(null);
+  const [importedFeature, setImportedFeature] = useState<SequenceFeature | null>(null);
+
+  // Analyse the whole imported record; its CDS (or the picked one) supplies the codons
+  useEffect(() => {
+    if (importedRecord) setSequenceInput(importedRecord.sequence);
+  }, [importedRecord]);
+
+  const dna = useMemo(() => normalizeDNA(sequenceInput), [sequenceInput]);
+
+  // Codons have to be counted in frame: an annotated CDS, else the longest forward ORF, else the raw sequence
+  const coding = useMemo(() => {
+    const hasCds = importedFeature?.type === 'CDS' || importedRecord?.features.some(f => f.type === 'CDS');
+    if (importedRecord && hasCds && importedRecord.sequence === dna) {
+      return { dna: getCodingSequence(importedRecord, importedFeature), source: 'annotated CDS' };
+    }
+    const orf = findORFs(dna, 1, tableId).find(candidate => candidate.strand === '+');
+    if (orf) {
+      return { dna: orf.dna, source: `longest forward ORF (bases ${orf.forwardStart + 1}–${orf.forwardEnd})` };
+    }
+    return { dna, source: 'whole sequence, frame +1 (no ORF found)' };
+  }, [dna, importedRecord, importedFeature, tableId]);
+
+  const composition = useMemo(() => nucleotideComposition(dna), [dna]);
+  const overallGC = useMemo(() => gcContent(dna), [dna]);
+  const effectiveWindow = Math.min(windowSize, Math.max(dna.length, 1));
+  const gcWindows = useMemo(
+    () => slidingGC(dna, effectiveWindow, Math.max(1, Math.floor(dna.length / 300))),
+    [dna, effectiveWindow]
+  );
+  const [gc1, gc2, gc3] = useMemo(() => gcByCodonPosition(coding.dna), [coding.dna]);
+
+  const usage = useMemo(() => codonUsage(coding.dna, tableId), [coding.dna, tableId]);
+  const references = useMemo(
+    () => CODON_USAGE_TABLES.map(table => ({ ...table, usage: referenceCodonUsage(table.perThousand, tableId) })),
+    [tableId]
+  );
+  const codonTotal = usage.reduce((sum, entry) => sum + entry.count, 0);
+
+  // Amino acids with a choice of codons are the only ones where bias can show
+  const degenerateAminoAcids = useMemo(() => {
+    const families: Record<string, number> = {};
+    usage.forEach(entry => {
+      families[entry.aminoAcid] = (families[entry.aminoAcid] ?? 0) + 1;
+    });
+    return Object.keys(families).filter(aminoAcid => aminoAcid !== '*' && families[aminoAcid] > 1);
+  }, [usage]);
+
+  // One row per codon, with a column for the sequence and each reference table (keyed by table id)
+  const rscuData = useMemo(() => usage
+    .map((entry, i) => ({
+      codon: entry.codon,
+      aminoAcid: entry.aminoAcid,
+      sequence: Number(entry.rscu.toFixed(2)),
+      ...Object.fromEntries(references.map(reference => [reference.id, Number(reference.usage[i].rscu.toFixed(2))])),
+    }))
+    .filter(entry => aminoAcidFilter === ALL_AMINO_ACIDS
+      ? degenerateAminoAcids.includes(entry.aminoAcid)
+      : entry.aminoAcid === aminoAcidFilter),
+  [usage, references, aminoAcidFilter, degenerateAminoAcids]);
+
+  const similarity = references
+    .map(reference => ({ ...reference, cai: codonAdaptationIndex(usage, reference.usage) }))
+    .sort((a, b) => b.cai - a.cai);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pb-20 relative overflow-hidden">
+      <Helmet>
+        <title>Sequence Statistics | Protein Synthesis</title>
+        <meta name="description" content="Chart nucleotide composition, GC content and codon usage bias, and compare a gene with E. coli and human" />
+      </Helmet>
+
+      {/* Background blobs */}
+      <GooeyBlob
+        color="bg-primary/30"
+        size={600}
+        top="-100px"
+        right="-200px"
+        delay={0}
+        blur="2xl"
+      />
+      <GooeyBlob
+        color="bg-secondary/30"
+        size={500}
+        bottom="-100px"
+        left="-200px"
+        delay={2}
+        blur="2xl"
+      />
+
+      {/* Navigation */}
+      <NavBar activeSection={activeSection} onSectionChange={setActiveSection} />
+
+      <main className="container mx-auto px-4 pt-28 relative z-10 max-w-5xl">
+        <div className="text-center mb-12">
+          <h1 className="section-title">Sequence Statistics</h1>
+          <p className="section-subtitle max-w-3xl mx-auto">
+            Base composition, GC content and codon bias — and whether a gene reads more like E. coli or human
+          </p>
+        </div>
+
+        {/* Input */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <label htmlFor="stats-sequence" className="block text-white font-bold mb-2">DNA sequence (5'→3')</label>
+            <Textarea
+              id="stats-sequence"
+              value={sequenceInput}
+              onChange={(e) => setSequenceInput(e.target.value)}
+              spellCheck={false}
+              className="min-h-[120px] bg-muted/30 border-primary/20 text-white font-mono"
+            />
+            <p className="text-muted-foreground text-sm mt-2">
+              {dna.length} bases · codons counted from the {coding.source}
+            </p>
+          </div>
+
+          <SequenceImport
+            record={importedRecord}
+            selectedFeature={importedFeature}
+            onRecordChange={setImportedRecord}
+            onFeatureSelect={setImportedFeature}
+          />
+
+          <div>
+            <div className="text-white font-bold mb-3">Genetic code</div>
+            <TranslationTableSelect value={tableId} onChange={setTableId} />
+          </div>
+        </section>
+
+        {/* Composition and GC */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Composition</h2>
+            <p className="text-muted-foreground text-sm">
+              GC pairs are held by three hydrogen bonds rather than two, so GC-rich DNA melts at a higher temperature.
+              GC3 — GC at the third, "wobble" codon position — moves most freely and tracks codon bias.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatCard label="GC content" value={`${overallGC.toFixed(1)}%`} hint={`${dna.length} bases`} />
+            <StatCard label="GC1" value={`${gc1.toFixed(1)}%`} hint="first codon position" />
+            <StatCard label="GC2" value={`${gc2.toFixed(1)}%`} hint="second codon position" />
+            <StatCard label="GC3" value={`${gc3.toFixed(1)}%`} hint="third codon position" />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+              <h3 className="text-white font-bold mb-3">Nucleotide composition</h3>
+              <ChartContainer config={compositionConfig} className="aspect-auto h-64 w-full">
+                <BarChart data={composition}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="base" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+                  <Bar dataKey="count" radius={4}>
+                    {composition.map(entry => (
+                      <Cell key={entry.base} fill={BASE_COLORS[entry.base]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            <div className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+              <div className="flex justify-between items-baseline mb-3">
+                <h3 className="text-white font-bold">Sliding-window GC</h3>
+                <span className="font-mono text-secondary text-sm">{effectiveWindow} bp window</span>
+              </div>
+              <ChartContainer config={gcConfig} className="aspect-auto h-52 w-full">
+                <LineChart data={gcWindows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="position" type="number" domain={['dataMin', 'dataMax']} tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Base ${payload[0]?.payload.position}`} />} />
+                  <ReferenceLine y={overallGC} stroke="hsl(var(--secondary))" strokeDasharray="4 4" />
+                  <Line dataKey="gc" type="monotone" stroke="var(--color-gc)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ChartContainer>
+              <Slider
+                className="mt-4"
+                value={[windowSize]}
+                min={9}
+                max={300}
+                step={3}
+                onValueChange={([value]) => setWindowSize(value)}
+              />
+            </div>
+          </div>
+        </section>
+
+        {/* Codon usage */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Codon Usage ({codonTotal} codons)</h2>
+            <p className="text-muted-foreground text-sm">
+              How often each of the 64 codons appears in the reading frame.
+            </p>
+          </div>
+          <ChartContainer config={countConfig} className="aspect-auto h-72 w-full">
+            <BarChart data={usage}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="codon" interval={0} angle={-90} textAnchor="end" height={48} tickLine={false} axisLine={false} fontSize={10} />
+              <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const entry = payload[0]?.payload;
+                      return entry ? `${entry.codon} · ${entry.aminoAcid === '*' ? 'Stop' : AMINO_ACIDS[entry.aminoAcid]?.name ?? entry.aminoAcid}` : '';
+                    }}
+                  />
+                }
+              />
+              <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </section>
+
+        {/* RSCU and comparison */}
+        <section className="glass-card space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Codon Bias</h2>
+            <p className="text-muted-foreground text-sm">
+              Relative synonymous codon usage (RSCU) is how often a codon is used compared with an even split
+              among the codons for the same amino acid: 1 means no preference, above 1 means favoured. Organisms
+              favour the codons their most abundant tRNAs read, which is why genes are "codon-optimised" before
+              being expressed in a new host. The codon adaptation index scores a gene from 0 to 1 by how often it
+              uses each host's favourite codons.
+            </p>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            {similarity.map((reference, i) => (
+              <div key={reference.id} className="bg-muted/30 rounded-lg p-5 backdrop-blur-sm border border-primary/10">
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="text-white font-bold italic">{reference.name}</h3>
+                  {i === 0 && codonTotal > 0 && (
+                    <span className="px-3 py-1 bg-primary/20 rounded-full text-white text-xs font-medium">Closer match</span>
+                  )}
+                </div>
+                <div className="text-muted-foreground text-sm">
+                  Codon adaptation index <span className="font-mono text-white">{reference.cai.toFixed(2)}</span>
+                </div>
+                <div className="text-muted-foreground text-xs mt-1">{reference.source}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-white font-bold">Amino acid</span>
+            <Select value={aminoAcidFilter} onValueChange={setAminoAcidFilter}>
+              <SelectTrigger className="w-56 bg-muted/30 border-primary/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-80">
+                <SelectItem value={ALL_AMINO_ACIDS}>All with synonymous codons</SelectItem>
+                {degenerateAminoAcids.map(aminoAcid => (
+                  <SelectItem key={aminoAcid} value={aminoAcid}>
+                    {AMINO_ACIDS[aminoAcid]?.name ?? aminoAcid} ({aminoAcid})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <ChartContainer config={rscuConfig} className="aspect-auto h-80 w-full">
+            <BarChart data={rscuData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="codon" interval={0} angle={-90} textAnchor="end" height={48} tickLine={false} axisLine={false} fontSize={10} />
+              <YAxis tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const entry = payload[0]?.payload;
+                      return entry ? `${entry.codon} · ${AMINO_ACIDS[entry.aminoAcid]?.name ?? entry.aminoAcid}` : '';
+                    }}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <ReferenceLine y={1} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+              <Bar dataKey="sequence" fill="var(--color-sequence)" radius={2} />
+              <Bar dataKey="e-coli" fill="var(--color-e-coli)" radius={2} />
+              <Bar dataKey="human" fill="var(--color-human)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default SequenceStats;
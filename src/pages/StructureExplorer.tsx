@@ -0,0 +1,365 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Helmet } from 'react-helmet';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, Loader2, Upload } from 'lucide-react';
+import NavBar from '@/components/NavBar';
+import GooeyBlob from '@/components/GooeyBlob';
+import StatCard from '@/components/StatCard';
+import StructureViewer, { type ColorMode, type RenderStyle } from '@/components/StructureViewer';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { type AminoAcidProperty } from '@/lib/genetic-code';
+import { PROPERTY_COLORS } from '@/lib/protein-properties';
+import { SECONDARY_STRUCTURE_COLORS, type SecondaryStructure } from '@/lib/secondary-structure';
+import {
+  CHAIN_COLORS,
+  getPresetArchiveUrl,
+  getPresetUrl,
+  parseStructureFile,
+  STRUCTURE_FILE_EXTENSIONS,
+  STRUCTURE_PRESETS,
+  type ProteinStructure,
+} from '@/lib/structure-files';
+
+const RENDER_STYLES: { id: RenderStyle; label: string }[] = [
+  { id: 'cartoon', label: 'Cartoon' },
+  { id: 'trace', label: 'Backbone trace' },
+  { id: 'ball-and-stick', label: 'Ball and stick' },
+];
+
+const COLOR_MODES: { id: ColorMode; label: string }[] = [
+  { id: 'chain', label: 'Chain' },
+  { id: 'secondary', label: 'Secondary structure' },
+  { id: 'property', label: 'Residue property' },
+];
+
+const SECONDARY_LABELS: Record<SecondaryStructure, string> = {
+  helix: 'α-helix',
+  strand: 'β-strand',
+  coil: 'Coil',
+};
+
+const PROPERTY_LABELS: Record<AminoAcidProperty, string> = {
+  hydrophobic: 'Hydrophobic',
+  hydrophilic: 'Polar',
+  positive: 'Positive',
+  negative: 'Negative',
+  special: 'Special (G, P, C)',
+};
+
+// Read the bundled copy first and fall back to the RCSB archive only when that copy is missing or unreadable
+const fetchPreset = async (id: string): Promise<ProteinStructure> => {
+  const bundledUrl = getPresetUrl(id);
+  try {
+    const response = await fetch(bundledUrl);
+    if (response.ok) return parseStructureFile(await response.text());
+  } catch {
+    // Unreachable or not a structure file (an SPA rewrite serves index.html), so try the archive
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(getPresetArchiveUrl(id));
+  } catch {
+    throw new Error(`${bundledUrl} is not available and the RCSB archive could not be reached`);
+  }
+  if (!response.ok) throw new Error(`${bundledUrl} is not available and the RCSB archive answered ${response.status}`);
+  try {
+    return parseStructureFile(await response.text());
+  } catch (e) {
+    throw new Error(`The RCSB copy of ${id} could not be read: ${e instanceof Error ? e.message : e}`);
+  }
+};
+
+const StructureExplorer = () => {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [activeSection, setActiveSection] = useState('structures');
+  const [structure, setStructure] = useState<ProteinStructure | null>(null);
+  const [source, setSource] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [renderStyle, setRenderStyle] = useState<RenderStyle>('cartoon');
+  const [colorMode, setColorMode] = useState<ColorMode>('secondary');
+  const [morphKey, setMorphKey] = useState(0);
+  // Bumped by every load, so a slow preset cannot replace a structure picked after it
+  const requestRef = useRef(0);
+
+  // Every newly loaded structure folds up from its unfolded chain
+  const showStructure = (loaded: ProteinStructure) => {
+    setStructure(loaded);
+    setError(null);
+    setMorphKey(key => key + 1);
+  };
+
+  const loadPreset = useCallback(async (id: string) => {
+    const request = ++requestRef.current;
+    setSource(id);
+    setIsLoading(true);
+    try {
+      const loaded = await fetchPreset(id);
+      if (request !== requestRef.current) return;
+      showStructure(loaded);
+    } catch (e) {
+      if (request !== requestRef.current) return;
+      setError(e instanceof Error ? e.message : 'Could not download this structure');
+    } finally {
+      if (request === requestRef.current) setIsLoading(false);
+    }
+  }, []);
+
+  const loadFile = async (file: File) => {
+    const request = ++requestRef.current;
+    setSource(file.name);
+    setIsLoading(false);
+    try {
+      const text = await file.text();
+      if (request !== requestRef.current) return;
+      showStructure(parseStructureFile(text));
+    } catch (e) {
+      if (request !== requestRef.current) return;
+      setError(e instanceof Error ? e.message : 'Could not read this file');
+    }
+  };
+
+  useEffect(() => {
+    loadPreset(STRUCTURE_PRESETS[0].id);
+  }, [loadPreset]);
+
+  const residues = structure?.chains.flatMap(chain => chain.residues) ?? [];
+  const share = (type: SecondaryStructure) =>
+    residues.length === 0 ? 0 : Math.round(100 * residues.filter(residue => residue.secondary === type).length / residues.length);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pb-20 relative overflow-hidden">
+      <Helmet>
+        <title>Structure Explorer | Protein Synthesis</title>
+        <meta name="description" content="View real protein structures from PDB and mmCIF files as cartoons, backbone traces or ball-and-stick models" />
+      </Helmet>
+
+      {/* Background blobs */}
+      <GooeyBlob
+        color="bg-primary/30"
+        size={600}
+        top="-100px"
+        right="-200px"
+        delay={0}
+        blur="2xl"
+      />
+      <GooeyBlob
+        color="bg-secondary/30"
+        size={500}
+        bottom="-100px"
+        left="-200px"
+        delay={2}
+        blur="2xl"
+      />
+
+      {/* Navigation */}
+      <NavBar activeSection={activeSection} onSectionChange={setActiveSection} />
+
+      <main className="container mx-auto px-4 pt-28 relative z-10 max-w-5xl">
+        <div className="text-center mb-12">
+          <h1 className="section-title">Structure Explorer</h1>
+          <p className="section-subtitle max-w-3xl mx-auto">
+            Real proteins, solved by X-ray crystallography — watch a chain fold into the shape that was measured
+          </p>
+        </div>
+
+        {/* Choose a structure */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-2">Choose a Structure</h2>
+            <p className="text-muted-foreground text-sm">
+              Pick a classic structure or upload your own PDB or mmCIF file.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {STRUCTURE_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => loadPreset(preset.id)}
+                disabled={isLoading}
+                className={cn(
+                  'text-left bg-muted/30 rounded-lg p-4 border transition-colors',
+                  source === preset.id ? 'border-secondary/60 bg-secondary/10' : 'border-primary/10 hover:border-primary/40'
+                )}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-white font-bold">{preset.name}</span>
+                  <span className="font-mono text-xs text-secondary">{preset.id}</span>
+                </div>
+                <p className="text-white/70 text-sm">{preset.description}</p>
+              </button>
+            ))}
+          </div>
+
+          {/* Drop zone */}
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              const file = e.dataTransfer.files[0];
+              if (file) loadFile(file);
+            }}
+            onClick={() => inputRef.current?.click()}
+            className={cn(
+              'flex flex-col items-center justify-center gap-2 p-6 rounded-lg border-2 border-dashed cursor-pointer transition-colors text-center',
+              isDragging ? 'border-secondary bg-secondary/10' : 'border-primary/30 hover:border-primary/60 hover:bg-primary/5'
+            )}
+          >
+            <Upload className="w-6 h-6 text-primary" />
+            <div className="text-white text-sm font-medium">Drop a PDB or mmCIF file here, or click to upload</div>
+            <div className="text-muted-foreground text-xs">{STRUCTURE_FILE_EXTENSIONS.join(' ')}</div>
+            <input
+              ref={inputRef}
+              type="file"
+              accept={STRUCTURE_FILE_EXTENSIONS.join(',')}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive" className="bg-red-500/10">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Could not load {source}</AlertTitle>
+              <AlertDescription className="font-mono text-xs">{error}</AlertDescription>
+            </Alert>
+          )}
+        </section>
+
+        {/* Viewer */}
+        <section className="glass-card space-y-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div className="min-w-0">
+              <h2 className="text-2xl font-bold text-white mb-1">
+                {structure ? structure.id || source : 'Loading…'}
+              </h2>
+              {structure?.title && <p className="text-muted-foreground text-sm capitalize">{structure.title.toLowerCase()}</p>}
+            </div>
+            <Button size="sm" variant="outline" onClick={() => setMorphKey(key => key + 1)} disabled={!structure}>
+              Fold from unfolded chain
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {RENDER_STYLES.map(option => (
+              <Button
+                key={option.id}
+                size="sm"
+                variant={renderStyle === option.id ? 'default' : 'outline'}
+                onClick={() => setRenderStyle(option.id)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-white/70 text-sm mr-1">Colour by</span>
+            {COLOR_MODES.map(option => (
+              <Button
+                key={option.id}
+                size="sm"
+                variant={colorMode === option.id ? 'default' : 'outline'}
+                onClick={() => setColorMode(option.id)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="h-[28rem] w-full relative rounded-lg overflow-hidden border border-primary/10 bg-gradient-to-b from-popover to-background">
+            {structure && (
+              <StructureViewer
+                structure={structure}
+                renderStyle={renderStyle}
+                colorMode={colorMode}
+                morphKey={morphKey}
+              />
+            )}
+            {isLoading && (
+              <div className="absolute inset-0 flex items-center justify-center gap-2 text-white/80 bg-background/40">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                Loading {source}…
+              </div>
+            )}
+          </div>
+
+          {/* Legend for the current colour mode */}
+          {structure && (
+            <div className="flex flex-wrap gap-3 text-xs text-white/80">
+              {colorMode === 'chain' && structure.chains.map((chain, i) => (
+                <div key={chain.id} className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: CHAIN_COLORS[i % CHAIN_COLORS.length] }} />
+                  Chain {chain.id}
+                </div>
+              ))}
+              {colorMode === 'secondary' && (Object.keys(SECONDARY_LABELS) as SecondaryStructure[]).map(type => (
+                <div key={type} className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: SECONDARY_STRUCTURE_COLORS[type] }} />
+                  {SECONDARY_LABELS[type]} · {share(type)}%
+                </div>
+              ))}
+              {colorMode === 'property' && (Object.keys(PROPERTY_LABELS) as AminoAcidProperty[]).map(property => (
+                <div key={property} className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: PROPERTY_COLORS[property] }} />
+                  {PROPERTY_LABELS[property]}
+                </div>
+              ))}
+              <span className="text-white/50">· drag to rotate</span>
+            </div>
+          )}
+
+          {structure && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <StatCard label="Chains" value={String(structure.chains.length)} />
+                <StatCard label="Residues" value={String(residues.length)} />
+                <StatCard label="Atoms" value={structure.atomCount.toLocaleString()} hint="first model, waters included" />
+                <StatCard
+                  label="Ligands"
+                  value={String(structure.ligands.length)}
+                  hint={[...new Set(structure.ligands.map(ligand => ligand.name))].join(', ') || 'none'}
+                />
+              </div>
+              <p className="text-muted-foreground text-sm">
+                {structure.annotated
+                  ? 'Helices and strands come from the file’s own annotation.'
+                  : 'This file has no helix or sheet records, so secondary structure is predicted with the Chou-Fasman method.'}
+              </p>
+
+              {/* Each chain can be analysed on its own */}
+              <div className="flex flex-wrap items-center gap-2 text-sm text-white/70">
+                <span>Analyse a chain:</span>
+                {structure.chains.map(chain => (
+                  <button
+                    key={chain.id}
+                    onClick={() => navigate(`/tools/protein?sequence=${chain.residues.map(residue => residue.oneLetter).join('')}`)}
+                    className="px-3 py-1 bg-primary/20 hover:bg-primary/40 rounded-full text-white text-xs font-medium transition-colors"
+                  >
+                    Chain {chain.id} · {chain.residues.length} aa
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default StructureExplorer;
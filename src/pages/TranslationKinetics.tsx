@@ -0,0 +1,393 @@
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { Helmet } from 'react-helmet';
+import { useSearchParams } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, XAxis, YAxis } from 'recharts';
+import NavBar from '@/components/NavBar';
+import GooeyBlob from '@/components/GooeyBlob';
+import SequenceImport from '@/components/SequenceImport';
+import StatCard from '@/components/StatCard';
+import TranslationTableSelect from '@/components/TranslationTableSelect';
+import { Button } from '@/components/ui/button';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { useCellType } from '@/hooks/use-cell-type';
+import { CODON_USAGE_TABLES, getCodonUsageTable } from '@/lib/codon-usage-tables';
+import { decodeMRNA, normalizeRNA } from '@/lib/genetic-code';
+import { getCodingSequence, type SequenceFeature, type SequenceRecord } from '@/lib/sequence-files';
+import {
+  DEFAULT_KINETICS,
+  optimiseCodons,
+  simulateTranslation,
+  tRNAAbundanceFromUsage,
+  uniformTRNAAbundance,
+} from '@/lib/translation-kinetics';
+import { STANDARD_TABLE_ID } from '@/lib/translation-tables';
+
+// Start of EGFP with a run of codons that are rare in E. coli (AGG AGG CUA AUA AGA CCC) in the middle
+const EXAMPLE_MRNA =
+  'AUGGUGAGCAAGGGCGAGGAGCUGUUCACCGGGGUGGUGCCCAUCCUGGUCGAGCUGGACGGCGACGUAAACGGCCACAAGUUCAGCGUG' +
+  'AGGAGGCUAAUAAGACCC' +
+  'UCCGGCGAGGGCGAGGGCGAUGCCACCUACGGCAAGCUGACCCUGAAGUUCAUCUGCACCACCGGCAAGCUGCCCGUGCCCUGGCCCACC' +
+  'CUCGUGACCACCCUGACCUACGGCGUGCAGUGCUUCAGCCGCUACCCCGACCACAUGAAGCAGCACGACUUCUUCAAGUAA';
+
+const UNIFORM_POOL = 'uniform';
+
+const TRNA_POOLS = [
+  ...CODON_USAGE_TABLES.map(table => ({ id: table.id, label: table.name })),
+  { id: UNIFORM_POOL, label: 'Every tRNA equally common' },
+];
+
+// Codons whose tRNA is under half as common as average count as rare
+const RARE_ABUNDANCE = 0.5;
+
+// Ten simulated minutes, long enough for the ribosome queue to settle
+const SIMULATED_SECONDS = 600;
+
+const comparisonConfig = {
+  gene: { label: 'This gene', color: '#F43F5E' },
+  optimised: { label: 'Codon-optimised', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const rateConfig = {
+  rate: { label: 'Codons per second', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const TranslationKinetics = () => {
+  const [searchParams] = useSearchParams();
+  const { cellType } = useCellType();
+  const [activeSection, setActiveSection] = useState('kinetics');
+  const [sequenceInput, setSequenceInput] = useState(() => searchParams.get('sequence') ?? EXAMPLE_MRNA);
+  const [tableId, setTableId] = useState(STANDARD_TABLE_ID);
+  const [poolId, setPoolId] = useState(cellType === 'prokaryote' ? 'e-coli' : 'human');
+  const [initiationRate, setInitiationRate] = useState(DEFAULT_KINETICS.initiationRate);
+  const [elongationRate, setElongationRate] = useState(DEFAULT_KINETICS.elongationRate);
+  const [importedRecord, setImportedRecord] = useState<SequenceRecord | null>(null);
+  const [importedFeature, setImportedFeature] = useState<SequenceFeature | null>(null);
+
+  // Sliders stay responsive while the simulation catches up
+  const deferredInitiation = useDeferredValue(initiationRate);
+  const deferredElongation = useDeferredValue(elongationRate);
+
+  useEffect(() => {
+    if (!importedRecord) return;
+    setSequenceInput(getCodingSequence(importedRecord, importedFeature));
+  }, [importedRecord, importedFeature]);
+
+  // Read from the first AUG to the first stop, as the ribosome would
+  const codons = useMemo(
+    () => decodeMRNA(normalizeRNA(sequenceInput), tableId).map(({ codon }) => codon),
+    [sequenceInput, tableId]
+  );
+
+  const abundance = useMemo(() => {
+    const usage = getCodonUsageTable(poolId);
+    return usage ? tRNAAbundanceFromUsage(usage.perThousand, tableId) : uniformTRNAAbundance(tableId);
+  }, [poolId, tableId]);
+
+  const optimisedCodons = useMemo(() => optimiseCodons(codons, abundance, tableId), [codons, abundance, tableId]);
+
+  const { gene, optimised } = useMemo(() => {
+    const parameters = {
+      ...DEFAULT_KINETICS,
+      initiationRate: deferredInitiation,
+      elongationRate: deferredElongation,
+      tRNAAbundance: abundance,
+    };
+    const options = { duration: SIMULATED_SECONDS, samples: 120 };
+    return {
+      gene: simulateTranslation(codons, parameters, options, tableId),
+      optimised: simulateTranslation(optimisedCodons, parameters, options, tableId),
+    };
+  }, [codons, optimisedCodons, abundance, deferredInitiation, deferredElongation, tableId]);
+
+  const output = useMemo(
+    () => gene.timeline.map((sample, i) => ({
+      time: sample.time,
+      gene: sample.proteins,
+      optimised: optimised.timeline[i]?.proteins ?? 0,
+    })),
+    [gene, optimised]
+  );
+
+  const density = useMemo(
+    () => codons.map((codon, i) => ({
+      position: i + 1,
+      codon,
+      gene: Number(gene.density[i].toFixed(3)),
+      optimised: Number(optimised.density[i].toFixed(3)),
+    })),
+    [codons, gene, optimised]
+  );
+
+  const rates = useMemo(
+    () => codons.map((codon, i) => ({
+      position: i + 1,
+      codon,
+      rate: Number(gene.rates[i].toFixed(2)),
+      rare: i < codons.length - 1 && (abundance[codon] ?? 1) < RARE_ABUNDANCE,
+    })),
+    [codons, gene, abundance]
+  );
+
+  const rareCount = rates.filter(({ rare }) => rare).length;
+  const speedUp = gene.proteinRate > 0 ? optimised.proteinRate / gene.proteinRate : 0;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground pb-20 relative overflow-hidden">
+      <Helmet>
+        <title>Translation Kinetics | Protein Synthesis</title>
+        <meta name="description" content="Stochastic simulation of ribosomes on an mRNA: protein output, ribosome density and the cost of rare codons" />
+      </Helmet>
+
+      {/* Background blobs */}
+      <GooeyBlob
+        color="bg-primary/30"
+        size={600}
+        top="-100px"
+        right="-200px"
+        delay={0}
+        blur="2xl"
+      />
+      <GooeyBlob
+        color="bg-secondary/30"
+        size={500}
+        bottom="-100px"
+        left="-200px"
+        delay={2}
+        blur="2xl"
+      />
+
+      {/* Navigation */}
+      <NavBar activeSection={activeSection} onSectionChange={setActiveSection} />
+
+      <main className="container mx-auto px-4 pt-28 relative z-10 max-w-5xl">
+        <div className="text-center mb-12">
+          <h1 className="section-title">Translation Kinetics</h1>
+          <p className="section-subtitle max-w-3xl mx-auto">
+            Simulate ribosomes loading, elongating and queuing on an mRNA, and see what rare codons cost the cell
+          </p>
+        </div>
+
+        {/* Input */}
+        <section className="glass-card mb-8 space-y-6">
+          <div>
+            <label htmlFor="kinetics-sequence" className="block text-white font-bold mb-2">
+              DNA or mRNA (5'→3')
+            </label>
+            <Textarea
+              id="kinetics-sequence"
+              value={sequenceInput}
+              onChange={(e) => setSequenceInput(e.target.value)}
+              spellCheck={false}
+              className="min-h-[100px] bg-muted/30 border-primary/20 text-white font-mono"
+            />
+            <p className="text-muted-foreground text-sm mt-2">
+              {codons.length} codons from the first AUG to the first stop · {rareCount} rare
+            </p>
+          </div>
+
+          <SequenceImport
+            record={importedRecord}
+            selectedFeature={importedFeature}
+            onRecordChange={setImportedRecord}
+            onFeatureSelect={setImportedFeature}
+          />
+
+          <div>
+            <div className="text-white font-bold mb-3">Genetic code</div>
+            <TranslationTableSelect value={tableId} onChange={setTableId} />
+          </div>
+
+          <div>
+            <div className="text-white font-bold mb-3">tRNA pool</div>
+            <div className="flex flex-wrap gap-2">
+              {TRNA_POOLS.map(pool => (
+                <Button
+                  key={pool.id}
+                  size="sm"
+                  variant={poolId === pool.id ? 'default' : 'outline'}
+                  onClick={() => setPoolId(pool.id)}
+                >
+                  {pool.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-sm mt-2">
+              Each codon's tRNA supply is taken to follow how often the host uses that codon.
+            </p>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <div className="flex justify-between text-white mb-3">
+                <span className="font-bold">Initiation rate</span>
+                <span className="font-mono text-secondary">{initiationRate.toFixed(2)} /s</span>
+              </div>
+              <Slider
+                value={[initiationRate]}
+                min={0.05}
+                max={2}
+                step={0.05}
+                onValueChange={([value]) => setInitiationRate(value)}
+              />
+            </div>
+            <div>
+              <div className="flex justify-between text-white mb-3">
+                <span className="font-bold">Elongation rate</span>
+                <span className="font-mono text-secondary">{elongationRate} codons/s</span>
+              </div>
+              <Slider
+                value={[elongationRate]}
+                min={2}
+                max={25}
+                step={1}
+                onValueChange={([value]) => setElongationRate(value)}
+              />
+            </div>
+          </div>
+        </section>
+
+        {codons.length === 0 ? (
+          <section className="glass-card">
+            <p className="text-muted-foreground text-center">No AUG start codon found in this sequence.</p>
+          </section>
+        ) : (
+          <>
+            {/* Headline numbers */}
+            <section className="glass-card mb-8 space-y-6">
+              <div>
+                <h2 className="text-2xl font-bold text-white mb-2">Steady State</h2>
+                <p className="text-muted-foreground text-sm">
+                  Averages over the last {SIMULATED_SECONDS * 0.8 / 60} of {SIMULATED_SECONDS / 60} simulated minutes,
+                  after the first ribosomes have reached the stop codon. Each ribosome covers{' '}
+                  {DEFAULT_KINETICS.footprint} codons and cannot move into the one ahead.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                <StatCard
+                  label="Proteins per minute"
+                  value={(gene.proteinRate * 60).toFixed(1)}
+                  hint={`${(optimised.proteinRate * 60).toFixed(1)} codon-optimised`}
+                />
+                <StatCard
+                  label="Time per protein"
+                  value={`${gene.meanTranslationTime.toFixed(1)} s`}
+                  hint={`${optimised.meanTranslationTime.toFixed(1)} s codon-optimised`}
+                />
+                <StatCard
+                  label="Ribosomes on the mRNA"
+                  value={gene.meanRibosomes.toFixed(1)}
+                  hint={`${optimised.meanRibosomes.toFixed(1)} codon-optimised`}
+                />
+                <StatCard
+                  label="Time spent queuing"
+                  value={`${(gene.blockedFraction * 100).toFixed(0)}%`}
+                  hint={`${(optimised.blockedFraction * 100).toFixed(0)}% codon-optimised`}
+                />
+                <StatCard label="Rare codons" value={String(rareCount)} hint={`tRNA under ${RARE_ABUNDANCE}× average`} />
+                <StatCard
+                  label="Gain from optimising"
+                  value={speedUp > 0 ? `${speedUp.toFixed(2)}×` : '–'}
+                  hint="proteins per minute"
+                />
+              </div>
+            </section>
+
+            {/* Output over time */}
+            <section className="glass-card mb-8 space-y-6">
+              <div>
+                <h2 className="text-2xl font-bold text-white mb-2">Protein Output</h2>
+                <p className="text-muted-foreground text-sm">
+                  Finished proteins released from one mRNA. The flat start is the time the first ribosome needs to
+                  read the whole message; after that the slope is the rate of the slowest step — initiation, or a
+                  queue at the slowest codons.
+                </p>
+              </div>
+              <ChartContainer config={comparisonConfig} className="aspect-auto h-64 w-full">
+                <LineChart data={output}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="time" type="number" domain={[0, SIMULATED_SECONDS]} tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload[0]?.payload.time} s`} />} />
+                  <Line dataKey="gene" type="stepAfter" stroke="var(--color-gene)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line dataKey="optimised" type="stepAfter" stroke="var(--color-optimised)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ChartContainer>
+            </section>
+
+            {/* Where the ribosomes are */}
+            <section className="glass-card mb-8 space-y-6">
+              <div>
+                <h2 className="text-2xl font-bold text-white mb-2">Ribosome Density</h2>
+                <p className="text-muted-foreground text-sm">
+                  How often a ribosome's A site sits on each codon — what ribosome profiling measures. Ribosomes pile
+                  up on slow codons and in the queue that forms behind them.
+                </p>
+              </div>
+              <ChartContainer config={comparisonConfig} className="aspect-auto h-64 w-full">
+                <LineChart data={density}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="position" type="number" domain={[1, codons.length]} tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => {
+                          const point = payload[0]?.payload;
+                          return point ? `Codon ${point.position} · ${point.codon}` : '';
+                        }}
+                      />
+                    }
+                  />
+                  <Line dataKey="gene" type="monotone" stroke="var(--color-gene)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line dataKey="optimised" type="monotone" stroke="var(--color-optimised)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ChartContainer>
+            </section>
+
+            {/* Speed of each codon */}
+            <section className="glass-card space-y-6">
+              <div>
+                <h2 className="text-2xl font-bold text-white mb-2">Codon by Codon</h2>
+                <p className="text-muted-foreground text-sm">
+                  The rate at which a lone ribosome reads each codon, set by how plentiful its tRNA is. Rare codons
+                  are shown in red; the last bar is the stop codon, where release factors take over.
+                </p>
+              </div>
+              <ChartContainer config={rateConfig} className="aspect-auto h-64 w-full">
+                <BarChart data={rates}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="position" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => {
+                          const point = payload[0]?.payload;
+                          return point ? `Codon ${point.position} · ${point.codon}${point.rare ? ' (rare)' : ''}` : '';
+                        }}
+                      />
+                    }
+                  />
+                  <Bar dataKey="rate" isAnimationActive={false}>
+                    {rates.map(({ position, rare }) => (
+                      <Cell key={position} fill={rare ? '#F43F5E' : 'var(--color-rate)'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default TranslationKinetics;